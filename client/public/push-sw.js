@@ -0,0 +1,26 @@
+// Service worker for queue status push notifications (see server/push.ts for the payload)
+
+self.addEventListener("push", (event) => {
+  const payload = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Queue update", {
+      body: payload.body,
+      tag: payload.tag,
+      renotify: true,
+      requireInteraction: true,
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+// Tapping the notification brings back (or reopens) the ticket's status page
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data && event.notification.data.url;
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).pathname === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
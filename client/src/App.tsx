@@ -14,13 +14,20 @@ import { useState, useEffect } from "react";
 import Dashboard from "@/pages/dashboard";
 import Management from "@/pages/management";
 import Register from "@/pages/register";
+import Appointments from "@/pages/appointments";
 import Queue from "@/pages/queue";
 import Dispensary from "@/pages/dispensary";
+import Reports from "@/pages/reports";
 import Settings from "@/pages/settings";
 import Account from "@/pages/account";
 import Administration from "@/pages/administration";
+import Staff from "@/pages/staff";
 import LoginPage from "@/pages/login";
 import QrAuthPage from "@/pages/qr-auth";
+import KioskPage from "@/pages/kiosk";
+import DispensaryDisplayPage from "@/pages/dispensary-display";
+import TvPage from "@/pages/tv";
+import QueueStatusPage from "@/pages/queue-status";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -29,11 +36,14 @@ function Router() {
       <Route path="/" component={Dashboard} />
       <Route path="/management" component={Management} />
       <Route path="/register" component={Register} />
+      <Route path="/appointments" component={Appointments} />
       <Route path="/queue" component={Queue} />
       <Route path="/dispensary" component={Dispensary} />
+      <Route path="/reports" component={Reports} />
       <Route path="/settings" component={Settings} />
       <Route path="/account" component={Account} />
       <Route path="/administration" component={Administration} />
+      <Route path="/staff" component={Staff} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -121,6 +131,30 @@ function AppContent() {
     return <QrAuthPage sessionId={sessionId} />;
   }
 
+  // Public self-service kiosk - bound to a display token, no staff login
+  if (location === '/kiosk' || location.startsWith('/kiosk/')) {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    return <KioskPage token={token} />;
+  }
+
+  // Public TV display - calls of the token's display profile
+  if (location === '/tv' || location.startsWith('/tv/')) {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    return <TvPage token={token} />;
+  }
+
+  // Public pharmacy TV panel - ready prescriptions by number
+  if (location === '/dispensary-display' || location.startsWith('/dispensary-display/')) {
+    const token = new URLSearchParams(window.location.search).get('token') || '';
+    return <DispensaryDisplayPage token={token} />;
+  }
+
+  // Public queue status page - reached from the ticket QR code
+  if (location.startsWith('/status/')) {
+    const code = location.replace('/status/', '').replace(/\/$/, '');
+    return <QueueStatusPage code={code} />;
+  }
+
   // Regular authentication flow
   if (isLoading) {
     return (
@@ -8,11 +8,15 @@ import {
   Shield,
   LogOut,
   Pill,
+  BarChart3,
+  IdCard,
+  CalendarClock,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import logoImage from "@assets/EZTURN (1)_1759062234605.png";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { hasPermission, getRoleLabel, type Permission } from "@shared/roles";
 
 import {
   Sidebar,
@@ -26,7 +30,14 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 
-const mainNavigationItems = [
+interface NavigationItem {
+  title: string;
+  url: string;
+  icon: typeof LayoutDashboard;
+  permission?: Permission; // Hidden for roles without it
+}
+
+const mainNavigationItems: NavigationItem[] = [
   {
     title: "Dashboard",
     url: "/",
@@ -36,24 +47,40 @@ const mainNavigationItems = [
     title: "Patient Register",
     url: "/register",
     icon: UserPlus,
+    permission: "patients:register",
+  },
+  {
+    title: "Appointments",
+    url: "/appointments",
+    icon: CalendarClock,
+    permission: "patients:register",
   },
   {
     title: "Queue Management",
     url: "/queue",
     icon: ClipboardList,
+    permission: "queue:call",
   },
   {
     title: "Dispensary Management",
     url: "/dispensary",
     icon: Pill,
+    permission: "dispensary:manage",
+  },
+  {
+    title: "Reports",
+    url: "/reports",
+    icon: BarChart3,
+    permission: "reports:view",
   },
 ];
 
-const administrationItems = [
+const administrationItems: NavigationItem[] = [
   {
     title: "Settings",
     url: "/settings",
     icon: Settings,
+    permission: "settings:manage",
   },
   {
     title: "Account Settings",
@@ -64,6 +91,13 @@ const administrationItems = [
     title: "System Management",
     url: "/management",
     icon: Users,
+    permission: "settings:manage",
+  },
+  {
+    title: "Staff",
+    url: "/staff",
+    icon: IdCard,
+    permission: "staff:manage",
   },
   {
     title: "User Management",
@@ -129,7 +163,7 @@ export function AppSidebar() {
         <div>
           <div className="sidebar-section-header">MAIN NAVIGATION</div>
           <SidebarMenu className="space-y-1">
-            {mainNavigationItems.map((item) => (
+            {mainNavigationItems.filter(item => !item.permission || hasPermission(user?.role, item.permission)).map((item) => (
               <SidebarMenuItem key={item.title}>
                 <SidebarMenuButton 
                   asChild 
@@ -157,6 +191,9 @@ export function AppSidebar() {
               if (item.title === "User Management" && user?.role !== "admin") {
                 return null;
               }
+              if (item.permission && !hasPermission(user?.role, item.permission)) {
+                return null;
+              }
               
               return (
                 <SidebarMenuItem key={item.title}>
@@ -192,7 +229,7 @@ export function AppSidebar() {
               {user.username}
             </div>
             <div className="text-sidebar-foreground/60 text-xs">
-              {user.role === 'admin' ? 'Administrator' : 'User'}
+              {getRoleLabel(user.role)}
             </div>
             {user.clinicName && (
               <div className="text-sidebar-foreground/60 text-xs mt-1">
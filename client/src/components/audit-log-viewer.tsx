@@ -0,0 +1,289 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Search } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { AUDIT_TARGET_TYPES, AUDIT_RETENTION_SETTING_KEY, type AuditLogPage, type AuditEntry } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL_TARGETS = "all";
+
+// Helper: 'display_token' -> 'Display token'
+function formatTargetType(targetType: string) {
+  const label = targetType.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function SnapshotBlock({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div className="space-y-1 min-w-0">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <pre className="text-xs bg-muted rounded-md p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all">
+        {value === null || value === undefined ? "-" : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+// Clinic audit trail - who did what, with before/after snapshots
+export function AuditLogViewer() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [targetType, setTargetType] = useState<string>(ALL_TARGETS);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retentionInput, setRetentionInput] = useState("");
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  if (search.trim()) params.set("q", search.trim());
+  if (targetType !== ALL_TARGETS) params.set("targetType", targetType);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading } = useQuery<AuditLogPage>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+  });
+
+  const entries: AuditEntry[] = data?.entries || [];
+  const total = data?.total || 0;
+
+  useEffect(() => {
+    if (data) {
+      setRetentionInput(String(data.retentionDays));
+    }
+  }, [data?.retentionDays]);
+
+  // Any filter change starts again from the newest entry
+  useEffect(() => {
+    setOffset(0);
+  }, [search, targetType, from, to]);
+
+  const retentionMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const response = await apiRequest("PUT", `/api/settings/${AUDIT_RETENTION_SETTING_KEY}`, {
+        value: String(days),
+        category: "audit"
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/audit-log') });
+      toast({
+        title: "Retention Updated",
+        description: "Older audit entries are purged automatically",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update audit retention",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSaveRetention = () => {
+    const days = parseInt(retentionInput, 10);
+    if (!Number.isFinite(days) || days < 1) {
+      toast({
+        title: "Validation Error",
+        description: "Retention must be at least 1 day",
+        variant: "destructive",
+      });
+      return;
+    }
+    retentionMutation.mutate(days);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Audit Log ({total})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1 flex-1 min-w-48">
+            <Label htmlFor="auditSearch">Search</Label>
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="auditSearch"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="User, action or target id"
+                className="pl-8"
+                data-testid="input-audit-search"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Target</Label>
+            <Select value={targetType} onValueChange={setTargetType}>
+              <SelectTrigger className="w-44" data-testid="select-audit-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TARGETS}>All targets</SelectItem>
+                {AUDIT_TARGET_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{formatTargetType(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditFrom">From</Label>
+            <Input
+              id="auditFrom"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditTo">To</Label>
+            <Input
+              id="auditTo"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditRetention">Keep (days)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="auditRetention"
+                type="number"
+                min={1}
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                className="w-24"
+                data-testid="input-audit-retention"
+              />
+              <Button
+                variant="outline"
+                onClick={handleSaveRetention}
+                disabled={retentionMutation.isPending}
+                data-testid="button-save-audit-retention"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Entries */}
+        {isLoading ? (
+          <div className="text-center text-muted-foreground py-8">Loading...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">No audit entries</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead className="w-10"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow data-testid={`audit-row-${entry.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actorUsername || "Public"}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{formatTargetType(entry.targetType)}</div>
+                        {entry.targetId && (
+                          <div className="text-xs text-muted-foreground truncate max-w-48">{entry.targetId}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{entry.ipAddress || "-"}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                          data-testid={`button-expand-audit-${entry.id}`}
+                        >
+                          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={6}>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <SnapshotBlock title="Before" value={entry.before} />
+                            <SnapshotBlock title="After" value={entry.after} />
+                          </div>
+                          {entry.userAgent && (
+                            <div className="text-xs text-muted-foreground mt-2 break-all">{entry.userAgent}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-muted-foreground">
+            {total === 0 ? "0" : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)}`} of {total}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              data-testid="button-audit-prev"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              data-testid="button-audit-next"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Clock, Save } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ClinicScheduleResponse, UpdateClinicScheduleRequest } from "@shared/schema";
+import { WEEKDAY_LABELS, type OpeningHours } from "@shared/clinic-time";
+
+const DEFAULT_DAY_HOURS = { open: "08:00", close: "17:00" };
+
+// Clinic timezone, daily rollover and kiosk opening hours
+export function ClinicScheduleManager() {
+  const { toast } = useToast();
+  const [timezone, setTimezone] = useState("");
+  const [dayRolloverTime, setDayRolloverTime] = useState("00:00");
+  const [openAllDay, setOpenAllDay] = useState(true);
+  const [openingHours, setOpeningHours] = useState<OpeningHours>(() => WEEKDAY_LABELS.map(() => ({ ...DEFAULT_DAY_HOURS })));
+
+  const { data: schedule } = useQuery<ClinicScheduleResponse>({
+    queryKey: ['/api/clinic/schedule'],
+  });
+
+  useEffect(() => {
+    if (!schedule) return;
+    setTimezone(schedule.timezone);
+    setDayRolloverTime(schedule.dayRolloverTime);
+    setOpenAllDay(!schedule.openingHours);
+    if (schedule.openingHours) {
+      setOpeningHours(schedule.openingHours);
+    }
+  }, [schedule]);
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (updates: UpdateClinicScheduleRequest) => {
+      const response = await apiRequest("PATCH", "/api/clinic/schedule", updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clinic/schedule'] });
+      toast({
+        title: "Clinic Hours Saved",
+        description: "Daily numbering and the kiosk now follow the new schedule",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400") ? "Check the timezone and opening hours" : "Failed to save clinic hours",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDay = (weekday: number, hours: OpeningHours[number]) => {
+    setOpeningHours(prev => prev.map((current, index) => index === weekday ? hours : current));
+  };
+
+  const handleSave = () => {
+    saveScheduleMutation.mutate({
+      timezone: timezone.trim(),
+      dayRolloverTime,
+      openingHours: openAllDay ? null : openingHours
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Clinic Hours
+          {schedule && (
+            <Badge variant={schedule.isOpen ? "default" : "outline"} className="ml-2">
+              {schedule.isOpen ? "Open now" : "Closed now"}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="clinicTimezone">Timezone</Label>
+            <Input
+              id="clinicTimezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="Asia/Kuala_Lumpur"
+              data-testid="input-clinic-timezone"
+            />
+            <p className="text-xs text-muted-foreground">
+              IANA timezone name{schedule && <> - clinic day is currently {schedule.today}</>}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dayRolloverTime">New day starts at</Label>
+            <Input
+              id="dayRolloverTime"
+              type="time"
+              value={dayRolloverTime}
+              onChange={(e) => setDayRolloverTime(e.target.value)}
+              data-testid="input-day-rollover-time"
+            />
+            <p className="text-xs text-muted-foreground">
+              Numbering restarts and leftover patients are archived at this local time
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Open 24 hours</Label>
+            <p className="text-xs text-muted-foreground">When off, the kiosk only issues numbers during opening hours</p>
+          </div>
+          <Switch
+            checked={openAllDay}
+            onCheckedChange={setOpenAllDay}
+            data-testid="switch-open-all-day"
+          />
+        </div>
+
+        {!openAllDay && (
+          <div className="space-y-2">
+            {WEEKDAY_LABELS.map((label, weekday) => {
+              const hours = openingHours[weekday];
+              return (
+                <div key={label} className="flex flex-wrap items-center gap-3" data-testid={`row-opening-hours-${weekday}`}>
+                  <div className="w-28 text-sm font-medium">{label}</div>
+                  <Switch
+                    checked={!!hours}
+                    onCheckedChange={(open) => updateDay(weekday, open ? { ...DEFAULT_DAY_HOURS } : null)}
+                    data-testid={`switch-day-open-${weekday}`}
+                  />
+                  {hours ? (
+                    <>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={hours.open}
+                        onChange={(e) => updateDay(weekday, { ...hours, open: e.target.value })}
+                        data-testid={`input-day-open-${weekday}`}
+                      />
+                      <span className="text-sm text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={hours.close}
+                        onChange={(e) => updateDay(weekday, { ...hours, close: e.target.value })}
+                        data-testid={`input-day-close-${weekday}`}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Closed</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Button
+          onClick={handleSave}
+          disabled={saveScheduleMutation.isPending || !timezone.trim()}
+          data-testid="button-save-clinic-hours"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Clinic Hours
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
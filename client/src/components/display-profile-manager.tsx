@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LayoutGrid, Plus, Edit, Trash2, Save, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DisplayProfile, DisplayProfileLayout, DisplayProfileRequest, Media } from "@shared/schema";
+import type { ClinicWindow } from "@shared/realtime";
+import { BUILT_IN_TV_LAYOUT_PRESETS, TV_LAYOUT_PRESETS_SETTING_KEY, parseTvLayoutPresets, type TvLayoutPreset } from "@shared/tv-layout";
+
+type LayoutChoice = "clinic" | "show" | "hide";
+type LayoutToggle = "showPrayerTimes" | "showWeather";
+
+const LAYOUT_WIDGETS: { key: LayoutToggle; label: string }[] = [
+  { key: "showPrayerTimes", label: "Prayer times" },
+  { key: "showWeather", label: "Weather" },
+];
+
+const EMPTY_FORM: DisplayProfileRequest = { name: "", windowIds: [], layout: null, mediaIds: [] };
+
+// Screen layout select values - the profile keeps a copy of the preset, so its own entry is "current"
+const CLINIC_SCREEN = "clinic";
+const CURRENT_SCREEN = "current";
+
+function toLayoutChoice(value: boolean | undefined): LayoutChoice {
+  return value === undefined ? "clinic" : value ? "show" : "hide";
+}
+
+// Display profiles - which rooms a TV shows calls for, plus its own widgets and playlist
+export function DisplayProfileManager() {
+  const { toast } = useToast();
+  // null = form closed, "" = new profile, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DisplayProfileRequest>(EMPTY_FORM);
+
+  const { data: profiles = [], isLoading } = useQuery<DisplayProfile[]>({
+    queryKey: ['/api/display-profiles'],
+  });
+
+  const { data: windows = [] } = useQuery<ClinicWindow[]>({
+    queryKey: ['/api/windows'],
+  });
+
+  const { data: media = [] } = useQuery<Media[]>({
+    queryKey: ['/api/media'],
+  });
+
+  // Saved layout presets live in the clinic settings, next to the layout editor's own copy
+  const { data: settingsData = [] } = useQuery<Array<{ key: string; value: string }>>({
+    queryKey: ['/api/settings'],
+  });
+  const savedPresets = parseTvLayoutPresets(settingsData.find(setting => setting.key === TV_LAYOUT_PRESETS_SETTING_KEY)?.value);
+  const screenPresets: { value: string; preset: TvLayoutPreset }[] = [
+    ...BUILT_IN_TV_LAYOUT_PRESETS.map((preset, index) => ({ value: `built-in:${index}`, preset })),
+    ...savedPresets.map((preset, index) => ({ value: `saved:${index}`, preset })),
+  ];
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async ({ id, profile }: { id: string; profile: DisplayProfileRequest }) => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/display-profiles/${id}`, profile)
+        : await apiRequest("POST", "/api/display-profiles", profile);
+      return response.json();
+    },
+    onSuccess: (profile: DisplayProfile) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/display-profiles'] });
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Display Profile Saved",
+        description: `TVs showing ${profile.name} have been updated`,
+      });
+    },
+    onError: (error) => {
+      console.error("Error saving display profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save display profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/display-profiles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/display-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+      toast({
+        title: "Display Profile Deleted",
+        description: "TVs that used it now show every room",
+      });
+    },
+    onError: (error) => {
+      console.error("Error deleting display profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete display profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (profile?: DisplayProfile) => {
+    setEditingId(profile?.id || "");
+    setForm(profile
+      ? { name: profile.name, windowIds: profile.windowIds, layout: profile.layout, mediaIds: profile.mediaIds }
+      : EMPTY_FORM);
+  };
+
+  const toggleListItem = (field: "windowIds" | "mediaIds", id: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], id] : prev[field].filter(itemId => itemId !== id),
+    }));
+  };
+
+  const setLayoutChoice = (key: LayoutToggle, choice: LayoutChoice) => {
+    setForm(prev => {
+      const layout: DisplayProfileLayout = { ...(prev.layout || {}) };
+      if (choice === "clinic") {
+        delete layout[key];
+      } else {
+        layout[key] = choice === "show";
+      }
+      return { ...prev, layout: Object.keys(layout).length > 0 ? layout : null };
+    });
+  };
+
+  const setScreenChoice = (value: string) => {
+    if (value === CURRENT_SCREEN) return;
+    const choice = screenPresets.find(option => option.value === value);
+    setForm(prev => {
+      const layout: DisplayProfileLayout = { ...(prev.layout || {}) };
+      if (choice) {
+        layout.screen = choice.preset;
+      } else {
+        delete layout.screen;
+      }
+      return { ...prev, layout: Object.keys(layout).length > 0 ? layout : null };
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || form.windowIds.length === 0 || editingId === null) return;
+    saveProfileMutation.mutate({ id: editingId, profile: { ...form, name: form.name.trim() } });
+  };
+
+  const handleDelete = (profile: DisplayProfile) => {
+    if (confirm(`Delete "${profile.name}"?\n\nTVs using this profile will show calls for every room.`)) {
+      deleteProfileMutation.mutate(profile.id);
+    }
+  };
+
+  const windowName = (id: string) => windows.find(w => w.id === id)?.name || "Deleted room";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <LayoutGrid className="h-5 w-5 mr-2" />
+            Display Profiles
+          </span>
+          {editingId === null && (
+            <Button size="sm" onClick={() => startEditing()} data-testid="button-new-display-profile">
+              <Plus className="h-4 w-4 mr-2" />
+              New Profile
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {editingId !== null && (
+          <form onSubmit={handleSave} className="p-4 border rounded-lg space-y-4" data-testid="form-display-profile">
+            <div className="space-y-2">
+              <Label htmlFor="displayProfileName">Name</Label>
+              <Input
+                id="displayProfileName"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Ground floor, Pharmacy"
+                maxLength={50}
+                data-testid="input-display-profile-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rooms and counters</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {windows.map((window) => (
+                  <label key={window.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.windowIds.includes(window.id)}
+                      onCheckedChange={(checked) => toggleListItem("windowIds", window.id, checked === true)}
+                      data-testid={`checkbox-profile-window-${window.id}`}
+                    />
+                    {window.name}
+                    {window.type === "dispensary" && <Badge variant="outline">Pharmacy</Badge>}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Layout</Label>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm">Screen layout</span>
+                <Select
+                  value={form.layout?.screen ? CURRENT_SCREEN : CLINIC_SCREEN}
+                  onValueChange={setScreenChoice}
+                >
+                  <SelectTrigger className="w-56" data-testid="select-profile-screen-layout">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CLINIC_SCREEN}>Clinic layout</SelectItem>
+                    {form.layout?.screen && (
+                      <SelectItem value={CURRENT_SCREEN}>{form.layout.screen.name}</SelectItem>
+                    )}
+                    {screenPresets.map(({ value, preset }) => (
+                      <SelectItem key={value} value={value}>
+                        {value.startsWith("saved:") ? `${preset.name} (saved)` : preset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The profile keeps a copy of the preset - pick it again after editing the preset to update these TVs.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {LAYOUT_WIDGETS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between gap-2">
+                    <span className="text-sm">{label}</span>
+                    <Select
+                      value={toLayoutChoice(form.layout?.[key])}
+                      onValueChange={(choice) => setLayoutChoice(key, choice as LayoutChoice)}
+                    >
+                      <SelectTrigger className="w-40" data-testid={`select-profile-layout-${key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="clinic">Clinic setting</SelectItem>
+                        <SelectItem value="show">Show</SelectItem>
+                        <SelectItem value="hide">Hide</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Playlist</Label>
+              <p className="text-xs text-muted-foreground">
+                Plays in the order ticked. Leave empty to play the clinic's active media.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {media.map((item) => {
+                  const position = form.mediaIds.indexOf(item.id);
+                  return (
+                    <label key={item.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={position >= 0}
+                        onCheckedChange={(checked) => toggleListItem("mediaIds", item.id, checked === true)}
+                        data-testid={`checkbox-profile-media-${item.id}`}
+                      />
+                      <span className="truncate">{item.name}</span>
+                      {position >= 0 && <Badge variant="secondary">{position + 1}</Badge>}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!form.name.trim() || form.windowIds.length === 0 || saveProfileMutation.isPending}
+                data-testid="button-save-display-profile"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Profile
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading display profiles...</div>
+        ) : profiles.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center p-4 border rounded-lg">
+            No display profiles yet. Without one, every TV shows calls for every room.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {profiles.map((profile) => (
+              <div key={profile.id} className="p-4 border rounded-lg space-y-2" data-testid={`display-profile-${profile.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{profile.name}</span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => startEditing(profile)}
+                      data-testid={`button-edit-display-profile-${profile.id}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(profile)}
+                      disabled={deleteProfileMutation.isPending}
+                      data-testid={`button-delete-display-profile-${profile.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {profile.windowIds.map(windowId => (
+                    <Badge key={windowId} variant="outline">{windowName(windowId)}</Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4">
+                  <span>Screen: {profile.layout?.screen ? profile.layout.screen.name : "clinic layout"}</span>
+                  <span>{profile.mediaIds.length > 0 ? `Playlist: ${profile.mediaIds.length} item(s)` : "Playlist: clinic media"}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,406 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tv, Plus, Copy, RefreshCw, Ban, Edit, Check, X, Ticket, Pill } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DisplayProfile, DisplayToken } from "@shared/schema";
+
+// Select value for tokens without a display profile
+const ALL_ROOMS = "all";
+
+function formatDateTime(value: Date | string | null) {
+  if (!value) return "Never";
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: true
+  });
+}
+
+export function DisplayTokenManager() {
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState("");
+
+  const { data: displayTokens = [], isLoading } = useQuery<DisplayToken[]>({
+    queryKey: ['/api/users/me/display-tokens'],
+  });
+
+  const { data: profiles = [] } = useQuery<DisplayProfile[]>({
+    queryKey: ['/api/display-profiles'],
+  });
+
+  const getTvUrl = (token: string) => `${window.location.origin}/tv?token=${token}`;
+  const getKioskUrl = (token: string) => `${window.location.origin}/kiosk?token=${token}`;
+  const getPharmacyUrl = (token: string) => `${window.location.origin}/dispensary-display?token=${token}`;
+
+  // Issue new display token
+  const createTokenMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const response = await apiRequest("POST", "/api/users/me/display-tokens", { label });
+      return response.json();
+    },
+    onSuccess: (displayToken: DisplayToken) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+      setNewLabel("");
+      toast({
+        title: "TV Link Created",
+        description: `${displayToken.label} can now connect using its own link`,
+      });
+    },
+    onError: (error) => {
+      console.error("Error creating display token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create TV link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Rename display token
+  const renameTokenMutation = useMutation({
+    mutationFn: async ({ id, label }: { id: string; label: string }) => {
+      const response = await apiRequest("PATCH", `/api/users/me/display-tokens/${id}`, { label });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+      setEditingId(null);
+      setEditingLabel("");
+    },
+    onError: (error) => {
+      console.error("Error renaming display token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to rename TV link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Rotate display token
+  const rotateTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/users/me/display-tokens/${id}/rotate`);
+      return response.json();
+    },
+    onSuccess: (displayToken: DisplayToken) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+      toast({
+        title: "TV Link Rotated",
+        description: `Open the new link on ${displayToken.label} - the old link no longer works`,
+      });
+    },
+    onError: (error) => {
+      console.error("Error rotating display token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to rotate TV link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Assign a display profile - the TV switches rooms without reloading
+  const assignProfileMutation = useMutation({
+    mutationFn: async ({ id, profileId }: { id: string; profileId: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/users/me/display-tokens/${id}/profile`, { profileId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+    },
+    onError: (error) => {
+      console.error("Error assigning display profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to change the rooms this TV shows",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Kiosk access - only tokens switched on here can print walk-in tickets
+  const setKioskMutation = useMutation({
+    mutationFn: async ({ id, canIssueTickets }: { id: string; canIssueTickets: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/users/me/display-tokens/${id}/kiosk`, { canIssueTickets });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+    },
+    onError: (error) => {
+      console.error("Error changing kiosk access:", error);
+      toast({
+        title: "Error",
+        description: "Failed to change kiosk access",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Revoke display token
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/users/me/display-tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: (displayToken: DisplayToken) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users/me/display-tokens'] });
+      toast({
+        title: "TV Link Revoked",
+        description: `${displayToken.label} has been disconnected`,
+      });
+    },
+    onError: (error) => {
+      console.error("Error revoking display token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke TV link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+    createTokenMutation.mutate(newLabel.trim());
+  };
+
+  const handleCopy = async (url: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Copied",
+        description,
+      });
+    } catch (error) {
+      console.error("Error copying TV link:", error);
+    }
+  };
+
+  const handleRotate = (displayToken: DisplayToken) => {
+    if (confirm(`Rotate the link for "${displayToken.label}"?\n\nThe TV using the current link will be disconnected until you open the new link on it.`)) {
+      rotateTokenMutation.mutate(displayToken.id);
+    }
+  };
+
+  const handleRevoke = (displayToken: DisplayToken) => {
+    if (confirm(`Revoke "${displayToken.label}"?\n\nThis TV will be disconnected and its link can never be used again.`)) {
+      revokeTokenMutation.mutate(displayToken.id);
+    }
+  };
+
+  const handleSaveLabel = (id: string) => {
+    if (!editingLabel.trim()) return;
+    renameTokenMutation.mutate({ id, label: editingLabel.trim() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Tv className="h-5 w-5 mr-2" />
+          TV Display Links
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Issue new token */}
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="displayTokenLabel">New TV</Label>
+            <Input
+              id="displayTokenLabel"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="e.g. Lobby TV, Pharmacy TV"
+              maxLength={50}
+              data-testid="input-display-token-label"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!newLabel.trim() || createTokenMutation.isPending}
+            data-testid="button-create-display-token"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Create Link
+          </Button>
+        </form>
+
+        {/* Token list */}
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading TV links...</div>
+        ) : displayTokens.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center p-4 border rounded-lg">
+            No TV links yet. Create one for each TV screen.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {displayTokens.map((displayToken) => {
+              const isRevoked = Boolean(displayToken.revokedAt);
+
+              return (
+                <div
+                  key={displayToken.id}
+                  className={`p-4 border rounded-lg space-y-2 ${isRevoked ? 'opacity-60' : ''}`}
+                  data-testid={`display-token-${displayToken.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    {editingId === displayToken.id ? (
+                      <div className="flex items-center gap-2 flex-1">
+                        <Input
+                          value={editingLabel}
+                          onChange={(e) => setEditingLabel(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSaveLabel(displayToken.id);
+                          }}
+                          maxLength={50}
+                          autoFocus
+                          data-testid={`input-rename-display-token-${displayToken.id}`}
+                        />
+                        <Button size="sm" variant="ghost" onClick={() => handleSaveLabel(displayToken.id)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{displayToken.label}</span>
+                        {isRevoked ? (
+                          <Badge variant="destructive">Revoked</Badge>
+                        ) : (
+                          <Badge variant="outline">Active</Badge>
+                        )}
+                      </div>
+                    )}
+
+                    {!isRevoked && editingId !== displayToken.id && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            setEditingId(displayToken.id);
+                            setEditingLabel(displayToken.label);
+                          }}
+                          data-testid={`button-rename-display-token-${displayToken.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRotate(displayToken)}
+                          disabled={rotateTokenMutation.isPending}
+                          data-testid={`button-rotate-display-token-${displayToken.id}`}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRevoke(displayToken)}
+                          disabled={revokeTokenMutation.isPending}
+                          data-testid={`button-revoke-display-token-${displayToken.id}`}
+                        >
+                          <Ban className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {!isRevoked && (
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground">Shows</Label>
+                      <Select
+                        value={displayToken.profileId || ALL_ROOMS}
+                        onValueChange={(value) => assignProfileMutation.mutate({ id: displayToken.id, profileId: value === ALL_ROOMS ? null : value })}
+                        disabled={assignProfileMutation.isPending}
+                      >
+                        <SelectTrigger className="w-56 h-8" data-testid={`select-display-token-profile-${displayToken.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_ROOMS}>All rooms</SelectItem>
+                          {profiles.map((profile) => (
+                            <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Label htmlFor={`kiosk-${displayToken.id}`} className="text-xs text-muted-foreground ml-4">Kiosk tickets</Label>
+                      <Switch
+                        id={`kiosk-${displayToken.id}`}
+                        checked={displayToken.canIssueTickets}
+                        onCheckedChange={(canIssueTickets) => setKioskMutation.mutate({ id: displayToken.id, canIssueTickets })}
+                        disabled={setKioskMutation.isPending}
+                        data-testid={`switch-display-token-kiosk-${displayToken.id}`}
+                      />
+                    </div>
+                  )}
+
+                  {!isRevoked && (
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 text-xs bg-muted px-2 py-1 rounded truncate">
+                        {getTvUrl(displayToken.token)}
+                      </code>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCopy(getTvUrl(displayToken.token), "TV link copied to clipboard")}
+                        data-testid={`button-copy-display-token-${displayToken.id}`}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {displayToken.canIssueTickets && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleCopy(getKioskUrl(displayToken.token), "Kiosk link copied to clipboard")}
+                          title="Copy self-service kiosk link"
+                          data-testid={`button-copy-kiosk-link-${displayToken.id}`}
+                        >
+                          <Ticket className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCopy(getPharmacyUrl(displayToken.token), "Pharmacy display link copied to clipboard")}
+                        title="Copy pharmacy TV link"
+                        data-testid={`button-copy-pharmacy-link-${displayToken.id}`}
+                      >
+                        <Pill className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4">
+                    <span>Created: {formatDateTime(displayToken.createdAt)}</span>
+                    <span>Last seen: {formatDateTime(displayToken.lastSeenAt)}</span>
+                    {isRevoked && <span>Revoked: {formatDateTime(displayToken.revokedAt)}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
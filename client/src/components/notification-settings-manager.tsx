@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MessageSquare, RefreshCw, Save } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_NOTIFICATION_POSITIONS_AHEAD,
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NOTIFICATION_PROVIDERS,
+  type Notification,
+  type NotificationProviderName,
+  type NotificationSettings,
+  type NotificationSettingsResponse,
+} from "@shared/schema";
+
+const PROVIDER_LABELS: Record<NotificationProviderName, string> = {
+  console: "Console / log file (testing)",
+  twilio: "SMS (Twilio)",
+  whatsapp: "WhatsApp Cloud API",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  sent: "secondary",
+  delivered: "default",
+  failed: "destructive",
+};
+
+// Turn notifications - provider, message templates and the delivery log
+export function NotificationSettingsManager() {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [provider, setProvider] = useState<NotificationProviderName>("console");
+  const [positionsAhead, setPositionsAhead] = useState(DEFAULT_NOTIFICATION_POSITIONS_AHEAD);
+  const [templates, setTemplates] = useState(DEFAULT_NOTIFICATION_TEMPLATES);
+
+  const { data: settings } = useQuery<NotificationSettingsResponse>({
+    queryKey: ['/api/notifications/settings'],
+  });
+
+  const { data: notifications = [], refetch: refetchNotifications, isFetching } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabled(settings.enabled);
+    setProvider(settings.provider);
+    setPositionsAhead(settings.positionsAhead);
+    setTemplates(settings.templates);
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (updates: NotificationSettings) => {
+      const response = await apiRequest("PUT", "/api/notifications/settings", updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/settings'] });
+      toast({
+        title: "Notifications Saved",
+        description: "Patients with a phone number will be messaged as the queue moves",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400") ? "Check the templates and positions ahead" : "Failed to save notification settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isProviderConfigured = !settings || settings.configuredProviders.includes(provider);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Turn Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Send notifications</Label>
+            <p className="text-xs text-muted-foreground">Only patients registered with a phone number are messaged</p>
+          </div>
+          <Switch
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-notifications-enabled"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={(value) => setProvider(value as NotificationProviderName)}>
+              <SelectTrigger data-testid="select-notification-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTIFICATION_PROVIDERS.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {PROVIDER_LABELS[name]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isProviderConfigured && (
+              <p className="text-xs text-destructive">Credentials for this provider are not set on the server</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="positionsAhead">Warn when this many calls away</Label>
+            <Input
+              id="positionsAhead"
+              type="number"
+              min={1}
+              max={20}
+              value={positionsAhead}
+              onChange={(e) => setPositionsAhead(parseInt(e.target.value, 10) || 1)}
+              data-testid="input-notification-positions-ahead"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="nearTemplate">"Turn is near" message</Label>
+          <Textarea
+            id="nearTemplate"
+            value={templates.near}
+            onChange={(e) => setTemplates({ ...templates, near: e.target.value })}
+            maxLength={320}
+            rows={2}
+            data-testid="input-notification-near-template"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="calledTemplate">"Please go to the room" message</Label>
+          <Textarea
+            id="calledTemplate"
+            value={templates.called}
+            onChange={(e) => setTemplates({ ...templates, called: e.target.value })}
+            maxLength={320}
+            rows={2}
+            data-testid="input-notification-called-template"
+          />
+          <p className="text-xs text-muted-foreground">
+            Placeholders: {"{ticket}"}, {"{name}"}, {"{ahead}"}, {"{room}"}, {"{clinic}"}
+          </p>
+          {provider === "whatsapp" && (
+            <p className="text-xs text-muted-foreground" data-testid="text-whatsapp-template-note">
+              WhatsApp sends the message templates approved for your business number instead - these texts are kept in the delivery log.
+            </p>
+          )}
+        </div>
+
+        <Button
+          onClick={() => saveSettingsMutation.mutate({ enabled, provider, positionsAhead, templates })}
+          disabled={saveSettingsMutation.isPending || !templates.near.trim() || !templates.called.trim()}
+          data-testid="button-save-notifications"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Notifications
+        </Button>
+
+        <div className="space-y-2 pt-2">
+          <div className="flex items-center justify-between">
+            <Label>Delivery log</Label>
+            <Button variant="ghost" size="sm" onClick={() => refetchNotifications()} disabled={isFetching} data-testid="button-refresh-notifications">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
+          <div className="max-h-80 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notifications.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                      No messages sent yet
+                    </TableCell>
+                  </TableRow>
+                ) : notifications.map((notification) => (
+                  <TableRow key={notification.id} data-testid={`row-notification-${notification.id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(notification.createdAt).toLocaleTimeString()}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {notification.recipient}
+                      <div className="text-xs text-muted-foreground">{PROVIDER_LABELS[notification.provider as NotificationProviderName] || notification.provider}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{notification.message}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[notification.status] || "outline"}>{notification.status}</Badge>
+                      {notification.error && (
+                        <div className="text-xs text-muted-foreground mt-1">{notification.error}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
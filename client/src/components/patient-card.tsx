@@ -1,32 +1,39 @@
 import { useState, useEffect } from "react";
-import { Bell, Trash2, RotateCcw, CheckCircle, X, Volume2, PhoneCall, Clock, ChevronDown, ChevronUp, Star, Pill, Timer } from "lucide-react";
+import { Bell, Trash2, RotateCcw, CheckCircle, X, Volume2, PhoneCall, Clock, ChevronDown, ChevronUp, Star, Pill, Timer, CalendarCheck, IdCard } from "lucide-react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { PatientProfileDialog } from "@/components/patient-profile-dialog";
+import { formatTicketNumber } from "@shared/schema";
+import { getPatientState, getAllowedTransitions } from "@shared/patient-state";
 
+// Row from patient_events (GET /api/patient-events)
 interface JourneyEvent {
-  timestamp: string;
-  action: 'registered' | 'called' | 'in-progress' | 'completed' | 'requeued' | 'dispensary';
-  roomName?: string;
-  requeueReason?: string;
-  fromRoom?: string;
+  id: string;
+  eventType: string; // 'registered', 'called', 'in-progress', 'completed', 'requeued', 'dispensary'
+  roomName?: string | null;
+  reason?: string | null;
+  createdAt: Date | string;
 }
 
 interface Patient {
   id: string;
   name: string | null;
   number: number;
+  ticketPrefix?: string | null;
   status: "waiting" | "called" | "in-progress" | "completed" | "requeue" | "dispensary";
   isPriority?: boolean;
   priorityReason?: string | null;
+  appointmentId?: string | null; // Checked in from a booking
+  profileId?: string | null; // Registry profile (IC/MRN) with visit history
   readyForDispensary?: boolean;
   windowId?: string;
   windowName?: string;
   lastWindowId?: string;
   lastWindowName?: string;
-  trackingHistory?: JourneyEvent[];
+  journey?: JourneyEvent[];
   registeredAt: Date | string;
   calledAt?: Date | string | null;
   completedAt?: Date | string | null;
@@ -42,6 +49,8 @@ interface PatientCardProps {
   onComplete: (patientId: string) => void;
   onDispense?: (patientId: string) => void;
   onRequeue: (patientId: string, reason?: string) => void;
+  onClearRequeueReason?: (patientId: string) => void;
+  onConfirmPriority?: (patientId: string) => void;
   disabled?: boolean;
   selectedWindow?: string; // Current selected window by user
 }
@@ -55,6 +64,8 @@ export function PatientCard({
   onComplete,
   onDispense,
   onRequeue,
+  onClearRequeueReason,
+  onConfirmPriority,
   disabled = false,
   selectedWindow
 }: PatientCardProps) {
@@ -63,6 +74,7 @@ export function PatientCard({
   const [showCustomReasonInput, setShowCustomReasonInput] = useState(false);
   const [customReason, setCustomReason] = useState("");
   const [isJourneyExpanded, setIsJourneyExpanded] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Update current time every second for waiting time calculation
@@ -103,6 +115,10 @@ export function PatientCard({
   const isAssignedToOtherRoom = Boolean(patient.windowId && selectedWindow && patient.windowId !== selectedWindow && patient.status !== "requeue" && !patient.readyForDispensary);
   const shouldDisableButtons = disabled || isAssignedToOtherRoom;
 
+  // Buttons follow the shared state machine so the UI never offers a move the server rejects
+  const patientState = getPatientState(patient);
+  const allowedActions = getAllowedTransitions(patient);
+
   const handleCall = () => {
     console.log(`Calling patient ${patient.id}`);
     onCall(patient.id);
@@ -211,7 +227,7 @@ export function PatientCard({
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <div className="text-2xl font-bold text-primary flex items-center gap-2">
-              #{patient.number.toString().padStart(3, '0')}
+              {patient.ticketPrefix ? formatTicketNumber(patient.ticketPrefix, patient.number) : `#${patient.number.toString().padStart(3, '0')}`}
               {patient.isPriority && (
                 <Star className="h-5 w-5 fill-red-500 text-red-500 dark:fill-red-400 dark:text-red-400" data-testid={`icon-priority-${patient.id}`} />
               )}
@@ -221,13 +237,31 @@ export function PatientCard({
                 {patient.name}
               </div>
             )}
+            {patient.appointmentId && (
+              <Badge variant="outline" className="border-blue-300 text-blue-700 dark:border-blue-800 dark:text-blue-400" data-testid={`badge-appointment-${patient.id}`}>
+                <CalendarCheck className="h-3 w-3 mr-1" />
+                Appointment
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              className={patient.profileId ? "text-primary" : "text-muted-foreground"}
+              onClick={() => setShowProfile(true)}
+              title={patient.profileId ? "Profile and visit history" : "Link a profile"}
+              data-testid={`button-profile-${patient.id}`}
+            >
+              <IdCard className="h-4 w-4" />
+            </Button>
+            <Badge 
+              className={getStatusColor(patient.status)}
+              data-testid={`badge-status-${patient.id}`}
+            >
+              {getStatusLabel(patient.status)}
+            </Badge>
           </div>
-          <Badge 
-            className={getStatusColor(patient.status)}
-            data-testid={`badge-status-${patient.id}`}
-          >
-            {getStatusLabel(patient.status)}
-          </Badge>
         </div>
         
         {/* Waiting Time Indicator - Only for waiting patients */}
@@ -266,6 +300,48 @@ export function PatientCard({
             </Badge>
           </div>
         )}
+        {/* Priority asked for at the kiosk - not applied until staff confirm it */}
+        {!patient.isPriority && patient.priorityReason && (
+          <div className="mt-2 flex items-center gap-2">
+            <Badge variant="outline" className="text-amber-700 border-amber-300 dark:text-amber-400 dark:border-amber-900" data-testid={`badge-priority-requested-${patient.id}`}>
+              <Star className="h-3 w-3 mr-1" />
+              Priority requested: {patient.priorityReason}
+            </Badge>
+            {onConfirmPriority && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onConfirmPriority(patient.id)}
+                disabled={disabled}
+                data-testid={`button-confirm-priority-${patient.id}`}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Confirm
+              </Button>
+            )}
+          </div>
+        )}
+        {/* Requeue reason still pending - call-next skips the patient until it is cleared */}
+        {patient.status === "requeue" && patient.requeueReason && (
+          <div className="mt-2 flex items-center gap-2">
+            <Badge variant="outline" data-testid={`badge-requeue-reason-${patient.id}`}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              {patient.requeueReason}
+            </Badge>
+            {onClearRequeueReason && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onClearRequeueReason(patient.id)}
+                disabled={disabled}
+                data-testid={`button-clear-requeue-reason-${patient.id}`}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Done
+              </Button>
+            )}
+          </div>
+        )}
       </CardHeader>
       
       <CardContent>
@@ -289,7 +365,7 @@ export function PatientCard({
           </button>
           
           {/* Display journey events - collapsed shows latest only, expanded shows all */}
-          {patient.trackingHistory && patient.trackingHistory.length > 0 ? (
+          {patient.journey && patient.journey.length > 0 ? (
             (() => {
               const getEventIcon = (action: string) => {
                 switch (action) {
@@ -311,7 +387,7 @@ export function PatientCard({
               };
 
               const getEventLabel = (event: JourneyEvent) => {
-                switch (event.action) {
+                switch (event.eventType) {
                   case 'registered':
                     return 'Registration';
                   case 'called':
@@ -325,34 +401,34 @@ export function PatientCard({
                   case 'completed':
                     return 'Completed';
                   default:
-                    return event.action;
+                    return event.eventType;
                 }
               };
 
               // Show only latest event when collapsed, all events when expanded
               const eventsToShow = isJourneyExpanded 
-                ? patient.trackingHistory 
-                : [patient.trackingHistory[patient.trackingHistory.length - 1]];
+                ? patient.journey 
+                : [patient.journey[patient.journey.length - 1]];
 
-              return eventsToShow.map((event, index) => (
-                <div key={index} className="flex items-start gap-2 text-xs">
-                  <div className={`w-2 h-2 rounded-full ${getEventIcon(event.action)} mt-1 flex-shrink-0`} />
+              return eventsToShow.map((event) => (
+                <div key={event.id} className="flex items-start gap-2 text-xs">
+                  <div className={`w-2 h-2 rounded-full ${getEventIcon(event.eventType)} mt-1 flex-shrink-0`} />
                   <div className="flex-1">
                     <div className="font-medium text-gray-700 dark:text-gray-300">
                       {getEventLabel(event)}
                     </div>
-                    {event.action === 'requeued' && event.requeueReason && (
+                    {event.eventType === 'requeued' && event.reason && (
                       <div className="text-yellow-700 dark:text-yellow-500 font-medium text-xs">
-                        Reason: {event.requeueReason}
+                        Reason: {event.reason}
                       </div>
                     )}
-                    {event.action === 'requeued' && event.fromRoom && (
+                    {event.eventType === 'requeued' && event.roomName && (
                       <div className="text-gray-500 dark:text-gray-400 text-xs">
-                        From: {event.fromRoom}
+                        From: {event.roomName}
                       </div>
                     )}
                     <div className="text-gray-500 dark:text-gray-400">
-                      {new Date(event.timestamp).toLocaleString('en-GB', {
+                      {new Date(event.createdAt).toLocaleString('en-GB', {
                         day: '2-digit',
                         month: 'short',
                         year: 'numeric',
@@ -374,7 +450,7 @@ export function PatientCard({
 
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-2">
-          {(patient.status === "waiting" || patient.readyForDispensary) && (
+          {(patientState === "waiting" || patientState === "dispensary") && allowedActions.includes("called") && (
             <Button
               onClick={handleCall}
               disabled={shouldDisableButtons}
@@ -387,7 +463,7 @@ export function PatientCard({
             </Button>
           )}
 
-          {patient.status === "requeue" && (
+          {patientState === "requeue" && allowedActions.includes("called") && (
             <>
               <Button
                 onClick={handleCall}
@@ -428,7 +504,7 @@ export function PatientCard({
                 Call Again
               </Button>
               
-              {patient.windowName === "DISPENSARY" ? (
+              {patient.windowName === "DISPENSARY" ? allowedActions.includes("completed") && (
                 <Button
                   onClick={handleComplete}
                   disabled={shouldDisableButtons}
@@ -440,7 +516,7 @@ export function PatientCard({
                   <CheckCircle className="h-4 w-4 mr-1" />
                   Complete
                 </Button>
-              ) : !patient.readyForDispensary && (
+              ) : allowedActions.includes("dispensary") && (
                 <Button
                   onClick={handleDispense}
                   size="sm"
@@ -453,7 +529,7 @@ export function PatientCard({
                 </Button>
               )}
               
-              {!showRequeueDropdown ? (
+              {!allowedActions.includes("requeue") ? null : !showRequeueDropdown ? (
                 <Button
                   onClick={handleRequeue}
                   disabled={shouldDisableButtons}
@@ -542,6 +618,12 @@ export function PatientCard({
           </Button>
         </div>
       </CardContent>
+      <PatientProfileDialog
+        patientId={patient.id}
+        profileId={patient.profileId}
+        open={showProfile}
+        onOpenChange={setShowProfile}
+      />
     </Card>
   );
 }
\ No newline at end of file
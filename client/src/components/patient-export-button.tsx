@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import type { ExportFormat } from "@shared/schema";
+
+interface PatientExportButtonProps {
+  defaultFrom: string; // YYYY-MM-DD
+  defaultTo: string; // YYYY-MM-DD
+}
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel" },
+  { format: "pdf", label: "PDF" },
+];
+
+export function PatientExportButton({ defaultFrom, defaultTo }: PatientExportButtonProps) {
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const { toast } = useToast();
+
+  // Follow the page's range when it changes (e.g. reports date pickers)
+  useEffect(() => {
+    setFrom(defaultFrom);
+    setTo(defaultTo);
+  }, [defaultFrom, defaultTo]);
+
+  const isValidRange = !!from && !!to && from <= to;
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const response = await fetch(`/api/exports/patients?from=${from}&to=${to}&format=${format}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+
+      // Download via a temporary link so the session cookie is used for the request
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `patients-${from}${from === to ? "" : `-to-${to}`}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting patients:", error);
+      toast({
+        title: "Export Error",
+        description: "Failed to export patient log. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" data-testid="button-export-patients">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="text-sm font-medium">Export Patient Log</div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="exportFrom">From</Label>
+            <Input
+              id="exportFrom"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-export-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="exportTo">To</Label>
+            <Input
+              id="exportTo"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-export-to"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <Button
+              key={format}
+              size="sm"
+              onClick={() => handleExport(format)}
+              disabled={!isValidRange || exportingFormat !== null}
+              data-testid={`button-export-${format}`}
+            >
+              {exportingFormat === format ? "..." : label}
+            </Button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Unlink } from "lucide-react";
+import { PatientProfileLookup } from "@/components/patient-profile-lookup";
+import { PatientProfileForm } from "@/components/patient-profile-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatIcNumber, normalizeIcNumber, IC_NUMBER_PATTERN, type PatientProfile, type PatientProfileDetail, type PatientProfileRequest, type Service } from "@shared/schema";
+import { hasPermission } from "@shared/roles";
+
+interface PatientProfileDialogProps {
+  patientId: string;
+  profileId?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Registry profile of a queue entry with its past visits; link or unlink the entry here
+export function PatientProfileDialog({ patientId, profileId, open, onOpenChange }: PatientProfileDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canEdit = hasPermission(user?.role, "patients:register");
+  const [editOpen, setEditOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newProfileValues, setNewProfileValues] = useState<Partial<PatientProfileRequest>>({});
+
+  const { data: detail, isLoading } = useQuery<PatientProfileDetail>({
+    queryKey: ['/api/patient-profiles', profileId],
+    enabled: open && !!profileId,
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ['/api/services'],
+    enabled: open && !!profileId,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async (linkedProfileId: string | null) => {
+      const response = await apiRequest("PATCH", `/api/patients/${patientId}/profile`, { profileId: linkedProfileId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the patient's profile link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openNewProfile = (query: string) => {
+    const icNumber = normalizeIcNumber(query);
+    setNewProfileValues(IC_NUMBER_PATTERN.test(icNumber) ? { icNumber } : { name: query.toUpperCase() });
+    setCreateOpen(true);
+  };
+
+  const profile = detail?.profile;
+  const getServiceName = (serviceId: string | null) => services.find(s => s.id === serviceId)?.name;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Patient Profile</DialogTitle>
+            <DialogDescription>
+              {profileId ? "Registry details and previous visits" : "This queue entry is not linked to a profile yet"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!profileId ? (
+            canEdit ? (
+              <PatientProfileLookup onSelect={(selected: PatientProfile) => linkMutation.mutate(selected.id)} onCreateNew={openNewProfile} />
+            ) : (
+              <div className="text-sm text-muted-foreground">Ask the front desk to link this patient.</div>
+            )
+          ) : isLoading || !profile ? (
+            <div className="text-center text-muted-foreground py-8">Loading...</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="text-lg font-semibold" data-testid="text-profile-name">{profile.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {[profile.icNumber && `IC ${formatIcNumber(profile.icNumber)}`, profile.mrn && `MRN ${profile.mrn}`].filter(Boolean).join(" · ")}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {[profile.phone, profile.dateOfBirth && `Born ${profile.dateOfBirth}`].filter(Boolean).join(" · ")}
+                  </div>
+                  {profile.notes && <div className="text-sm whitespace-pre-wrap">{profile.notes}</div>}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditOpen(true)} data-testid="button-edit-profile">
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => linkMutation.mutate(null)} disabled={linkMutation.isPending} data-testid="button-unlink-profile">
+                      <Unlink className="h-4 w-4 mr-1" />
+                      Unlink
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Visit</TableHead>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Rooms</TableHead>
+                      <TableHead>Requeue reasons</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {detail.visits.map((visit) => (
+                      <TableRow key={visit.patientId} data-testid={`row-visit-${visit.patientId}`}>
+                        <TableCell className="whitespace-nowrap text-sm">
+                          {new Date(visit.registeredAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div className="font-medium">{visit.ticket}</div>
+                          {getServiceName(visit.serviceId) && (
+                            <div className="text-xs text-muted-foreground">{getServiceName(visit.serviceId)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{visit.rooms.join(" → ") || "-"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {visit.requeueReasons.length === 0 ? "-" : visit.requeueReasons.map((reason, index) => (
+                              <Badge key={index} variant="outline">{reason}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{visit.patientId === patientId ? "This visit" : visit.status}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <PatientProfileForm open={editOpen} onOpenChange={setEditOpen} profile={profile} />
+      <PatientProfileForm
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        initialValues={newProfileValues}
+        onSaved={(created) => linkMutation.mutate(created.id)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PatientProfile, PatientProfileRequest } from "@shared/schema";
+
+interface PatientProfileFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile?: PatientProfile; // Edit mode when set
+  initialValues?: Partial<PatientProfileRequest>; // Prefill for a new profile, e.g. the IC typed into the lookup
+  onSaved?: (profile: PatientProfile) => void;
+}
+
+const EMPTY_FORM = { icNumber: "", mrn: "", name: "", phone: "", dateOfBirth: "", notes: "" };
+
+// Create or edit a patient registry profile
+export function PatientProfileForm({ open, onOpenChange, profile, initialValues, onSaved }: PatientProfileFormProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (!open) return;
+    const source = profile || initialValues || {};
+    setForm({
+      icNumber: source.icNumber || "",
+      mrn: source.mrn || "",
+      name: source.name || "",
+      phone: source.phone || "",
+      dateOfBirth: source.dateOfBirth || "",
+      notes: source.notes || "",
+    });
+  }, [open, profile, initialValues]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PatientProfileRequest) => {
+      const response = profile
+        ? await apiRequest("PATCH", `/api/patient-profiles/${profile.id}`, data)
+        : await apiRequest("POST", "/api/patient-profiles", data);
+      return response.json();
+    },
+    onSuccess: (saved: PatientProfile) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/patient-profiles') });
+      toast({
+        title: profile ? "Profile Updated" : "Profile Created",
+        description: saved.name,
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "Another profile already uses this IC number or MRN"
+          : error.message.startsWith("400") ? "Check the IC number (12 digits) and the other fields" : "Failed to save profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      icNumber: form.icNumber.trim() || null,
+      mrn: form.mrn.trim() || null,
+      name: form.name.trim(),
+      phone: form.phone.trim() || null,
+      dateOfBirth: form.dateOfBirth || null,
+      notes: form.notes.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit Patient Profile" : "New Patient Profile"}</DialogTitle>
+          <DialogDescription>IC number or MRN is required. Both are unique within this clinic.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="profileIc">IC Number</Label>
+              <Input
+                id="profileIc"
+                value={form.icNumber}
+                onChange={(e) => setForm({ ...form, icNumber: e.target.value })}
+                placeholder="900101-14-5678"
+                maxLength={14}
+                data-testid="input-profile-ic"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profileMrn">MRN</Label>
+              <Input
+                id="profileMrn"
+                value={form.mrn}
+                onChange={(e) => setForm({ ...form, mrn: e.target.value.toUpperCase() })}
+                maxLength={30}
+                data-testid="input-profile-mrn"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Full Name</Label>
+            <Input
+              id="profileName"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value.toUpperCase() })}
+              maxLength={100}
+              data-testid="input-profile-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="profilePhone">Phone</Label>
+              <Input
+                id="profilePhone"
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                maxLength={20}
+                data-testid="input-profile-phone"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profileDob">Date of Birth</Label>
+              <Input
+                id="profileDob"
+                type="date"
+                value={form.dateOfBirth}
+                onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })}
+                data-testid="input-profile-dob"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profileNotes">Notes</Label>
+            <Textarea
+              id="profileNotes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              maxLength={500}
+              rows={3}
+              data-testid="input-profile-notes"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saveMutation.isPending || !form.name.trim() || (!form.icNumber.trim() && !form.mrn.trim())}
+            data-testid="button-save-profile"
+          >
+            {profile ? "Save Changes" : "Create Profile"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Search, UserPlus } from "lucide-react";
+import { formatIcNumber, type PatientProfile } from "@shared/schema";
+
+interface PatientProfileLookupProps {
+  onSelect: (profile: PatientProfile) => void;
+  onCreateNew?: (query: string) => void; // Offered below the results
+  placeholder?: string;
+}
+
+// Search delay so typing an IC does not fire a request per digit
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Registry autocomplete - IC number, MRN, name or phone
+export function PatientProfileLookup({ onSelect, onCreateNew, placeholder = "Search IC, MRN, name or phone" }: PatientProfileLookupProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: profiles = [], isFetching } = useQuery<PatientProfile[]>({
+    queryKey: [`/api/patient-profiles?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length >= 2,
+  });
+
+  const handleSelect = (profile: PatientProfile) => {
+    onSelect(profile);
+    setQuery("");
+  };
+
+  const showResults = debouncedQuery.length >= 2 && query.trim().length >= 2;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={placeholder}
+          className="pl-8"
+          data-testid="input-profile-lookup"
+        />
+      </div>
+      {showResults && (
+        <div className="rounded-md border divide-y max-h-56 overflow-y-auto" data-testid="list-profile-results">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              type="button"
+              className="w-full text-left px-3 py-2 hover-elevate"
+              onClick={() => handleSelect(profile)}
+              data-testid={`button-select-profile-${profile.id}`}
+            >
+              <div className="text-sm font-medium">{profile.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {[profile.icNumber && `IC ${formatIcNumber(profile.icNumber)}`, profile.mrn && `MRN ${profile.mrn}`, profile.phone].filter(Boolean).join(" · ")}
+              </div>
+            </button>
+          ))}
+          {profiles.length === 0 && !isFetching && (
+            <div className="px-3 py-2 text-sm text-muted-foreground">No matching profile</div>
+          )}
+          {onCreateNew && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full justify-start rounded-none"
+              onClick={() => onCreateNew(query.trim())}
+              data-testid="button-create-profile"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              New profile
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
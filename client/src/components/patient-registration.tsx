@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { UserPlus, Star } from "lucide-react";
+import { UserPlus, Star, IdCard, X } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,17 +7,54 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PatientProfileLookup } from "@/components/patient-profile-lookup";
+import { PatientProfileForm } from "@/components/patient-profile-form";
+import { formatTicketNumber, formatIcNumber, normalizeIcNumber, IC_NUMBER_PATTERN, PHONE_PATTERN, type Service, type PatientProfile, type PatientProfileRequest } from "@shared/schema";
 
 interface PatientRegistrationProps {
-  onRegister: (patient: { name: string | null; number: number; type: "name" | "number"; isPriority?: boolean; priorityReason?: string }) => void;
+  onRegister: (patient: { name: string | null; number: number; type: "name" | "number"; isPriority?: boolean; priorityReason?: string; serviceId?: string; profileId?: string; phone?: string }) => void;
   nextNumber: number;
   isRegistering?: boolean;
+  services?: Service[];
+  selectedServiceId?: string;
+  onServiceChange?: (serviceId: string) => void;
 }
 
-export function PatientRegistration({ onRegister, nextNumber, isRegistering = false }: PatientRegistrationProps) {
+export function PatientRegistration({
+  onRegister,
+  nextNumber,
+  isRegistering = false,
+  services = [],
+  selectedServiceId,
+  onServiceChange
+}: PatientRegistrationProps) {
+  const selectedService = services.find(s => s.id === selectedServiceId);
   const [patientName, setPatientName] = useState("");
+  const [phone, setPhone] = useState("");
   const [isPriority, setIsPriority] = useState(false);
   const [priorityReason, setPriorityReason] = useState("");
+  const [profile, setProfile] = useState<PatientProfile | null>(null);
+  const [profileFormOpen, setProfileFormOpen] = useState(false);
+  const [newProfileValues, setNewProfileValues] = useState<Partial<PatientProfileRequest>>({});
+
+  // Registry match fills the queue name (the TV shows at most 25 characters)
+  const selectProfile = (selected: PatientProfile) => {
+    setProfile(selected);
+    setPatientName(selected.name.toUpperCase().slice(0, 25));
+    if (selected.phone && PHONE_PATTERN.test(selected.phone)) {
+      setPhone(selected.phone);
+    }
+  };
+
+  const isPhoneValid = !phone.trim() || PHONE_PATTERN.test(phone.trim());
+
+  // Prefill the new profile from what was typed - an IC if it looks like one, otherwise the name
+  const openNewProfile = (query: string) => {
+    const icNumber = normalizeIcNumber(query);
+    setNewProfileValues(IC_NUMBER_PATTERN.test(icNumber) ? { icNumber } : { name: (query || patientName).toUpperCase() });
+    setProfileFormOpen(true);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,7 +66,10 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
         number: nextNumber,
         type: "name" as const,
         isPriority: isPriority,
-        priorityReason: isPriority ? priorityReason.trim() : undefined
+        priorityReason: isPriority ? priorityReason.trim() : undefined,
+        serviceId: selectedService?.id,
+        profileId: profile?.id,
+        phone: phone.trim() || undefined
       };
 
       console.log("Registering patient:", patientData);
@@ -37,8 +77,10 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
 
       // Reset form
       setPatientName("");
+      setPhone("");
       setIsPriority(false);
       setPriorityReason("");
+      setProfile(null);
       
     } catch (error) {
       console.error("Registration failed:", error);
@@ -65,11 +107,60 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
             className="text-lg font-bold px-3 py-1 border-blue-300 text-blue-700"
             data-testid="badge-next-number"
           >
-            #{nextNumber.toString().padStart(3, '0')}
+            {selectedService ? formatTicketNumber(selectedService.prefix, nextNumber) : `#${nextNumber.toString().padStart(3, '0')}`}
           </Badge>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Service Select - Only show when the clinic has services */}
+          {services.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="service">Service</Label>
+              <Select value={selectedServiceId} onValueChange={(value) => onServiceChange?.(value)}>
+                <SelectTrigger id="service" data-testid="select-service">
+                  <SelectValue placeholder="Select service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map((service) => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.prefix} - {service.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Registry Profile - optional, links this visit to the patient's history */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Patient Profile (IC / MRN)</Label>
+              {!profile && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => openNewProfile("")} data-testid="button-new-profile">
+                  New
+                </Button>
+              )}
+            </div>
+            {profile ? (
+              <div className="flex items-center justify-between p-2 rounded-md border" data-testid="selected-profile">
+                <div className="flex items-center gap-2 min-w-0">
+                  <IdCard className="h-4 w-4 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{profile.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {profile.icNumber ? `IC ${formatIcNumber(profile.icNumber)}` : `MRN ${profile.mrn}`}
+                    </div>
+                  </div>
+                </div>
+                <Button type="button" variant="ghost" size="icon" onClick={() => setProfile(null)} data-testid="button-clear-profile">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <PatientProfileLookup onSelect={selectProfile} onCreateNew={openNewProfile} />
+            )}
+          </div>
+
           {/* Patient Name Input */}
           <div className="space-y-2">
             <Label htmlFor="patientName">Patient Name</Label>
@@ -84,6 +175,23 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
             />
           </div>
 
+          {/* Phone - optional, for "your turn is near" SMS/WhatsApp */}
+          <div className="space-y-2">
+            <Label htmlFor="patientPhone">Phone (optional)</Label>
+            <Input
+              id="patientPhone"
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="012-345 6789"
+              maxLength={20}
+              data-testid="input-patient-phone"
+            />
+            {!isPhoneValid && (
+              <p className="text-xs text-destructive">Enter a valid phone number</p>
+            )}
+          </div>
+
           {/* Priority Checkbox - Only show when name is entered */}
           {patientName.trim() && (
             <div className="flex items-center space-x-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg border border-yellow-200 dark:border-yellow-800">
@@ -122,7 +230,7 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
           {/* Submit Button */}
           <Button
             type="submit"
-            disabled={isRegistering || !patientName.trim() || (isPriority && !priorityReason.trim())}
+            disabled={isRegistering || !patientName.trim() || !isPhoneValid || (isPriority && !priorityReason.trim()) || (services.length > 0 && !selectedService)}
             className="w-full"
             data-testid="button-register-patient"
           >
@@ -131,6 +239,13 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
           </Button>
         </form>
 
+        <PatientProfileForm
+          open={profileFormOpen}
+          onOpenChange={setProfileFormOpen}
+          initialValues={newProfileValues}
+          onSaved={selectProfile}
+        />
+
         {/* Information Box */}
         <div className="text-xs text-muted-foreground bg-muted/50 rounded-lg p-3">
           <p>
@@ -140,6 +255,8 @@ export function PatientRegistration({ onRegister, nextNumber, isRegistering = fa
             <li>Enter patient full name to register</li>
             <li>Patient name will be shown on TV display when called</li>
             <li>Each patient will automatically get a queue number</li>
+            <li>Pick a profile by IC or MRN to keep their visit history</li>
+            <li>Add a phone number to message the patient when their turn is near</li>
           </ul>
         </div>
       </CardContent>
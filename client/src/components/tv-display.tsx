@@ -6,17 +6,21 @@ import { createGradientStyle, createTextGradientStyle } from "@/hooks/useActiveT
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { audioSystem } from "@/lib/audio-system";
 import type { AudioSettings } from "@/lib/audio-system";
-import { useWebSocket } from "@/hooks/useWebSocket";
+import { useWebSocketTV } from "@/hooks/useWebSocket";
+import { AnnouncementLanguage } from "@shared/schema";
+import { parseTvLayout, TV_LAYOUT_SETTING_KEY, TV_STAGE_SIZES, type TvLayout, type TvWidgetSlot } from "@shared/tv-layout";
 
 interface QueueItem {
   id: string;
   name: string;
   number: string;
+  ticketPrefix?: string | null;
   room: string;
   status: "waiting" | "calling" | "completed";
   timestamp: Date;
   calledAt?: Date | null;
   requeueReason?: string | null;
+  isAppointment?: boolean; // Checked in from a booking - shown with a badge
 }
 
 interface PrayerTime {
@@ -78,6 +82,8 @@ interface TVDisplayProps {
   disableAudio?: boolean; // Mute audio for preview mode
   // Token for unauthenticated TV display access
   tvToken?: string;
+  layout?: TvLayout; // Overrides the clinic's saved layout - the layout editor's live preview
+  embedded?: boolean; // Scale the stage into the parent element instead of the whole screen
 }
 
 export function TVDisplay({ 
@@ -90,15 +96,17 @@ export function TVDisplay({
   showPrayerTimes = false,
   showWeather = false,
   disableAudio = false,
-  tvToken
+  tvToken,
+  layout,
+  embedded = false
 }: TVDisplayProps) {
   
   const [currentTime, setCurrentTime] = useState(new Date());
   const stageRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   
-  // WebSocket connection for real-time updates
-  const { socket } = useWebSocket();
+  // WebSocket connection for real-time updates (joins the clinic TV room when tvToken is set)
+  const { socket } = useWebSocketTV(tvToken);
   
   // Listen for settings/theme/text-groups updates via WebSocket for instant TV updates
   useEffect(() => {
@@ -194,6 +202,13 @@ export function TVDisplay({
     return acc;
   }, {});
 
+  // Screen layout - re-renders with the settings query when settings:updated arrives
+  const tvLayout = layout || parseTvLayout(settingsObj[TV_LAYOUT_SETTING_KEY]);
+  const tvLayoutOrientation = tvLayout.orientation;
+  const stageSize = TV_STAGE_SIZES[tvLayoutOrientation];
+  const isStage = isFullscreen || embedded;
+  const hasMarqueeSlot = tvLayout.slots.some(slot => slot.widget === "marquee");
+
   // Extract marquee settings with fallbacks
   const enableMarquee = settingsObj.enableMarquee === 'true';
   const marqueeText = settingsObj.marqueeText || "Welcome to the Health Clinic";
@@ -542,12 +557,12 @@ export function TVDisplay({
     return () => clearInterval(timer);
   }, []);
 
-  // Auto-scale 1920×1080 stage to fit any screen size (VIEWPORT-CENTERED APPROACH)
+  // Auto-scale the stage (1920×1080, or 1080×1920 for portrait layouts) to fit any screen size (VIEWPORT-CENTERED APPROACH)
   useEffect(() => {
-    if (!isFullscreen || !stageRef.current) return;
+    if (!isStage || !stageRef.current) return;
 
-    const STAGE_WIDTH = 1920;
-    const STAGE_HEIGHT = 1080;
+    const STAGE_WIDTH = stageSize.width;
+    const STAGE_HEIGHT = stageSize.height;
     const stage = stageRef.current;
     const viewport = stage.parentElement;
 
@@ -560,10 +575,13 @@ export function TVDisplay({
       // CINEMA LETTERBOX MODE: Scale by WIDTH only
       // Left/right edges ALWAYS touch the screen
       // Black bars appear ONLY on top/bottom (like movies)
-      const scale = vw / STAGE_WIDTH;
+      // Portrait layouts and the embedded preview fit the whole stage instead, centered both ways
+      const fitWhole = embedded || tvLayoutOrientation === 'portrait';
+      const scale = fitWhole ? Math.min(vw / STAGE_WIDTH, vh / STAGE_HEIGHT) : vw / STAGE_WIDTH;
 
       const scaledHeight = STAGE_HEIGHT * scale;
       const marginTop = -(scaledHeight / 2); // Center: offset by half of scaled height
+      const marginLeft = (vw - STAGE_WIDTH * scale) / 2;
 
       console.log('🎬 LETTERBOX MODE:', {
         viewportSize: `${vw}×${vh}`,
@@ -579,6 +597,7 @@ export function TVDisplay({
       stage.style.transformOrigin = 'top left';
       stage.style.transform = `scale(${scale})`;
       stage.style.marginTop = `${marginTop}px`;
+      stage.style.marginLeft = `${marginLeft}px`;
     };
 
     fitStage();
@@ -589,11 +608,11 @@ export function TVDisplay({
       window.removeEventListener('resize', fitStage);
       window.removeEventListener('orientationchange', fitStage);
     };
-  }, [isFullscreen]);
+  }, [isStage, embedded, tvLayoutOrientation, stageSize.width, stageSize.height]);
 
   // Calculate dynamic marquee duration for consistent speed
   useEffect(() => {
-    if (!marqueeRef.current || !enableMarquee) return;
+    if (!marqueeRef.current) return; // Only rendered when switched on or placed in the layout
 
     const calculateDuration = () => {
       const marqueeElement = marqueeRef.current;
@@ -630,7 +649,7 @@ export function TVDisplay({
     window.addEventListener('resize', calculateDuration);
     
     return () => window.removeEventListener('resize', calculateDuration);
-  }, [marqueeText, enableMarquee]);
+  }, [marqueeText, enableMarquee, hasMarqueeSlot]);
 
   // Detect new patient call and trigger animation sequence + AUDIO
   // Trigger on EITHER: new patient ID OR same patient called again (calledAt changes)
@@ -689,11 +708,18 @@ export function TVDisplay({
       setBlinkVisible(true);
       
       // AUDIO PLAYBACK: Parse audio settings and play sound (use correct setting keys)
+      const announcementLanguage = AnnouncementLanguage.safeParse(settingsObj.announcementLanguage);
       const audioSettings: AudioSettings = {
         enableSound: (settingsObj.enableSound ?? 'true') === 'true',
         volume: parseInt(settingsObj.volume || '70', 10),
         soundMode: 'preset',
-        presetKey: (settingsObj.presetKey || 'notification_sound') as any
+        presetKey: (settingsObj.presetKey || 'notification_sound') as any,
+        enableAnnouncement: settingsObj.enableAnnouncement === 'true',
+        announcementLanguage: announcementLanguage.success ? announcementLanguage.data : 'ms-MY', // Unknown values fall back to Malay
+        announcementTemplate: settingsObj.announcementTemplate || undefined,
+        announcementRepeat: parseInt(settingsObj.announcementRepeat || '1', 10),
+        speechRate: parseFloat(settingsObj.speechRate || '0.9'),
+        speechPitch: parseFloat(settingsObj.speechPitch || '1')
       };
 
       // Play notification sound for new/recalled patient (only if audio not disabled)
@@ -701,6 +727,7 @@ export function TVDisplay({
         audioSystem.playCallingSequence({
           patientName: currentPatient.name,
           patientNumber: parseInt(currentPatient.number, 10),
+          ticketPrefix: currentPatient.ticketPrefix,
           windowName: currentPatient.room
         }, audioSettings).catch(error => {
           console.error('Failed to play calling sound:', error);
@@ -743,7 +770,7 @@ export function TVDisplay({
   useEffect(() => {
     if (currentPatient) {
       // Calculate container widths (approximate based on typical screen sizes)
-      const isFullSize = isFullscreen;
+      const isFullSize = isStage;
       const nameContainerWidth = isFullSize ? 600 : 400; // Approximate container width
       const roomContainerWidth = isFullSize ? 400 : 300; // Room container is smaller
       
@@ -758,7 +785,7 @@ export function TVDisplay({
       setPatientNameFontSize(newNameSize);
       setRoomNameFontSize(newRoomSize);
     }
-  }, [currentPatient?.name, currentPatient?.room, isFullscreen]);
+  }, [currentPatient?.name, currentPatient?.room, isStage]);
 
   // Auto-resize text effect for history items
   useEffect(() => {
@@ -766,7 +793,7 @@ export function TVDisplay({
       const newHistoryFontSizes: Record<string, {name: string, room: string}> = {};
       
       // Calculate container widths for history items (bigger containers for bigger text)
-      const isFullSize = isFullscreen;
+      const isFullSize = isStage;
       const historyNameContainerWidth = isFullSize ? 450 : 350; // Bigger name column width
       const historyRoomContainerWidth = isFullSize ? 300 : 250; // Bigger room column width
       
@@ -786,7 +813,7 @@ export function TVDisplay({
       
       setHistoryFontSizes(newHistoryFontSizes);
     }
-  }, [queueHistory, isFullscreen]);
+  }, [queueHistory, isStage]);
 
   // Media slideshow management 
   useEffect(() => {
@@ -874,19 +901,24 @@ export function TVDisplay({
   // Get current media item
   const currentMedia = mediaItems.length > 0 ? mediaItems[currentMediaIndex] : null;
 
-  // Fixed 1920×1080 stage styling (only for fullscreen)
-  const stageStyle = isFullscreen ? {
+  // Layout grid - equal rows and columns, widgets span as many as they need
+  const gridTemplate = {
+    gridTemplateRows: `repeat(${tvLayout.rows}, minmax(0, 1fr))`,
+    gridTemplateColumns: `repeat(${tvLayout.columns}, minmax(0, 1fr))`,
+  };
+
+  // Fixed stage styling (fullscreen and embedded preview)
+  const stageStyle = isStage ? {
     position: 'absolute' as const,
     top: '50%',
     left: 0,
-    width: '1920px',
-    height: '1080px',
+    width: `${stageSize.width}px`,
+    height: `${stageSize.height}px`,
     transform: 'scale(1)',
     transformOrigin: 'top left', // Scale from top-left corner
     overflow: 'hidden',
     display: 'grid',
-    gridTemplateRows: '700px 380px', // Fixed: Top 700px (16:9 for 1248px), Bottom 380px = 1080px total
-    gridTemplateColumns: '1248px 672px', // Fixed: Left 65% (1248px), Right 35% (672px) = 1920px total
+    ...gridTemplate,
     gap: 0,
     padding: 0,
     boxSizing: 'border-box' as const,
@@ -894,370 +926,462 @@ export function TVDisplay({
     minHeight: 0,
     ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#ffffff')
   } : {
-    gridTemplateRows: 'auto 1fr',
-    gridTemplateColumns: '65% 35%',
+    ...gridTemplate,
     gap: '0',
     ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#ffffff')
   };
 
-  const wrapperClass = isFullscreen 
-    ? "text-gray-900 grid"  // No h-screen - inline 1080px is enough
+  const wrapperClass = isStage
+    ? "text-gray-900 grid"  // No h-screen - inline stage height is enough
     : "h-screen text-gray-900 grid";
 
-  // Render content - same for both fullscreen and non-fullscreen
-  const renderContent = () => (
-    <>
-      {/* Top Row - Advertisement Area with 16:9 ratio */}
-      <div className={`${isFullscreen ? 'm-0 p-0 w-full h-full' : 'p-4 w-full'}`}>
-        <div className="overflow-hidden flex items-center justify-center w-full h-full relative" style={{ aspectRatio: '16/9', backgroundColor: '#f3f4f6' }}>
-          {currentMedia ? (
-            <div 
-              className="absolute inset-0 w-full h-full transition-opacity ease-in-out"
-              style={{ 
-                opacity: isMediaVisible ? 1 : 0,
-                transitionDuration: '500ms'
-              }}
-            >
-              {isYouTubeUrl(currentMedia.url) ? (
-                <iframe
-                  src={getYouTubeEmbedUrl(currentMedia.url)}
-                  className="w-full h-full"
-                  frameBorder="0"
-                  allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                  allowFullScreen
-                  data-testid="youtube-content"
-                />
-              ) : currentMedia.type === "image" ? (
-                <img 
-                  src={currentMedia.url} 
-                  alt="Media Content" 
-                  className="w-full h-full object-cover"
-                  data-testid="media-content"
-                />
-              ) : (
-                <video 
-                  src={currentMedia.url} 
-                  className="w-full h-full object-cover"
-                  autoPlay
-                  muted
-                  loop
-                  data-testid="media-content"
-                />
-              )}
-            </div>
-          ) : (
-            <div className="h-full flex items-center justify-center">
-              <div className="text-center text-gray-500">
-                <div className="text-5xl font-bold mb-4" data-testid="no-display-message">
-                  NO DISPLAY
+  // One widget of the screen layout - fills its grid slot
+  const renderWidget = (slot: TvWidgetSlot) => {
+    switch (slot.widget) {
+      case "media": {
+        const mediaFitClass = slot.options?.mediaFit === "contain" ? "object-contain" : "object-cover";
+        return (
+          <div className="overflow-hidden flex items-center justify-center w-full h-full relative" style={{ backgroundColor: '#f3f4f6' }}>
+            {currentMedia ? (
+              <div 
+                className="absolute inset-0 w-full h-full transition-opacity ease-in-out"
+                style={{ 
+                  opacity: isMediaVisible ? 1 : 0,
+                  transitionDuration: '500ms'
+                }}
+              >
+                {isYouTubeUrl(currentMedia.url) ? (
+                  <iframe
+                    src={getYouTubeEmbedUrl(currentMedia.url)}
+                    className="w-full h-full"
+                    frameBorder="0"
+                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                    allowFullScreen
+                    data-testid="youtube-content"
+                  />
+                ) : currentMedia.type === "image" ? (
+                  <img 
+                    src={currentMedia.url} 
+                    alt="Media Content" 
+                    className={`w-full h-full ${mediaFitClass}`}
+                    data-testid="media-content"
+                  />
+                ) : (
+                  <video 
+                    src={currentMedia.url} 
+                    className={`w-full h-full ${mediaFitClass}`}
+                    autoPlay
+                    muted
+                    loop
+                    data-testid="media-content"
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <div className="text-center text-gray-500">
+                  <div className="text-5xl font-bold mb-4" data-testid="no-display-message">
+                    NO DISPLAY
+                  </div>
+                  <p className="text-lg">No media uploaded</p>
                 </div>
-                <p className="text-lg">No media uploaded</p>
               </div>
-            </div>
-          )}
-          
-          {/* Media indicator dots */}
-          {mediaItems.length > 1 && (
-            <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex space-x-2">
-              {mediaItems.map((_, index) => (
-                <div
-                  key={index}
-                  className={`w-3 h-3 rounded-full transition-all duration-300 ${
-                    index === currentMediaIndex ? 'bg-white shadow-lg' : 'bg-white/50'
-                  }`}
-                  data-testid={`media-indicator-${index}`}
-                />
-              ))}
-            </div>
-          )}
-        </div>
-      </div>
+            )}
 
-      {/* Top Right - Patient Names Header and History */}
-      <div className={`text-white ${isFullscreen ? 'p-0 m-0 row-span-2' : 'p-4 row-span-2'} flex flex-col w-full h-full`}
-           style={{
-             ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#1d4ed8')
-           }}>
-        {/* Header */}
-        <div className={`text-center ${isFullscreen ? 'mb-2 pt-4 px-4' : 'mb-4'}`}>
-          {/* Logo Display - Use uploaded logo if enabled */}
-          {showClinicLogo && settingsClinicLogo && (
-            <div className="mb-4">
-              <div className="bg-white rounded-lg p-4 shadow-lg w-full flex items-center justify-center">
-                <img 
-                  src={settingsClinicLogo} 
-                  alt="Clinic Logo" 
-                  className="h-32 w-auto object-contain"
-                  style={{ maxWidth: '350px' }}
-                  data-testid="clinic-logo"
-                />
+            {/* Media indicator dots */}
+            {mediaItems.length > 1 && (
+              <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex space-x-2">
+                {mediaItems.map((_, index) => (
+                  <div
+                    key={index}
+                    className={`w-3 h-3 rounded-full transition-all duration-300 ${
+                      index === currentMediaIndex ? 'bg-white shadow-lg' : 'bg-white/50'
+                    }`}
+                    data-testid={`media-indicator-${index}`}
+                  />
+                ))}
               </div>
-            </div>
-          )}
-          <h1 className="font-bold text-[16px]" 
-              style={{ 
-                ...getTextGroupStyles('clinic_name', true), // Exclude color overrides so Settings can override
-                ...getTextStyle(clinicNameTextMode, clinicNameTextColor, clinicNameTextGradient, '#ffffff'),
-                fontSize: 'var(--tv-fs-2xl, 48px)' // Responsive: auto-scales from 28px to 64px based on screen
-              }} 
-              data-testid="clinic-name">
-            {clinicName}
-          </h1>
-          <div className="px-4 py-2 rounded-lg mt-2"
-               style={{
-                 ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#1e40af'),
-                 color: '#ffffff'
-               }}>
-            <h2 className="font-bold" style={{ 
-              fontSize: 'var(--tv-fs-xl, 32px)', // Responsive: auto-scales from 22px to 48px
-              ...getTextGroupStyles('title', true), // Exclude color overrides so Settings can override
-              ...getTextStyle(callNameTextMode, callNameTextColor, callNameTextGradient, '#ffffff')
-            }}>CALLING</h2>
+            )}
           </div>
-        </div>
-
-        {/* Current Patient Display */}
-        {currentPatient ? (
-          <div className={`${isFullscreen ? 'p-2 mx-4 rounded-md mb-2' : 'p-3 rounded-lg mb-3'} text-center`}
+        );
+      }
+      case "header":
+        return (
+          <div className={`text-white text-center w-full h-full flex flex-col justify-center ${isStage ? 'px-4 py-2' : 'p-4'}`}
                style={{
-                 ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#2563eb')
+                 ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#1d4ed8')
                }}>
-            <div className="font-bold"
-                 style={{ 
-                   fontSize: patientNameFontSize,
-                   opacity: isBlinking ? (blinkVisible ? '1' : '0') : '1',
-                   transition: isBlinking ? 'none' : 'opacity 300ms ease-in-out',
-                   lineHeight: '1.1',
-                   wordBreak: 'break-word',
-                   overflow: 'hidden',
-                   ...getTextStyle(callNameTextMode, callNameTextColor, callNameTextGradient, '#facc15')
-                 }} 
-                 data-testid="current-patient-display">
-              {currentPatient.name}
-            </div>
-            <div
-                 style={{ 
-                   fontSize: roomNameFontSize,
-                   opacity: isBlinking ? (blinkVisible ? '1' : '0') : '1',
-                   transition: isBlinking ? 'none' : 'opacity 300ms ease-in-out',
-                   lineHeight: '1.1',
-                   wordBreak: 'break-word',
-                   overflow: 'hidden',
-                   ...getTextStyle(windowTextMode, windowTextColor, windowTextGradient, '#facc15')
-                 }} 
-                 data-testid="current-room">
-              {currentPatient.room}
-            </div>
+            {showClinicLogo && settingsClinicLogo && (
+              <div className="mb-4">
+                <div className="bg-white rounded-lg p-4 shadow-lg w-full flex items-center justify-center">
+                  <img 
+                    src={settingsClinicLogo} 
+                    alt="Clinic Logo" 
+                    className="h-32 w-auto object-contain"
+                    style={{ maxWidth: '350px' }}
+                    data-testid="clinic-logo"
+                  />
+                </div>
+              </div>
+            )}
+            <h1 className="font-bold text-[16px]" 
+                style={{ 
+                  ...getTextGroupStyles('clinic_name', true), // Exclude color overrides so Settings can override
+                  ...getTextStyle(clinicNameTextMode, clinicNameTextColor, clinicNameTextGradient, '#ffffff'),
+                  fontSize: 'var(--tv-fs-2xl, 48px)' // Responsive: auto-scales from 28px to 64px based on screen
+                }} 
+                data-testid="clinic-name">
+              {clinicName}
+            </h1>
           </div>
-        ) : (
-          <div className={`${isFullscreen ? 'p-2 mx-4 rounded-md mb-2' : 'p-3 rounded-lg mb-3'} text-center`}
+        );
+      case "current-call":
+        return (
+          <div className={`text-white w-full h-full flex flex-col justify-center ${isStage ? 'py-2' : 'p-4'}`}
                style={{
-                 ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#2563eb')
+                 ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#1d4ed8')
                }}>
-            <div className="text-white" style={{ fontSize: 'var(--tv-fs-2xl, 48px)' }}>N/A</div>
-          </div>
-        )}
-
-        {/* History Section */}
-        <div className="flex-1 mt-4">
-          {/* History Header */}
-          <div className="mb-4">
-            <div className="grid grid-cols-2 gap-1">
-              <div className="font-bold text-center" style={{ 
-                fontSize: 'var(--tv-fs-2xl, 48px)', // Bigger: auto-scales from 28px to 64px
-                ...getHistoryNameStyle(),
-                ...getTextGroupStyles('Token Label', true)
-              }}>NAME</div>
-              <div className="font-bold text-center" style={{ 
-                fontSize: 'var(--tv-fs-2xl, 48px)', // Bigger: auto-scales from 28px to 64px
-                ...getHistoryNameStyle(),
-                ...getTextGroupStyles('Token Label', true)
-              }}>ROOM</div>
+            <div className={`text-center ${isStage ? 'mb-2 px-4' : 'mb-4'}`}>
+              <div className="px-4 py-2 rounded-lg"
+                   style={{
+                     ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#1e40af'),
+                     color: '#ffffff'
+                   }}>
+                <h2 className="font-bold" style={{ 
+                  fontSize: 'var(--tv-fs-xl, 32px)', // Responsive: auto-scales from 22px to 48px
+                  ...getTextGroupStyles('title', true), // Exclude color overrides so Settings can override
+                  ...getTextStyle(callNameTextMode, callNameTextColor, callNameTextGradient, '#ffffff')
+                }}>CALLING</h2>
+              </div>
             </div>
-          </div>
-          
-          {/* History Items */}
-          <div className="space-y-4 overflow-y-auto flex-1" data-testid="queue-list">
-            {queueHistory.length > 0 ? (
-              queueHistory.slice(0, 3).map((item) => (
-                <div key={item.id} className="grid grid-cols-2 gap-1 p-2 rounded-lg"
-                     style={{
-                       ...getBackgroundStyle(queueItemBackgroundMode, queueItemBackgroundColor, queueItemBackgroundGradient, '#2563eb')
-                     }}>
-                  <div className="text-center" 
-                       style={{ 
-                         ...getHistoryNameStyle(),
-                         fontSize: historyFontSizes[item.id]?.name || 'var(--tv-fs-xl, 32px)', // Bigger: auto-scales from 22px to 48px
-                         fontWeight: 'bold',
-                         lineHeight: '1.1',
-                         wordBreak: 'break-word',
-                         overflow: 'hidden'
-                       }}>
-                    {item.name}
-                  </div>
-                  <div className="text-center" 
-                       style={{ 
-                         ...getHistoryNameStyle(),
-                         fontSize: historyFontSizes[item.id]?.room || 'var(--tv-fs-xl, 32px)', // Bigger: auto-scales from 22px to 48px
-                         fontWeight: 'normal',
-                         lineHeight: '1.1',
-                         wordBreak: 'break-word',
-                         overflow: 'hidden'
-                       }}>
-                    {item.room}
+
+            {/* Current Patient Display */}
+            {currentPatient ? (
+              <div className={`${isStage ? 'p-2 mx-4 rounded-md mb-2' : 'p-3 rounded-lg mb-3'} text-center`}
+                   style={{
+                     ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#2563eb')
+                   }}>
+                <div className="font-bold"
+                     style={{ 
+                       fontSize: patientNameFontSize,
+                       opacity: isBlinking ? (blinkVisible ? '1' : '0') : '1',
+                       transition: isBlinking ? 'none' : 'opacity 300ms ease-in-out',
+                       lineHeight: '1.1',
+                       wordBreak: 'break-word',
+                       overflow: 'hidden',
+                       ...getTextStyle(callNameTextMode, callNameTextColor, callNameTextGradient, '#facc15')
+                     }} 
+                     data-testid="current-patient-display">
+                  {currentPatient.name}
+                </div>
+                {currentPatient.isAppointment && (
+                  <div className="inline-block rounded px-2 mb-1 font-bold"
+                       style={{ fontSize: 'var(--tv-fs-md, 20px)', backgroundColor: '#1d4ed8', color: '#ffffff' }}
+                       data-testid="badge-current-appointment">
+                    APPOINTMENT
                   </div>
+                )}
+                <div
+                     style={{ 
+                       fontSize: roomNameFontSize,
+                       opacity: isBlinking ? (blinkVisible ? '1' : '0') : '1',
+                       transition: isBlinking ? 'none' : 'opacity 300ms ease-in-out',
+                       lineHeight: '1.1',
+                       wordBreak: 'break-word',
+                       overflow: 'hidden',
+                       ...getTextStyle(windowTextMode, windowTextColor, windowTextGradient, '#facc15')
+                     }} 
+                     data-testid="current-room">
+                  {currentPatient.room}
                 </div>
-              ))
+              </div>
             ) : (
-              <div className="text-center py-4">
-                <p style={{ 
-                  ...getTextGroupStyles('Patient History', true),
-                  ...getHistoryNameStyle(),
-                  fontSize: 'var(--tv-fs-xl, 32px)', // Responsive: auto-scales from 22px to 48px
-                  fontWeight: 'bold'
-                }} 
-                data-testid="text-no-queue">N/A</p>
+              <div className={`${isStage ? 'p-2 mx-4 rounded-md mb-2' : 'p-3 rounded-lg mb-3'} text-center`}
+                   style={{
+                     ...getBackgroundStyle(callBackgroundMode, callBackgroundColor, callBackgroundGradient, '#2563eb')
+                   }}>
+                <div className="text-white" style={{ fontSize: 'var(--tv-fs-2xl, 48px)' }}>N/A</div>
               </div>
             )}
           </div>
-        </div>
-
-      </div>
-
-      {/* Second Row Left - Date & Prayer Times / Weather */}
-      <div className={`${isFullscreen ? 'px-4 py-2 m-0' : 'px-4 py-2'} text-white w-full h-full flex flex-col justify-center`}
-           style={{
-             ...getBackgroundStyle(showWeather ? weatherBackgroundMode : prayerTimesBackgroundMode, showWeather ? weatherBackgroundColor : prayerTimesBackgroundColor, showWeather ? weatherBackgroundGradient : prayerTimesBackgroundGradient, showWeather ? '#f97316' : '#1e40af')
-           }}>
-        {/* Date/Time Section - Larger */}
-        <div className={`bg-white text-gray-900 p-6 ${isFullscreen ? 'rounded-md mb-6' : 'rounded-lg mb-6'} flex items-center justify-center space-x-8`}>
-          <div className="text-center">
-            <div className="text-6xl font-bold text-black">{dateInfo.day}</div>
-          </div>
-          <div className="text-center">
-            <div className="font-bold text-4xl">{dateInfo.dayName}</div>
-            <div className="text-3xl text-gray-600">{dateInfo.month} {dateInfo.year}</div>
-          </div>
-          <div className="text-center">
-            <div className="font-mono font-bold text-6xl" data-testid="display-time">
-              {formatTime(currentTime)}
-            </div>
-          </div>
-        </div>
-
-        {/* Prayer Times Section - Conditional with Loading/Error States */}
-        {showPrayerTimes && (
-          <div className="text-center">
-            <div className="flex items-center justify-center space-x-3 mb-4">
-              <span className="text-yellow-400 text-3xl">🕌</span>
-              <span className="font-bold text-3xl" style={{ ...getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#facc15') }}>PRAYER TIME</span>
-            </div>
-            
-            {prayerTimesLoading ? (
-              <div className="text-white text-xl">
-                Loading prayer times...
+        );
+      case "history":
+        return (
+          <div className={`text-white w-full h-full flex flex-col ${isStage ? 'px-4 py-2' : 'p-4'}`}
+               style={{
+                 ...getBackgroundStyle(headerBackgroundMode, headerBackgroundColor, headerBackgroundGradient, '#1d4ed8')
+               }}>
+            {/* History Section */}
+            <div className="flex-1">
+              {/* History Header */}
+              <div className="mb-4">
+                <div className="grid grid-cols-2 gap-1">
+                  <div className="font-bold text-center" style={{ 
+                    fontSize: 'var(--tv-fs-2xl, 48px)', // Bigger: auto-scales from 28px to 64px
+                    ...getHistoryNameStyle(),
+                    ...getTextGroupStyles('Token Label', true)
+                  }}>NAME</div>
+                  <div className="font-bold text-center" style={{ 
+                    fontSize: 'var(--tv-fs-2xl, 48px)', // Bigger: auto-scales from 28px to 64px
+                    ...getHistoryNameStyle(),
+                    ...getTextGroupStyles('Token Label', true)
+                  }}>ROOM</div>
+                </div>
               </div>
-            ) : null}
-            
-            {!prayerTimesLoading && displayPrayerTimes.length > 0 && (
-              <div className="grid grid-cols-5 gap-4">
-                {displayPrayerTimes.map((prayer, index) => {
-                  const isCurrentPrayer = nextPrayer === prayer.key && shouldHighlight;
-                  
-                  return (
-                    <div key={prayer.key || index} className="text-center">
-                      <div className={`font-bold text-2xl ${isCurrentPrayer ? 'animate-pulse' : ''}`} style={{
-                        ...(isCurrentPrayer ? getTextStyle(prayerTimesTextMode, prayerTimesHighlightColor, prayerTimesTextGradient, prayerTimesHighlightColor) : getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#ffffff'))
-                      }}>
-                        {prayer.name}
+
+              {/* History Items */}
+              <div className="space-y-4 overflow-y-auto flex-1" data-testid="queue-list">
+                {queueHistory.length > 0 ? (
+                  queueHistory.slice(0, slot.options?.historyCount ?? 3).map((item) => (
+                    <div key={item.id} className="grid grid-cols-2 gap-1 p-2 rounded-lg"
+                         style={{
+                           ...getBackgroundStyle(queueItemBackgroundMode, queueItemBackgroundColor, queueItemBackgroundGradient, '#2563eb')
+                         }}>
+                      <div className="text-center" 
+                           style={{ 
+                             ...getHistoryNameStyle(),
+                             fontSize: historyFontSizes[item.id]?.name || 'var(--tv-fs-xl, 32px)', // Bigger: auto-scales from 22px to 48px
+                             fontWeight: 'bold',
+                             lineHeight: '1.1',
+                             wordBreak: 'break-word',
+                             overflow: 'hidden'
+                           }}>
+                        {item.name}
+                        {item.isAppointment && (
+                          <div className="inline-block rounded px-2 ml-2 align-middle"
+                               style={{ fontSize: 'var(--tv-fs-sm, 16px)', backgroundColor: '#1d4ed8', color: '#ffffff' }}
+                               data-testid={`badge-history-appointment-${item.id}`}>
+                            APPT
+                          </div>
+                        )}
                       </div>
-                      <div className={`text-2xl ${isCurrentPrayer ? 'font-bold' : ''}`} style={{
-                        ...(isCurrentPrayer ? getTextStyle(prayerTimesTextMode, prayerTimesHighlightColor, prayerTimesTextGradient, prayerTimesHighlightColor) : getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#ffffff'))
-                      }}>
-                        {prayer.time}
+                      <div className="text-center" 
+                           style={{ 
+                             ...getHistoryNameStyle(),
+                             fontSize: historyFontSizes[item.id]?.room || 'var(--tv-fs-xl, 32px)', // Bigger: auto-scales from 22px to 48px
+                             fontWeight: 'normal',
+                             lineHeight: '1.1',
+                             wordBreak: 'break-word',
+                             overflow: 'hidden'
+                           }}>
+                        {item.room}
                       </div>
                     </div>
-                  );
-                })}
-              </div>
-            )}
-            
-            {!prayerTimesLoading && displayPrayerTimes.length === 0 && (
-              <div className="text-white text-xl">
-                Prayer times not available
+                  ))
+                ) : (
+                  <div className="text-center py-4">
+                    <p style={{ 
+                      ...getTextGroupStyles('Patient History', true),
+                      ...getHistoryNameStyle(),
+                      fontSize: 'var(--tv-fs-xl, 32px)', // Responsive: auto-scales from 22px to 48px
+                      fontWeight: 'bold'
+                    }} 
+                    data-testid="text-no-queue">N/A</p>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        )}
-
-        {/* Weather Section - Real Location-Based Weather */}
-        {showWeather && (
-          <div className="text-center">
-            <div className="flex items-center justify-center space-x-3 mb-4">
-              <span className="text-blue-400 text-3xl">🌤️</span>
-              <span className="font-bold text-3xl" style={{ ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#60a5fa') }}>WEATHER</span>
             </div>
-            
-            {/* Fix rendering race condition - better conditional logic */}
-            {!location ? (
-              <div className="text-white text-xl">
-                Detecting location...
+          </div>
+        );
+      case "clock":
+        return (
+          <div className="px-4 py-2 text-white w-full h-full flex flex-col justify-center"
+               style={{
+                 ...getBackgroundStyle(showWeather ? weatherBackgroundMode : prayerTimesBackgroundMode, showWeather ? weatherBackgroundColor : prayerTimesBackgroundColor, showWeather ? weatherBackgroundGradient : prayerTimesBackgroundGradient, showWeather ? '#f97316' : '#1e40af')
+               }}>
+            <div className={`bg-white text-gray-900 p-6 ${isStage ? 'rounded-md' : 'rounded-lg'} flex items-center justify-center space-x-8`}>
+              <div className="text-center">
+                <div className="text-6xl font-bold text-black">{dateInfo.day}</div>
               </div>
-            ) : weatherLoading ? (
-              <div className="text-white text-xl">
-                Loading weather data...
+              <div className="text-center">
+                <div className="font-bold text-4xl">{dateInfo.dayName}</div>
+                <div className="text-3xl text-gray-600">{dateInfo.month} {dateInfo.year}</div>
               </div>
-            ) : weatherData ? (
-              <div className="space-y-4">
-                {locationError && (
-                  <div className="text-yellow-300 text-lg mb-2">
-                    Using default location
+              <div className="text-center">
+                <div className="font-mono font-bold text-6xl" data-testid="display-time">
+                  {formatTime(currentTime)}
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      case "info":
+        return (
+          <div className="px-4 py-2 text-white w-full h-full flex flex-col justify-center"
+               style={{
+                 ...getBackgroundStyle(showWeather ? weatherBackgroundMode : prayerTimesBackgroundMode, showWeather ? weatherBackgroundColor : prayerTimesBackgroundColor, showWeather ? weatherBackgroundGradient : prayerTimesBackgroundGradient, showWeather ? '#f97316' : '#1e40af')
+               }}>
+            {/* Prayer Times Section - Conditional with Loading/Error States */}
+            {showPrayerTimes && (
+              <div className="text-center">
+                <div className="flex items-center justify-center space-x-3 mb-4">
+                  <span className="text-yellow-400 text-3xl">🕌</span>
+                  <span className="font-bold text-3xl" style={{ ...getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#facc15') }}>PRAYER TIME</span>
+                </div>
+
+                {prayerTimesLoading ? (
+                  <div className="text-white text-xl">
+                    Loading prayer times...
                   </div>
-                )}
-                
-                {/* All Weather Info in One Row */}
-                <div className="flex items-center justify-center gap-8">
-                  <span className="text-7xl">{weatherData.current.icon}</span>
-                  <span className="text-6xl font-bold" style={{
-                    ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
-                  }}>
-                    {weatherData.current.temperature}{weatherData.units.temperature}
-                  </span>
-                  <span className="text-3xl" style={{
-                    ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
-                  }}>
-                    {weatherData.current.description}
-                  </span>
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl font-semibold" style={{
-                      ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#bfdbfe')
-                    }}>Humidity:</span>
-                    <span className="text-3xl" style={{
-                      ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
-                    }}>{weatherData.current.humidity}{weatherData.units.humidity}</span>
+                ) : null}
+
+                {!prayerTimesLoading && displayPrayerTimes.length > 0 && (
+                  <div className="grid grid-cols-5 gap-4">
+                    {displayPrayerTimes.map((prayer, index) => {
+                      const isCurrentPrayer = nextPrayer === prayer.key && shouldHighlight;
+
+                      return (
+                        <div key={prayer.key || index} className="text-center">
+                          <div className={`font-bold text-2xl ${isCurrentPrayer ? 'animate-pulse' : ''}`} style={{
+                            ...(isCurrentPrayer ? getTextStyle(prayerTimesTextMode, prayerTimesHighlightColor, prayerTimesTextGradient, prayerTimesHighlightColor) : getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#ffffff'))
+                          }}>
+                            {prayer.name}
+                          </div>
+                          <div className={`text-2xl ${isCurrentPrayer ? 'font-bold' : ''}`} style={{
+                            ...(isCurrentPrayer ? getTextStyle(prayerTimesTextMode, prayerTimesHighlightColor, prayerTimesTextGradient, prayerTimesHighlightColor) : getTextStyle(prayerTimesTextMode, prayerTimesTextColor, prayerTimesTextGradient, '#ffffff'))
+                          }}>
+                            {prayer.time}
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
-                  <div className="flex items-center gap-3">
-                    <span className="text-2xl font-semibold" style={{
-                      ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#bfdbfe')
-                    }}>Wind:</span>
-                    <span className="text-3xl" style={{
-                      ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
-                    }}>{weatherData.current.windSpeed} {weatherData.units.windSpeed}</span>
+                )}
+
+                {!prayerTimesLoading && displayPrayerTimes.length === 0 && (
+                  <div className="text-white text-xl">
+                    Prayer times not available
                   </div>
-                </div>
+                )}
               </div>
-            ) : (
-              <div className="text-white text-xl">
-                Weather data unavailable, retrying...
+            )}
+
+            {/* Weather Section - Real Location-Based Weather */}
+            {showWeather && (
+              <div className="text-center">
+                <div className="flex items-center justify-center space-x-3 mb-4">
+                  <span className="text-blue-400 text-3xl">🌤️</span>
+                  <span className="font-bold text-3xl" style={{ ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#60a5fa') }}>WEATHER</span>
+                </div>
+
+                {/* Fix rendering race condition - better conditional logic */}
+                {!location ? (
+                  <div className="text-white text-xl">
+                    Detecting location...
+                  </div>
+                ) : weatherLoading ? (
+                  <div className="text-white text-xl">
+                    Loading weather data...
+                  </div>
+                ) : weatherData ? (
+                  <div className="space-y-4">
+                    {locationError && (
+                      <div className="text-yellow-300 text-lg mb-2">
+                        Using default location
+                      </div>
+                    )}
+
+                    {/* All Weather Info in One Row */}
+                    <div className="flex items-center justify-center gap-8">
+                      <span className="text-7xl">{weatherData.current.icon}</span>
+                      <span className="text-6xl font-bold" style={{
+                        ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
+                      }}>
+                        {weatherData.current.temperature}{weatherData.units.temperature}
+                      </span>
+                      <span className="text-3xl" style={{
+                        ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
+                      }}>
+                        {weatherData.current.description}
+                      </span>
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl font-semibold" style={{
+                          ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#bfdbfe')
+                        }}>Humidity:</span>
+                        <span className="text-3xl" style={{
+                          ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
+                        }}>{weatherData.current.humidity}{weatherData.units.humidity}</span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl font-semibold" style={{
+                          ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#bfdbfe')
+                        }}>Wind:</span>
+                        <span className="text-3xl" style={{
+                          ...getTextStyle(weatherTextMode, weatherTextColor, weatherTextGradient, '#ffffff')
+                        }}>{weatherData.current.windSpeed} {weatherData.units.windSpeed}</span>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-white text-xl">
+                    Weather data unavailable, retrying...
+                  </div>
+                )}
               </div>
             )}
           </div>
-        )}
-      </div>
+        );
+      case "marquee":
+        return (
+          <div className="w-full h-full flex items-center text-white overflow-hidden"
+               style={{
+                 ...getBackgroundStyle(marqueeBackgroundMode, marqueeBackgroundColor, marqueeBackgroundGradient, '#1e40af')
+               }}>
+            <div className="overflow-hidden w-full">
+              <div 
+                ref={marqueeRef}
+                className="inline-flex whitespace-nowrap animate-marquee" 
+                data-testid="marquee-container" 
+                aria-hidden="false"
+                style={{
+                  animationDuration: `${marqueeDuration}s`
+                }}
+              >
+                <span 
+                  className="px-8 font-bold text-3xl" 
+                  style={{ 
+                    fontSize: 'clamp(2rem, 2.5vw, 2.5rem)',
+                    color: marqueeColor
+                  }}
+                >
+                  {marqueeText}
+                </span>
+                <span 
+                  className="px-8 font-bold text-3xl" 
+                  style={{ 
+                    fontSize: 'clamp(2rem, 2.5vw, 2.5rem)',
+                    color: marqueeColor
+                  }} 
+                  aria-hidden="true"
+                >
+                  {marqueeText}
+                </span>
+              </div>
+            </div>
+          </div>
+        );
+    }
+  };
 
-      
-      {/* Floating Marquee Overlay */}
-      {isFullscreen && enableMarquee && (
+  // Render content - same for both fullscreen and non-fullscreen
+  const renderContent = () => (
+    <>
+      {tvLayout.slots.map((slot) => (
+        <div
+          key={slot.id}
+          className="overflow-hidden min-w-0 min-h-0"
+          style={{
+            gridRow: `${slot.row} / span ${slot.rowSpan}`,
+            gridColumn: `${slot.column} / span ${slot.columnSpan}`
+          }}
+          data-testid={`tv-widget-${slot.widget}`}
+        >
+          {renderWidget(slot)}
+        </div>
+      ))}
+
+      {/* Floating Marquee Overlay - only when the layout has no scrolling text slot */}
+      {isStage && enableMarquee && !hasMarqueeSlot && (
         <div 
           className="fixed bottom-0 left-0 w-full text-white py-2 z-50"
           style={{
@@ -1299,7 +1423,7 @@ export function TVDisplay({
       )}
 
       {/* Highlight Card Overlay - Rectangle showing name and window */}
-      {showHighlight && currentPatient && (
+      {showHighlight && currentPatient && !embedded && (
         <div className="fixed inset-0 flex items-center justify-center z-[100]" 
              style={{ backgroundColor: 'rgba(0, 0, 0, 0.8)' }}
              data-testid="highlight-overlay">
@@ -1392,10 +1516,11 @@ export function TVDisplay({
     </>
   );
 
-  // Conditional wrapper: fullscreen uses viewport-centered 1920×1080 stage with black background
-  if (isFullscreen) {
+  // Conditional wrapper: fullscreen uses viewport-centered stage with black background,
+  // embedded does the same inside its parent element
+  if (isStage) {
     return (
-      <div className="fixed inset-0 bg-black overflow-hidden">
+      <div className={`${embedded ? 'absolute' : 'fixed'} inset-0 bg-black overflow-hidden`}>
         <div 
           ref={stageRef}
           id="stage"
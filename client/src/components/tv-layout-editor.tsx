@@ -0,0 +1,569 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LayoutDashboard, Plus, Trash2, Save, RotateCcw, X } from "lucide-react";
+import { TVDisplay } from "@/components/tv-display";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BUILT_IN_TV_LAYOUT_PRESETS,
+  MAX_SAVED_TV_LAYOUT_PRESETS,
+  TV_LAYOUT_GRID_SIZE,
+  TV_LAYOUT_ORIENTATIONS,
+  TV_LAYOUT_PRESETS_SETTING_KEY,
+  TV_LAYOUT_SETTING_KEY,
+  TV_WIDGET_LABELS,
+  TV_WIDGET_TYPES,
+  findTvLayoutProblem,
+  parseTvLayout,
+  parseTvLayoutPresets,
+  type TvLayout,
+  type TvLayoutOrientation,
+  type TvLayoutPreset,
+  type TvLayoutSettings,
+  type TvWidgetOptions,
+  type TvWidgetSlot,
+  type TvWidgetType,
+} from "@shared/tv-layout";
+import type { Media } from "@shared/schema";
+
+const WIDGET_COLORS: Record<TvWidgetType, string> = {
+  media: "bg-slate-500",
+  header: "bg-blue-700",
+  "current-call": "bg-green-600",
+  history: "bg-blue-500",
+  clock: "bg-violet-600",
+  info: "bg-orange-500",
+  marquee: "bg-sky-700",
+};
+
+// Sample calls for the live preview - module level so the TV's call animation runs once, not on every render
+const PREVIEW_CALL = {
+  id: "preview-call",
+  name: "AHMAD BIN ALI",
+  number: "12",
+  room: "Room 1",
+  status: "calling" as const,
+  timestamp: new Date(),
+  calledAt: null,
+};
+
+const PREVIEW_HISTORY = ["SITI AMINAH", "TAN WEI MING", "RAJ KUMAR", "NUR AISYAH"].map((name, index) => ({
+  id: `preview-history-${index}`,
+  name,
+  number: String(11 - index),
+  room: `Room ${(index % 3) + 1}`,
+  status: "completed" as const,
+  timestamp: new Date(),
+  calledAt: null,
+}));
+
+// Top-left free cell a new widget can go in
+function findFreeCell(layout: TvLayout): { row: number; column: number } {
+  for (let row = 1; row <= layout.rows; row++) {
+    for (let column = 1; column <= layout.columns; column++) {
+      const taken = layout.slots.some(slot =>
+        row >= slot.row && row < slot.row + slot.rowSpan && column >= slot.column && column < slot.column + slot.columnSpan
+      );
+      if (!taken) return { row, column };
+    }
+  }
+  return { row: 1, column: 1 };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
+
+// TV screen layout - drag widgets around a grid, with a live preview and presets
+export function TvLayoutEditor() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TvLayout | null>(null);
+  const [presets, setPresets] = useState<TvLayoutPreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [newWidget, setNewWidget] = useState<TvWidgetType | "">("");
+  const draggingId = useRef<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const { data: settingsData = [], isSuccess: settingsLoaded } = useQuery<Array<{ key: string; value: string }>>({
+    queryKey: ['/api/settings'],
+  });
+
+  const { data: activeMedia = [] } = useQuery<Media[]>({
+    queryKey: ['/api/display'],
+  });
+
+  const settings = settingsData.reduce((acc: Record<string, string>, setting) => {
+    acc[setting.key] = setting.value;
+    return acc;
+  }, {});
+  const savedLayout = parseTvLayout(settings[TV_LAYOUT_SETTING_KEY]);
+
+  // Load once - the settings query polls, and later refetches must not wipe unsaved edits
+  useEffect(() => {
+    if (draft || !settingsLoaded) return;
+    setDraft(parseTvLayout(settings[TV_LAYOUT_SETTING_KEY]));
+    setPresets(parseTvLayoutPresets(settings[TV_LAYOUT_PRESETS_SETTING_KEY]));
+  }, [settingsLoaded]);
+
+  const saveLayoutMutation = useMutation({
+    mutationFn: async (updates: TvLayoutSettings) => {
+      const response = await apiRequest("PUT", "/api/tv-layout", updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400") ? "Check the layout - widgets must fit the grid without overlapping" : "Failed to save TV layout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!draft) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-muted-foreground">Loading TV layout...</CardContent>
+      </Card>
+    );
+  }
+
+  const problem = findTvLayoutProblem(draft);
+  const selectedSlot = draft.slots.find(slot => slot.id === selectedId) || null;
+  const unplacedWidgets = TV_WIDGET_TYPES.filter(widget => !draft.slots.some(slot => slot.widget === widget));
+
+  const updateSlot = (id: string, changes: Partial<TvWidgetSlot>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      slots: prev.slots.map(slot => slot.id === id ? { ...slot, ...changes } : slot),
+    });
+  };
+
+  const updateSlotOptions = (slot: TvWidgetSlot, changes: TvWidgetOptions) => {
+    updateSlot(slot.id, { options: { ...slot.options, ...changes } });
+  };
+
+  const applyPreset = (preset: TvLayoutPreset) => {
+    setDraft(preset.layout);
+    setSelectedId(null);
+  };
+
+  const handleAddWidget = () => {
+    if (!newWidget) return;
+    const { row, column } = findFreeCell(draft);
+    const slot: TvWidgetSlot = { id: newWidget, widget: newWidget, row, column, rowSpan: 1, columnSpan: 1 };
+    setDraft({ ...draft, slots: [...draft.slots, slot] });
+    setSelectedId(slot.id);
+    setNewWidget("");
+  };
+
+  const handleRemoveWidget = (id: string) => {
+    setDraft({ ...draft, slots: draft.slots.filter(slot => slot.id !== id) });
+    setSelectedId(null);
+  };
+
+  // Dropped widgets keep their size; their top-left corner goes to the cell under the pointer
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const slot = draft.slots.find(item => item.id === draggingId.current);
+    draggingId.current = null;
+    if (!slot || !gridRef.current) return;
+
+    const rect = gridRef.current.getBoundingClientRect();
+    const column = Math.floor((e.clientX - rect.left) / rect.width * draft.columns) + 1;
+    const row = Math.floor((e.clientY - rect.top) / rect.height * draft.rows) + 1;
+    updateSlot(slot.id, {
+      row: clamp(row, 1, Math.max(1, draft.rows - slot.rowSpan + 1)),
+      column: clamp(column, 1, Math.max(1, draft.columns - slot.columnSpan + 1)),
+    });
+  };
+
+  const handleSave = () => {
+    if (problem) return;
+    saveLayoutMutation.mutate({ layout: draft, presets }, {
+      onSuccess: () => toast({
+        title: "TV Layout Saved",
+        description: "All TVs now show the new layout",
+      }),
+    });
+  };
+
+  // Presets are saved straight away, together with the layout TVs currently show - not the draft
+  const savePresets = (nextPresets: TvLayoutPreset[], description: string) => {
+    saveLayoutMutation.mutate({ layout: savedLayout, presets: nextPresets }, {
+      onSuccess: () => {
+        setPresets(nextPresets);
+        toast({ title: "Presets Updated", description });
+      },
+    });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || problem) return;
+    const others = presets.filter(preset => preset.name !== name);
+    if (others.length >= MAX_SAVED_TV_LAYOUT_PRESETS) {
+      toast({
+        title: "Too many presets",
+        description: `Delete a preset first - at most ${MAX_SAVED_TV_LAYOUT_PRESETS} can be saved`,
+        variant: "destructive",
+      });
+      return;
+    }
+    savePresets([...others, { name, layout: draft }], `Saved "${name}"`);
+    setPresetName("");
+  };
+
+  const handleDeletePreset = (name: string) => {
+    if (confirm(`Delete the "${name}" preset?`)) {
+      savePresets(presets.filter(preset => preset.name !== name), `Deleted "${name}"`);
+    }
+  };
+
+  const isPortrait = draft.orientation === "portrait";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutDashboard className="h-5 w-5" />
+          Screen Layout
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Presets */}
+        <div className="space-y-2">
+          <Label>Presets</Label>
+          <div className="flex flex-wrap gap-2">
+            {BUILT_IN_TV_LAYOUT_PRESETS.map((preset) => (
+              <Button
+                key={preset.name}
+                size="sm"
+                variant="outline"
+                onClick={() => applyPreset(preset)}
+                data-testid={`button-tv-layout-preset-${preset.name}`}
+              >
+                {preset.name}
+              </Button>
+            ))}
+            {presets.map((preset) => (
+              <div key={preset.name} className="flex items-center">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="rounded-r-none"
+                  onClick={() => applyPreset(preset)}
+                  data-testid={`button-tv-layout-saved-preset-${preset.name}`}
+                >
+                  {preset.name}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="rounded-l-none px-2"
+                  onClick={() => handleDeletePreset(preset.name)}
+                  disabled={saveLayoutMutation.isPending}
+                  data-testid={`button-delete-tv-layout-preset-${preset.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Grid size */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Orientation</Label>
+            <Select
+              value={draft.orientation}
+              onValueChange={(value) => setDraft({ ...draft, orientation: value as TvLayoutOrientation })}
+            >
+              <SelectTrigger data-testid="select-tv-layout-orientation">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TV_LAYOUT_ORIENTATIONS.map((orientation) => (
+                  <SelectItem key={orientation} value={orientation}>
+                    {orientation === "landscape" ? "Landscape (16:9)" : "Portrait (9:16)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tvLayoutColumns">Columns</Label>
+            <Input
+              id="tvLayoutColumns"
+              type="number"
+              min={1}
+              max={TV_LAYOUT_GRID_SIZE}
+              value={draft.columns}
+              onChange={(e) => setDraft({ ...draft, columns: clamp(parseInt(e.target.value) || 1, 1, TV_LAYOUT_GRID_SIZE) })}
+              data-testid="input-tv-layout-columns"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tvLayoutRows">Rows</Label>
+            <Input
+              id="tvLayoutRows"
+              type="number"
+              min={1}
+              max={TV_LAYOUT_GRID_SIZE}
+              value={draft.rows}
+              onChange={(e) => setDraft({ ...draft, rows: clamp(parseInt(e.target.value) || 1, 1, TV_LAYOUT_GRID_SIZE) })}
+              data-testid="input-tv-layout-rows"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Grid editor */}
+          <div className="space-y-2">
+            <Label>Layout</Label>
+            <p className="text-xs text-muted-foreground">Drag a widget to move it, click it to change its size and options.</p>
+            <div className={isPortrait ? "max-w-xs mx-auto" : ""}>
+              <div
+                ref={gridRef}
+                className="relative grid gap-0.5 bg-muted border rounded-lg p-0.5"
+                style={{
+                  aspectRatio: isPortrait ? '9/16' : '16/9',
+                  gridTemplateRows: `repeat(${draft.rows}, minmax(0, 1fr))`,
+                  gridTemplateColumns: `repeat(${draft.columns}, minmax(0, 1fr))`,
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleDrop}
+                data-testid="tv-layout-grid"
+              >
+                {Array.from({ length: draft.rows * draft.columns }, (_, index) => (
+                  <div
+                    key={`cell-${index}`}
+                    className="bg-background/60 rounded-sm"
+                    style={{
+                      gridRow: Math.floor(index / draft.columns) + 1,
+                      gridColumn: (index % draft.columns) + 1,
+                    }}
+                  />
+                ))}
+                {draft.slots.map((slot) => (
+                  <div
+                    key={slot.id}
+                    draggable
+                    onDragStart={(e) => {
+                      draggingId.current = slot.id;
+                      e.dataTransfer.effectAllowed = "move";
+                    }}
+                    onClick={() => setSelectedId(slot.id)}
+                    className={`${WIDGET_COLORS[slot.widget]} text-white text-xs font-medium rounded-sm flex items-center justify-center text-center p-1 cursor-move overflow-hidden opacity-90 ${
+                      slot.id === selectedId ? 'ring-2 ring-offset-1 ring-primary' : ''
+                    }`}
+                    style={{
+                      gridRow: `${slot.row} / span ${slot.rowSpan}`,
+                      gridColumn: `${slot.column} / span ${slot.columnSpan}`,
+                    }}
+                    data-testid={`tv-layout-slot-${slot.widget}`}
+                  >
+                    {TV_WIDGET_LABELS[slot.widget]}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {problem && (
+              <p className="text-sm text-destructive" data-testid="text-tv-layout-problem">{problem}</p>
+            )}
+          </div>
+
+          {/* Live preview */}
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            <p className="text-xs text-muted-foreground">Uses your current colours, media and display settings with sample calls.</p>
+            <div className={isPortrait ? "max-w-xs mx-auto" : ""}>
+              <div
+                className="relative w-full rounded-lg overflow-hidden bg-black"
+                style={{ aspectRatio: isPortrait ? '9/16' : '16/9' }}
+                data-testid="tv-layout-preview"
+              >
+                <TVDisplay
+                  layout={draft}
+                  embedded={true}
+                  disableAudio={true}
+                  currentPatient={PREVIEW_CALL}
+                  queueHistory={PREVIEW_HISTORY}
+                  clinicName={settings.clinicName}
+                  mediaItems={activeMedia.map(media => ({
+                    url: media.url,
+                    type: media.url.includes('youtube') || media.url.includes('youtu.be') ? 'youtube' : media.type as "image" | "video",
+                    name: media.name
+                  }))}
+                  showPrayerTimes={settings.showPrayerTimes === 'true'}
+                  showWeather={settings.showWeather === 'true'}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Selected widget */}
+        {selectedSlot ? (
+          <div className="p-4 border rounded-lg space-y-4" data-testid="tv-layout-selected-widget">
+            <div className="flex items-center justify-between">
+              <Badge className={`${WIDGET_COLORS[selectedSlot.widget]} text-white`}>{TV_WIDGET_LABELS[selectedSlot.widget]}</Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemoveWidget(selectedSlot.id)}
+                data-testid="button-remove-tv-widget"
+              >
+                <Trash2 className="h-4 w-4 text-red-500 mr-2" />
+                Remove
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {([
+                { field: "row", label: "Row", max: draft.rows },
+                { field: "column", label: "Column", max: draft.columns },
+                { field: "rowSpan", label: "Height (rows)", max: draft.rows },
+                { field: "columnSpan", label: "Width (columns)", max: draft.columns },
+              ] as const).map(({ field, label, max }) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`tvWidget-${field}`}>{label}</Label>
+                  <Input
+                    id={`tvWidget-${field}`}
+                    type="number"
+                    min={1}
+                    max={max}
+                    value={selectedSlot[field]}
+                    onChange={(e) => updateSlot(selectedSlot.id, { [field]: clamp(parseInt(e.target.value) || 1, 1, max) })}
+                    data-testid={`input-tv-widget-${field}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {selectedSlot.widget === "history" && (
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="tvWidgetHistoryCount">Calls shown</Label>
+                <Input
+                  id="tvWidgetHistoryCount"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={selectedSlot.options?.historyCount ?? 3}
+                  onChange={(e) => updateSlotOptions(selectedSlot, { historyCount: clamp(parseInt(e.target.value) || 1, 1, 10) })}
+                  data-testid="input-tv-widget-history-count"
+                />
+              </div>
+            )}
+
+            {selectedSlot.widget === "media" && (
+              <div className="space-y-2 max-w-xs">
+                <Label>Fit</Label>
+                <Select
+                  value={selectedSlot.options?.mediaFit ?? "cover"}
+                  onValueChange={(value) => updateSlotOptions(selectedSlot, { mediaFit: value as "cover" | "contain" })}
+                >
+                  <SelectTrigger data-testid="select-tv-widget-media-fit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cover">Fill (crop edges)</SelectItem>
+                    <SelectItem value="contain">Fit (show whole image)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(selectedSlot.widget === "clock" || selectedSlot.widget === "info" || selectedSlot.widget === "marquee") && (
+              <p className="text-xs text-muted-foreground">
+                {selectedSlot.widget === "info"
+                  ? "Shows prayer times or weather, whichever is switched on in the display settings above."
+                  : selectedSlot.widget === "marquee"
+                    ? "Uses the scrolling text and colours set above. Without this widget, switched-on scrolling text floats along the bottom of the screen."
+                    : "Colours follow the prayer times or weather background."}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Select a widget in the layout to edit it.</p>
+        )}
+
+        {/* Add widget */}
+        {unplacedWidgets.length > 0 && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-2 flex-1 max-w-xs">
+              <Label>Add widget</Label>
+              <Select value={newWidget} onValueChange={(value) => setNewWidget(value as TvWidgetType)}>
+                <SelectTrigger data-testid="select-tv-layout-new-widget">
+                  <SelectValue placeholder="Choose a widget" />
+                </SelectTrigger>
+                <SelectContent>
+                  {unplacedWidgets.map((widget) => (
+                    <SelectItem key={widget} value={widget}>{TV_WIDGET_LABELS[widget]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleAddWidget} disabled={!newWidget} data-testid="button-add-tv-widget">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        {/* Save */}
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 pt-2 border-t">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="tvLayoutPresetName">Save as preset</Label>
+              <Input
+                id="tvLayoutPresetName"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="e.g. Ramadan, Pharmacy TV"
+                maxLength={40}
+                data-testid="input-tv-layout-preset-name"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleSavePreset}
+              disabled={!presetName.trim() || !!problem || saveLayoutMutation.isPending}
+              data-testid="button-save-tv-layout-preset"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Preset
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => applyPreset({ name: "", layout: savedLayout })}
+              data-testid="button-revert-tv-layout"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Revert
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!!problem || saveLayoutMutation.isPending}
+              data-testid="button-save-tv-layout"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Layout
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
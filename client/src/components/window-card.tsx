@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import type { Service } from "@shared/schema";
 
 interface Window {
   id: string;
@@ -13,6 +14,8 @@ interface Window {
   currentPatientId?: string;
   currentPatientName?: string;
   currentPatientNumber?: number;
+  serviceIds?: string[];
+  type?: string;
 }
 
 interface WindowCardProps {
@@ -20,13 +23,17 @@ interface WindowCardProps {
   onEdit: (windowId: string, newName: string) => void;
   onDelete: (windowId: string) => void;
   onToggleStatus: (windowId: string) => void;
+  services?: Service[];
+  onUpdateServices?: (windowId: string, serviceIds: string[]) => void;
 }
 
 export function WindowCard({ 
   window, 
   onEdit, 
   onDelete, 
-  onToggleStatus 
+  onToggleStatus,
+  services = [],
+  onUpdateServices
 }: WindowCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(window.name);
@@ -84,6 +91,16 @@ export function WindowCard({
     onToggleStatus(window.id);
   };
 
+  const subscribedServiceIds = window.serviceIds || [];
+
+  const handleToggleService = (serviceId: string) => {
+    if (!onUpdateServices) return;
+    const serviceIds = subscribedServiceIds.includes(serviceId)
+      ? subscribedServiceIds.filter(id => id !== serviceId)
+      : [...subscribedServiceIds, serviceId];
+    onUpdateServices(window.id, serviceIds);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSave();
@@ -118,6 +135,11 @@ export function WindowCard({
             )}
           </div>
           <div className="flex items-center space-x-2">
+            {window.type === "dispensary" && (
+              <Badge variant="outline" data-testid={`badge-type-${window.id}`}>
+                Dispensary
+              </Badge>
+            )}
             <Badge 
               variant={window.isActive ? "default" : "secondary"}
               data-testid={`badge-status-${window.id}`}
@@ -152,6 +174,31 @@ export function WindowCard({
           </div>
         )}
 
+        {/* Service Subscriptions - empty means the room calls from every service */}
+        {services.length > 0 && window.type !== "dispensary" && (
+          <div className="mb-4 space-y-2">
+            <div className="text-sm font-medium text-muted-foreground">
+              Services {subscribedServiceIds.length === 0 && <span className="text-xs">(all)</span>}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {services.map((service) => {
+                const isSubscribed = subscribedServiceIds.includes(service.id);
+                return (
+                  <Badge
+                    key={service.id}
+                    variant={isSubscribed ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => handleToggleService(service.id)}
+                    data-testid={`badge-window-service-${window.id}-${service.id}`}
+                  >
+                    {service.prefix} · {service.name}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-2">
           <Button
@@ -5,6 +5,8 @@ interface User {
   id: string;
   username: string;
   role: string;
+  clinicId?: string;
+  assignedWindowIds?: string[]; // Doctor rooms
   clinicName: string;
   clinicLocation: string;
 }
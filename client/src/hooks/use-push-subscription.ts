@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+
+export type PushState = "unsupported" | "denied" | "unsubscribed" | "subscribed" | "busy";
+
+const SERVICE_WORKER_URL = "/push-sw.js";
+// A browser has one push subscription - remember which ticket it currently belongs to
+const SUBSCRIBED_CODE_KEY = "pushStatusCode";
+
+function isPushSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// VAPID keys travel as base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + "=".repeat((4 - base64.length % 4) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+}
+
+/**
+ * Browser push for a queue ticket - "it's your turn" even with the status page closed
+ */
+export function usePushSubscription(code: string) {
+  const [state, setState] = useState<PushState>(isPushSupported() ? "busy" : "unsupported");
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    if (Notification.permission === "denied") {
+      setState("denied");
+      return;
+    }
+
+    navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+      .then(registration => registration?.pushManager.getSubscription())
+      .then(subscription => {
+        setState(subscription && localStorage.getItem(SUBSCRIBED_CODE_KEY) === code ? "subscribed" : "unsubscribed");
+      })
+      .catch(() => setState("unsubscribed"));
+  }, [code]);
+
+  const subscribe = useCallback(async () => {
+    setState("busy");
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+
+      if (await Notification.requestPermission() !== "granted") {
+        setState(Notification.permission === "denied" ? "denied" : "unsubscribed");
+        return;
+      }
+
+      const { publicKey } = await (await apiRequest("GET", "/api/push/public-key")).json();
+      const subscription = await registration.pushManager.getSubscription() || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+      await apiRequest("POST", `/api/status/${code}/push`, subscription.toJSON());
+      localStorage.setItem(SUBSCRIBED_CODE_KEY, code);
+      setState("subscribed");
+    } catch (error) {
+      console.error("Push subscription failed:", error);
+      setState("unsubscribed");
+    }
+  }, [code]);
+
+  const unsubscribe = useCallback(async () => {
+    setState("busy");
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await apiRequest("DELETE", `/api/status/${code}/push`, { endpoint: subscription.endpoint });
+        await subscription.unsubscribe();
+      }
+      localStorage.removeItem(SUBSCRIBED_CODE_KEY);
+    } catch (error) {
+      console.error("Push unsubscribe failed:", error);
+    }
+    setState("unsubscribed");
+  }, [code]);
+
+  return { state, subscribe, unsubscribe };
+}
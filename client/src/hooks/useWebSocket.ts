@@ -1,6 +1,7 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { queryClient } from '@/lib/queryClient';
+import type { ClinicEventName, ClinicEventPayload, EventCursor, EventsReplayed, EventsResync } from '@shared/realtime';
 
 interface UseWebSocketReturn {
   socket: Socket | null;
@@ -15,25 +16,55 @@ interface WebSocketEvent {
   timestamp: Date;
 }
 
+// WebSocket first: a plain load balancer can route it to any instance. Long-polling (the fallback
+// for networks that block WebSockets) needs sticky sessions when there is more than one instance.
+export const SOCKET_TRANSPORTS = ['websocket', 'polling'];
+
+interface UseWebSocketOptions {
+  persistent?: boolean; // Unattended screens (TVs) - keep retrying with backoff instead of giving up
+}
+
 /**
  * Custom hook for WebSocket connection with automatic reconnection
  * Handles clinic-specific room joining and real-time updates
  */
-export function useWebSocket(): UseWebSocketReturn {
+export function useWebSocket({ persistent = false }: UseWebSocketOptions = {}): UseWebSocketReturn {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [lastEvent, setLastEvent] = useState<WebSocketEvent | null>(null);
+  // Last clinic event seen - sent on reconnect so the server replays what was missed
+  const cursorRef = useRef<EventCursor | null>(null);
 
   useEffect(() => {
     // Initialize Socket.IO connection
     const socketInstance = io({
       autoConnect: true,
+      transports: SOCKET_TRANSPORTS,
       reconnection: true,
       reconnectionDelay: 1000,
-      reconnectionDelayMax: 5000,
-      reconnectionAttempts: 5,
+      reconnectionDelayMax: persistent ? 30000 : 5000,
+      reconnectionAttempts: persistent ? Infinity : 5,
+      // Read on every (re)connect attempt
+      auth: (cb) => cb(cursorRef.current ? { cursor: cursorRef.current } : {}),
     });
 
+    // Clinic events carry a per-clinic sequence number - drop replayed ones already handled live
+    const onClinicEvent = <E extends ClinicEventName>(event: E, handler: (data: ClinicEventPayload<E>) => void) => {
+      socketInstance.on(event as string, (data: ClinicEventPayload<E>) => {
+        const cursor = cursorRef.current;
+        if (cursor && cursor.clinicId === data.clinicId && cursor.epoch === data.epoch && data.seq <= cursor.seq) return;
+        cursorRef.current = { clinicId: data.clinicId, seq: data.seq, epoch: data.epoch };
+        handler(data);
+      });
+    };
+
+    // First join sets the starting point; later joins were already replayed or resynced by the server
+    const startCursor = (data: EventCursor) => {
+      if (!cursorRef.current) {
+        cursorRef.current = { clinicId: data.clinicId, seq: data.seq, epoch: data.epoch };
+      }
+    };
+
     // Connection handlers
     socketInstance.on('connect', () => {
       console.log('🔌✅ WebSocket connected:', socketInstance.id);
@@ -53,47 +84,168 @@ export function useWebSocket(): UseWebSocketReturn {
     // Clinic room join confirmation
     socketInstance.on('clinic:joined', (data) => {
       console.log('🏥✅ Joined clinic room:', data);
+      startCursor(data);
       setLastEvent({ event: 'clinic:joined', data, timestamp: new Date() });
     });
 
+    socketInstance.on('events:replayed', (data: EventsReplayed) => {
+      if (data.count > 0) {
+        console.log(`⏪ Replayed ${data.count} missed event(s)`);
+      }
+      cursorRef.current = { clinicId: data.clinicId, seq: data.seq, epoch: data.epoch };
+    });
+
+    // Too much missed (or the server restarted) - refetch everything
+    socketInstance.on('events:resync', (data: EventsResync) => {
+      console.log('⏪❌ Missed events could not be replayed - resyncing');
+      cursorRef.current = { clinicId: data.clinicId, seq: data.seq, epoch: data.epoch };
+      setLastEvent({ event: 'events:resync', data, timestamp: new Date() });
+      queryClient.invalidateQueries();
+    });
+
+    // Clinic events are broadcast by the server after each REST mutation (see shared/realtime.ts)
+    onClinicEvent('patient:created', (data) => {
+      console.log('🆕 Patient registered:', data.patient.id, data.source);
+      setLastEvent({ event: 'patient:created', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') });
+    });
+
     // Real-time patient call events
-    socketInstance.on('patient:called', (data) => {
-      console.log('📞 Patient called:', data);
+    onClinicEvent('patient:called', (data) => {
+      console.log('📞 Patient called:', data.patient.id, data.window?.name);
       setLastEvent({ event: 'patient:called', data, timestamp: new Date() });
       
       // Invalidate patient-related queries to refresh UI
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/current-call'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+      // Token-based TV displays
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') });
     });
 
     // Patient status updates
-    socketInstance.on('patient:updated', (data) => {
-      console.log('📋 Patient updated:', data);
+    onClinicEvent('patient:updated', (data) => {
+      console.log('📋 Patient updated:', data.patient.id, data.patient.status);
       setLastEvent({ event: 'patient:updated', data, timestamp: new Date() });
       
       // Refresh relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+    });
+
+    onClinicEvent('patient:deleted', (data) => {
+      console.log('🗑️ Patient deleted:', data.patientId);
+      setLastEvent({ event: 'patient:deleted', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') });
     });
 
     // Queue updates
-    socketInstance.on('queue:updated', (data) => {
-      console.log('🎯 Queue updated:', data);
+    onClinicEvent('queue:updated', (data) => {
+      console.log('🎯 Queue updated:', data.reason);
       setLastEvent({ event: 'queue:updated', data, timestamp: new Date() });
       
       // Refresh queue-related data
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') });
+    });
+
+    // Pharmacy queue changes - dispensary page and pharmacy TV panel
+    onClinicEvent('dispensary:updated', (data) => {
+      setLastEvent({ event: 'dispensary:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/dispensary/tickets'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/dispensary-display/') });
+    });
+
+    // Bookings changed - appointments day view
+    onClinicEvent('appointments:updated', (data) => {
+      setLastEvent({ event: 'appointments:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/appointments') });
+    });
+
+    // Rooms and counters - created, renamed, toggled or (un)assigned
+    onClinicEvent('windows:updated', (data) => {
+      setLastEvent({ event: 'windows:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+    });
+
+    // Timezone / opening hours - kiosks and the "today" of staff screens
+    onClinicEvent('clinic:updated', (data) => {
+      setLastEvent({ event: 'clinic:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/clinic/schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    });
+
+    // Display configuration - TV displays also handle these themselves (tv-display.tsx)
+    onClinicEvent('settings:updated', (data) => {
+      setLastEvent({ event: 'settings:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/settings') || String(query.queryKey[0]).startsWith('/api/notifications/settings') });
+    });
+
+    onClinicEvent('themes:updated', (data) => {
+      setLastEvent({ event: 'themes:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/themes') });
+    });
+
+    onClinicEvent('text-groups:updated', (data) => {
+      setLastEvent({ event: 'text-groups:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/text-groups') });
+    });
+
+    onClinicEvent('media:updated', (data) => {
+      setLastEvent({ event: 'media:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = String(query.queryKey[0]);
+          return key.startsWith('/api/media') || key.startsWith('/api/tv/') && key.includes('/media');
+        }
+      });
+    });
+
+    // Display profiles - settings page, and token TVs refetch what their profile shows
+    onClinicEvent('display-profiles:updated', (data) => {
+      setLastEvent({ event: 'display-profiles:updated', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ queryKey: ['/api/display-profiles'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') || String(query.queryKey[0]).startsWith('/api/dispensary-display/') });
     });
 
     // TV display events (for TV screens)
     socketInstance.on('tv:connected', (data) => {
       console.log('📺 TV connected:', data);
+      startCursor(data);
       setLastEvent({ event: 'tv:connected', data, timestamp: new Date() });
     });
 
+    socketInstance.on('tv:rejected', (data) => {
+      console.error('📺❌ TV token rejected:', data);
+      setLastEvent({ event: 'tv:rejected', data, timestamp: new Date() });
+    });
+
+    // Public queue status pages - payload-free signal, refetch own ticket status
+    socketInstance.on('status:refresh', (data) => {
+      setLastEvent({ event: 'status:refresh', data, timestamp: new Date() });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/status/') });
+    });
+
+    socketInstance.on('status:rejected', (data) => {
+      console.error('📱❌ Status code rejected:', data);
+      setLastEvent({ event: 'status:rejected', data, timestamp: new Date() });
+    });
+
     // Error handling
     socketInstance.on('error', (error) => {
       console.error('❌ WebSocket error:', error);
@@ -107,7 +259,7 @@ export function useWebSocket(): UseWebSocketReturn {
       console.log('🔌🧹 Cleaning up WebSocket connection');
       socketInstance.disconnect();
     };
-  }, []);
+  }, [persistent]);
 
   // Emit wrapper function
   const emit = useCallback((event: string, data?: any) => {
@@ -131,7 +283,7 @@ export function useWebSocket(): UseWebSocketReturn {
  * Hook specifically for TV displays to connect with token
  */
 export function useWebSocketTV(token?: string): UseWebSocketReturn {
-  const webSocket = useWebSocket();
+  const webSocket = useWebSocket({ persistent: true });
 
   useEffect(() => {
     if (webSocket.socket && webSocket.isConnected && token) {
@@ -140,5 +292,38 @@ export function useWebSocketTV(token?: string): UseWebSocketReturn {
     }
   }, [webSocket.socket, webSocket.isConnected, token, webSocket.emit]);
 
+  // Display profile edited or (re)assigned - connect again so the server moves this TV to its new rooms
+  useEffect(() => {
+    const socket = webSocket.socket;
+    if (!socket || !token) return;
+
+    const reconnectTV = () => {
+      socket.emit('tv:connect', { token });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/tv/') || String(query.queryKey[0]).startsWith('/api/dispensary-display/') });
+    };
+    socket.on('display-profiles:updated', reconnectTV);
+    socket.on('tv:profile-assigned', reconnectTV);
+
+    return () => {
+      socket.off('display-profiles:updated', reconnectTV);
+      socket.off('tv:profile-assigned', reconnectTV);
+    };
+  }, [webSocket.socket, token]);
+
   return webSocket;
-}
\ No newline at end of file
+}
+
+/**
+ * Hook for public queue status pages to receive live refresh signals by ticket code
+ */
+export function useWebSocketStatus(code?: string): UseWebSocketReturn {
+  const webSocket = useWebSocket();
+
+  useEffect(() => {
+    if (webSocket.socket && webSocket.isConnected && code) {
+      webSocket.emit('status:subscribe', { code });
+    }
+  }, [webSocket.socket, webSocket.isConnected, code, webSocket.emit]);
+
+  return webSocket;
+}
@@ -1,7 +1,8 @@
 // Audio System Utility for Clinic Calling System  
-// Handles preset audio notifications only
+// Handles preset audio notifications followed by spoken announcements
 
-import type { SoundModeType, PresetSoundKeyType } from "@shared/schema";
+import { DEFAULT_ANNOUNCEMENT_TEMPLATES } from "@shared/schema";
+import type { SoundModeType, PresetSoundKeyType, AnnouncementLanguageType } from "@shared/schema";
 
 // Import preset audio files via @assets
 // Original 5 files
@@ -26,11 +27,19 @@ export interface AudioSettings {
   volume: number;
   soundMode: SoundModeType; // Will always be 'preset'
   presetKey: PresetSoundKeyType;
+  // Spoken announcement (played after the chime)
+  enableAnnouncement?: boolean;
+  announcementLanguage?: AnnouncementLanguageType;
+  announcementTemplate?: string;
+  announcementRepeat?: number;
+  speechRate?: number;
+  speechPitch?: number;
 }
 
 export interface CallInfo {
   patientName?: string;
   patientNumber: number;
+  ticketPrefix?: string | null;
   windowName: string;
 }
 
@@ -60,6 +69,18 @@ export class AudioSystem {
     { key: 'trumpet_fanfare_2293', name: 'Trumpet Fanfare (2293)', src: trumpetFanfare2293 }
   ];
 
+  // Pre-recorded announcement clips used when no speech voice is available.
+  // Files live under client/public/audio/announcements/<language>/:
+  //   number.mp3, proceed.mp3 - "Nombor" and "sila ke" (or the language equivalent)
+  //   0.mp3 ... 19.mp3, 20.mp3, 30.mp3 ... 90.mp3, 100.mp3 ... 900.mp3 - number parts
+  //   1000.mp3 - "ribu" / "thousand", spoken after the count of thousands (1234 -> 1, 1000, 200, 30, 4)
+  //   letter-a.mp3 ... letter-z.mp3 - ticket prefix letters for service queues
+  //   room-<slug>.mp3 - one clip per room, e.g. room-bilik-2.mp3 for "Bilik 2"
+  private static readonly CLIP_BASE_PATH = '/audio/announcements';
+
+  // Whether a language's clip set is installed - checked once per language
+  private clipAvailability = new Map<AnnouncementLanguageType, Promise<boolean>>();
+
   // Build preset sound mappings from centralized definitions
   private presetSounds: Record<PresetSoundKeyType, string> = Object.fromEntries(
     AudioSystem.PRESET_DEFS.map(def => [def.key, def.src])
@@ -246,11 +267,15 @@ export class AudioSystem {
   }
 
 
-  // Complete calling sequence - plays preset audio notification only
+  // Complete calling sequence - preset chime, then spoken announcement
   public async playCallingSequence(callInfo: CallInfo, settings: AudioSettings): Promise<void> {
     try {
       if (settings.enableSound) {
         await this.playNotificationSound(settings);
+
+        if (settings.enableAnnouncement) {
+          await this.playAnnouncement(callInfo, settings);
+        }
       }
     } catch (error) {
       console.error('Error in calling sequence:', error);
@@ -258,6 +283,168 @@ export class AudioSystem {
     }
   }
 
+  // Fill announcement template placeholders, dropping {name} cleanly when the patient has no name
+  public renderAnnouncement(template: string, callInfo: CallInfo): string {
+    return template
+      .replace(/\{number\}/g, `${callInfo.ticketPrefix ? `${callInfo.ticketPrefix.split('').join(' ')} ` : ''}${callInfo.patientNumber}`)
+      .replace(/\{name\}/g, callInfo.patientName?.trim() || '')
+      .replace(/\{room\}/g, callInfo.windowName)
+      .replace(/\s*,\s*(,\s*)+/g, ', ') // collapse ", ," left by an empty name
+      .replace(/^\s*,\s*|\s*,\s*$/g, '')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+  }
+
+  // Speak the announcement with speechSynthesis, or fall back to pre-recorded clips
+  public async playAnnouncement(callInfo: CallInfo, settings: AudioSettings): Promise<void> {
+    const language = settings.announcementLanguage || 'ms-MY';
+    const template = settings.announcementTemplate || DEFAULT_ANNOUNCEMENT_TEMPLATES[language];
+    const repeat = Math.max(1, Math.min(3, settings.announcementRepeat ?? 1));
+    const text = this.renderAnnouncement(template, callInfo);
+
+    const voice = await this.findVoice(language);
+
+    for (let i = 0; i < repeat; i++) {
+      if (i > 0) {
+        await new Promise(resolve => setTimeout(resolve, 600)); // Short pause between repeats
+      }
+
+      if (voice) {
+        console.log(`🗣️ Announcing (${voice.lang}): ${text}`);
+        await this.speak(text, voice, language, settings);
+      } else if (await this.hasAnnouncementClips(language)) {
+        console.warn(`No speech voice for ${language}, using pre-recorded clips`);
+        await this.playAnnouncementClips(callInfo, language, settings.volume);
+      } else if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+        // No matching voice and no clips installed - the browser's default voice is better than silence
+        console.warn(`No speech voice or clips for ${language}, announcing with the default voice`);
+        await this.speak(text, null, language, settings);
+      } else {
+        console.warn(`No speech synthesis or announcement clips for ${language} - chime only`);
+      }
+    }
+  }
+
+  // Wait for the browser to populate its voice list (Chrome loads it asynchronously)
+  private async loadVoices(timeoutMs: number = 1500): Promise<SpeechSynthesisVoice[]> {
+    if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+      return [];
+    }
+
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      return voices;
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        window.speechSynthesis.removeEventListener('voiceschanged', onVoicesChanged);
+        resolve(window.speechSynthesis.getVoices());
+      }, timeoutMs);
+
+      const onVoicesChanged = () => {
+        clearTimeout(timer);
+        window.speechSynthesis.removeEventListener('voiceschanged', onVoicesChanged);
+        resolve(window.speechSynthesis.getVoices());
+      };
+
+      window.speechSynthesis.addEventListener('voiceschanged', onVoicesChanged);
+    });
+  }
+
+  // Pick a voice for the language - exact tag first, then any voice sharing the base language
+  private async findVoice(language: AnnouncementLanguageType): Promise<SpeechSynthesisVoice | null> {
+    const voices = await this.loadVoices();
+    const normalized = (lang: string) => lang.replace('_', '-').toLowerCase();
+    const baseLanguage = language.split('-')[0].toLowerCase();
+
+    return voices.find(v => normalized(v.lang) === language.toLowerCase())
+      || voices.find(v => normalized(v.lang).split('-')[0] === baseLanguage)
+      || null;
+  }
+
+  // Speak a single utterance and resolve when it finishes (no voice = the browser's default for the language)
+  private speak(text: string, voice: SpeechSynthesisVoice | null, language: AnnouncementLanguageType, settings: AudioSettings): Promise<void> {
+    return new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      if (voice) utterance.voice = voice;
+      utterance.lang = voice ? voice.lang : language;
+      utterance.rate = settings.speechRate ?? 0.9;
+      utterance.pitch = settings.speechPitch ?? 1;
+      utterance.volume = Math.max(0, Math.min(1, settings.volume / 100));
+
+      // Some TV browsers never fire onend - don't let the call sequence hang
+      const timeout = setTimeout(() => resolve(), Math.max(5000, text.length * 200));
+      const finish = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+
+      utterance.onend = finish;
+      utterance.onerror = (event) => {
+        console.error('❌ Speech synthesis error:', event.error);
+        finish();
+      };
+
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  // Split a number into spoken clip parts: 123 -> [100, 20, 3], 15 -> [15], 2015 -> [2, 1000, 15]
+  private numberToClipKeys(value: number): string[] {
+    if (value <= 0) return ['0'];
+
+    const parts: string[] = [];
+    const thousands = Math.floor(value / 1000);
+    if (thousands > 0) parts.push(...this.numberToClipKeys(thousands), '1000');
+
+    const hundreds = Math.floor((value % 1000) / 100) * 100;
+    const rest = value % 100;
+
+    if (hundreds > 0) parts.push(hundreds.toString());
+    if (rest > 0 && rest < 20) {
+      parts.push(rest.toString());
+    } else if (rest >= 20) {
+      parts.push((Math.floor(rest / 10) * 10).toString());
+      if (rest % 10 > 0) parts.push((rest % 10).toString());
+    }
+
+    return parts;
+  }
+
+  // The SPA fallback answers missing files with index.html, so only an audio response counts
+  private hasAnnouncementClips(language: AnnouncementLanguageType): Promise<boolean> {
+    let available = this.clipAvailability.get(language);
+    if (!available) {
+      available = fetch(`${AudioSystem.CLIP_BASE_PATH}/${language}/number.mp3`, { method: 'HEAD' })
+        .then(response => response.ok && (response.headers.get('content-type') || '').startsWith('audio/'))
+        .catch(() => false);
+      this.clipAvailability.set(language, available);
+    }
+    return available;
+  }
+
+  // Offline fallback - join pre-recorded "number" and "room" clips, skipping any that are missing
+  private async playAnnouncementClips(callInfo: CallInfo, language: AnnouncementLanguageType, volume: number): Promise<void> {
+    const roomSlug = callInfo.windowName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const clipKeys = [
+      'number',
+      ...(callInfo.ticketPrefix || '').toLowerCase().split('').filter(Boolean).map(letter => `letter-${letter}`),
+      ...this.numberToClipKeys(callInfo.patientNumber),
+      'proceed',
+      `room-${roomSlug}`
+    ];
+
+    for (const key of clipKeys) {
+      const url = `${AudioSystem.CLIP_BASE_PATH}/${language}/${key}.mp3`;
+      try {
+        await this.playAudioFile(url, volume);
+      } catch (error) {
+        console.warn(`Announcement clip missing or unplayable: ${url}`);
+      }
+    }
+  }
+
   // Get available preset sounds from centralized definitions
   public getAvailablePresets(): Array<{key: PresetSoundKeyType, name: string}> {
     return AudioSystem.PRESET_DEFS.map(({key, name}) => ({key, name}));
@@ -320,8 +507,8 @@ export class AudioSystem {
   public async playTestSequence(settings: AudioSettings): Promise<void> {
     const testCallInfo: CallInfo = {
       patientName: "Ahmad Bin Ali",
-      patientNumber: 123,
-      windowName: "Kaunter 1"
+      patientNumber: 23,
+      windowName: "Bilik 2"
     };
 
     return this.playCallingSequence(testCallInfo, settings);
@@ -0,0 +1,12 @@
+import type { PatientEvent } from "@shared/schema";
+
+// Group /api/patient-events rows by patient (server already returns them oldest first)
+export function groupPatientEvents(events: PatientEvent[]): Map<string, PatientEvent[]> {
+  const journeys = new Map<string, PatientEvent[]>();
+  for (const event of events) {
+    const journey = journeys.get(event.patientId) || [];
+    journey.push(event);
+    journeys.set(event.patientId, journey);
+  }
+  return journeys;
+}
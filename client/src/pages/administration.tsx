@@ -9,14 +9,25 @@ import { Shield, UserPlus, Trash2, Edit, Users, Monitor, Settings, Palette, File
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { User, InsertUser } from "@shared/schema";
+import type { User } from "@shared/schema";
+import { getRoleLabel } from "@shared/roles";
+import { AuditLogViewer } from "@/components/audit-log-viewer";
+
+// Admins add clinic managers (each starts a new clinic) or other admins; clinic staff are added from the Staff page
+interface NewAccount {
+  username: string;
+  password: string;
+  role: "admin" | "clinic_manager";
+  clinicName?: string;
+}
 
 export default function Administration() {
   const { toast } = useToast();
-  const [newUser, setNewUser] = useState({
+  const [newUser, setNewUser] = useState<NewAccount>({
     username: "",
     password: "",
-    role: "user" as "admin" | "user"
+    role: "clinic_manager",
+    clinicName: ""
   });
   const [editingUser, setEditingUser] = useState<string | null>(null);
 
@@ -30,13 +41,13 @@ export default function Administration() {
 
   // Create user mutation
   const createUserMutation = useMutation({
-    mutationFn: async (userData: InsertUser) => {
+    mutationFn: async (userData: NewAccount) => {
       const response = await apiRequest("POST", "/api/users", userData);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
-      setNewUser({ username: "", password: "", role: "user" });
+      setNewUser({ username: "", password: "", role: "clinic_manager", clinicName: "" });
       toast({
         title: "User Successfully Added",
         description: "New user has been registered to the system",
@@ -76,7 +87,8 @@ export default function Administration() {
     createUserMutation.mutate({
       username: newUser.username.trim(),
       password: newUser.password.trim(),
-      role: newUser.role
+      role: newUser.role,
+      clinicName: newUser.clinicName?.trim() || undefined
     });
   };
 
@@ -203,18 +215,30 @@ export default function Administration() {
                 <Label htmlFor="role">Role</Label>
                 <Select 
                   value={newUser.role} 
-                  onValueChange={(value: "admin" | "user") => setNewUser(prev => ({ ...prev, role: value }))}
+                  onValueChange={(value: NewAccount["role"]) => setNewUser(prev => ({ ...prev, role: value }))}
                 >
                   <SelectTrigger data-testid="select-new-role">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
+                    <SelectItem value="clinic_manager">Clinic Manager</SelectItem>
                     <SelectItem value="admin">Admin</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="clinicName">Clinic Name</Label>
+                <Input
+                  id="clinicName"
+                  type="text"
+                  value={newUser.clinicName}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, clinicName: e.target.value }))}
+                  placeholder="Defaults to the username"
+                  data-testid="input-new-clinic-name"
+                />
+              </div>
+
 
               <Button
                 type="submit"
@@ -265,7 +289,7 @@ export default function Administration() {
                             variant={user.role === "admin" ? "default" : "secondary"}
                             data-testid={`badge-role-${user.id}`}
                           >
-                            {user.role}
+                            {getRoleLabel(user.role)}
                           </Badge>
                           <Badge 
                             variant={user.isActive ? "default" : "outline"}
@@ -372,15 +396,18 @@ export default function Administration() {
         
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium">Regular Users</CardTitle>
+            <CardTitle className="text-sm font-medium">Clinic Staff</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-600" data-testid="text-regular-users">
-              {users.filter(u => u.role === "user").length}
+              {users.filter(u => u.role !== "admin").length}
             </div>
           </CardContent>
         </Card>
       </div>
+
+      {/* Audit Log */}
+      <AuditLogViewer />
     </div>
   );
 }
\ No newline at end of file
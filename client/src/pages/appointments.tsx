@@ -0,0 +1,441 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { CalendarClock, CalendarCheck, ChevronLeft, ChevronRight, UserX, XCircle, Undo2, Pencil, Save, Phone } from "lucide-react";
+import { formatTicketNumber, APPOINTMENT_PRIORITY_SETTING_KEY, DEFAULT_APPOINTMENT_PRIORITY_MINUTES, type Appointment, type AppointmentRequest, type Patient, type Service, type Setting, type ClinicScheduleResponse } from "@shared/schema";
+import { getAllowedAppointmentTransitions, type AppointmentStatus } from "@shared/patient-state";
+import { addDays } from "@shared/clinic-time";
+import { hasPermission } from "@shared/roles";
+
+const NO_SERVICE = "none";
+
+const EMPTY_FORM = { slotTime: "09:00", patientName: "", phone: "", serviceId: NO_SERVICE, notes: "" };
+
+const STATUS_LABELS: Record<string, string> = {
+  "booked": "Booked",
+  "checked-in": "Checked In",
+  "no-show": "No-show",
+  "cancelled": "Cancelled",
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "checked-in":
+      return "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-400";
+    case "no-show":
+      return "bg-orange-100 text-orange-800 dark:bg-orange-950 dark:text-orange-400";
+    case "cancelled":
+      return "bg-gray-100 text-gray-600 dark:bg-gray-900 dark:text-gray-400";
+    default:
+      return "bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-400";
+  }
+};
+
+export default function Appointments() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManageSettings = hasPermission(user?.role, "settings:manage");
+
+  const [date, setDate] = useState("");
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [priorityMinutesInput, setPriorityMinutesInput] = useState("");
+
+  // Clinic day, not the browser's - bookings and check-in follow the clinic timezone
+  const { data: schedule } = useQuery<ClinicScheduleResponse>({
+    queryKey: ['/api/clinic/schedule'],
+  });
+  const today = schedule?.today || "";
+
+  useEffect(() => {
+    if (today && !date) setDate(today);
+  }, [today, date]);
+
+  const { data: appointments = [], isLoading } = useQuery<Appointment[]>({
+    queryKey: [`/api/appointments?date=${date}`],
+    enabled: !!date,
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ['/api/services'],
+    select: (data) => data.filter(service => service.isActive),
+  });
+
+  const { data: appointmentSettings = [] } = useQuery<Setting[]>({
+    queryKey: ['/api/settings/category/appointments'],
+  });
+  const priorityMinutes = appointmentSettings.find(s => s.key === APPOINTMENT_PRIORITY_SETTING_KEY)?.value ?? String(DEFAULT_APPOINTMENT_PRIORITY_MINUTES);
+
+  useEffect(() => {
+    setPriorityMinutesInput(priorityMinutes);
+  }, [priorityMinutes]);
+
+  const invalidateAppointments = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/appointments') });
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (booking: AppointmentRequest) => {
+      const response = editingId
+        ? await apiRequest("PATCH", `/api/appointments/${editingId}`, booking)
+        : await apiRequest("POST", "/api/appointments", booking);
+      return response.json();
+    },
+    onSuccess: (appointment: Appointment) => {
+      invalidateAppointments();
+      toast({
+        title: editingId ? "Appointment Updated" : "Appointment Booked",
+        description: `${appointment.patientName} at ${appointment.slotTime} on ${appointment.date}`,
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409") ? "Only booked appointments can be edited" : "Failed to save appointment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: AppointmentStatus }) => {
+      const response = await apiRequest("PATCH", `/api/appointments/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAppointments();
+    },
+    onError: (error: Error) => {
+      invalidateAppointments();
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409") ? "Appointment was already changed - list refreshed" : "Failed to update appointment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/appointments/${id}/check-in`);
+      return response.json();
+    },
+    onSuccess: ({ patient }: { appointment: Appointment; patient: Patient }) => {
+      invalidateAppointments();
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      toast({
+        title: "Checked In",
+        description: `Ticket ${formatTicketNumber(patient.ticketPrefix, patient.number)}${patient.isPriority ? " - queued ahead of walk-ins" : ""}`,
+      });
+    },
+    onError: (error: Error) => {
+      invalidateAppointments();
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409") ? "This appointment cannot be checked in now" : "Failed to check in appointment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: async (minutes: number) => {
+      const response = await apiRequest("PUT", `/api/settings/${APPOINTMENT_PRIORITY_SETTING_KEY}`, {
+        value: String(minutes),
+        category: "appointments"
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/category/appointments'] });
+      toast({
+        title: "Priority Window Saved",
+        description: "Applies to the next check-in",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save priority window",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      date,
+      slotTime: form.slotTime,
+      patientName: form.patientName.trim(),
+      phone: form.phone.trim() || null,
+      serviceId: form.serviceId === NO_SERVICE ? null : form.serviceId,
+      notes: form.notes.trim() || null,
+    });
+  };
+
+  const handleEdit = (appointment: Appointment) => {
+    setEditingId(appointment.id);
+    setForm({
+      slotTime: appointment.slotTime,
+      patientName: appointment.patientName,
+      phone: appointment.phone || "",
+      serviceId: appointment.serviceId || NO_SERVICE,
+      notes: appointment.notes || "",
+    });
+  };
+
+  const handleSavePriority = () => {
+    const minutes = parseInt(priorityMinutesInput, 10);
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      toast({
+        title: "Validation Error",
+        description: "Priority window must be 0 or more minutes",
+        variant: "destructive",
+      });
+      return;
+    }
+    priorityMutation.mutate(minutes);
+  };
+
+  const getServiceName = (serviceId: string | null) => services.find(s => s.id === serviceId)?.name;
+
+  const isBusy = statusMutation.isPending || checkInMutation.isPending;
+  const bookedCount = appointments.filter(a => a.status === "booked").length;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">
+          Appointments
+        </h1>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, -1))} disabled={!date} data-testid="button-previous-day">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Input
+            type="date"
+            className="w-44"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            data-testid="input-appointment-date"
+          />
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, 1))} disabled={!date} data-testid="button-next-day">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {date !== today && (
+            <Button variant="ghost" onClick={() => setDate(today)} data-testid="button-today">
+              Today
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Booking form */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2" />
+              {editingId ? "Edit Appointment" : "New Appointment"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground">For {date}</div>
+            <div className="space-y-2">
+              <Label htmlFor="slotTime">Time</Label>
+              <Input
+                id="slotTime"
+                type="time"
+                value={form.slotTime}
+                onChange={(e) => setForm({ ...form, slotTime: e.target.value })}
+                data-testid="input-slot-time"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="appointmentName">Patient Name</Label>
+              <Input
+                id="appointmentName"
+                value={form.patientName}
+                maxLength={25}
+                onChange={(e) => setForm({ ...form, patientName: e.target.value })}
+                data-testid="input-appointment-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="appointmentPhone">Phone</Label>
+              <Input
+                id="appointmentPhone"
+                type="tel"
+                value={form.phone}
+                maxLength={20}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                data-testid="input-appointment-phone"
+              />
+            </div>
+            {services.length > 0 && (
+              <div className="space-y-2">
+                <Label>Service</Label>
+                <Select value={form.serviceId} onValueChange={(serviceId) => setForm({ ...form, serviceId })}>
+                  <SelectTrigger data-testid="select-appointment-service">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SERVICE}>No service</SelectItem>
+                    {services.map((service) => (
+                      <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="appointmentNotes">Notes</Label>
+              <Input
+                id="appointmentNotes"
+                value={form.notes}
+                maxLength={200}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                data-testid="input-appointment-notes"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                onClick={handleSave}
+                disabled={saveMutation.isPending || !date || !form.slotTime || !form.patientName.trim()}
+                data-testid="button-save-appointment"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {editingId ? "Save Changes" : "Book"}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} data-testid="button-cancel-edit">
+                  Cancel
+                </Button>
+              )}
+            </div>
+
+            {canManageSettings && (
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="priorityMinutes">Priority window (minutes)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="priorityMinutes"
+                    type="number"
+                    min={0}
+                    value={priorityMinutesInput}
+                    onChange={(e) => setPriorityMinutesInput(e.target.value)}
+                    className="w-24"
+                    data-testid="input-priority-minutes"
+                  />
+                  <Button variant="outline" onClick={handleSavePriority} disabled={priorityMutation.isPending} data-testid="button-save-priority-minutes">
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Patients checking in this close to their slot go ahead of walk-ins. 0 queues them as walk-ins.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Day view */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{date === today ? "Today" : date}</span>
+              <span className="text-sm font-normal text-muted-foreground">
+                {appointments.length} total, {bookedCount} not yet arrived
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3" data-testid="list-appointments">
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-8">Loading...</div>
+            ) : appointments.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">No appointments for this day</div>
+            ) : (
+              appointments.map((appointment) => {
+                const allowed = getAllowedAppointmentTransitions(appointment);
+                const serviceName = getServiceName(appointment.serviceId);
+                return (
+                  <div
+                    key={appointment.id}
+                    className={`flex flex-wrap items-center justify-between gap-3 rounded-md border p-3 ${appointment.status === "cancelled" ? "opacity-60" : ""}`}
+                    data-testid={`row-appointment-${appointment.id}`}
+                  >
+                    <div className="flex items-center gap-4 min-w-0">
+                      <div className="text-xl font-bold w-16">{appointment.slotTime}</div>
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{appointment.patientName}</div>
+                        <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-2">
+                          {appointment.phone && (
+                            <span className="flex items-center gap-1">
+                              <Phone className="h-3 w-3" />
+                              {appointment.phone}
+                            </span>
+                          )}
+                          {serviceName && <span>{serviceName}</span>}
+                          {appointment.notes && <span className="truncate">{appointment.notes}</span>}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge className={getStatusColor(appointment.status)} data-testid={`badge-appointment-status-${appointment.id}`}>
+                        {STATUS_LABELS[appointment.status] || appointment.status}
+                      </Badge>
+                      {allowed.includes("checked-in") && date === today && (
+                        <Button size="sm" onClick={() => checkInMutation.mutate(appointment.id)} disabled={isBusy} data-testid={`button-check-in-${appointment.id}`}>
+                          <CalendarCheck className="h-4 w-4 mr-1" />
+                          Check In
+                        </Button>
+                      )}
+                      {appointment.status === "booked" && (
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(appointment)} disabled={isBusy} data-testid={`button-edit-appointment-${appointment.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {allowed.includes("no-show") && (
+                        <Button size="sm" variant="outline" onClick={() => statusMutation.mutate({ id: appointment.id, status: "no-show" })} disabled={isBusy} data-testid={`button-no-show-${appointment.id}`}>
+                          <UserX className="h-4 w-4 mr-1" />
+                          No-show
+                        </Button>
+                      )}
+                      {allowed.includes("booked") && (
+                        <Button size="sm" variant="outline" onClick={() => statusMutation.mutate({ id: appointment.id, status: "booked" })} disabled={isBusy} data-testid={`button-restore-appointment-${appointment.id}`}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                      {allowed.includes("cancelled") && (
+                        <Button size="sm" variant="ghost" onClick={() => statusMutation.mutate({ id: appointment.id, status: "cancelled" })} disabled={isBusy} data-testid={`button-cancel-appointment-${appointment.id}`}>
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
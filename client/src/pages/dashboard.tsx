@@ -4,17 +4,19 @@ import { TVDisplay } from "@/components/tv-display";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Monitor, Settings, Users, Clock } from "lucide-react";
-import { type Patient } from "@shared/schema";
+import { formatTicketNumber, type Patient } from "@shared/schema";
 
 interface QueueItem {
   id: string;
   name: string;
   number: string;
+  ticketPrefix?: string | null;
   room: string;
   status: "waiting" | "calling" | "completed";
   timestamp: Date;
   calledAt?: Date | null;
   requeueReason?: string | null;
+  isAppointment?: boolean; // Checked in from a booking - shown with a badge
 }
 
 interface DashboardStats {
@@ -190,13 +192,15 @@ export default function Dashboard() {
     
     return {
       id: patient.id,
-      name: patient.name || `No. ${patient.number}`,
+      name: patient.name || `No. ${patient.ticketPrefix ? formatTicketNumber(patient.ticketPrefix, patient.number) : patient.number}`,
       number: patient.number.toString(),
+      ticketPrefix: patient.ticketPrefix,
       room: roomName,
       status: patient.status === "called" ? "calling" : patient.status === "completed" ? "completed" : "waiting",
       timestamp: new Date(),
       calledAt: patient.calledAt ? new Date(patient.calledAt) : null,
-      requeueReason: patient.requeueReason
+      requeueReason: patient.requeueReason,
+      isAppointment: !!patient.appointmentId
     };
   };
 
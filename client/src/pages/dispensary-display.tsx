@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Pill, AlertCircle } from "lucide-react";
+import { useWebSocketTV } from "@/hooks/useWebSocket";
+
+interface DispensaryDisplay {
+  clinicName: string;
+  ready: { ticket: string }[];
+  called: { ticket: string; counterName: string | null; calledAt: string | null }[];
+}
+
+interface DispensaryDisplayPageProps {
+  token: string;
+}
+
+// Public pharmacy TV panel - ticket numbers only, never patient names
+export default function DispensaryDisplayPage({ token }: DispensaryDisplayPageProps) {
+  // Joins the clinic TV room so dispensary:updated refreshes the panel
+  useWebSocketTV(token);
+
+  const { data: display, isLoading, error } = useQuery<DispensaryDisplay>({
+    queryKey: [`/api/dispensary-display/${token}`],
+    enabled: !!token,
+    retry: false,
+    // Fallback in case a websocket update is missed
+    refetchInterval: 30000,
+  });
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-6">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-8 text-center space-y-3">
+            <AlertCircle className="h-10 w-10 text-destructive mx-auto" />
+            <div className="text-lg font-semibold">Display not available</div>
+            <p className="text-sm text-muted-foreground">
+              This pharmacy display link is invalid or has been disabled.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !display) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex flex-col gap-8" data-testid="page-dispensary-display">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Pill className="h-10 w-10 text-primary" />
+          <h1 className="text-4xl font-bold">Pharmacy</h1>
+        </div>
+        <div className="text-2xl text-muted-foreground">{display.clinicName}</div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 flex-1">
+        {/* Now calling */}
+        <Card className="lg:col-span-1">
+          <CardContent className="p-6 space-y-4">
+            <h2 className="text-2xl font-semibold">Now Calling</h2>
+            {display.called.length === 0 ? (
+              <div className="text-xl text-muted-foreground text-center py-12">-</div>
+            ) : (
+              display.called.map((call, index) => (
+                <div
+                  key={call.ticket}
+                  className={`flex items-center justify-between rounded-md p-4 ${index === 0 ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}
+                  data-testid={`display-called-${call.ticket}`}
+                >
+                  <span className="text-5xl font-bold">{call.ticket}</span>
+                  <span className="text-2xl font-medium">{call.counterName || 'Dispensary'}</span>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Ready for collection */}
+        <Card className="lg:col-span-2">
+          <CardContent className="p-6 space-y-4">
+            <h2 className="text-2xl font-semibold">Ready for Collection</h2>
+            {display.ready.length === 0 ? (
+              <div className="text-xl text-muted-foreground text-center py-12">No prescriptions ready</div>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-4">
+                {display.ready.map(({ ticket }) => (
+                  <div
+                    key={ticket}
+                    className="rounded-md border-2 border-primary p-4 text-center text-4xl font-bold"
+                    data-testid={`display-ready-${ticket}`}
+                  >
+                    {ticket}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
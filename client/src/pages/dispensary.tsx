@@ -1,35 +1,26 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Pill, Star, RefreshCw } from "lucide-react";
-import { PatientCard } from "@/components/patient-card";
+import { Pill, Star, RefreshCw, Bell, Volume2, CheckCircle, PackageCheck, RotateCcw, SkipForward, Undo2 } from "lucide-react";
+import { formatTicketNumber, type DispensaryTicket } from "@shared/schema";
+import { getAllowedDispensaryTransitions, type DispensaryTicketStatus } from "@shared/patient-state";
 
 interface Patient {
   id: string;
   name: string | null;
   number: number;
-  status: string;
-  isPriority: boolean;
-  priorityReason?: string | null;
-  readyForDispensary?: boolean;
-  windowId?: string | null;
-  lastWindowId?: string | null;
-  registeredAt: string;
-  calledAt?: string | null;
-  completedAt?: string | null;
-  requeueReason?: string | null;
-  trackingHistory?: any[];
 }
 
 interface Window {
   id: string;
   name: string;
   isActive: boolean;
-  isPermanent?: boolean;
-  currentPatientId?: string | null;
+  type?: string;
 }
 
 interface Setting {
@@ -39,22 +30,96 @@ interface Setting {
   category: string;
 }
 
-interface QueuePatient extends Patient {
-  status: "waiting" | "called" | "in-progress" | "completed" | "requeue" | "dispensary";
-  windowName?: string;
-  lastWindowName?: string;
+interface TicketCardProps {
+  ticket: DispensaryTicket;
+  patientName?: string | null;
+  counterName?: string;
+  disabled: boolean;
+  canCall: boolean;
+  onStatusChange: (ticket: DispensaryTicket, status: DispensaryTicketStatus) => void;
+  onReturnToQueue: (ticket: DispensaryTicket) => void;
+}
+
+function TicketCard({ ticket, patientName, counterName, disabled, canCall, onStatusChange, onReturnToQueue }: TicketCardProps) {
+  const allowed = getAllowedDispensaryTransitions(ticket);
+
+  return (
+    <Card className="w-full hover-elevate" data-testid={`card-dispensary-ticket-${ticket.id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-2xl font-bold text-primary flex items-center gap-2">
+            {formatTicketNumber(ticket.ticketPrefix, ticket.number)}
+            {ticket.isPriority && (
+              <Star className="h-5 w-5 fill-red-500 text-red-500 dark:fill-red-400 dark:text-red-400" />
+            )}
+          </div>
+          {counterName && (
+            <Badge variant="outline" data-testid={`badge-counter-${ticket.id}`}>{counterName}</Badge>
+          )}
+        </div>
+        {patientName && (
+          <div className="text-sm font-medium" data-testid={`text-ticket-patient-${ticket.id}`}>{patientName}</div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {ticket.status === "preparing" && allowed.includes("ready") && (
+            <Button size="sm" className="flex-1" onClick={() => onStatusChange(ticket, "ready")} disabled={disabled} data-testid={`button-ticket-ready-${ticket.id}`}>
+              <PackageCheck className="h-4 w-4 mr-1" />
+              Medication Ready
+            </Button>
+          )}
+          {ticket.status === "ready" && allowed.includes("called") && (
+            <Button size="sm" className="flex-1" onClick={() => onStatusChange(ticket, "called")} disabled={disabled || !canCall} data-testid={`button-ticket-call-${ticket.id}`}>
+              <Bell className="h-4 w-4 mr-1" />
+              Call
+            </Button>
+          )}
+          {ticket.status === "called" && (
+            <>
+              <Button size="sm" variant="secondary" className="flex-1" onClick={() => onStatusChange(ticket, "called")} disabled={disabled} data-testid={`button-ticket-call-again-${ticket.id}`}>
+                <Volume2 className="h-4 w-4 mr-1" />
+                Call Again
+              </Button>
+              <Button size="sm" className="flex-1" onClick={() => onStatusChange(ticket, "collected")} disabled={disabled} data-testid={`button-ticket-collected-${ticket.id}`}>
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Collected
+              </Button>
+              {allowed.includes("ready") && (
+                <Button size="sm" variant="outline" onClick={() => onStatusChange(ticket, "ready")} disabled={disabled} data-testid={`button-ticket-no-show-${ticket.id}`}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Not Here
+                </Button>
+              )}
+            </>
+          )}
+          {ticket.status !== "called" && (
+            <Button size="sm" variant="outline" onClick={() => onReturnToQueue(ticket)} disabled={disabled} data-testid={`button-ticket-requeue-${ticket.id}`}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Back to Queue
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
 export default function Dispensary() {
   const { toast } = useToast();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedCounter, setSelectedCounter] = useState<string>("");
 
-  // Fetch all patients
-  const { data: patients = [], isLoading: patientsLoading } = useQuery<Patient[]>({
+  // Patients are only needed for names on the tickets
+  const { data: patients = [] } = useQuery<Patient[]>({
     queryKey: ['/api/patients'],
   });
 
-  // Fetch windows
+  // Pharmacy queue
+  const { data: tickets = [], isLoading: ticketsLoading } = useQuery<DispensaryTicket[]>({
+    queryKey: ['/api/dispensary/tickets'],
+  });
+
+  // Fetch windows - dispensary counters are windows with type 'dispensary'
   const { data: windows = [] } = useQuery<Window[]>({
     queryKey: ['/api/windows'],
   });
@@ -64,103 +129,124 @@ export default function Dispensary() {
     queryKey: ['/api/settings'],
   });
 
-  // Get DISPENSARY window
-  const dispensaryWindow = useMemo(() => {
-    return windows.find(w => w.name === 'DISPENSARY' && w.isActive);
-  }, [windows]);
+  const counters = useMemo(() => windows.filter(w => w.type === 'dispensary' && w.isActive), [windows]);
 
-  // Update patient status mutation
-  const updatePatientStatusMutation = useMutation({
-    mutationFn: async ({ patientId, status, windowId }: { patientId: string; status: string; windowId?: string }) => {
-      const response = await apiRequest("PATCH", `/api/patients/${patientId}/status`, { status, windowId });
-      return response.json();
-    },
-    onMutate: async ({ patientId, status, windowId }) => {
-      await queryClient.cancelQueries({ queryKey: ['/api/patients'] });
-      await queryClient.cancelQueries({ queryKey: ['/api/windows'] });
-
-      const previousPatients = queryClient.getQueryData(['/api/patients']);
-      const previousWindows = queryClient.getQueryData(['/api/windows']);
-
-      queryClient.setQueryData(['/api/patients'], (old: any) => {
-        if (!old) return old;
-        return old.map((patient: any) => 
-          patient.id === patientId 
-            ? { ...patient, status, windowId: windowId || patient.windowId, calledAt: status === 'called' ? new Date().toISOString() : patient.calledAt }
-            : patient
-        );
-      });
+  // Default to the first counter; drop the selection if that counter is deactivated
+  useEffect(() => {
+    if (!counters.some(c => c.id === selectedCounter)) {
+      setSelectedCounter(counters[0]?.id || "");
+    }
+  }, [counters, selectedCounter]);
 
-      if (status === 'completed') {
-        queryClient.setQueryData(['/api/windows'], (old: any) => {
-          if (!old) return old;
-          return old.map((window: any) => 
-            window.currentPatientId === patientId 
-              ? { ...window, currentPatientId: null }
-              : window
-          );
-        });
-      } else if (status === 'called' && windowId) {
-        queryClient.setQueryData(['/api/windows'], (old: any) => {
-          if (!old) return old;
-          return old.map((window: any) => 
-            window.id === windowId 
-              ? { ...window, currentPatientId: patientId }
-              : window.currentPatientId === patientId
-              ? { ...window, currentPatientId: null }
-              : window
-          );
-        });
-      }
+  const announce = (ticket: DispensaryTicket) => {
+    const counterName = windows.find(w => w.id === ticket.counterId)?.name || 'DISPENSARY';
+    const callText = `Number ${formatTicketNumber(ticket.ticketPrefix, ticket.number)}`;
+    const isAudioEnabled = settings.find(s => s.key === 'enable_audio')?.value === 'true';
+
+    if (isAudioEnabled && 'speechSynthesis' in window) {
+      const utterance = new SpeechSynthesisUtterance(`${callText} to ${counterName}`);
+      utterance.lang = 'en-US';
+      speechSynthesis.speak(utterance);
+    }
+
+    toast({
+      title: "Prescription Called",
+      description: `${callText} called to ${counterName}`,
+    });
+  };
 
-      return { previousPatients, previousWindows };
+  const invalidateDispensary = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/dispensary/tickets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+  };
+
+  // Ticket status mutation (ready, called, collected)
+  const ticketStatusMutation = useMutation({
+    mutationFn: async ({ ticketId, status, counterId }: { ticketId: string; status: DispensaryTicketStatus; counterId?: string }) => {
+      const response = await apiRequest("PATCH", `/api/dispensary/tickets/${ticketId}/status`, { status, counterId });
+      return response.json() as Promise<DispensaryTicket>;
     },
-    onError: (err, variables, context) => {
-      if (context?.previousPatients) {
-        queryClient.setQueryData(['/api/patients'], context.previousPatients);
-      }
-      if (context?.previousWindows) {
-        queryClient.setQueryData(['/api/windows'], context.previousWindows);
+    onSuccess: (ticket) => {
+      invalidateDispensary();
+      if (ticket.status === 'called') {
+        announce(ticket);
+      } else if (ticket.status === 'collected') {
+        toast({
+          title: "Prescription Collected",
+          description: `Number ${formatTicketNumber(ticket.ticketPrefix, ticket.number)} completed`,
+        });
       }
+    },
+    onError: (error: Error) => {
+      invalidateDispensary();
       toast({
         title: "Error",
-        description: "Failed to update patient status. Please try again.",
+        description: error.message.startsWith("409")
+          ? "This prescription has already moved on. The list has been refreshed."
+          : "Failed to update prescription. Please try again.",
         variant: "destructive",
       });
     },
-    onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+  });
+
+  // Call next ready prescription to the selected counter
+  const callNextMutation = useMutation({
+    mutationFn: async (counterId: string) => {
+      const response = await apiRequest("POST", `/api/dispensary/counters/${counterId}/call-next`);
+      return response.json() as Promise<DispensaryTicket>;
+    },
+    onSuccess: (ticket) => {
+      invalidateDispensary();
+      announce(ticket);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Call Next",
+        description: error.message.startsWith("404") ? "No prescriptions ready" : "Failed to call next prescription",
+        variant: error.message.startsWith("404") ? "default" : "destructive",
+      });
     },
   });
 
-  // Delete patient mutation
-  const deletePatientMutation = useMutation({
+  // Return patient to the main queue - cancels their dispensary ticket server-side
+  const requeueMutation = useMutation({
     mutationFn: async (patientId: string) => {
-      await apiRequest("DELETE", `/api/patients/${patientId}`);
+      const response = await apiRequest("PATCH", `/api/patients/${patientId}/status`, { status: "requeue" });
+      return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+      invalidateDispensary();
       toast({
-        title: "Success",
-        description: "Patient removed from queue",
+        title: "Patient Requeued",
+        description: "Patient returned to main queue",
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to delete patient. Please try again.",
+        description: "Failed to requeue patient. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  const handleStatusChange = (ticket: DispensaryTicket, status: DispensaryTicketStatus) => {
+    // Recalls stay at the counter that called the ticket
+    const counterId = status === 'called' ? (ticket.counterId || selectedCounter) : undefined;
+    ticketStatusMutation.mutate({ ticketId: ticket.id, status, counterId });
+  };
+
+  const handleReturnToQueue = (ticket: DispensaryTicket) => {
+    requeueMutation.mutate(ticket.patientId);
+  };
+
   // Handle refresh
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
       await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['/api/dispensary/tickets'] }),
         queryClient.invalidateQueries({ queryKey: ['/api/patients'] }),
         queryClient.invalidateQueries({ queryKey: ['/api/windows'] }),
         queryClient.invalidateQueries({ queryKey: ['/api/settings'] }),
@@ -180,130 +266,20 @@ export default function Dispensary() {
     }
   };
 
-  // Enhanced patients with window names
-  const enhancedPatients = useMemo((): QueuePatient[] => {
-    return patients.map(patient => ({
-      ...patient,
-      status: patient.status as "waiting" | "called" | "in-progress" | "completed" | "requeue" | "dispensary",
-      windowId: patient.windowId || undefined,
-      windowName: patient.windowId ? windows.find(w => w.id === patient.windowId)?.name : undefined,
-      lastWindowId: patient.lastWindowId || undefined,
-      lastWindowName: patient.lastWindowId ? windows.find(w => w.id === patient.lastWindowId)?.name : undefined,
-      trackingHistory: Array.isArray(patient.trackingHistory) ? patient.trackingHistory : undefined
-    }));
-  }, [patients, windows]);
-
-  // Filter dispensary patients
-  // Include: 1) readyForDispensary flag (waiting), 2) called/in-progress to DISPENSARY window
-  const dispensaryPatients = enhancedPatients.filter(p => 
-    p.readyForDispensary || 
-    ((p.status === 'called' || p.status === 'in-progress') && p.windowName === 'DISPENSARY')
-  );
-  const priorityDispensary = dispensaryPatients.filter(p => p.isPriority);
-  const normalDispensary = dispensaryPatients.filter(p => !p.isPriority);
-
-  // Handle call patient to dispensary
-  const handleCallPatient = async (patientId: string) => {
-    if (!dispensaryWindow) {
-      toast({
-        title: "Error",
-        description: "DISPENSARY window is not active",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    await updatePatientStatusMutation.mutateAsync({
-      patientId,
-      status: "called",
-      windowId: dispensaryWindow.id,
-    });
-
-    const patient = enhancedPatients.find(p => p.id === patientId);
-    const callText = patient?.name || `Number ${patient?.number}`;
-    
-    const isAudioEnabled = settings.find(s => s.key === 'enable_audio')?.value === 'true';
-    
-    if (isAudioEnabled && 'speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(`${callText} to DISPENSARY`);
-      utterance.lang = 'en-US';
-      speechSynthesis.speak(utterance);
-    }
-
-    toast({
-      title: "Patient Called",
-      description: `${callText} called to DISPENSARY`,
-    });
-  };
-
-  // Handle complete patient
-  const handleCompletePatient = async (patientId: string) => {
-    await updatePatientStatusMutation.mutateAsync({
-      patientId,
-      status: "completed",
-    });
-
-    const patient = enhancedPatients.find(p => p.id === patientId);
-    const patientName = patient?.name || `Number ${patient?.number}`;
-
-    toast({
-      title: "Patient Completed",
-      description: `${patientName} has been completed`,
-    });
-  };
-
-  // Handle delete patient
-  const handleDeletePatient = async (patientId: string) => {
-    await deletePatientMutation.mutateAsync(patientId);
-  };
-
-  // Handle call again
-  const handleCallAgain = async (patientId: string) => {
-    const patient = enhancedPatients.find(p => p.id === patientId);
-    if (!patient || !patient.windowId) return;
-
-    await updatePatientStatusMutation.mutateAsync({
-      patientId,
-      status: "called",
-      windowId: patient.windowId
-    });
-
-    const callText = patient.name || `Number ${patient.number}`;
-    
-    const isAudioEnabled = settings.find(s => s.key === 'enable_audio')?.value === 'true';
-    
-    if (isAudioEnabled && 'speechSynthesis' in window) {
-      const utterance = new SpeechSynthesisUtterance(`${callText} to DISPENSARY`);
-      utterance.lang = 'en-US';
-      speechSynthesis.speak(utterance);
-    }
-
-    toast({
-      title: "Call Again",
-      description: `${callText} recalled to DISPENSARY`,
-    });
-  };
-
-  // Handle requeue patient
-  const handleRequeue = async (patientId: string, reason?: string) => {
-    await updatePatientStatusMutation.mutateAsync({
-      patientId,
-      status: "requeue",
-    });
-
-    const patient = enhancedPatients.find(p => p.id === patientId);
-    const patientName = patient?.name || `Number ${patient?.number}`;
+  // Ready list follows the calling order: priority first, then longest ready
+  const byCallingOrder = (a: DispensaryTicket, b: DispensaryTicket) =>
+    Number(b.isPriority) - Number(a.isPriority) ||
+    new Date(a.readyAt || a.queuedAt).getTime() - new Date(b.readyAt || b.queuedAt).getTime();
 
-    toast({
-      title: "Patient Requeued",
-      description: `${patientName} returned to main queue${reason ? `: ${reason}` : ''}`,
-    });
-  };
+  const preparingTickets = tickets.filter(t => t.status === 'preparing');
+  const readyTickets = tickets.filter(t => t.status === 'ready').sort(byCallingOrder);
+  const calledTickets = tickets.filter(t => t.status === 'called');
 
-  // Not used in dispensary
-  const handleRecall = async () => {};
+  const isBusy = ticketStatusMutation.isPending || requeueMutation.isPending;
+  const getPatientName = (ticket: DispensaryTicket) => patients.find(p => p.id === ticket.patientId)?.name;
+  const getCounterName = (ticket: DispensaryTicket) => windows.find(w => w.id === ticket.counterId)?.name;
 
-  if (patientsLoading) {
+  if (ticketsLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="text-lg">Loading...</div>
@@ -311,13 +287,13 @@ export default function Dispensary() {
     );
   }
 
-  if (!dispensaryWindow) {
+  if (counters.length === 0) {
     return (
       <div className="p-6">
         <Card>
           <CardContent className="p-8 text-center">
             <div className="text-destructive font-semibold">
-              DISPENSARY window is not active. Please activate it in the Management page.
+              No active dispensary counter. Please add or activate one in the Management page.
             </div>
           </CardContent>
         </Card>
@@ -325,17 +301,66 @@ export default function Dispensary() {
     );
   }
 
+  const renderColumn = (title: string, icon: React.ReactNode, columnTickets: DispensaryTicket[], emptyText: string, testId: string) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          {icon}
+          {title} ({columnTickets.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3" data-testid={testId}>
+        {columnTickets.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center p-4">{emptyText}</div>
+        ) : (
+          columnTickets.map(ticket => (
+            <TicketCard
+              key={ticket.id}
+              ticket={ticket}
+              patientName={getPatientName(ticket)}
+              counterName={getCounterName(ticket)}
+              disabled={isBusy}
+              canCall={!!selectedCounter}
+              onStatusChange={handleStatusChange}
+              onReturnToQueue={handleReturnToQueue}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-4">
         <h1 className="text-3xl font-bold">
           Dispensary Management
         </h1>
         <div className="flex items-center gap-4">
           <div className="text-sm text-muted-foreground">
-            Total: {dispensaryPatients.length} patients
+            Total: {tickets.length} prescriptions
           </div>
+          <Select value={selectedCounter} onValueChange={setSelectedCounter}>
+            <SelectTrigger className="w-56" data-testid="select-dispensary-counter">
+              <SelectValue placeholder="Select counter..." />
+            </SelectTrigger>
+            <SelectContent>
+              {counters.map((counter) => (
+                <SelectItem key={counter.id} value={counter.id}>
+                  {counter.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => callNextMutation.mutate(selectedCounter)}
+            disabled={!selectedCounter || callNextMutation.isPending || readyTickets.length === 0}
+            data-testid="button-dispensary-call-next"
+          >
+            <SkipForward className="h-4 w-4 mr-2" />
+            Call Next
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -349,64 +374,10 @@ export default function Dispensary() {
         </div>
       </div>
 
-      {/* Priority Patients */}
-      {priorityDispensary.length > 0 && (
-        <div>
-          <h2 className="text-lg font-semibold mb-4 flex items-center text-yellow-600 dark:text-yellow-500">
-            <Star className="h-5 w-5 mr-2 fill-current" />
-            Priority Patients ({priorityDispensary.length})
-          </h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {priorityDispensary.map((patient) => (
-              <PatientCard
-                key={patient.id}
-                patient={patient as any}
-                onCall={handleCallPatient}
-                onCallAgain={handleCallAgain}
-                onRecall={handleRecall}
-                onDelete={handleDeletePatient}
-                onComplete={handleCompletePatient}
-                onRequeue={handleRequeue}
-                disabled={updatePatientStatusMutation.isPending}
-                selectedWindow={dispensaryWindow.id}
-              />
-            ))}
-          </div>
-        </div>
-      )}
-
-      {/* Normal Dispensary Patients */}
-      <div>
-        <h2 className="text-lg font-semibold mb-4 flex items-center">
-          <Pill className="h-5 w-5 mr-2" />
-          Waiting for Dispensary ({normalDispensary.length})
-        </h2>
-        {normalDispensary.length === 0 ? (
-          <Card>
-            <CardContent className="p-8 text-center">
-              <div className="text-muted-foreground">
-                No patients waiting for dispensary
-              </div>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {normalDispensary.map((patient) => (
-              <PatientCard
-                key={patient.id}
-                patient={patient as any}
-                onCall={handleCallPatient}
-                onCallAgain={handleCallAgain}
-                onRecall={handleRecall}
-                onDelete={handleDeletePatient}
-                onComplete={handleCompletePatient}
-                onRequeue={handleRequeue}
-                disabled={updatePatientStatusMutation.isPending}
-                selectedWindow={dispensaryWindow.id}
-              />
-            ))}
-          </div>
-        )}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {renderColumn("Preparing", <Pill className="h-5 w-5 mr-2" />, preparingTickets, "No prescriptions being prepared", "column-preparing")}
+        {renderColumn("Ready", <PackageCheck className="h-5 w-5 mr-2" />, readyTickets, "No prescriptions ready", "column-ready")}
+        {renderColumn("At Counter", <Bell className="h-5 w-5 mr-2" />, calledTickets, "No prescriptions called", "column-called")}
       </div>
     </div>
   );
@@ -0,0 +1,263 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Ticket, Star, Printer, AlertCircle, Clock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface KioskInfo {
+  clinicName: string;
+  isOpen: boolean; // Outside opening hours the kiosk shows a closed screen
+  services: { id: string; name: string; prefix: string }[];
+  priorityReasons: string[];
+}
+
+interface KioskTicket {
+  ticket: string;
+  number: number;
+  ticketPrefix: string | null;
+  serviceName: string | null;
+  isPriority: boolean;
+  // Priority chosen at the kiosk is only a request until staff confirm it
+  priorityRequested: boolean;
+  statusCode: string;
+  registeredAt: string;
+  clinicName: string;
+}
+
+// Return to the start screen after showing the ticket
+const TICKET_DISPLAY_SECONDS = 20;
+
+interface KioskPageProps {
+  token: string;
+}
+
+export default function KioskPage({ token }: KioskPageProps) {
+  const [priorityReason, setPriorityReason] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<KioskTicket | null>(null);
+  const [countdown, setCountdown] = useState(TICKET_DISPLAY_SECONDS);
+
+  const { data: kiosk, isLoading, error } = useQuery<KioskInfo>({
+    queryKey: [`/api/kiosk/${token}`],
+    enabled: !!token,
+    retry: false,
+    // Opens and closes with the clinic's opening hours
+    refetchInterval: 60000,
+  });
+
+  const takeNumberMutation = useMutation({
+    mutationFn: async (serviceId?: string) => {
+      const response = await apiRequest("POST", `/api/kiosk/${token}/tickets`, {
+        serviceId,
+        priorityReason: priorityReason || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (newTicket: KioskTicket) => {
+      setTicket(newTicket);
+      setPriorityReason(null);
+      setCountdown(TICKET_DISPLAY_SECONDS);
+    },
+    onError: (error) => {
+      console.error("Error taking kiosk number:", error);
+      // Closed since the kiosk last checked - switch to the closed screen
+      if (error.message.startsWith("403")) {
+        queryClient.invalidateQueries({ queryKey: [`/api/kiosk/${token}`] });
+      }
+    },
+  });
+
+  // Countdown back to the start screen
+  useEffect(() => {
+    if (!ticket) return;
+
+    if (countdown <= 0) {
+      setTicket(null);
+      return;
+    }
+
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [ticket, countdown]);
+
+  const statusUrl = ticket ? `${window.location.origin}/status/${ticket.statusCode}` : "";
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center space-y-4">
+          <AlertCircle className="h-12 w-12 mx-auto text-destructive" />
+          <p className="text-lg text-muted-foreground">This kiosk link is not valid. Please contact clinic staff.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !kiosk) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  // Ticket screen
+  if (ticket) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-muted/30">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 flex flex-col items-center space-y-6 text-center">
+            <div className="text-lg font-medium text-muted-foreground">{ticket.clinicName}</div>
+            {ticket.serviceName && (
+              <div className="text-xl font-semibold">{ticket.serviceName}</div>
+            )}
+            <div className="text-7xl font-bold text-primary tracking-wider" data-testid="text-kiosk-ticket">
+              {ticket.ticket}
+            </div>
+            {ticket.isPriority ? (
+              <div className="flex items-center gap-1 text-red-600 font-medium">
+                <Star className="h-5 w-5 fill-current" />
+                Priority
+              </div>
+            ) : ticket.priorityRequested && (
+              <div className="flex items-center gap-1 text-amber-600 font-medium" data-testid="text-kiosk-priority-requested">
+                <Star className="h-5 w-5" />
+                Priority requested - please tell the counter staff
+              </div>
+            )}
+            <div className="p-4 bg-white rounded-lg border-2 border-dashed border-gray-300">
+              <QRCodeSVG value={statusUrl} size={180} level="M" data-testid="qr-kiosk-status" />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Scan to check your place in the queue on your phone
+            </p>
+            <div className="flex gap-3 w-full">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => window.print()}
+                data-testid="button-kiosk-print"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Print
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => setTicket(null)}
+                data-testid="button-kiosk-done"
+              >
+                Done ({countdown})
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Thermal receipt layout - hidden on screen, used by window.print() */}
+        <div className="kiosk-print-ticket">
+          <div style={{ fontSize: '14px', fontWeight: 'bold' }}>{ticket.clinicName}</div>
+          {ticket.serviceName && <div style={{ fontSize: '12px' }}>{ticket.serviceName}</div>}
+          <div style={{ fontSize: '48px', fontWeight: 'bold', margin: '4mm 0' }}>{ticket.ticket}</div>
+          {ticket.isPriority && <div style={{ fontSize: '12px' }}>PRIORITY</div>}
+          {!ticket.isPriority && ticket.priorityRequested && <div style={{ fontSize: '12px' }}>PRIORITY REQUESTED - SEE COUNTER</div>}
+          <div style={{ display: 'flex', justifyContent: 'center', margin: '3mm 0' }}>
+            <QRCodeSVG value={statusUrl} size={140} level="M" />
+          </div>
+          <div style={{ fontSize: '11px' }}>Scan to check your place in the queue</div>
+          <div style={{ fontSize: '11px', marginTop: '2mm' }}>
+            {new Date(ticket.registeredAt).toLocaleString('en-GB', {
+              day: '2-digit',
+              month: 'short',
+              year: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+              hour12: true
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Closed screen
+  if (!kiosk.isOpen) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-muted/30">
+        <div className="text-center space-y-4" data-testid="kiosk-closed">
+          <Clock className="h-16 w-16 mx-auto text-muted-foreground" />
+          <h1 className="text-4xl font-bold text-foreground">{kiosk.clinicName}</h1>
+          <p className="text-xl text-muted-foreground">The clinic is closed. Please come back during opening hours.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Start screen
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-muted/30">
+      <div className="w-full max-w-2xl space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl font-bold text-foreground">{kiosk.clinicName}</h1>
+          <p className="text-xl text-muted-foreground">Tap to take a number</p>
+        </div>
+
+        {/* Priority reason - optional */}
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            <div className="text-sm font-medium text-muted-foreground flex items-center">
+              <Star className="h-4 w-4 mr-1" />
+              Priority (optional - confirmed at the counter)
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {kiosk.priorityReasons.map((reason) => (
+                <Button
+                  key={reason}
+                  variant={priorityReason === reason ? "default" : "outline"}
+                  className="h-14 text-base"
+                  onClick={() => setPriorityReason(priorityReason === reason ? null : reason)}
+                  data-testid={`button-kiosk-priority-${reason.toLowerCase()}`}
+                >
+                  {reason}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Service buttons, or a single take-a-number button */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {kiosk.services.length > 0 ? (
+            kiosk.services.map((service) => (
+              <Button
+                key={service.id}
+                className="h-28 text-2xl flex flex-col"
+                onClick={() => takeNumberMutation.mutate(service.id)}
+                disabled={takeNumberMutation.isPending}
+                data-testid={`button-kiosk-service-${service.id}`}
+              >
+                <span className="font-bold">{service.name}</span>
+                <span className="text-base opacity-80">{service.prefix}</span>
+              </Button>
+            ))
+          ) : (
+            <Button
+              className="h-28 text-2xl sm:col-span-2"
+              onClick={() => takeNumberMutation.mutate(undefined)}
+              disabled={takeNumberMutation.isPending}
+              data-testid="button-kiosk-take-number"
+            >
+              <Ticket className="h-8 w-8 mr-3" />
+              Take a Number
+            </Button>
+          )}
+        </div>
+
+        {takeNumberMutation.isError && (
+          <p className="text-center text-destructive">
+            Could not issue a ticket. Please try again or ask clinic staff.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
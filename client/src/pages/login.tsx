@@ -13,6 +13,7 @@ import { AlertCircle, LogIn, QrCode, Smartphone, Timer } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { QRCodeSVG } from "qrcode.react";
 import { io, Socket } from "socket.io-client";
+import { SOCKET_TRANSPORTS } from "@/hooks/useWebSocket";
 import quetamaLogo from "@assets/QUEUE MANAGEMENT SYSTEM_1759210094923.png";
 
 // Login form schema
@@ -131,7 +132,7 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
   };
 
   const initializeQrWebSocket = (sessionId: string) => {
-    const newSocket = io();
+    const newSocket = io({ transports: SOCKET_TRANSPORTS });
     
     newSocket.on('connect', () => {
       // Join QR session room
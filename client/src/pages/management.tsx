@@ -5,9 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Settings } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Settings, Layers, Trash2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { Service, WindowType } from "@shared/schema";
 
 interface Window {
   id: string;
@@ -17,10 +20,15 @@ interface Window {
   currentPatientId?: string;
   currentPatientName?: string;
   currentPatientNumber?: number;
+  serviceIds?: string[];
+  type?: string;
 }
 
 export default function Management() {
   const [newWindowName, setNewWindowName] = useState("");
+  const [newWindowType, setNewWindowType] = useState<WindowType>("room");
+  const [newServiceName, setNewServiceName] = useState("");
+  const [newServicePrefix, setNewServicePrefix] = useState("");
   const { toast } = useToast();
 
   // Fetch windows data
@@ -31,12 +39,13 @@ export default function Management() {
 
   // Create window mutation
   const createWindowMutation = useMutation({
-    mutationFn: async (name: string) => {
-      return await apiRequest("POST", "/api/windows", { name });
+    mutationFn: async ({ name, type }: { name: string; type: WindowType }) => {
+      return await apiRequest("POST", "/api/windows", { name, type });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/windows"] });
       setNewWindowName("");
+      setNewWindowType("room");
       toast({
         title: "Room successfully added",
         description: "New room has been registered in the system."
@@ -55,7 +64,7 @@ export default function Management() {
     e.preventDefault();
     if (!newWindowName.trim()) return;
     
-    createWindowMutation.mutate(newWindowName.trim());
+    createWindowMutation.mutate({ name: newWindowName.trim(), type: newWindowType });
   };
 
   // Update window mutation
@@ -133,6 +142,107 @@ export default function Management() {
     toggleStatusMutation.mutate(windowId);
   };
 
+  // Fetch services (separate queue lines with their own ticket prefix)
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  // Create service mutation
+  const createServiceMutation = useMutation({
+    mutationFn: async ({ name, prefix }: { name: string; prefix: string }) => {
+      return await apiRequest("POST", "/api/services", { name, prefix });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      setNewServiceName("");
+      setNewServicePrefix("");
+      toast({
+        title: "Service successfully added",
+        description: "Patients can now be registered to this service."
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add service.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleAddService = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newServiceName.trim() || !newServicePrefix.trim()) return;
+
+    createServiceMutation.mutate({ name: newServiceName.trim(), prefix: newServicePrefix.trim().toUpperCase() });
+  };
+
+  // Toggle service active mutation
+  const toggleServiceMutation = useMutation({
+    mutationFn: async (service: Service) => {
+      return await apiRequest("PUT", `/api/services/${service.id}`, { isActive: !service.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change service status.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Delete service mutation
+  const deleteServiceMutation = useMutation({
+    mutationFn: async (serviceId: string) => {
+      return await apiRequest("DELETE", `/api/services/${serviceId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/windows"] });
+      toast({
+        title: "Service successfully deleted",
+        description: "Service has been removed from system."
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete service.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleDeleteService = (service: Service) => {
+    if (confirm(`Delete service "${service.name}" (${service.prefix})?`)) {
+      deleteServiceMutation.mutate(service.id);
+    }
+  };
+
+  // Update window service subscriptions mutation
+  const updateWindowServicesMutation = useMutation({
+    mutationFn: async ({ windowId, serviceIds }: { windowId: string; serviceIds: string[] }) => {
+      return await apiRequest("PUT", `/api/windows/${windowId}/services`, { serviceIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/windows"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update room services.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleUpdateWindowServices = async (windowId: string, serviceIds: string[]) => {
+    updateWindowServicesMutation.mutate({ windowId, serviceIds });
+  };
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -164,6 +274,15 @@ export default function Management() {
                 data-testid="input-new-window-name"
               />
             </div>
+            <Select value={newWindowType} onValueChange={(value) => setNewWindowType(value as WindowType)}>
+              <SelectTrigger className="w-48" data-testid="select-new-window-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="room">Consultation room</SelectItem>
+                <SelectItem value="dispensary">Dispensary counter</SelectItem>
+              </SelectContent>
+            </Select>
             <Button
               type="submit"
               disabled={createWindowMutation.isPending || !newWindowName.trim()}
@@ -176,6 +295,92 @@ export default function Management() {
         </CardContent>
       </Card>
 
+      {/* Services */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Layers className="h-5 w-5 mr-2" />
+            Services ({services.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAddService} className="flex gap-4">
+            <div className="flex-1">
+              <Label htmlFor="serviceName" className="sr-only">
+                Service Name
+              </Label>
+              <Input
+                id="serviceName"
+                type="text"
+                value={newServiceName}
+                onChange={(e) => setNewServiceName(e.target.value)}
+                placeholder="Enter service name (e.g.: Doctor Consultation)"
+                maxLength={50}
+                data-testid="input-new-service-name"
+              />
+            </div>
+            <div className="w-28">
+              <Label htmlFor="servicePrefix" className="sr-only">
+                Ticket Prefix
+              </Label>
+              <Input
+                id="servicePrefix"
+                type="text"
+                value={newServicePrefix}
+                onChange={(e) => setNewServicePrefix(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+                placeholder="Prefix (A)"
+                maxLength={3}
+                data-testid="input-new-service-prefix"
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={createServiceMutation.isPending || !newServiceName.trim() || !newServicePrefix.trim()}
+              data-testid="button-add-service"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {createServiceMutation.isPending ? "Adding..." : "Add"}
+            </Button>
+          </form>
+
+          {services.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              No services yet - all patients share one number sequence. Add services to give each queue line its own ticket prefix (A001, B001...).
+            </div>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {services.map((service) => (
+                <div key={service.id} className="flex items-center justify-between p-3" data-testid={`service-${service.id}`}>
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline" className="font-mono text-base">{service.prefix}</Badge>
+                    <span className="font-medium">{service.name}</span>
+                    {!service.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant={service.isActive ? "secondary" : "default"}
+                      onClick={() => toggleServiceMutation.mutate(service)}
+                      data-testid={`button-toggle-service-${service.id}`}
+                    >
+                      {service.isActive ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteService(service)}
+                      data-testid={`button-delete-service-${service.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Windows List */}
       <div>
         <h2 className="text-lg font-semibold mb-4 flex items-center">
@@ -208,6 +413,8 @@ export default function Management() {
                 onEdit={handleEditWindow}
                 onDelete={handleDeleteWindow}
                 onToggleStatus={handleToggleStatus}
+                services={services}
+                onUpdateServices={handleUpdateWindowServices}
               />
             ))}
           </div>
@@ -0,0 +1,163 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Users, Clock, Megaphone, AlertCircle, CheckCircle, Bell, BellOff } from "lucide-react";
+import { useWebSocketStatus } from "@/hooks/useWebSocket";
+import { usePushSubscription } from "@/hooks/use-push-subscription";
+
+interface QueueStatus {
+  clinicName: string;
+  ticket: string;
+  serviceName: string | null;
+  status: string;
+  room: string | null;
+  peopleAhead: number;
+  estimatedWaitMinutes: number | null;
+  currentCall: { ticket: string; room: string | null } | null;
+  registeredAt: string;
+}
+
+interface QueueStatusPageProps {
+  code: string;
+}
+
+export default function QueueStatusPage({ code }: QueueStatusPageProps) {
+  // Live refresh signals over socket.io; polling is only a fallback if the socket drops
+  const { isConnected } = useWebSocketStatus(code);
+  const push = usePushSubscription(code);
+
+  const { data: status, isLoading, error } = useQuery<QueueStatus>({
+    queryKey: [`/api/status/${code}`],
+    enabled: !!code,
+    retry: false,
+    refetchInterval: isConnected ? false : 30000,
+  });
+
+  if (!code || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center space-y-4">
+          <AlertCircle className="h-12 w-12 mx-auto text-destructive" />
+          <p className="text-lg text-muted-foreground">Ticket not found. It may have expired after the queue was reset.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !status) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const isCalled = status.status === "called" || status.status === "in-progress";
+  const isDone = status.status === "completed";
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-4 flex flex-col items-center">
+      <div className="w-full max-w-md space-y-4">
+        <div className="text-center pt-4">
+          <h1 className="text-xl font-semibold text-foreground">{status.clinicName}</h1>
+          {status.serviceName && (
+            <p className="text-muted-foreground">{status.serviceName}</p>
+          )}
+        </div>
+
+        {/* Own ticket */}
+        <Card className={isCalled ? "border-green-500 border-2" : undefined}>
+          <CardContent className="p-6 text-center space-y-3">
+            <div className="text-sm text-muted-foreground">Your number</div>
+            <div className="text-6xl font-bold text-primary tracking-wider" data-testid="text-status-ticket">
+              {status.ticket}
+            </div>
+            {isCalled ? (
+              <div className="space-y-1" data-testid="text-status-called">
+                <div className="text-2xl font-bold text-green-600 flex items-center justify-center gap-2">
+                  <Megaphone className="h-6 w-6" />
+                  It's your turn
+                </div>
+                {status.room && (
+                  <div className="text-lg">Please proceed to <strong>{status.room}</strong></div>
+                )}
+              </div>
+            ) : isDone ? (
+              <div className="text-lg text-muted-foreground flex items-center justify-center gap-2">
+                <CheckCircle className="h-5 w-5" />
+                Completed
+              </div>
+            ) : (
+              <Badge variant="outline" className="text-base">Waiting</Badge>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Position and ETA - only while waiting */}
+        {!isCalled && !isDone && (
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <Users className="h-5 w-5 mx-auto mb-1 text-muted-foreground" />
+                <div className="text-3xl font-bold" data-testid="text-status-ahead">{status.peopleAhead}</div>
+                <div className="text-xs text-muted-foreground">ahead of you</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <Clock className="h-5 w-5 mx-auto mb-1 text-muted-foreground" />
+                <div className="text-3xl font-bold" data-testid="text-status-eta">
+                  {status.estimatedWaitMinutes === null ? "-" : `~${status.estimatedWaitMinutes}`}
+                </div>
+                <div className="text-xs text-muted-foreground">minutes (estimate)</div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Browser push - "it's your turn" even after this page is closed */}
+        {!isCalled && !isDone && push.state !== "unsupported" && (
+          <Card>
+            <CardContent className="p-4 flex items-center justify-between gap-3">
+              <span className="text-sm text-muted-foreground">
+                {push.state === "subscribed"
+                  ? "We'll notify this phone when it's your turn"
+                  : push.state === "denied"
+                    ? "Notifications are blocked in your browser settings"
+                    : "Get a notification when it's your turn"}
+              </span>
+              {push.state === "subscribed" ? (
+                <Button variant="outline" size="sm" onClick={push.unsubscribe} data-testid="button-push-unsubscribe">
+                  <BellOff className="h-4 w-4 mr-1" />
+                  Turn off
+                </Button>
+              ) : push.state !== "denied" && (
+                <Button size="sm" onClick={push.subscribe} disabled={push.state === "busy"} data-testid="button-push-subscribe">
+                  <Bell className="h-4 w-4 mr-1" />
+                  Notify me
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Current call on this line */}
+        <Card>
+          <CardContent className="p-4 flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Now serving</span>
+            <span className="text-lg font-semibold" data-testid="text-status-current-call">
+              {status.currentCall
+                ? `${status.currentCall.ticket}${status.currentCall.room ? ` - ${status.currentCall.room}` : ""}`
+                : "-"}
+            </span>
+          </CardContent>
+        </Card>
+
+        <p className="text-center text-xs text-muted-foreground">
+          {isConnected ? "Live updates on" : "Reconnecting - refreshing every 30 seconds"}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,27 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { PatientCard } from "@/components/patient-card";
+import { PatientExportButton } from "@/components/patient-export-button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { ClipboardList, Users, RefreshCw, Trash2, Star } from "lucide-react";
+import { ClipboardList, Users, RefreshCw, Trash2, Star, SkipForward, Undo2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type Patient, type Setting } from "@shared/schema";
+import { type Patient, type PatientEvent, type Setting, type QueueResetStatus, type ClinicScheduleResponse, QUEUE_RESET_UNDO_MINUTES } from "@shared/schema";
 import { audioSystem } from "@/lib/audio-system";
+import { groupPatientEvents } from "@/lib/patient-events";
+import { hasPermission, isRoomRestricted } from "@shared/roles";
 
 interface Window {
   id: string;
   name: string;
   isActive: boolean;
   currentPatientId?: string;
+  serviceIds?: string[];
+  type?: string;
 }
 
 interface QueuePatient extends Omit<Patient, 'status' | 'trackingHistory' | 'windowId' | 'lastWindowId'> {
@@ -24,18 +30,24 @@ interface QueuePatient extends Omit<Patient, 'status' | 'trackingHistory' | 'win
   windowName?: string;
   lastWindowId?: string;
   lastWindowName?: string;
-  trackingHistory?: any[];
+  journey?: PatientEvent[];
 }
 
 export default function Queue() {
   const [selectedWindow, setSelectedWindow] = useState<string>("");
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Fetch all patients (24-hour clinic operation)
   const { data: patients = [], isLoading: patientsLoading, refetch: refetchPatients } = useQuery<Patient[]>({
     queryKey: ['/api/patients'],
   });
 
+  // Journey events for the patient cards
+  const { data: patientEvents = [], refetch: refetchPatientEvents } = useQuery<PatientEvent[]>({
+    queryKey: ['/api/patient-events'],
+  });
+
   // Fetch windows
   const { data: windows = [], isLoading: windowsLoading, refetch: refetchWindows } = useQuery<Window[]>({
     queryKey: ['/api/windows'],
@@ -46,6 +58,21 @@ export default function Queue() {
     queryKey: ['/api/settings'],
   });
 
+  // Clinic day in the clinic's timezone (export defaults)
+  const { data: clinicSchedule } = useQuery<ClinicScheduleResponse>({
+    queryKey: ['/api/clinic/schedule'],
+  });
+  const clinicToday = clinicSchedule?.today || new Date().toISOString().split('T')[0];
+
+  // Latest queue reset - drives the undo banner
+  const canResetQueue = hasPermission(user?.role, "settings:manage");
+  const { data: latestReset } = useQuery<QueueResetStatus | null>({
+    queryKey: ['/api/patients/reset-queue/latest'],
+    enabled: canResetQueue,
+    // Hides the banner once the undo window closes
+    refetchInterval: 60000,
+  });
+
   // Update patient status mutation
   const updatePatientStatusMutation = useMutation({
     mutationFn: async ({ patientId, status, windowId, requeueReason }: { patientId: string; status: string; windowId?: string; requeueReason?: string }) => {
@@ -107,9 +134,20 @@ export default function Queue() {
       if (context?.previousWindows) {
         queryClient.setQueryData(['/api/windows'], context.previousWindows);
       }
+
+      // 409 - the patient moved on elsewhere (e.g. another room already completed them)
+      if (err.message.startsWith("409")) {
+        queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+        toast({
+          title: "Action Not Allowed",
+          description: "This patient's status has changed. The queue has been refreshed.",
+          variant: "destructive",
+        });
+      }
     },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/current-call'] });
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
@@ -136,7 +174,74 @@ export default function Queue() {
     onSettled: () => {
       // Always refetch after mutation settles, whether success or error
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+    },
+  });
+
+  // Call next eligible patient mutation - server picks the patient so two rooms never grab the same one
+  const callNextMutation = useMutation({
+    mutationFn: async (windowId: string) => {
+      const response = await apiRequest("POST", `/api/windows/${windowId}/call-next`);
+      return response.json();
+    },
+    onSuccess: (patient: Patient) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/current-call'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
+      toast({
+        title: "Success",
+        description: `${patient.name || `No. ${patient.number}`} successfully called`,
+      });
+    },
+    onError: (error: any) => {
+      console.error("Error calling next patient:", error);
+      toast({
+        title: "Error",
+        description: error.message?.includes("404") ? "No patients waiting for this room" : "Failed to call next patient",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Clear requeue reason mutation
+  const clearRequeueReasonMutation = useMutation({
+    mutationFn: async (patientId: string) => {
+      const response = await apiRequest("DELETE", `/api/patients/${patientId}/requeue-reason`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+    },
+    onError: (error) => {
+      console.error("Error clearing requeue reason:", error);
+      toast({
+        title: "Error",
+        description: "Failed to clear requeue reason",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Confirm a priority requested at the kiosk
+  const confirmPriorityMutation = useMutation({
+    mutationFn: async (patientId: string) => {
+      const response = await apiRequest("PATCH", `/api/patients/${patientId}/priority`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    },
+    onError: (error) => {
+      console.error("Error confirming priority:", error);
+      toast({
+        title: "Error",
+        description: "Failed to confirm priority",
+        variant: "destructive",
+      });
     },
   });
 
@@ -148,6 +253,7 @@ export default function Queue() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
       queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
       toast({
         title: "Success",
@@ -164,6 +270,18 @@ export default function Queue() {
     },
   });
 
+  // Everything a queue reset (or its undo) changes
+  const invalidateQueueQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/patient-events'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/patients/next-number'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/current-call'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/patients/reset-queue/latest'] });
+  };
+
   // Manual reset/clear queue mutation (for 24-hour clinics)
   const resetQueueMutation = useMutation({
     mutationFn: async () => {
@@ -171,15 +289,10 @@ export default function Queue() {
       return response.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/patients'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/windows'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/patients/next-number'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/current-call'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/history'] });
+      invalidateQueueQueries();
       toast({
         title: "Queue Reset Complete",
-        description: `${data.deletedCount || 0} patient(s) deleted. Next number reset to 1.`,
+        description: `${data.archivedCount || 0} patient(s) archived. Next number reset to 1. You can undo this for ${QUEUE_RESET_UNDO_MINUTES} minutes.`,
       });
     },
     onError: (error) => {
@@ -192,6 +305,32 @@ export default function Queue() {
     },
   });
 
+  // Undo the latest reset while its undo window is open
+  const undoResetMutation = useMutation({
+    mutationFn: async (resetId: string) => {
+      const response = await apiRequest("POST", `/api/patients/reset-queue/${resetId}/undo`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      invalidateQueueQueries();
+      toast({
+        title: "Queue Restored",
+        description: `${data.restoredCount || 0} patient(s) restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Error undoing queue reset:", error);
+      queryClient.invalidateQueries({ queryKey: ['/api/patients/reset-queue/latest'] });
+      toast({
+        title: "Undo Failed",
+        description: error.message.startsWith("409")
+          ? "The reset can no longer be undone (time expired or new patients registered)."
+          : "Failed to undo queue reset. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Extract audio settings with all required fields
   const audioSettings = useMemo(() => {
     const settingsObj = settings.reduce((acc: Record<string, string>, setting) => {
@@ -212,6 +351,8 @@ export default function Queue() {
     };
   }, [settings]);
 
+  const journeys = useMemo(() => groupPatientEvents(patientEvents), [patientEvents]);
+
   // Enhanced patients with window names
   const enhancedPatients = useMemo((): QueuePatient[] => {
     return patients.map(patient => ({
@@ -221,9 +362,9 @@ export default function Queue() {
       windowName: patient.windowId ? windows.find(w => w.id === patient.windowId)?.name : undefined,
       lastWindowId: patient.lastWindowId || undefined,
       lastWindowName: patient.lastWindowId ? windows.find(w => w.id === patient.lastWindowId)?.name : undefined,
-      trackingHistory: Array.isArray(patient.trackingHistory) ? patient.trackingHistory : undefined
+      journey: journeys.get(patient.id)
     }));
-  }, [patients, windows]);
+  }, [patients, windows, journeys]);
 
   const handleCallPatient = async (patientId: string) => {
     if (!selectedWindow) {
@@ -264,6 +405,39 @@ export default function Queue() {
     // Audio will be played by TV Display only (not from Queue page)
   };
 
+  const handleCallNext = () => {
+    if (!selectedWindow) {
+      toast({
+        title: "Error",
+        description: "Please select room first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const window = windows.find(w => w.id === selectedWindow);
+    if (!window) return;
+
+    if (window.currentPatientId) {
+      toast({
+        title: "Error",
+        description: "This room is serving another patient",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    callNextMutation.mutate(selectedWindow);
+  };
+
+  const handleClearRequeueReason = (patientId: string) => {
+    clearRequeueReasonMutation.mutate(patientId);
+  };
+
+  const handleConfirmPriority = (patientId: string) => {
+    confirmPriorityMutation.mutate(patientId);
+  };
+
   const handleCallAgain = (patientId: string) => {
     const patient = enhancedPatients.find(p => p.id === patientId);
     if (!patient || !patient.windowId) return;
@@ -362,23 +536,33 @@ export default function Queue() {
 
   const handleRefresh = () => {
     refetchPatients();
+    refetchPatientEvents();
     refetchWindows();
   };
 
   const handleResetQueue = () => {
-    if (confirm("Are you sure you want to RESET ENTIRE QUEUE?\n\nThis will:\n✓ Delete ALL patients today (waiting, called, completed)\n✓ Clear all rooms\n✓ Reset next number to 1\n\nThis action CANNOT be undone!")) {
+    if (confirm(`Are you sure you want to RESET ENTIRE QUEUE?\n\nThis will:\n✓ Archive ALL patients today (waiting, called, completed)\n✓ Clear all rooms\n✓ Reset next number to 1\n\nYou can undo this within ${QUEUE_RESET_UNDO_MINUTES} minutes, until a new patient registers.`)) {
       resetQueueMutation.mutate();
     }
   };
 
-  const activeWindows = windows.filter(w => w.isActive && w.name !== "DISPENSARY");
+  // Doctors only see the rooms assigned to them
+  const activeWindows = windows.filter(w =>
+    w.isActive && w.type !== "dispensary" &&
+    (!isRoomRestricted(user?.role) || !!user?.assignedWindowIds?.includes(w.id))
+  );
   // Exclude patients ready for dispensary - they appear only in Dispensary page
   const allWaitingPatients = enhancedPatients.filter(p => 
     (p.status === "waiting" || p.status === "requeue") && 
     !p.readyForDispensary
   );
-  const priorityPatients = allWaitingPatients.filter(p => p.isPriority);
-  const waitingPatients = allWaitingPatients.filter(p => !p.isPriority);
+  // Rooms subscribed to specific services only see those services' patients
+  const selectedServiceIds = windows.find(w => w.id === selectedWindow)?.serviceIds || [];
+  const servicePatients = selectedServiceIds.length > 0
+    ? allWaitingPatients.filter(p => !p.serviceId || selectedServiceIds.includes(p.serviceId))
+    : allWaitingPatients;
+  const priorityPatients = servicePatients.filter(p => p.isPriority);
+  const waitingPatients = servicePatients.filter(p => !p.isPriority);
   // Exclude dispensary patients from Queue page - they appear only in Dispensary page
   const activePatients = enhancedPatients.filter(p => 
     (p.status === "called" || p.status === "in-progress") && 
@@ -395,6 +579,12 @@ export default function Queue() {
           <p className="text-muted-foreground">Manage patient calls and treatment rooms</p>
         </div>
         <div className="flex items-center gap-2">
+          {hasPermission(user?.role, "reports:view") && (
+            <PatientExportButton
+              defaultFrom={clinicToday}
+              defaultTo={clinicToday}
+            />
+          )}
           <Button
             variant="outline"
             onClick={handleRefresh}
@@ -404,18 +594,41 @@ export default function Queue() {
             <RefreshCw className="h-4 w-4 mr-2" />
             {patientsLoading || windowsLoading ? "Loading..." : "Refresh"}
           </Button>
-          <Button
-            variant="destructive"
-            onClick={handleResetQueue}
-            disabled={resetQueueMutation.isPending}
-            data-testid="button-reset-queue"
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            {resetQueueMutation.isPending ? "Resetting..." : "Reset Queue"}
-          </Button>
+          {canResetQueue && (
+            <Button
+              variant="destructive"
+              onClick={handleResetQueue}
+              disabled={resetQueueMutation.isPending}
+              data-testid="button-reset-queue"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              {resetQueueMutation.isPending ? "Resetting..." : "Reset Queue"}
+            </Button>
+          )}
         </div>
       </div>
 
+      {/* Undo Queue Reset */}
+      {latestReset?.canUndo && (
+        <Card className="border-amber-500" data-testid="card-undo-reset">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm">
+              Queue reset at {new Date(latestReset.createdAt).toLocaleTimeString()} archived {latestReset.archivedCount} patient(s).
+              {" "}Undo available until {new Date(latestReset.undoDeadline).toLocaleTimeString()}.
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => undoResetMutation.mutate(latestReset.id)}
+              disabled={undoResetMutation.isPending}
+              data-testid="button-undo-reset"
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              {undoResetMutation.isPending ? "Restoring..." : "Undo Reset"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Window Selection */}
       <Card>
         <CardHeader>
@@ -446,6 +659,14 @@ export default function Queue() {
                 {windows.find(w => w.id === selectedWindow)?.name}
               </Badge>
             )}
+            <Button
+              onClick={handleCallNext}
+              disabled={!selectedWindow || callNextMutation.isPending}
+              data-testid="button-call-next"
+            >
+              <SkipForward className="h-4 w-4 mr-2" />
+              {callNextMutation.isPending ? "Calling..." : "Call Next"}
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -477,6 +698,7 @@ export default function Queue() {
                 onComplete={handleCompletePatient}
                 onDispense={handleDispensePatient}
                 onRequeue={handleRequeuePatient}
+                onClearRequeueReason={handleClearRequeueReason}
                 disabled={!selectedWindow || updatePatientStatusMutation.isPending}
                 selectedWindow={selectedWindow}
               />
@@ -539,6 +761,8 @@ export default function Queue() {
                 onComplete={handleCompletePatient}
                 onDispense={handleDispensePatient}
                 onRequeue={handleRequeuePatient}
+                onClearRequeueReason={handleClearRequeueReason}
+                onConfirmPriority={handleConfirmPriority}
                 disabled={!selectedWindow || updatePatientStatusMutation.isPending}
                 selectedWindow={selectedWindow}
               />
@@ -1,14 +1,19 @@
-import { useMemo } from "react";
+import { useMemo, useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { PatientRegistration } from "@/components/patient-registration";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UserPlus, Users, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type Patient } from "@shared/schema";
+import { formatTicketNumber, type Patient, type Service, type ClinicScheduleResponse } from "@shared/schema";
+import { getClinicDayBounds } from "@shared/clinic-time";
 
-// Helper: Get today's date range for filtering
-function getTodayRange() {
+// Helper: Get the clinic day's range for filtering (falls back to the browser's midnight until loaded)
+function getTodayRange(schedule?: ClinicScheduleResponse) {
+  if (schedule) {
+    const { start, end } = getClinicDayBounds(schedule, schedule.today);
+    return { today: start, tomorrow: new Date(end.getTime() + 1) };
+  }
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   const tomorrow = new Date(today);
@@ -16,9 +21,9 @@ function getTodayRange() {
   return { today, tomorrow };
 }
 
-// Helper: Filter patients registered today
-function filterTodayPatients(patients: Patient[]) {
-  const { today, tomorrow } = getTodayRange();
+// Helper: Filter patients registered during the current clinic day
+function filterTodayPatients(patients: Patient[], schedule?: ClinicScheduleResponse) {
+  const { today, tomorrow } = getTodayRange(schedule);
   return patients.filter(p => {
     const regDate = new Date(p.registeredAt);
     return regDate >= today && regDate < tomorrow;
@@ -33,14 +38,45 @@ export default function Register() {
     queryKey: ['/api/patients'],
   });
 
-  // Fetch next patient number
-  const { data: nextNumberData, isLoading: nextNumberLoading } = useQuery<{ nextNumber: number }>({
-    queryKey: ['/api/patients/next-number'],
+  // Clinic timezone and rollover time decide where "today" starts
+  const { data: clinicSchedule } = useQuery<ClinicScheduleResponse>({
+    queryKey: ['/api/clinic/schedule'],
+  });
+
+  // Fetch active services - each service keeps its own number sequence
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ['/api/services'],
+    select: (data) => data.filter(service => service.isActive),
+  });
+
+  const [selectedServiceId, setSelectedServiceId] = useState<string | undefined>(undefined);
+
+  // Default to the first service once loaded (and if the selected one disappears)
+  useEffect(() => {
+    if (services.length === 0) {
+      if (selectedServiceId) setSelectedServiceId(undefined);
+      return;
+    }
+    if (!selectedServiceId || !services.some(s => s.id === selectedServiceId)) {
+      setSelectedServiceId(services[0].id);
+    }
+  }, [services, selectedServiceId]);
+
+  // Fetch next patient number for the selected service
+  const { data: nextNumberData, isLoading: nextNumberLoading } = useQuery<{ nextNumber: number; ticketPrefix: string | null }>({
+    queryKey: ['/api/patients/next-number', selectedServiceId ?? 'all'],
+    queryFn: async () => {
+      const url = selectedServiceId
+        ? `/api/patients/next-number?serviceId=${encodeURIComponent(selectedServiceId)}`
+        : '/api/patients/next-number';
+      const response = await apiRequest("GET", url);
+      return response.json();
+    },
   });
 
   // Create patient mutation
   const createPatientMutation = useMutation({
-    mutationFn: async (patientData: { name: string | null; number: number; isPriority?: boolean; priorityReason?: string }) => {
+    mutationFn: async (patientData: { name: string | null; number: number; isPriority?: boolean; priorityReason?: string; serviceId?: string; profileId?: string; phone?: string }) => {
       const response = await apiRequest("POST", "/api/patients", patientData);
       return response.json();
     },
@@ -72,18 +108,18 @@ export default function Register() {
       };
     }
 
-    const actualTodayPatients = filterTodayPatients(todayPatients);
+    const actualTodayPatients = filterTodayPatients(todayPatients, clinicSchedule);
 
     return {
       totalRegistered: actualTodayPatients.length
     };
-  }, [todayPatients]);
+  }, [todayPatients, clinicSchedule]);
 
   // Transform patients for recent list display (filter by today only)
   const recentPatients = useMemo(() => {
     if (!todayPatients) return [];
     
-    const actualTodayPatients = filterTodayPatients(todayPatients);
+    const actualTodayPatients = filterTodayPatients(todayPatients, clinicSchedule);
     
     return actualTodayPatients
       .sort((a, b) => new Date(b.registeredAt).getTime() - new Date(a.registeredAt).getTime())
@@ -92,15 +128,16 @@ export default function Register() {
         id: patient.id,
         name: patient.name,
         number: patient.number,
+        ticket: patient.ticketPrefix ? formatTicketNumber(patient.ticketPrefix, patient.number) : `#${patient.number.toString().padStart(3, '0')}`,
         registeredAt: new Date(patient.registeredAt).toLocaleTimeString('en-US', { 
           hour: '2-digit', 
           minute: '2-digit',
           hour12: true 
         })
       }));
-  }, [todayPatients]);
+  }, [todayPatients, clinicSchedule]);
 
-  const handleRegister = (patient: { name: string | null; number: number; type: "name" | "number"; isPriority?: boolean; priorityReason?: string }) => {
+  const handleRegister = (patient: { name: string | null; number: number; type: "name" | "number"; isPriority?: boolean; priorityReason?: string; serviceId?: string; profileId?: string; phone?: string }) => {
     console.log("Registering patient:", patient);
     createPatientMutation.mutate(patient);
   };
@@ -120,6 +157,9 @@ export default function Register() {
             onRegister={handleRegister}
             nextNumber={nextNumberData?.nextNumber || 1}
             isRegistering={createPatientMutation.isPending}
+            services={services}
+            selectedServiceId={selectedServiceId}
+            onServiceChange={setSelectedServiceId}
           />
         </div>
 
@@ -169,7 +209,7 @@ export default function Register() {
                       >
                         <div className="flex items-center space-x-3">
                           <div className="text-lg font-bold text-primary">
-                            #{patient.number.toString().padStart(3, '0')}
+                            {patient.ticket}
                           </div>
                           <div>
                             <div className="font-medium">
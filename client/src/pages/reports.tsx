@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PatientExportButton } from "@/components/patient-export-button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3, Clock, DoorOpen, CalendarDays, RotateCcw, Pill } from "lucide-react";
+import type { WaitTimeReport, RoomReportRow, HourlyReport, RequeueReasonRow } from "@shared/schema";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const hourlyChartConfig = {
+  patients: { label: "Patients", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const roomChartConfig = {
+  averageConsultMinutes: { label: "Avg consult (min)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const requeueChartConfig = {
+  count: { label: "Requeues", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Helper: YYYY-MM-DD for date inputs (local date - toISOString would give the UTC day)
+function toDateInput(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatMinutes(value: number | null | undefined) {
+  return value === null || value === undefined ? "-" : `${value} min`;
+}
+
+export default function Reports() {
+  const [from, setFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 6);
+    return toDateInput(date);
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  const range = `from=${from}&to=${to}`;
+  const isValidRange = !!from && !!to && from <= to;
+
+  const { data: waitTimes, isLoading: waitTimesLoading } = useQuery<WaitTimeReport>({
+    queryKey: [`/api/reports/wait-times?${range}`],
+    enabled: isValidRange,
+  });
+
+  const { data: rooms = [] } = useQuery<RoomReportRow[]>({
+    queryKey: [`/api/reports/rooms?${range}`],
+    enabled: isValidRange,
+  });
+
+  const { data: hourly } = useQuery<HourlyReport>({
+    queryKey: [`/api/reports/hourly?${range}`],
+    enabled: isValidRange,
+  });
+
+  const { data: requeueReasons = [] } = useQuery<RequeueReasonRow[]>({
+    queryKey: [`/api/reports/requeue-reasons?${range}`],
+    enabled: isValidRange,
+  });
+
+  const maxHourlyCount = hourly ? Math.max(1, ...hourly.counts.flat()) : 1;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Reports</h1>
+          <p className="text-muted-foreground">Wait times, room usage and patient flow for a date range</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="reportFrom">From</Label>
+            <Input
+              id="reportFrom"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-report-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reportTo">To</Label>
+            <Input
+              id="reportTo"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-report-to"
+            />
+          </div>
+          <PatientExportButton defaultFrom={from} defaultTo={to} />
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Patients
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-report-total">
+              {waitTimesLoading ? "..." : waitTimes?.totalPatients ?? 0}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {waitTimes?.completedPatients ?? 0} completed
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center">
+              <Clock className="h-4 w-4 mr-2" />
+              Average Wait
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-report-avg-wait">
+              {formatMinutes(waitTimes?.averageWaitMinutes)}
+            </div>
+            <p className="text-xs text-muted-foreground">registration to first call</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center">
+              <Clock className="h-4 w-4 mr-2" />
+              P90 Wait
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-report-p90-wait">
+              {formatMinutes(waitTimes?.p90WaitMinutes)}
+            </div>
+            <p className="text-xs text-muted-foreground">90% of patients waited less</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center">
+              <Pill className="h-4 w-4 mr-2" />
+              Dispensary Turnaround
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-report-dispensary">
+              {formatMinutes(waitTimes?.averageDispensaryTurnaroundMinutes)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {waitTimes?.dispensaryPatients ?? 0} patient(s) sent to dispensary
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Patients per hour */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarDays className="h-5 w-5 mr-2" />
+            Patients per Hour
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ChartContainer config={hourlyChartConfig} className="h-64 w-full">
+            <BarChart data={hourly?.byHour || []}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="hour" tickLine={false} axisLine={false} tickFormatter={(hour) => `${hour}:00`} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="patients" fill="var(--color-patients)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+
+          {/* Day x hour heatmap */}
+          {hourly && (
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate" style={{ borderSpacing: 2 }} data-testid="table-report-heatmap">
+                <thead>
+                  <tr>
+                    <th />
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <th key={hour} className="font-normal text-muted-foreground w-7">{hour}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {hourly.counts.map((hours, day) => (
+                    <tr key={day}>
+                      <td className="pr-2 text-muted-foreground">{DAY_NAMES[day]}</td>
+                      {hours.map((count, hour) => (
+                        <td
+                          key={hour}
+                          className="h-7 w-7 rounded text-center"
+                          style={{
+                            backgroundColor: count > 0 ? `hsl(var(--primary) / ${0.15 + (count / maxHourlyCount) * 0.85})` : undefined
+                          }}
+                          title={`${DAY_NAMES[day]} ${hour}:00 - ${count} patient(s)`}
+                        >
+                          {count > 0 ? count : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Consult time per room */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <DoorOpen className="h-5 w-5 mr-2" />
+              Average Consult Time per Room
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {rooms.length === 0 ? (
+              <div className="text-sm text-muted-foreground text-center p-8">No consultations in this range</div>
+            ) : (
+              <ChartContainer config={roomChartConfig} className="h-64 w-full">
+                <BarChart data={rooms} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="roomName" tickLine={false} axisLine={false} width={100} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="averageConsultMinutes" fill="var(--color-averageConsultMinutes)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Requeue reasons */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <RotateCcw className="h-5 w-5 mr-2" />
+              Requeue Reasons
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {requeueReasons.length === 0 ? (
+              <div className="text-sm text-muted-foreground text-center p-8">No requeues in this range</div>
+            ) : (
+              <ChartContainer config={requeueChartConfig} className="h-64 w-full">
+                <BarChart data={requeueReasons} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="reason" tickLine={false} axisLine={false} width={140} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,15 +6,21 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Monitor, Volume2, Palette, Upload, Save, RefreshCw, CheckCircle, Plus, ChevronLeft, ChevronRight, Eye, Trash2, Edit, Star, Upload as UploadIcon, Brush, X } from "lucide-react";
+import { Monitor, Volume2, Palette, Upload, Save, RefreshCw, CheckCircle, Plus, ChevronLeft, ChevronRight, Eye, Trash2, Edit, Star, Upload as UploadIcon, Brush, X, Clock, MessageSquare } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { GradientPicker } from "@/components/ui/gradient-picker";
+import { DisplayTokenManager } from "@/components/display-token-manager";
+import { DisplayProfileManager } from "@/components/display-profile-manager";
+import { TvLayoutEditor } from "@/components/tv-layout-editor";
+import { ClinicScheduleManager } from "@/components/clinic-schedule-manager";
+import { NotificationSettingsManager } from "@/components/notification-settings-manager";
 import type { Setting, Media, Theme } from "@shared/schema";
 import { audioSystem } from "@/lib/audio-system";
 
-import type { PresetSoundKeyType } from "@shared/schema";
+import { DEFAULT_ANNOUNCEMENT_TEMPLATES } from "@shared/schema";
+import type { PresetSoundKeyType, AnnouncementLanguageType } from "@shared/schema";
 
 interface SettingsState {
   mediaType: string;
@@ -41,6 +47,13 @@ interface SettingsState {
   // Simplified audio system - preset only
   soundMode: 'preset';
   presetKey: PresetSoundKeyType;
+  // Spoken announcement after the chime
+  enableAnnouncement: boolean;
+  announcementLanguage: AnnouncementLanguageType;
+  announcementTemplate: string;
+  announcementRepeat: number;
+  speechRate: number;
+  speechPitch: number;
   // Individual section colors
   headerTextColor: string;
   headerTextMode: 'solid' | 'gradient';
@@ -173,6 +186,12 @@ export default function Settings() {
     volume: 50,
     soundMode: 'preset',
     presetKey: 'notification_sound',
+    enableAnnouncement: false,
+    announcementLanguage: 'ms-MY',
+    announcementTemplate: DEFAULT_ANNOUNCEMENT_TEMPLATES['ms-MY'],
+    announcementRepeat: 1,
+    speechRate: 0.9,
+    speechPitch: 1,
     // Individual section colors with defaults
     headerTextColor: '#ffffff',
     headerTextMode: 'solid' as 'solid' | 'gradient',
@@ -252,6 +271,12 @@ export default function Settings() {
         volume: parseInt(settingsObj.volume || '50'),
         soundMode: 'preset' as const,
         presetKey: (settingsObj.presetKey as PresetSoundKeyType) || 'notification_sound',
+        enableAnnouncement: settingsObj.enableAnnouncement === 'true',
+        announcementLanguage: (settingsObj.announcementLanguage as AnnouncementLanguageType) || 'ms-MY',
+        announcementTemplate: settingsObj.announcementTemplate || DEFAULT_ANNOUNCEMENT_TEMPLATES[(settingsObj.announcementLanguage as AnnouncementLanguageType) || 'ms-MY'],
+        announcementRepeat: parseInt(settingsObj.announcementRepeat || '1'),
+        speechRate: parseFloat(settingsObj.speechRate || '0.9'),
+        speechPitch: parseFloat(settingsObj.speechPitch || '1'),
         // Individual section colors with defaults
         headerTextColor: settingsObj.headerTextColor || '#ffffff',
         headerTextMode: (settingsObj.headerTextMode as 'solid' | 'gradient') || 'solid',
@@ -319,6 +344,9 @@ export default function Settings() {
     // Logo dependencies
     settingsObj.clinicLogo, settingsObj.showClinicLogo, 
     settingsObj.marqueeBackgroundColor, settingsObj.clinicName, settingsObj.enableSound, settingsObj.volume, settingsObj.presetKey,
+    // Spoken announcement
+    settingsObj.enableAnnouncement, settingsObj.announcementLanguage, settingsObj.announcementTemplate,
+    settingsObj.announcementRepeat, settingsObj.speechRate, settingsObj.speechPitch,
     // Header text and background
     settingsObj.headerTextColor, settingsObj.headerTextMode, settingsObj.headerTextGradient,
     settingsObj.headerBackgroundColor, settingsObj.headerBackgroundMode, settingsObj.headerBackgroundGradient,
@@ -547,6 +575,12 @@ export default function Settings() {
       { key: 'enableSound', value: currentSettings.enableSound.toString(), category: 'audio' },
       { key: 'volume', value: currentSettings.volume.toString(), category: 'audio' },
       { key: 'presetKey', value: currentSettings.presetKey, category: 'audio' },
+      { key: 'enableAnnouncement', value: currentSettings.enableAnnouncement.toString(), category: 'audio' },
+      { key: 'announcementLanguage', value: currentSettings.announcementLanguage, category: 'audio' },
+      { key: 'announcementTemplate', value: currentSettings.announcementTemplate, category: 'audio' },
+      { key: 'announcementRepeat', value: currentSettings.announcementRepeat.toString(), category: 'audio' },
+      { key: 'speechRate', value: currentSettings.speechRate.toString(), category: 'audio' },
+      { key: 'speechPitch', value: currentSettings.speechPitch.toString(), category: 'audio' },
     ];
     
     await saveSettingsMutation.mutateAsync(settingsToSave);
@@ -654,12 +688,18 @@ export default function Settings() {
 
       console.log('Testing audio preset:', currentSettings.presetKey, 'at volume:', currentSettings.volume);
       
-      // Play test sound using audio system
-      await audioSystem.playNotificationSound({
+      // Play test sequence (chime + announcement) using audio system
+      await audioSystem.playTestSequence({
         enableSound: currentSettings.enableSound,
         volume: currentSettings.volume,
         soundMode: 'preset',
-        presetKey: currentSettings.presetKey || 'notification_sound'
+        presetKey: currentSettings.presetKey || 'notification_sound',
+        enableAnnouncement: currentSettings.enableAnnouncement,
+        announcementLanguage: currentSettings.announcementLanguage,
+        announcementTemplate: currentSettings.announcementTemplate,
+        announcementRepeat: currentSettings.announcementRepeat,
+        speechRate: currentSettings.speechRate,
+        speechPitch: currentSettings.speechPitch
       });
 
       toast({
@@ -674,7 +714,9 @@ export default function Settings() {
         variant: "destructive",
       });
     }
-  }, [currentSettings.enableSound, currentSettings.presetKey, currentSettings.volume, toast]);
+  }, [currentSettings.enableSound, currentSettings.presetKey, currentSettings.volume,
+    currentSettings.enableAnnouncement, currentSettings.announcementLanguage, currentSettings.announcementTemplate,
+    currentSettings.announcementRepeat, currentSettings.speechRate, currentSettings.speechPitch, toast]);
 
   if (isLoading || mediaLoading) {
     return (
@@ -2354,6 +2396,113 @@ export default function Settings() {
                   />
                 </div>
 
+                {/* Spoken Announcement */}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Voice Announcement</Label>
+                    <div className="text-sm text-muted-foreground">
+                      Speak the patient number, name and room after the chime
+                    </div>
+                  </div>
+                  <Switch
+                    checked={currentSettings.enableAnnouncement}
+                    onCheckedChange={(checked) => updateSoundSetting('enableAnnouncement', checked)}
+                    data-testid="switch-enable-announcement"
+                  />
+                </div>
+
+                {currentSettings.enableAnnouncement && (
+                  <div className="space-y-4 p-4 border rounded-lg">
+                    <div className="space-y-2">
+                      <Label>Announcement Language</Label>
+                      <Select
+                        value={currentSettings.announcementLanguage}
+                        onValueChange={(value) => {
+                          const language = value as AnnouncementLanguageType;
+                          // Swap to the new language's default template unless the user customised it
+                          if (currentSettings.announcementTemplate === DEFAULT_ANNOUNCEMENT_TEMPLATES[currentSettings.announcementLanguage]) {
+                            updateSoundSetting('announcementTemplate', DEFAULT_ANNOUNCEMENT_TEMPLATES[language]);
+                          }
+                          updateSoundSetting('announcementLanguage', language);
+                        }}
+                      >
+                        <SelectTrigger data-testid="select-announcement-language">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ms-MY">Bahasa Melayu</SelectItem>
+                          <SelectItem value="en-US">English</SelectItem>
+                          <SelectItem value="zh-CN">中文 (Mandarin)</SelectItem>
+                          <SelectItem value="ta-IN">தமிழ் (Tamil)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="announcementTemplate">Announcement Template</Label>
+                      <Input
+                        id="announcementTemplate"
+                        value={currentSettings.announcementTemplate}
+                        onChange={(e) => updateSoundSetting('announcementTemplate', e.target.value)}
+                        maxLength={200}
+                        data-testid="input-announcement-template"
+                      />
+                      <div className="text-xs text-muted-foreground">
+                        Use {'{number}'}, {'{name}'} and {'{room}'} as placeholders. Preview: "{audioSystem.renderAnnouncement(currentSettings.announcementTemplate, { patientName: 'Ahmad', patientNumber: 23, windowName: 'Bilik 2' })}"
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Repeat</Label>
+                      <Select
+                        value={currentSettings.announcementRepeat.toString()}
+                        onValueChange={(value) => updateSoundSetting('announcementRepeat', parseInt(value))}
+                      >
+                        <SelectTrigger data-testid="select-announcement-repeat">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">Once</SelectItem>
+                          <SelectItem value="2">Twice</SelectItem>
+                          <SelectItem value="3">3 times</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Speech Rate: {currentSettings.speechRate.toFixed(1)}x</Label>
+                      <input
+                        type="range"
+                        min="0.5"
+                        max="2"
+                        step="0.1"
+                        value={currentSettings.speechRate}
+                        onChange={(e) => updateSoundSetting('speechRate', parseFloat(e.target.value))}
+                        className="w-full"
+                        data-testid="slider-speech-rate"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Speech Pitch: {currentSettings.speechPitch.toFixed(1)}</Label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.1"
+                        value={currentSettings.speechPitch}
+                        onChange={(e) => updateSoundSetting('speechPitch', parseFloat(e.target.value))}
+                        className="w-full"
+                        data-testid="slider-speech-pitch"
+                      />
+                    </div>
+
+                    <div className="text-xs text-muted-foreground">
+                      If the TV has no voice for the selected language, pre-recorded clips from /audio/announcements/{currentSettings.announcementLanguage}/ are played instead.
+                    </div>
+                  </div>
+                )}
+
                 {/* Test Audio Button */}
                 <div className="space-y-4">
                   <Button
@@ -2386,6 +2535,47 @@ export default function Settings() {
         </Card>
         
       </div>
+
+      {/* SECTION 5: TV DISPLAYS */}
+      <div className="space-y-4">
+        <div className="border-b pb-2">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            TV Displays
+          </h2>
+          <p className="text-sm text-muted-foreground">Arrange the TV screen, give each TV its own link, and pick which rooms it shows calls for</p>
+        </div>
+
+        <TvLayoutEditor />
+        <DisplayTokenManager />
+        <DisplayProfileManager />
+      </div>
+
+      {/* SECTION 6: CLINIC HOURS */}
+      <div className="space-y-4">
+        <div className="border-b pb-2">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Clinic Hours
+          </h2>
+          <p className="text-sm text-muted-foreground">Timezone, daily queue rollover and kiosk opening hours</p>
+        </div>
+
+        <ClinicScheduleManager />
+      </div>
+
+      {/* SECTION 7: TURN NOTIFICATIONS */}
+      <div className="space-y-4">
+        <div className="border-b pb-2">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Turn Notifications
+          </h2>
+          <p className="text-sm text-muted-foreground">SMS or WhatsApp messages when a patient's turn is near</p>
+        </div>
+
+        <NotificationSettingsManager />
+      </div>
       </div>
       
       {/* Gradient Picker Modals */}
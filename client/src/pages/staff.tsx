@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { UserPlus, Users, Shield } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { User, CreateStaffRequest, UpdateStaffRequest } from "@shared/schema";
+import { CLINIC_STAFF_ROLES, STAFF_ROLE_LABELS, hasPermission, isRoomRestricted, normalizeRole, type ClinicStaffRole } from "@shared/roles";
+
+interface Window {
+  id: string;
+  name: string;
+  isActive: boolean;
+  type?: string;
+}
+
+interface RoomPickerProps {
+  rooms: Window[];
+  selected: string[];
+  onChange: (windowIds: string[]) => void;
+  testIdPrefix: string;
+}
+
+// Consultation rooms a doctor may call into
+function RoomPicker({ rooms, selected, onChange, testIdPrefix }: RoomPickerProps) {
+  if (rooms.length === 0) {
+    return <div className="text-xs text-muted-foreground">No consultation rooms yet</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {rooms.map((room) => (
+        <label key={room.id} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={selected.includes(room.id)}
+            onCheckedChange={(checked) => onChange(
+              checked ? [...selected, room.id] : selected.filter(id => id !== room.id)
+            )}
+            data-testid={`${testIdPrefix}-${room.id}`}
+          />
+          {room.name}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export default function Staff() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [newStaff, setNewStaff] = useState<CreateStaffRequest>({
+    username: "",
+    password: "",
+    role: "receptionist",
+    assignedWindowIds: []
+  });
+
+  const canManageStaff = hasPermission(currentUser?.role, "staff:manage");
+
+  // Fetch this clinic's staff
+  const { data: staff = [], isLoading } = useQuery<User[]>({
+    queryKey: ['/api/staff'],
+    enabled: canManageStaff,
+  });
+
+  // Doctors are assigned consultation rooms only
+  const { data: windows = [] } = useQuery<Window[]>({
+    queryKey: ['/api/windows'],
+  });
+  const rooms = windows.filter(w => w.type !== "dispensary");
+
+  // Create staff mutation
+  const createStaffMutation = useMutation({
+    mutationFn: async (staffData: CreateStaffRequest) => {
+      const response = await apiRequest("POST", "/api/staff", staffData);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+      setNewStaff({ username: "", password: "", role: "receptionist", assignedWindowIds: [] });
+      toast({
+        title: "Staff Added",
+        description: "New staff login can now sign in",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration Error",
+        description: error.message.includes("Username already exists") ? "Username already exists" : "Failed to add staff. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Update staff mutation (role, rooms, active)
+  const updateStaffMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateStaffRequest }) => {
+      const response = await apiRequest("PATCH", `/api/staff/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/staff'] });
+      toast({
+        title: "Staff Updated",
+        description: "Changes apply on the staff member's next action",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400") ? "You cannot change your own role or deactivate yourself" : "Failed to update staff",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddStaff = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newStaff.username.trim() || newStaff.password.length < 6) {
+      toast({
+        title: "Validation Error",
+        description: "Username and a password of at least 6 characters are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createStaffMutation.mutate({
+      ...newStaff,
+      username: newStaff.username.trim(),
+      assignedWindowIds: isRoomRestricted(newStaff.role) ? newStaff.assignedWindowIds : []
+    });
+  };
+
+  if (!canManageStaff) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+            <p className="text-muted-foreground">
+              Only the clinic manager can manage staff.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Staff</h1>
+        <p className="text-muted-foreground">Staff logins that share this clinic's queue</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Add Staff */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserPlus className="h-5 w-5 mr-2" />
+              Add Staff
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAddStaff} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="staffUsername">Username</Label>
+                <Input
+                  id="staffUsername"
+                  type="text"
+                  value={newStaff.username}
+                  onChange={(e) => setNewStaff(prev => ({ ...prev, username: e.target.value }))}
+                  placeholder="Enter username"
+                  required
+                  data-testid="input-staff-username"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="staffPassword">Password</Label>
+                <Input
+                  id="staffPassword"
+                  type="password"
+                  value={newStaff.password}
+                  onChange={(e) => setNewStaff(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="Enter password"
+                  required
+                  minLength={6}
+                  data-testid="input-staff-password"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={newStaff.role}
+                  onValueChange={(value: ClinicStaffRole) => setNewStaff(prev => ({ ...prev, role: value }))}
+                >
+                  <SelectTrigger data-testid="select-staff-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CLINIC_STAFF_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isRoomRestricted(newStaff.role) && (
+                <div className="space-y-2">
+                  <Label>Assigned Rooms</Label>
+                  <RoomPicker
+                    rooms={rooms}
+                    selected={newStaff.assignedWindowIds}
+                    onChange={(assignedWindowIds) => setNewStaff(prev => ({ ...prev, assignedWindowIds }))}
+                    testIdPrefix="checkbox-new-staff-room"
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={createStaffMutation.isPending}
+                className="w-full"
+                data-testid="button-add-staff"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {createStaffMutation.isPending ? "Adding..." : "Add Staff"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Staff List */}
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Users className="h-5 w-5 mr-2" />
+                Staff List ({staff.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center text-muted-foreground py-8">Loading...</div>
+              ) : (
+                <div className="space-y-4">
+                  {staff.map((member) => {
+                    const role = normalizeRole(member.role);
+                    const isSelf = member.id === currentUser?.id;
+
+                    return (
+                      <div
+                        key={member.id}
+                        className="p-4 border rounded-lg space-y-3"
+                        data-testid={`staff-card-${member.id}`}
+                      >
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium" data-testid={`text-staff-username-${member.id}`}>
+                              {member.username}
+                            </span>
+                            {isSelf && <Badge variant="outline">You</Badge>}
+                            <Badge variant={member.isActive ? "default" : "outline"}>
+                              {member.isActive ? "Active" : "Inactive"}
+                            </Badge>
+                          </div>
+
+                          <div className="flex items-center gap-2">
+                            {role === "admin" ? (
+                              <Badge>{STAFF_ROLE_LABELS.admin}</Badge>
+                            ) : (
+                              <Select
+                                value={role}
+                                disabled={isSelf}
+                                onValueChange={(value: ClinicStaffRole) => updateStaffMutation.mutate({ id: member.id, updates: { role: value } })}
+                              >
+                                <SelectTrigger className="w-44" data-testid={`select-staff-role-${member.id}`}>
+                                  <SelectValue placeholder="Unknown role" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CLINIC_STAFF_ROLES.map((staffRole) => (
+                                    <SelectItem key={staffRole} value={staffRole}>{STAFF_ROLE_LABELS[staffRole]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isSelf || role === "admin"}
+                              onClick={() => updateStaffMutation.mutate({ id: member.id, updates: { isActive: !member.isActive } })}
+                              data-testid={`button-toggle-staff-${member.id}`}
+                            >
+                              {member.isActive ? "Deactivate" : "Activate"}
+                            </Button>
+                          </div>
+                        </div>
+
+                        {isRoomRestricted(role) && (
+                          <div className="space-y-2">
+                            <div className="text-xs text-muted-foreground">Assigned rooms</div>
+                            <RoomPicker
+                              rooms={rooms}
+                              selected={member.assignedWindowIds || []}
+                              onChange={(assignedWindowIds) => updateStaffMutation.mutate({ id: member.id, updates: { assignedWindowIds } })}
+                              testIdPrefix={`checkbox-staff-room-${member.id}`}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { TVDisplay } from "@/components/tv-display";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Monitor, AlertCircle } from "lucide-react";
+import { formatTicketNumber, type DisplayProfileLayout, type Media } from "@shared/schema";
+import type { DisplayPatient } from "@shared/realtime";
+
+interface TvInfo {
+  clinicId: string;
+  clinicName: string;
+  isActive: boolean;
+  token: string;
+  profile: { id: string; name: string; layout: DisplayProfileLayout | null } | null;
+}
+
+type TvPatient = DisplayPatient & { room?: string };
+
+interface TvPageProps {
+  token: string;
+}
+
+// Public TV display bound to a display token - shows the calls of its display profile's rooms
+export default function TvPage({ token }: TvPageProps) {
+  const [started, setStarted] = useState(false);
+
+  const { data: tv, isLoading, error } = useQuery<TvInfo>({
+    queryKey: [`/api/tv/${token}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const { data: currentCall } = useQuery<TvPatient | null>({
+    queryKey: [`/api/tv/${token}/current-call`],
+    enabled: !!tv,
+    // Fallback in case a websocket update is missed
+    refetchInterval: 10000,
+  });
+
+  const { data: history = [] } = useQuery<TvPatient[]>({
+    queryKey: [`/api/tv/${token}/history`],
+    enabled: !!tv,
+    refetchInterval: 30000,
+  });
+
+  const { data: media = [] } = useQuery<Media[]>({
+    queryKey: [`/api/tv/${token}/media/active`],
+    enabled: !!tv,
+  });
+
+  // Same query TVDisplay uses for its own styling - shared cache entry
+  const { data: settingsData = [] } = useQuery<Array<{ key: string; value: string }>>({
+    queryKey: [`/api/tv/${token}/settings`, 'tv-settings'],
+    queryFn: async () => {
+      const response = await fetch(`/api/tv/${token}/settings`);
+      if (!response.ok) throw new Error('Failed to fetch settings');
+      return response.json();
+    },
+    enabled: !!tv,
+  });
+
+  if (!token || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-6">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-8 text-center space-y-3">
+            <AlertCircle className="h-10 w-10 text-destructive mx-auto" />
+            <div className="text-lg font-semibold">Display not available</div>
+            <p className="text-sm text-muted-foreground">
+              This TV link is invalid or has been disabled.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !tv) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const settings = settingsData.reduce((acc: Record<string, string>, setting) => {
+    acc[setting.key] = setting.value;
+    return acc;
+  }, {});
+
+  // Profile layout overrides the clinic's display settings and screen layout where set
+  const layout = tv.profile?.layout || {};
+  const showPrayerTimes = layout.showPrayerTimes ?? settings.showPrayerTimes === "true";
+  const showWeather = layout.showWeather ?? settings.showWeather === "true";
+
+  const toQueueItem = (patient: TvPatient) => ({
+    id: patient.id,
+    name: patient.name || `No. ${patient.ticketPrefix ? formatTicketNumber(patient.ticketPrefix, patient.number) : patient.number}`,
+    number: patient.number.toString(),
+    ticketPrefix: patient.ticketPrefix,
+    room: patient.room || "Not available",
+    status: patient.status === "called" ? "calling" as const : patient.status === "completed" ? "completed" as const : "waiting" as const,
+    timestamp: new Date(),
+    calledAt: patient.calledAt ? new Date(patient.calledAt) : null,
+    requeueReason: patient.requeueReason,
+    isAppointment: patient.isAppointment,
+  });
+
+  // Browsers only play call chimes after a user gesture
+  const handleStart = async () => {
+    try {
+      const { audioSystem } = await import("@/lib/audio-system");
+      await audioSystem.unlock();
+      await document.documentElement.requestFullscreen();
+    } catch (error) {
+      console.error('Failed to enter fullscreen or unlock audio:', error);
+    }
+    setStarted(true);
+  };
+
+  return (
+    <div
+      className="fixed overflow-hidden bg-white m-0"
+      style={{ inset: 0, width: '100vw', height: '100dvh', padding: 'var(--tv-overscan, 3vw)' }}
+      data-testid="page-tv"
+    >
+      <TVDisplay
+        currentPatient={currentCall ? toQueueItem(currentCall) : undefined}
+        queueHistory={history.map(toQueueItem)}
+        clinicName={settings.clinicName || tv.clinicName}
+        mediaItems={media.map(item => ({
+          url: item.url,
+          type: item.url.includes('youtube') || item.url.includes('youtu.be') ? 'youtube' : item.type as "image" | "video",
+          name: item.name
+        }))}
+        isFullscreen={true}
+        showPrayerTimes={showPrayerTimes}
+        showWeather={showWeather}
+        layout={layout.screen?.layout}
+        tvToken={token}
+      />
+
+      {!started && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[9999] flex items-center justify-center">
+          <Button onClick={handleStart} size="lg" className="btn-gradient" data-testid="button-start-tv">
+            <Monitor className="h-5 w-5 mr-2" />
+            Start TV Display{tv.profile ? ` - ${tv.profile.name}` : ''}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
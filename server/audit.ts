@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { AUDIT_RETENTION_SETTING_KEY, DEFAULT_AUDIT_RETENTION_DAYS, type AuditTargetType } from "@shared/schema";
+
+interface AuditInput {
+  action: string; // '<target>.<verb>', e.g. 'patient.status'
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  clinicId?: string; // Public routes (kiosk) have no session - pass the clinic explicitly
+}
+
+// Retention purge runs at most once a day per clinic, piggybacking on audit writes
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const lastPurgeAt = new Map<string, number>();
+
+// Snapshot for the before/after columns - plain JSON, never a password hash
+function snapshot(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value, (key, field) => key === "password" ? undefined : field));
+}
+
+export async function getAuditRetentionDays(clinicId: string): Promise<number> {
+  const setting = await storage.getSetting(AUDIT_RETENTION_SETTING_KEY, clinicId);
+  const days = setting ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_AUDIT_RETENTION_DAYS;
+}
+
+async function purgeIfDue(clinicId: string) {
+  const now = Date.now();
+  if (now - (lastPurgeAt.get(clinicId) || 0) < PURGE_INTERVAL_MS) return;
+  lastPurgeAt.set(clinicId, now);
+
+  const retentionDays = await getAuditRetentionDays(clinicId);
+  const purged = await storage.purgeAuditLog(new Date(now - retentionDays * 24 * 60 * 60 * 1000), clinicId);
+  if (purged > 0) {
+    console.log(`🧹 Audit log: purged ${purged} entries older than ${retentionDays} days (clinic ${clinicId})`);
+  }
+}
+
+// Record who did what. Never throws - a failed audit write must not fail the action itself.
+export async function recordAudit(req: Request, input: AuditInput): Promise<void> {
+  const clinicId = input.clinicId || req.session.clinicId;
+  if (!clinicId) return;
+
+  try {
+    await storage.createAuditEntry({
+      userId: clinicId,
+      actorUserId: req.session.userId || null,
+      actorUsername: req.session.username || null,
+      action: input.action,
+      targetType: input.targetType,
+      targetId: input.targetId || null,
+      before: snapshot(input.before),
+      after: snapshot(input.after),
+      ipAddress: req.ip || null,
+      userAgent: req.get("user-agent") || null,
+    });
+    await purgeIfDue(clinicId);
+  } catch (error) {
+    console.error("❌ Failed to write audit entry:", error);
+  }
+}
@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto";
+import type { ClinicEventName, EventCursor } from "@shared/realtime";
+
+// Short per-clinic history of broadcast events, so a TV (or staff screen) that lost its socket for a
+// few seconds gets the calls it missed instead of sitting on a stale screen.
+// Kept in memory: a restart changes the epoch and every client resyncs from the REST API.
+const REPLAY_BUFFER_SIZE = 200;
+// Older gaps are resynced rather than replayed - a TV back after an outage should not chime a
+// string of calls that are long over
+const REPLAY_MAX_AGE_MS = 5 * 60 * 1000;
+
+const epoch = randomUUID();
+
+export interface RecordedEvent {
+  seq: number;
+  event: ClinicEventName;
+  payload: object; // As sent to staff
+  displayPayload: object | null; // As sent to TV displays; null = staff-only event
+  displayRooms: string[]; // TV rooms it went to - TVs with a display profile only get their rooms' calls
+  recordedAt: number;
+}
+
+interface ClinicEventLog {
+  seq: number;
+  events: RecordedEvent[];
+}
+
+const logs = new Map<string, ClinicEventLog>();
+
+function getLog(clinicId: string): ClinicEventLog {
+  let log = logs.get(clinicId);
+  if (!log) {
+    log = { seq: 0, events: [] };
+    logs.set(clinicId, log);
+  }
+  return log;
+}
+
+export function getEventCursor(clinicId: string): EventCursor {
+  return { clinicId, seq: getLog(clinicId).seq, epoch };
+}
+
+// Next sequence number for a clinic - the caller puts it in the envelope before recording the event
+export function nextEventSeq(clinicId: string): EventCursor {
+  const log = getLog(clinicId);
+  log.seq += 1;
+  return { clinicId, seq: log.seq, epoch };
+}
+
+export function recordEvent(clinicId: string, entry: RecordedEvent) {
+  const log = getLog(clinicId);
+  log.events.push(entry);
+  if (log.events.length > REPLAY_BUFFER_SIZE) {
+    log.events.splice(0, log.events.length - REPLAY_BUFFER_SIZE);
+  }
+}
+
+// Events after the client's cursor, oldest first; null when they can't all be replayed (resync)
+export function getMissedEvents(clinicId: string, cursor: EventCursor): RecordedEvent[] | null {
+  const log = getLog(clinicId);
+  if (cursor.clinicId !== clinicId || cursor.epoch !== epoch || cursor.seq > log.seq) return null;
+  if (cursor.seq === log.seq) return [];
+
+  const missed = log.events.filter(entry => entry.seq > cursor.seq);
+  const complete = missed.length > 0 && missed[0].seq === cursor.seq + 1;
+  if (!complete || Date.now() - missed[0].recordedAt > REPLAY_MAX_AGE_MS) return null;
+  return missed;
+}
+
+// Cursor from the handshake auth - anything malformed counts as a fresh client
+export function parseEventCursor(auth: unknown): EventCursor | null {
+  const { clinicId, seq, epoch: cursorEpoch } = (auth || {}) as Partial<EventCursor>;
+  if (typeof clinicId !== "string" || typeof seq !== "number" || !Number.isInteger(seq) || seq < 0 || typeof cursorEpoch !== "string") {
+    return null;
+  }
+  return { clinicId, seq, epoch: cursorEpoch };
+}
@@ -0,0 +1,142 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import { formatTicketNumber, type Patient, type PatientEvent } from "@shared/schema";
+import { groupJourneys } from "./reports";
+
+// Daily patient log exports (health office attendance submissions).
+// Inputs are already tenant-scoped by storage; journey history is flattened to one row per patient.
+
+export interface PatientExportRow {
+  number: string;
+  name: string;
+  priorityReason: string;
+  status: string;
+  registeredAt: string;
+  firstCalledAt: string;
+  completedAt: string;
+  roomsVisited: string;
+  requeueReasons: string;
+}
+
+const EXPORT_COLUMNS: { key: keyof PatientExportRow; header: string; width: number }[] = [
+  { key: 'number', header: 'Number', width: 10 },
+  { key: 'name', header: 'Name', width: 28 },
+  { key: 'priorityReason', header: 'Priority Reason', width: 18 },
+  { key: 'status', header: 'Status', width: 12 },
+  { key: 'registeredAt', header: 'Registered', width: 20 },
+  { key: 'firstCalledAt', header: 'First Called', width: 20 },
+  { key: 'completedAt', header: 'Completed', width: 20 },
+  { key: 'roomsVisited', header: 'Rooms Visited', width: 36 },
+  { key: 'requeueReasons', header: 'Requeue Reasons', width: 30 },
+];
+
+function formatTimestamp(value: Date | string | null | undefined, timeZone: string): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-GB', {
+    timeZone,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+}
+
+// Timestamps are written in the clinic's timezone
+export function buildPatientExportRows(patients: Patient[], events: PatientEvent[], timeZone: string): PatientExportRow[] {
+  const journeys = groupJourneys(events);
+
+  return [...patients]
+    .sort((a, b) => new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime())
+    .map(patient => {
+      const journey = journeys.get(patient.id) || [];
+      const calls = journey.filter(event => event.eventType === 'called' && event.roomName);
+      const requeues = journey.filter(event => event.eventType === 'requeued');
+
+      return {
+        number: formatTicketNumber(patient.ticketPrefix, patient.number),
+        name: patient.name || '',
+        priorityReason: patient.isPriority ? (patient.priorityReason || 'PRIORITY') : '',
+        status: patient.status,
+        registeredAt: formatTimestamp(patient.registeredAt, timeZone),
+        firstCalledAt: formatTimestamp(calls[0]?.createdAt || patient.calledAt, timeZone),
+        completedAt: formatTimestamp(patient.completedAt, timeZone),
+        roomsVisited: calls.map(event => event.roomName).join(' > '),
+        requeueReasons: requeues.map(event => event.reason || 'No reason specified').join('; ')
+      };
+    });
+}
+
+function escapeCsvValue(value: string): string {
+  // Neutralise spreadsheet formulas and quote anything with separators
+  const safeValue = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+}
+
+export function toCsv(rows: PatientExportRow[]): string {
+  const lines = [
+    EXPORT_COLUMNS.map(column => column.header).join(','),
+    ...rows.map(row => EXPORT_COLUMNS.map(column => escapeCsvValue(row[column.key])).join(','))
+  ];
+  // BOM so Excel opens UTF-8 names correctly
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+export async function toXlsx(rows: PatientExportRow[], title: string): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Patients');
+
+  sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column.header, key: column.key, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(rows);
+  workbook.title = title;
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+export function toPdf(rows: PatientExportRow[], title: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 30 });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const totalWidth = EXPORT_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+    const pageWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const columnWidths = EXPORT_COLUMNS.map(column => (column.width / totalWidth) * pageWidth);
+
+    const drawRow = (values: string[], bold: boolean) => {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+      const rowHeight = Math.max(...values.map((value, i) => doc.heightOfString(value, { width: columnWidths[i] - 4 }))) + 6;
+
+      if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+      }
+
+      const y = doc.y;
+      let x = doc.page.margins.left;
+      values.forEach((value, i) => {
+        doc.text(value, x + 2, y + 3, { width: columnWidths[i] - 4 });
+        x += columnWidths[i];
+      });
+      doc.moveTo(doc.page.margins.left, y + rowHeight)
+        .lineTo(doc.page.margins.left + pageWidth, y + rowHeight)
+        .strokeColor('#cccccc')
+        .stroke();
+      doc.x = doc.page.margins.left;
+      doc.y = y + rowHeight;
+    };
+
+    doc.font('Helvetica-Bold').fontSize(14).text(title);
+    doc.font('Helvetica').fontSize(9).text(`${rows.length} patient(s)`);
+    doc.moveDown();
+
+    drawRow(EXPORT_COLUMNS.map(column => column.header), true);
+    rows.forEach(row => drawRow(EXPORT_COLUMNS.map(column => row[column.key]), false));
+
+    doc.end();
+  });
+}
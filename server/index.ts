@@ -1,16 +1,33 @@
 import express, { type Request, Response, NextFunction } from "express";
-import session from "express-session";
-import connectPgSimple from "connect-pg-simple";
 import { createServer } from "http";
 import { Server } from "socket.io";
 import { registerRoutes, setGlobalIo } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupWebSocket } from "./websocket";
+import { attachPostgresAdapter } from "./socket-adapter";
+import { sessionMiddleware } from "./session";
+import { startDailyRollover } from "./scheduler";
 import path from "path";
 import fs from "fs";
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Only kept for provider webhooks that sign the raw body
+  }
+}
+
 const app = express();
-app.use(express.json({ limit: '10mb' }));
+// Served behind one reverse proxy - take req.ip from its X-Forwarded-For so per-IP limits see the real client
+app.set("trust proxy", 1);
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/notifications/webhooks/')) {
+      req.rawBody = buf;
+    }
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // Setup object storage static file serving - CRITICAL for media persistence
@@ -50,24 +67,8 @@ if (PUBLIC_OBJECT_SEARCH_PATHS) {
   }
 }
 
-// Session configuration
-const PgSession = connectPgSimple(session);
-app.use(session({
-  store: new PgSession({
-    conString: process.env.DATABASE_URL,
-    tableName: 'user_sessions',
-    createTableIfMissing: true,
-  }),
-  secret: process.env.SESSION_SECRET || 'clinic-management-secret-key-change-in-production',
-  resave: false,
-  saveUninitialized: false,
-  cookie: {
-    secure: false, // Set to false to work with both HTTP and HTTPS
-    httpOnly: true,
-    maxAge: 24 * 60 * 60 * 1000, // 24 hours
-    sameSite: 'lax', // CSRF protection
-  },
-}));
+// Session configuration (shared with socket.io)
+app.use(sessionMiddleware);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -111,14 +112,23 @@ app.use((req, res, next) => {
     }
   });
   
+  // Broadcasts reach sockets connected to every instance, not just this one
+  attachPostgresAdapter(io);
+  
   // Make Socket.IO server globally available for server-authoritative events
   setGlobalIo(io);
   
   // Setup WebSocket handlers with tenant isolation
   setupWebSocket(io);
   
+  // Journeys must be complete before the first request reads or appends to them
+  await storage.patientEventsBackfilled;
+  
   // Register API routes (but use httpServer instead of app.listen)
   await registerRoutes(app);
+  
+  // Archive yesterday's leftovers at each clinic's local rollover time
+  startDailyRollover(io);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,332 @@
+import { appendFile } from "fs/promises";
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import {
+  NOTIFICATION_PROVIDERS,
+  NOTIFICATION_SETTING_KEYS,
+  DEFAULT_NOTIFICATION_POSITIONS_AHEAD,
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  formatTicketNumber,
+  type NotificationKind,
+  type NotificationProviderName,
+  type NotificationSettings,
+  type NotificationStatus,
+  type Patient,
+} from "@shared/schema";
+
+// Turn notifications - "you are 3 away" while waiting, "please go to Bilik 2 now" when called.
+// The clinic picks a provider in settings; credentials only ever come from the server environment
+// because settings are readable by every staff login.
+
+export interface SendResult {
+  providerMessageId?: string;
+  status: NotificationStatus; // 'sent' until the provider reports delivery, 'delivered' for local providers
+}
+
+// One message to send - SMS sends the rendered body, WhatsApp fills an approved template from the values
+export interface OutgoingNotification {
+  kind: NotificationKind;
+  body: string;
+  values: Record<string, string | number>; // ticket, name, clinic, plus ahead or room
+}
+
+export interface NotificationProvider {
+  name: NotificationProviderName;
+  isConfigured(): boolean;
+  send(to: string, message: OutgoingNotification): Promise<SendResult>; // Throws on rejection
+}
+
+// Twilio status callbacks and WhatsApp webhooks need a public URL, e.g. https://queue.example.com
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL?.replace(/\/$/, "");
+export const TWILIO_STATUS_CALLBACK_PATH = "/api/notifications/webhooks/twilio";
+export const WHATSAPP_WEBHOOK_PATH = "/api/notifications/webhooks/whatsapp";
+
+// Give up on a provider that does not answer, so a queue action is never held up for long
+const PROVIDER_TIMEOUT_MS = 10 * 1000;
+
+// Local testing - prints the message and, with NOTIFICATION_LOG_FILE set, appends it as a JSON line
+const consoleProvider: NotificationProvider = {
+  name: "console",
+  isConfigured: () => true,
+  async send(to, { body }) {
+    console.log(`📱 [notification] to ${to}: ${body}`);
+    if (process.env.NOTIFICATION_LOG_FILE) {
+      await appendFile(process.env.NOTIFICATION_LOG_FILE, JSON.stringify({ to, body, sentAt: new Date().toISOString() }) + "\n");
+    }
+    return { status: "delivered" };
+  },
+};
+
+// Twilio Programmable Messaging (SMS) - form-encoded POST with basic auth
+const twilioProvider: NotificationProvider = {
+  name: "twilio",
+  isConfigured: () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM),
+  async send(to, { body }) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID!;
+    const form = new URLSearchParams({ To: to, From: process.env.TWILIO_FROM!, Body: body });
+    if (PUBLIC_BASE_URL) {
+      form.set("StatusCallback", `${PUBLIC_BASE_URL}${TWILIO_STATUS_CALLBACK_PATH}`);
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${accountSid}:${process.env.TWILIO_AUTH_TOKEN}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: form,
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio ${response.status}: ${result.message || response.statusText}`);
+    }
+    return { providerMessageId: result.sid, status: "sent" };
+  },
+};
+
+// Messages a patient did not reply to within 24 hours must use a template approved in Meta Business Manager,
+// so the clinic's own wording is only kept in the log. Template names and language come from the environment
+// (WHATSAPP_TEMPLATE_NEAR, WHATSAPP_TEMPLATE_CALLED, WHATSAPP_TEMPLATE_LANGUAGE); the body placeholders
+// {{1}}, {{2}}, {{3}} are filled in this order.
+const WHATSAPP_TEMPLATE_PARAMETERS: Record<NotificationKind, string[]> = {
+  near: ["clinic", "ticket", "ahead"],
+  called: ["clinic", "ticket", "room"],
+};
+
+function getWhatsAppTemplateName(kind: NotificationKind): string {
+  const configured = kind === "near" ? process.env.WHATSAPP_TEMPLATE_NEAR : process.env.WHATSAPP_TEMPLATE_CALLED;
+  return configured || `queue_${kind}`;
+}
+
+// WhatsApp Cloud API - approved template message from the clinic's business number
+const whatsAppProvider: NotificationProvider = {
+  name: "whatsapp",
+  isConfigured: () => !!(process.env.WHATSAPP_TOKEN && process.env.WHATSAPP_PHONE_NUMBER_ID),
+  async send(to, { kind, values }) {
+    const response = await fetch(`https://graph.facebook.com/v19.0/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${process.env.WHATSAPP_TOKEN}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to: to.replace(/^\+/, ""),
+        type: "template",
+        template: {
+          name: getWhatsAppTemplateName(kind),
+          language: { code: process.env.WHATSAPP_TEMPLATE_LANGUAGE || "ms" },
+          components: [{
+            type: "body",
+            parameters: WHATSAPP_TEMPLATE_PARAMETERS[kind].map(key => ({ type: "text", text: String(values[key] ?? "") })),
+          }],
+        },
+      }),
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`WhatsApp ${response.status}: ${result.error?.message || response.statusText}`);
+    }
+    return { providerMessageId: result.messages?.[0]?.id, status: "sent" };
+  },
+};
+
+const providers = new Map<NotificationProviderName, NotificationProvider>(
+  [consoleProvider, twilioProvider, whatsAppProvider].map(provider => [provider.name, provider])
+);
+
+// Swap in another implementation for a provider name (e.g. a local SMS gateway speaking the Twilio shape)
+export function registerNotificationProvider(provider: NotificationProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getConfiguredProviders(): NotificationProviderName[] {
+  return NOTIFICATION_PROVIDERS.filter(name => providers.get(name)?.isConfigured());
+}
+
+export async function getNotificationSettings(clinicId: string): Promise<NotificationSettings> {
+  const values = new Map(
+    (await storage.getSettingsByCategory("notifications", clinicId)).map(setting => [setting.key, setting.value])
+  );
+  const provider = values.get(NOTIFICATION_SETTING_KEYS.provider);
+  const positionsAhead = parseInt(values.get(NOTIFICATION_SETTING_KEYS.positionsAhead) || "", 10);
+
+  return {
+    enabled: values.get(NOTIFICATION_SETTING_KEYS.enabled) === "true",
+    provider: NOTIFICATION_PROVIDERS.find(name => name === provider) || "console",
+    positionsAhead: Number.isFinite(positionsAhead) && positionsAhead > 0 ? positionsAhead : DEFAULT_NOTIFICATION_POSITIONS_AHEAD,
+    templates: {
+      near: values.get(NOTIFICATION_SETTING_KEYS.nearTemplate) || DEFAULT_NOTIFICATION_TEMPLATES.near,
+      called: values.get(NOTIFICATION_SETTING_KEYS.calledTemplate) || DEFAULT_NOTIFICATION_TEMPLATES.called,
+    },
+  };
+}
+
+// Local Malaysian numbers ('012-345 6789') become +60123456789; numbers with a country code are kept
+export function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  if (phone.trim().startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("0")) return `+60${digits.slice(1)}`;
+  return `+${digits}`;
+}
+
+export function renderNotificationTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => key in values ? String(values[key]) : placeholder);
+}
+
+async function sendNotification(clinicId: string, patient: Patient, kind: NotificationKind, settings: NotificationSettings, values: Record<string, string | number>) {
+  const provider = providers.get(settings.provider);
+  if (!provider || !patient.phone) return;
+
+  const clinic = await storage.getClinic(clinicId);
+  const templateValues = {
+    ticket: formatTicketNumber(patient.ticketPrefix, patient.number),
+    name: patient.name || "",
+    clinic: clinic?.name || "",
+    ...values,
+  };
+  const row = {
+    patientId: patient.id,
+    kind,
+    provider: provider.name,
+    recipient: toE164(patient.phone),
+    message: renderNotificationTemplate(settings.templates[kind], templateValues),
+    userId: clinicId,
+  };
+  // "near" is claimed by inserting its row first - only the caller whose insert lands sends it
+  const notification = kind === "near" ? await storage.claimNotification(row) : await storage.createNotification(row);
+  if (!notification) return;
+
+  if (!provider.isConfigured()) {
+    await storage.updateNotification(notification.id, { status: "failed", error: `Provider '${provider.name}' is not configured on the server` });
+    return;
+  }
+
+  try {
+    const result = await provider.send(notification.recipient, { kind, body: notification.message, values: templateValues });
+    await storage.updateNotification(notification.id, { status: result.status, providerMessageId: result.providerMessageId ?? null });
+  } catch (error) {
+    console.error(`❌ ${provider.name} notification failed for patient ${patient.id}:`, error);
+    await storage.updateNotification(notification.id, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// Waiting patients in call-next order (priority, cleared requeue, then FIFO), one line per service
+function getWaitingLines(patients: Patient[]): Patient[][] {
+  const lines = new Map<string, Patient[]>();
+  patients
+    .filter(p => !p.readyForDispensary && (p.status === "waiting" || (p.status === "requeue" && !p.requeueReason)))
+    .sort((a, b) =>
+      Number(b.isPriority) - Number(a.isPriority) ||
+      Number(b.status === "requeue") - Number(a.status === "requeue") ||
+      new Date(a.registeredAt).getTime() - new Date(b.registeredAt).getTime()
+    )
+    .forEach(patient => {
+      const line = lines.get(patient.serviceId || "") || [];
+      line.push(patient);
+      lines.set(patient.serviceId || "", line);
+    });
+  return Array.from(lines.values());
+}
+
+// Queue moved (someone called, registered or left) - warn everyone now within reach, once per visit.
+// Patients already warned are skipped by the claim in sendNotification, not by a check here that could race.
+async function notifyNearPatients(clinicId: string, settings: NotificationSettings) {
+  const lines = getWaitingLines(await storage.getPatients(clinicId));
+
+  for (const line of lines) {
+    const nearby = line.slice(0, settings.positionsAhead);
+    for (let index = 0; index < nearby.length; index++) {
+      const patient = nearby[index];
+      if (!patient.phone) continue;
+      await sendNotification(clinicId, patient, "near", settings, { ahead: index + 1 });
+    }
+  }
+}
+
+// Fire-and-forget from routes - never throws, so a failed SMS cannot fail a queue action
+export async function notifyQueueAdvanced(clinicId: string): Promise<void> {
+  try {
+    const settings = await getNotificationSettings(clinicId);
+    if (!settings.enabled) return;
+    await notifyNearPatients(clinicId, settings);
+  } catch (error) {
+    console.error(`❌ Turn notifications failed (clinic ${clinicId}):`, error);
+  }
+}
+
+export async function notifyPatientCalled(clinicId: string, patient: Patient, roomName: string): Promise<void> {
+  try {
+    const settings = await getNotificationSettings(clinicId);
+    if (!settings.enabled) return;
+    await sendNotification(clinicId, patient, "called", settings, { room: roomName });
+    await notifyNearPatients(clinicId, settings);
+  } catch (error) {
+    console.error(`❌ Turn notifications failed (clinic ${clinicId}):`, error);
+  }
+}
+
+// Prescription called to a dispensary counter - same "called" message, naming the counter
+export async function notifyDispensaryCalled(clinicId: string, patientId: string, counterId: string | null): Promise<void> {
+  try {
+    const [patients, windows] = await Promise.all([storage.getPatients(clinicId), storage.getWindows(clinicId)]);
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    await notifyPatientCalled(clinicId, patient, windows.find(w => w.id === counterId)?.name || "");
+  } catch (error) {
+    console.error(`❌ Turn notifications failed (clinic ${clinicId}):`, error);
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// X-Twilio-Signature: base64 HMAC-SHA1 of the callback URL followed by the sorted form fields
+export function verifyTwilioSignature(signature: string | undefined, params: Record<string, string>): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!signature || !authToken || !PUBLIC_BASE_URL) return false;
+
+  const payload = Object.keys(params).sort().reduce((data, key) => data + key + params[key], `${PUBLIC_BASE_URL}${TWILIO_STATUS_CALLBACK_PATH}`);
+  return safeEqual(signature, createHmac("sha1", authToken).update(payload).digest("base64"));
+}
+
+// X-Hub-Signature-256: 'sha256=' + hex HMAC of the raw request body with the Meta app secret
+export function verifyWhatsAppSignature(signature: string | undefined, rawBody: unknown): boolean {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!signature || !appSecret || !Buffer.isBuffer(rawBody)) return false;
+  return safeEqual(signature, `sha256=${createHmac("sha256", appSecret).update(rawBody).digest("hex")}`);
+}
+
+// Provider status words -> ours; anything else (queued, accepted, read...) leaves the row as is
+const TWILIO_STATUSES: Record<string, NotificationStatus> = { sent: "sent", delivered: "delivered", undelivered: "failed", failed: "failed" };
+const WHATSAPP_STATUSES: Record<string, NotificationStatus> = { sent: "sent", delivered: "delivered", read: "delivered", failed: "failed" };
+
+export async function recordTwilioStatus(params: Record<string, string>) {
+  const status = TWILIO_STATUSES[params.MessageStatus];
+  if (!params.MessageSid || !status) return;
+  await storage.updateNotificationDelivery("twilio", params.MessageSid, status, params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined);
+}
+
+interface WhatsAppStatusUpdate {
+  id: string;
+  status: string;
+  errors?: { code?: number; title?: string }[];
+}
+
+export async function recordWhatsAppStatuses(body: any) {
+  const updates: WhatsAppStatusUpdate[] = (body?.entry || [])
+    .flatMap((entry: any) => entry?.changes || [])
+    .flatMap((change: any) => change?.value?.statuses || []);
+
+  for (const update of updates) {
+    const status = WHATSAPP_STATUSES[update.status];
+    if (!update.id || !status) continue;
+    const error = update.errors?.[0];
+    await storage.updateNotificationDelivery("whatsapp", update.id, status, error ? `WhatsApp error ${error.code}: ${error.title}` : undefined);
+  }
+}
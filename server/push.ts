@@ -0,0 +1,106 @@
+import webpush from "web-push";
+import { storage } from "./storage";
+import { formatTicketNumber, type Patient } from "@shared/schema";
+
+// Web Push for the public queue status page - the free alternative to SMS.
+// VAPID keys identify this deployment to the browsers' push services. Set VAPID_PUBLIC_KEY and
+// VAPID_PRIVATE_KEY to manage them yourself; otherwise a pair is generated once and kept in
+// deployment_config, so every instance (and every restart) signs with the same key.
+const VAPID_CONFIG_KEY = "vapidKeys";
+
+interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+// Push services drop the message if the phone stays offline longer than this - a stale "go to Bilik 2" is useless
+const PUSH_TTL_SECONDS = 10 * 60;
+
+let vapidKeysPromise: Promise<VapidKeys> | null = null;
+
+async function loadVapidKeys(): Promise<VapidKeys> {
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+  }
+
+  const stored = await storage.claimDeploymentConfig(VAPID_CONFIG_KEY, JSON.stringify(webpush.generateVAPIDKeys()));
+  return JSON.parse(stored) as VapidKeys;
+}
+
+export function getVapidKeys(): Promise<VapidKeys> {
+  if (!vapidKeysPromise) {
+    vapidKeysPromise = loadVapidKeys().then(keys => {
+      webpush.setVapidDetails(process.env.VAPID_SUBJECT || process.env.PUBLIC_BASE_URL || "mailto:admin@localhost", keys.publicKey, keys.privateKey);
+      return keys;
+    });
+    // Let the next caller retry if the database was unreachable
+    vapidKeysPromise.catch(() => { vapidKeysPromise = null; });
+  }
+  return vapidKeysPromise;
+}
+
+// The payload is read by client/public/push-sw.js
+interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+// Patient called to a room or dispensary counter. Fire-and-forget from routes - never throws.
+export async function pushPatientCalled(clinicId: string, patient: Patient, roomName: string): Promise<void> {
+  try {
+    const subscriptions = await storage.getPushSubscriptions(patient.id, clinicId);
+    if (subscriptions.length === 0) return;
+
+    await getVapidKeys();
+    const ticket = formatTicketNumber(patient.ticketPrefix, patient.number);
+    const payload: PushPayload = {
+      title: `${ticket} - it's your turn`,
+      body: roomName ? `Please proceed to ${roomName}` : "Please proceed to the counter",
+      url: `/status/${patient.statusCode}`,
+      tag: `ticket-${patient.id}`,
+    };
+
+    await Promise.all(subscriptions.map(async (subscription) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(payload),
+          { TTL: PUSH_TTL_SECONDS, urgency: "high" }
+        );
+        await storage.markPushSubscriptionUsed(subscription.id);
+      } catch (error) {
+        // 404/410 - the browser unsubscribed or the subscription expired
+        if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await storage.deletePushSubscription(subscription.endpoint, patient.id);
+          return;
+        }
+        console.error(`❌ Web push failed for patient ${patient.id}:`, error);
+      }
+    }));
+  } catch (error) {
+    console.error(`❌ Web push failed (clinic ${clinicId}):`, error);
+  }
+}
+
+// Prescription called to a dispensary counter - the ticket only carries ids
+export async function pushDispensaryCall(clinicId: string, patientId: string, counterId: string | null): Promise<void> {
+  try {
+    const [patients, windows] = await Promise.all([storage.getPatients(clinicId), storage.getWindows(clinicId)]);
+    const patient = patients.find(p => p.id === patientId);
+    if (!patient) return;
+    await pushPatientCalled(clinicId, patient, windows.find(w => w.id === counterId)?.name || "");
+  } catch (error) {
+    console.error(`❌ Web push failed (clinic ${clinicId}):`, error);
+  }
+}
+
+// Visit over - nothing more to tell this ticket's browsers
+export async function expirePatientPush(clinicId: string, patientId: string): Promise<void> {
+  try {
+    await storage.deletePatientPushSubscriptions(patientId, clinicId);
+  } catch (error) {
+    console.error(`❌ Failed to expire push subscriptions for patient ${patientId}:`, error);
+  }
+}
@@ -0,0 +1,20 @@
+import { storage } from "./storage";
+
+// Fixed-window request counter for public endpoints that have no login to throttle.
+// Counts live in storage, so the limit holds across every instance rather than per process.
+export function createRateLimiter({ name, windowMs, max }: { name: string; windowMs: number; max: number }) {
+  const keyPrefix = `${name}:`;
+  let lastPurgedAt = Date.now();
+
+  // True while the key is under its limit; counts the attempt either way
+  return async function allow(key: string): Promise<boolean> {
+    // Drop expired windows now and then so the table does not grow with every visitor
+    if (Date.now() - lastPurgedAt >= windowMs) {
+      lastPurgedAt = Date.now();
+      storage.deleteExpiredRateLimits(keyPrefix, windowMs)
+        .catch(error => console.error(`❌ Failed to purge expired ${name} rate limits:`, error));
+    }
+
+    return (await storage.countRateLimitHit(keyPrefix + key, windowMs)) <= max;
+  };
+}
@@ -0,0 +1,162 @@
+import { formatTicketNumber, type Patient, type PatientEvent, type PatientProfileVisit, type WaitTimeReport, type RoomReportRow, type HourlyReport, type RequeueReasonRow } from "@shared/schema";
+import { getZonedParts } from "@shared/clinic-time";
+
+// Report calculations over a clinic's patients for a date range.
+// Inputs are already tenant-scoped by storage; these functions never query the database.
+
+const MINUTE_MS = 60 * 1000;
+
+type JourneysByPatient = Map<string, PatientEvent[]>;
+
+// Group patient_events rows into per-patient journeys, oldest first
+export function groupJourneys(events: PatientEvent[]): JourneysByPatient {
+  const journeys: JourneysByPatient = new Map();
+  for (const event of events) {
+    const journey = journeys.get(event.patientId) || [];
+    journey.push(event);
+    journeys.set(event.patientId, journey);
+  }
+  journeys.forEach(journey => journey.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+  return journeys;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round((ms / MINUTE_MS) * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return toMinutes(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+// Nearest-rank percentile
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return toMinutes(sorted[Math.max(0, Math.min(rank, sorted.length - 1))]);
+}
+
+// Registration -> first call. calledAt is overwritten on recall, so prefer the first 'called' event
+function getFirstWaitMs(patient: Patient, journey: PatientEvent[]): number | null {
+  const firstCall = journey.find(event => event.eventType === 'called');
+  const calledAt = firstCall ? firstCall.createdAt : patient.calledAt;
+  if (!calledAt) return null;
+
+  const waitMs = new Date(calledAt).getTime() - new Date(patient.registeredAt).getTime();
+  return waitMs >= 0 ? waitMs : null;
+}
+
+export function buildWaitTimeReport(patients: Patient[], journeys: JourneysByPatient): WaitTimeReport {
+  const waits = patients
+    .map(patient => getFirstWaitMs(patient, journeys.get(patient.id) || []))
+    .filter((waitMs): waitMs is number => waitMs !== null);
+
+  // Dispensary turnaround: sent to dispensary -> next completed event
+  const turnarounds: number[] = [];
+  for (const patient of patients) {
+    const journey = journeys.get(patient.id) || [];
+    const sentIndex = journey.findIndex(event => event.eventType === 'dispensary');
+    if (sentIndex === -1) continue;
+
+    const completed = journey.slice(sentIndex + 1).find(event => event.eventType === 'completed');
+    if (completed) {
+      turnarounds.push(new Date(completed.createdAt).getTime() - new Date(journey[sentIndex].createdAt).getTime());
+    }
+  }
+
+  return {
+    totalPatients: patients.length,
+    calledPatients: waits.length,
+    completedPatients: patients.filter(p => p.completedAt).length,
+    averageWaitMinutes: average(waits),
+    p90WaitMinutes: percentile(waits, 90),
+    averageDispensaryTurnaroundMinutes: average(turnarounds),
+    dispensaryPatients: patients.filter(p => (journeys.get(p.id) || []).some(event => event.eventType === 'dispensary')).length
+  };
+}
+
+// Consult time per room: a 'called' event in a room until the patient's next journey event
+export function buildRoomReport(patients: Patient[], journeys: JourneysByPatient): RoomReportRow[] {
+  const durationsByRoom = new Map<string, number[]>();
+
+  for (const patient of patients) {
+    const journey = journeys.get(patient.id) || [];
+    journey.forEach((event, index) => {
+      if (event.eventType !== 'called' || !event.roomName) return;
+
+      const next = journey.slice(index + 1).find(e => e.eventType !== 'in-progress');
+      if (!next) return;
+
+      const durations = durationsByRoom.get(event.roomName) || [];
+      durations.push(new Date(next.createdAt).getTime() - new Date(event.createdAt).getTime());
+      durationsByRoom.set(event.roomName, durations);
+    });
+  }
+
+  return Array.from(durationsByRoom.entries())
+    .map(([roomName, durations]) => ({
+      roomName,
+      consultations: durations.length,
+      averageConsultMinutes: average(durations)
+    }))
+    .sort((a, b) => a.roomName.localeCompare(b.roomName));
+}
+
+// Buckets use the clinic's local weekday and hour, not the server's
+export function buildHourlyReport(patients: Patient[], timezone: string): HourlyReport {
+  const counts = Array.from({ length: 7 }, () => new Array(24).fill(0));
+
+  for (const patient of patients) {
+    const { weekday, hour } = getZonedParts(timezone, new Date(patient.registeredAt));
+    counts[weekday][hour]++;
+  }
+
+  return {
+    counts,
+    byHour: Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      patients: counts.reduce((sum, day) => sum + day[hour], 0)
+    }))
+  };
+}
+
+export function buildRequeueReasonReport(patients: Patient[], journeys: JourneysByPatient): RequeueReasonRow[] {
+  const counts = new Map<string, number>();
+
+  for (const patient of patients) {
+    for (const event of journeys.get(patient.id) || []) {
+      if (event.eventType !== 'requeued') continue;
+      const reason = event.reason || 'No reason specified';
+      counts.set(reason, (counts.get(reason) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Visit history of one registry profile - the rooms each visit went through and why it was requeued
+export function buildProfileVisits(patients: Patient[], journeys: JourneysByPatient): PatientProfileVisit[] {
+  return patients.map(patient => {
+    const journey = journeys.get(patient.id) || [];
+    const rooms: string[] = [];
+    for (const event of journey) {
+      if (event.eventType === 'called' && event.roomName && rooms[rooms.length - 1] !== event.roomName) {
+        rooms.push(event.roomName);
+      }
+    }
+
+    return {
+      patientId: patient.id,
+      ticket: formatTicketNumber(patient.ticketPrefix, patient.number),
+      status: patient.status,
+      serviceId: patient.serviceId,
+      registeredAt: patient.registeredAt,
+      completedAt: patient.completedAt,
+      rooms,
+      requeueReasons: journey.filter(event => event.eventType === 'requeued' && event.reason).map(event => event.reason as string)
+    };
+  });
+}
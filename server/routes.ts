@@ -3,7 +3,19 @@ import express from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import { storage } from "./storage";
-import { insertPatientSchema, insertUserSchema, insertTextGroupSchema, insertThemeSchema, insertQrSessionSchema } from "@shared/schema";
+import { broadcastToClinic } from "./websocket";
+import { toDisplayPatient, isDisplaySetting, type ClinicWindow } from "@shared/realtime";
+import { recordAudit, getAuditRetentionDays } from "./audit";
+import { notifyPatientCalled, notifyDispensaryCalled, notifyQueueAdvanced, getNotificationSettings, getConfiguredProviders, verifyTwilioSignature, verifyWhatsAppSignature, recordTwilioStatus, recordWhatsAppStatuses, TWILIO_STATUS_CALLBACK_PATH, WHATSAPP_WEBHOOK_PATH } from "./notifications";
+import { getVapidKeys, pushPatientCalled, pushDispensaryCall, expirePatientPush } from "./push";
+import { newPatientSchema, insertUserSchema, insertTextGroupSchema, insertThemeSchema, insertQrSessionSchema, insertDisplayTokenSchema, insertServiceSchema, kioskTicketSchema, KIOSK_PRIORITY_REASONS, formatTicketNumber, reportRangeSchema, exportFormatSchema, WINDOW_TYPES, createStaffSchema, updateStaffSchema, auditLogQuerySchema, type AuditLogPage, QUEUE_RESET_UNDO_MINUTES, getQueueResetUndoDeadline, updateClinicScheduleSchema, type Clinic, type ClinicScheduleResponse, appointmentSchema, updateAppointmentSchema, type Appointment, patientProfileSchema, updatePatientProfileSchema, type PatientProfileDetail, APPOINTMENT_PRIORITY_SETTING_KEY, DEFAULT_APPOINTMENT_PRIORITY_MINUTES, APPOINTMENT_PRIORITY_REASON, notificationSettingsSchema, NOTIFICATION_SETTING_KEYS, PHONE_PATTERN, type NotificationSettingsResponse, pushSubscriptionSchema, type Setting, displayProfileSchema, updateDisplayProfileSchema, type UpdateDisplayProfileRequest, type Patient, type User, type DispensaryTicket } from "@shared/schema";
+import { tvLayoutSettingsSchema, TV_LAYOUT_SETTING_KEY, TV_LAYOUT_PRESETS_SETTING_KEY } from "@shared/tv-layout";
+import { DEFAULT_CLINIC_TIMEZONE, getClinicDate, isClinicOpen, zonedTimeToUtc } from "@shared/clinic-time";
+import { isPatientTransition, InvalidTransitionError, PATIENT_TRANSITIONS, isDispensaryTicketStatus, DISPENSARY_TICKET_STATUSES, isAppointmentStatus, getPatientState } from "@shared/patient-state";
+import { hasPermission, isRoomRestricted, isClinicStaffRole, normalizeRole, type Permission } from "@shared/roles";
+import { buildPatientExportRows, toCsv, toXlsx, toPdf } from "./exports";
+import { createRateLimiter } from "./rate-limit";
+import { buildWaitTimeReport, buildRoomReport, buildHourlyReport, buildRequeueReasonReport, buildProfileVisits, groupJourneys } from "./reports";
 import { createHash, randomBytes } from "crypto";
 import { z } from "zod";
 
@@ -18,6 +30,10 @@ import fs from "fs/promises";
 import path from "path";
 import { ObjectStorageService } from "./objectStorage";
 
+// Kiosk tickets are public - cap them per kiosk link and per device/network
+const allowKioskTicketForToken = createRateLimiter({ name: "kiosk-token", windowMs: 60 * 1000, max: 30 });
+const allowKioskTicketForIp = createRateLimiter({ name: "kiosk-ip", windowMs: 60 * 1000, max: 10 });
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -37,7 +53,8 @@ const upload = multer({
 // Extend Express session types
 declare module 'express-session' {
   interface SessionData {
-    userId?: string;
+    userId?: string; // The logged-in staff member
+    clinicId?: string; // Their clinic - tenant key for all clinic data
     username?: string;
     role?: string;
   }
@@ -49,6 +66,35 @@ function sanitizeUser(user: any) {
   return sanitizedUser;
 }
 
+// Postgres unique_violation - two requests raced past an application-level uniqueness check
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Payload of /api/clinic/schedule
+function toClinicSchedule(clinic: Clinic): ClinicScheduleResponse {
+  return {
+    timezone: clinic.timezone,
+    dayRolloverTime: clinic.dayRolloverTime,
+    openingHours: clinic.openingHours ?? null,
+    today: getClinicDate(clinic),
+    isOpen: isClinicOpen(clinic)
+  };
+}
+
+// Check-ins this close to their slot (either side) are queued as priority; 0 turns it off
+async function getAppointmentPriorityMinutes(clinicId: string): Promise<number> {
+  const setting = await storage.getSetting(APPOINTMENT_PRIORITY_SETTING_KEY, clinicId);
+  const minutes = setting ? parseInt(setting.value, 10) : NaN;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_APPOINTMENT_PRIORITY_MINUTES;
+}
+
+function isWithinAppointmentPriorityWindow(appointment: Appointment, clinic: Clinic, minutes: number, at: Date = new Date()): boolean {
+  if (minutes <= 0) return false;
+  const slot = zonedTimeToUtc(appointment.date, appointment.slotTime, clinic.timezone);
+  return Math.abs(at.getTime() - slot.getTime()) <= minutes * 60 * 1000;
+}
+
 // Auth middleware to check session before any processing
 function requireAuth(req: any, res: any, next: any) {
   if (!req.session.userId) {
@@ -57,6 +103,60 @@ function requireAuth(req: any, res: any, next: any) {
   next();
 }
 
+// Staff of a deactivated clinic may not sign in or keep a session (users without a clinic row are pre-clinic accounts)
+async function checkClinicActive(user: User): Promise<{ active: boolean; clinic?: Clinic }> {
+  const clinic = user.clinicId ? await storage.getClinic(user.clinicId) : undefined;
+  return { active: !clinic || clinic.isActive, clinic };
+}
+
+// Role guard - 401 without a session, 403 when the staff role lacks the permission
+function requirePermission(permission: Permission) {
+  return (req: any, res: any, next: any) => {
+    if (!req.session.userId || !req.session.clinicId) {
+      return res.status(401).json({ error: "Session inactive" });
+    }
+    if (!hasPermission(req.session.role, permission)) {
+      return res.status(403).json({ error: "Access denied - your role does not allow this action" });
+    }
+    next();
+  };
+}
+
+// Doctors may only call and complete patients in their assigned rooms
+async function canUseRoom(req: any, windowId: string | null | undefined): Promise<boolean> {
+  if (!isRoomRestricted(req.session.role)) return true;
+  if (!windowId) return false;
+  const user = await storage.getUser(req.session.userId);
+  return !!user?.assignedWindowIds?.includes(windowId);
+}
+
+// A display profile may only list the clinic's own rooms, counters and media
+async function findUnknownProfileItem(clinicId: string, profile: UpdateDisplayProfileRequest): Promise<string | null> {
+  if (profile.windowIds) {
+    const windows = await storage.getWindows(clinicId);
+    if (profile.windowIds.some(windowId => !windows.some(w => w.id === windowId))) return "Unknown room or counter";
+  }
+  if (profile.mediaIds && profile.mediaIds.length > 0) {
+    const media = await storage.getMedia(clinicId);
+    if (profile.mediaIds.some(mediaId => !media.some(m => m.id === mediaId))) return "Unknown media";
+  }
+  return null;
+}
+
+// Current call / history entry for a public TV - no contact details, keeps the joined room name
+function toTvPatient(patient: Patient & { room?: string }) {
+  return { ...toDisplayPatient(patient), room: patient.room };
+}
+
+// A pharmacy call also goes out as patient:called with its counter, so TVs whose display profile
+// includes that counter get it the way room TVs get consultation calls
+async function broadcastDispensaryCall(io: SocketIOServer, clinicId: string, ticket: DispensaryTicket) {
+  const [patients, windows] = await Promise.all([storage.getPatients(clinicId), storage.getWindows(clinicId)]);
+  const patient = patients.find(p => p.id === ticket.patientId);
+  if (!patient) return;
+  broadcastToClinic(io, clinicId, 'patient:called', { patient, window: windows.find(w => w.id === ticket.counterId) || null });
+}
+
 // QR endpoint validation schemas
 const qrAuthorizeSchema = z.object({
   username: z.string().min(1, "Username required"),
@@ -69,6 +169,24 @@ const qrFinalizeSchema = z.object({
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
+  // Refresh role and clinic from the user row on every request, so a manager's role change
+  // or a user/clinic deactivation applies immediately (and pre-clinic sessions get their clinicId)
+  app.use("/api", async (req, res, next) => {
+    if (!req.session.userId) return next();
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user || !user.isActive || !(await checkClinicActive(user)).active) {
+        // Drop the stored session entirely and carry on with a fresh, signed-out one
+        return req.session.regenerate((err) => next(err));
+      }
+      req.session.clinicId = user.clinicId || user.id;
+      req.session.role = user.role;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -84,6 +202,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: "Invalid username or password" });
       }
       
+      const { active, clinic } = await checkClinicActive(user);
+      if (!active) {
+        return res.status(403).json({ error: "Clinic account is inactive" });
+      }
+      
       // Regenerate session ID to prevent session fixation attacks
       req.session.regenerate((err) => {
         if (err) {
@@ -93,6 +216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Store user info in session
         req.session.userId = user.id;
+        req.session.clinicId = user.clinicId || user.id;
         req.session.username = user.username;
         req.session.role = user.role;
         
@@ -102,7 +226,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             id: user.id,
             username: user.username,
             role: user.role,
-            clinicName: "",
+            clinicId: req.session.clinicId,
+            assignedWindowIds: user.assignedWindowIds,
+            clinicName: clinic?.name || "",
             clinicLocation: ""
           }
         });
@@ -151,6 +277,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.updateUser(user.id, { password: newPassword });
+      await recordAudit(req, { action: "user.password", targetType: "user", targetId: user.id });
 
       res.json({ 
         success: true, 
@@ -164,7 +291,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Object Storage routes
   // Get presigned upload URL for media files
-  app.post("/api/objects/upload", requireAuth, async (req, res) => {
+  app.post("/api/objects/upload", requirePermission("settings:manage"), async (req, res) => {
     try {
       const objectStorageService = new ObjectStorageService();
       const uploadUrl = await objectStorageService.getUploadUrl("temp-file", "image/png");
@@ -245,6 +372,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(401).json({ error: "Invalid username or password" });
       }
+      if (!(await checkClinicActive(user)).active) {
+        return res.status(403).json({ error: "Clinic account is inactive" });
+      }
 
       // Generate 6-digit TV verifier code (shown on phone, entered on desktop)
       const tvVerifier = Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit code
@@ -258,6 +388,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Set session for PHONE (will redirect to TV display)
       req.session.userId = user.id;
+      req.session.clinicId = user.clinicId || user.id;
       req.session.username = user.username;
       req.session.role = user.role;
 
@@ -315,13 +446,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       if (result.userId) {
-        // Set session for TV display
-        req.session.userId = result.userId;
+        // The clinic may have been deactivated between authorize and finalize
         const user = await storage.getUser(result.userId);
-        if (user) {
-          req.session.username = user.username;
-          req.session.role = user.role;
+        if (!user || !user.isActive) {
+          return res.status(403).json({ error: "Account is inactive" });
         }
+        if (!(await checkClinicActive(user)).active) {
+          return res.status(403).json({ error: "Clinic account is inactive" });
+        }
+
+        // Set session for TV display
+        req.session.userId = result.userId;
+        req.session.clinicId = user.clinicId || result.userId;
+        req.session.username = user.username;
+        req.session.role = user.role;
 
         // SERVER-AUTHORITATIVE: Emit finalization event to QR room
         if (globalIo) {
@@ -354,7 +492,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   app.get("/api/auth/me", async (req, res) => {
-    if (!req.session.userId) {
+    if (!req.session.userId || !req.session.clinicId) {
       return res.status(401).json({ error: "No active session" });
     }
     
@@ -363,13 +501,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(401).json({ error: "User not found" });
       }
+      const clinic = await storage.getClinic(req.session.clinicId);
       
       res.json({
         user: {
           id: user.id,
           username: user.username,
           role: user.role,
-          clinicName: "",
+          clinicId: req.session.clinicId,
+          assignedWindowIds: user.assignedWindowIds,
+          clinicName: clinic?.name || "",
           clinicLocation: ""
         }
       });
@@ -404,10 +545,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Patient registration routes
   
   // Create new patient
-  app.post("/api/patients", async (req, res) => {
+  app.post("/api/patients", requirePermission("patients:register"), async (req, res) => {
     try {
       // Check if user is authenticated
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -416,16 +557,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Add userId from session to patient data
       const patientDataWithUser = {
         ...req.body,
-        userId: req.session.userId
+        userId: req.session.clinicId
       };
       
       console.log("📦 Patient data with user:", patientDataWithUser);
       
-      const patientData = insertPatientSchema.parse(patientDataWithUser);
+      // Any number in the body is ignored - storage allocates it when inserting
+      const patientData = newPatientSchema.parse(patientDataWithUser);
       console.log("✅ Parsed patient data:", patientData);
+
+      // Registry profiles are per clinic - never link another clinic's profile
+      if (patientData.profileId && !(await storage.getPatientProfile(patientData.profileId, req.session.clinicId))) {
+        return res.status(400).json({ error: "Patient profile not found" });
+      }
+
+      // Service tickets are numbered from the service's own daily sequence
+      if (patientData.serviceId) {
+        const service = await storage.getService(patientData.serviceId, req.session.clinicId);
+        if (!service || !service.isActive) {
+          return res.status(400).json({ error: "Service not found or inactive" });
+        }
+        patientData.ticketPrefix = service.prefix;
+      } else {
+        patientData.ticketPrefix = null;
+      }
       
-      const patient = await storage.createPatient(patientData);
+      const patient = await storage.createPatient(patientData, req.session.userId);
       console.log("💾 Created patient:", patient);
+      await recordAudit(req, { action: "patient.create", targetType: "patient", targetId: patient.id, after: patient });
+
+      // A short queue may already be within notification reach - not awaited, SMS must not delay the desk
+      void notifyQueueAdvanced(req.session.clinicId);
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:created', { patient, source: 'desk' });
+      }
       
       res.json(patient);
     } catch (error) {
@@ -438,11 +604,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/patients", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const patients = await storage.getPatients(req.session.userId);
+      const patients = await storage.getPatients(req.session.clinicId);
       res.json(patients);
     } catch (error) {
       console.error("Error fetching patients:", error);
@@ -450,16 +616,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get journey events for the current queue (same patients as GET /api/patients)
+  app.get("/api/patient-events", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const events = await storage.getCurrentPatientEvents(req.session.clinicId);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching patient events:", error);
+      res.status(500).json({ error: "Failed to fetch patient events" });
+    }
+  });
+
   // Get today's patients
   app.get("/api/patients/today", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const today = new Date().toISOString().split('T')[0];
-      const patients = await storage.getPatientsByDate(today, req.session.userId);
+      const today = await storage.getClinicToday(req.session.clinicId);
+      const patients = await storage.getPatientsByDate(today, req.session.clinicId);
       res.json(patients);
     } catch (error) {
       console.error("Error fetching today's patients:", error);
@@ -471,11 +653,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/patients/next-number", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const nextNumber = await storage.getNextPatientNumber(req.session.userId);
+      const serviceId = typeof req.query.serviceId === "string" ? req.query.serviceId : undefined;
+      if (serviceId) {
+        const service = await storage.getService(serviceId, req.session.clinicId);
+        if (!service) {
+          return res.status(404).json({ error: "Service not found" });
+        }
+        const nextNumber = await storage.getNextPatientNumber(req.session.clinicId, service.id);
+        return res.json({ nextNumber, ticketPrefix: service.prefix });
+      }
+      
+      const nextNumber = await storage.getNextPatientNumber(req.session.clinicId);
       res.json({ nextNumber });
     } catch (error) {
       console.error("Error getting next patient number:", error);
@@ -487,54 +679,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/patients/:id/status", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
       const { status, windowId, requeueReason } = req.body;
       
+      if (!isPatientTransition(status)) {
+        return res.status(400).json({ error: "Invalid data", details: [`status must be one of: ${PATIENT_TRANSITIONS.join(", ")}`] });
+      }
+      
+      const current = (await storage.getPatients(req.session.clinicId)).find(p => p.id === id);
+      if (!current) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      
+      // Pharmacists finish (or return) dispensary patients; everything else is the doctor's queue
+      const permission = getPatientState(current) === "dispensary" ? "dispensary:manage" : "queue:call";
+      if (!hasPermission(req.session.role, permission)) {
+        return res.status(403).json({ error: "Access denied - your role does not allow this action" });
+      }
+      if (permission === "queue:call" && !await canUseRoom(req, status === "called" ? windowId : current.windowId)) {
+        return res.status(403).json({ error: "Access denied - room not assigned to you" });
+      }
+      
       // Only clear windowId for requeue status (completed status handled by storage layer)
       const finalWindowId = (status === "requeue") ? null : windowId;
       
-      const patient = await storage.updatePatientStatus(id, status, req.session.userId, finalWindowId, requeueReason);
+      const patient = await storage.updatePatientStatus(id, status, req.session.clinicId, finalWindowId, requeueReason, req.session.userId);
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
       }
+      await recordAudit(req, { action: "patient.status", targetType: "patient", targetId: id, before: current, after: patient });
       
-      // Update window assignment if needed
+      // Room assignments were updated with the status change - only the called room is needed here
+      let calledWindow: ClinicWindow | undefined;
       if (windowId && status === "called") {
-        await storage.updateWindowPatient(windowId, req.session.userId, id);
-      } else if (status === "completed" || status === "requeue" || status === "dispensary") {
-        // Clear patient from window
-        const windows = await storage.getWindows(req.session.userId);
-        const currentWindow = windows.find(w => w.currentPatientId === id);
-        if (currentWindow) {
-          await storage.updateWindowPatient(currentWindow.id, req.session.userId, undefined);
+        calledWindow = (await storage.getWindows(req.session.clinicId)).find(w => w.id === windowId);
+        void notifyPatientCalled(req.session.clinicId, patient, calledWindow?.name || "");
+        void pushPatientCalled(req.session.clinicId, patient, calledWindow?.name || "");
+      }
+
+      if (status === "completed") {
+        void expirePatientPush(req.session.clinicId, id);
+      }
+
+      // Push the change to clinic clients and TV displays
+      if (globalIo) {
+        if (status === "called") {
+          broadcastToClinic(globalIo, req.session.clinicId, 'patient:called', { patient, window: calledWindow || null });
+        } else {
+          broadcastToClinic(globalIo, req.session.clinicId, 'patient:updated', { patient });
+        }
+        // Sending to (or back from) dispensary opens/cancels a pharmacy ticket; completing cancels it too
+        if (status === "dispensary" || status === "requeue" || status === "completed") {
+          const ticket = (await storage.getDispensaryTickets(req.session.clinicId)).find(t => t.patientId === patient.id);
+          broadcastToClinic(globalIo, req.session.clinicId, 'dispensary:updated', { patientId: patient.id, ticket: ticket || null });
         }
       }
       
       res.json(patient);
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ error: error.message, from: error.from, to: error.to });
+      }
       console.error("Error updating patient status:", error);
       res.status(500).json({ error: "Failed to update patient status" });
     }
   });
 
+  // Call next eligible patient to a window (priority, cleared requeue, then FIFO)
+  app.post("/api/windows/:id/call-next", requirePermission("queue:call"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { id } = req.params;
+      const windows = await storage.getWindows(req.session.clinicId);
+      const window = windows.find(w => w.id === id);
+      if (!window) {
+        return res.status(404).json({ error: "Window not found" });
+      }
+      
+      if (!window.isActive) {
+        return res.status(409).json({ error: "Window is not active" });
+      }
+      
+      if (window.type === "dispensary") {
+        return res.status(409).json({ error: "Dispensary counters call from the dispensary queue" });
+      }
+      
+      if (!await canUseRoom(req, id)) {
+        return res.status(403).json({ error: "Access denied - room not assigned to you" });
+      }
+      
+      const patient = await storage.callNextPatient(id, req.session.clinicId, req.session.userId);
+      if (!patient) {
+        return res.status(404).json({ error: "No patients waiting" });
+      }
+      await recordAudit(req, { action: "patient.call_next", targetType: "patient", targetId: patient.id, after: patient });
+      void notifyPatientCalled(req.session.clinicId, patient, window.name);
+      void pushPatientCalled(req.session.clinicId, patient, window.name);
+
+      // Push the call to clinic clients and TV displays
+      if (globalIo) {
+        const calledWindow = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:called', { patient, window: calledWindow || null });
+      }
+      
+      res.json(patient);
+    } catch (error) {
+      console.error("Error calling next patient:", error);
+      res.status(500).json({ error: "Failed to call next patient" });
+    }
+  });
+
+  // Clear requeue reason (e.g. nebuliser finished) so call-next can pick the patient again
+  app.delete("/api/patients/:id/requeue-reason", requirePermission("queue:call"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { id } = req.params;
+      const before = (await storage.getPatients(req.session.clinicId)).find(p => p.id === id);
+      const patient = await storage.clearRequeueReason(id, req.session.clinicId);
+      
+      if (!patient) {
+        return res.status(404).json({ error: "Requeued patient not found" });
+      }
+      await recordAudit(req, { action: "patient.clear_requeue_reason", targetType: "patient", targetId: id, before, after: patient });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:updated', { patient });
+      }
+      
+      res.json(patient);
+    } catch (error) {
+      console.error("Error clearing requeue reason:", error);
+      res.status(500).json({ error: "Failed to clear requeue reason" });
+    }
+  });
+
   // Toggle patient priority
-  app.patch("/api/patients/:id/priority", async (req, res) => {
+  app.patch("/api/patients/:id/priority", requirePermission("patients:register"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const patient = await storage.togglePatientPriority(id, req.session.userId);
+      const before = (await storage.getPatients(req.session.clinicId)).find(p => p.id === id);
+      const patient = await storage.togglePatientPriority(id, req.session.clinicId);
       
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
       }
+      await recordAudit(req, { action: "patient.priority", targetType: "patient", targetId: id, before, after: patient });
+      void notifyQueueAdvanced(req.session.clinicId);
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:updated', { patient });
+      }
       
       res.json(patient);
     } catch (error) {
@@ -544,19 +855,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete patient
-  app.delete("/api/patients/:id", async (req, res) => {
+  app.delete("/api/patients/:id", requirePermission("patients:register"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const deleted = await storage.deletePatient(id, req.session.userId);
+      const before = (await storage.getPatients(req.session.clinicId)).find(p => p.id === id);
+      const deleted = await storage.deletePatient(id, req.session.clinicId);
       
       if (!deleted) {
         return res.status(404).json({ error: "Patient not found" });
       }
+      await recordAudit(req, { action: "patient.delete", targetType: "patient", targetId: id, before });
+      void notifyQueueAdvanced(req.session.clinicId);
+      void expirePatientPush(req.session.clinicId, id);
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:deleted', { patientId: id });
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -566,28 +885,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manual reset/clear queue (for 24-hour clinics)
-  app.post("/api/patients/reset-queue", async (req, res) => {
+  app.post("/api/patients/reset-queue", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      // Delete ALL today's patients (hard delete) - this will reset next number to 1
-      const deletedCount = await storage.deleteAllTodayPatients(req.session.userId);
+      // Archive ALL today's patients and clear rooms - next number starts from 1, undo stays possible
+      const reset = await storage.resetQueue(req.session.clinicId, req.session.userId);
+      const undoDeadline = getQueueResetUndoDeadline(reset);
+      await recordAudit(req, {
+        action: "queue.reset",
+        targetType: "queue",
+        targetId: reset.id,
+        after: { archivedCount: reset.archivedCount, windowAssignments: reset.windowAssignments }
+      });
+      console.log(`🔄 Queue reset: ${reset.archivedCount} patient(s) archived, undo until ${undoDeadline.toISOString()}`);
       
-      // Clear all windows
-      const windows = await storage.getWindows(req.session.userId);
-      for (const window of windows) {
-        if (window.currentPatientId) {
-          await storage.updateWindowPatient(window.id, req.session.userId, undefined);
-        }
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'queue:updated', { reason: "reset", resetId: reset.id });
       }
       
       res.json({ 
         success: true, 
-        deletedCount,
-        message: `Queue reset complete. ${deletedCount} patient(s) deleted. Next number will start from 1.` 
+        resetId: reset.id,
+        archivedCount: reset.archivedCount,
+        undoDeadline,
+        message: `Queue reset complete. ${reset.archivedCount} patient(s) archived. Next number will start from 1.` 
       });
     } catch (error) {
       console.error("Error resetting queue:", error);
@@ -595,13 +920,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Latest queue reset and whether it can still be undone
+  app.get("/api/patients/reset-queue/latest", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const reset = await storage.getLatestQueueReset(req.session.clinicId);
+      if (!reset) {
+        return res.json(null);
+      }
+      
+      const undoDeadline = getQueueResetUndoDeadline(reset);
+      res.json({
+        ...reset,
+        undoDeadline,
+        canUndo: !reset.undoneAt && undoDeadline.getTime() > Date.now()
+      });
+    } catch (error) {
+      console.error("Error fetching queue reset:", error);
+      res.status(500).json({ error: "Failed to fetch queue reset" });
+    }
+  });
+
+  // Undo a queue reset - restores the archived patients and room assignments
+  app.post("/api/patients/reset-queue/:id/undo", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const latestReset = await storage.getLatestQueueReset(req.session.clinicId);
+      if (!latestReset || latestReset.id !== req.params.id) {
+        return res.status(404).json({ error: "Queue reset not found or superseded by a newer reset" });
+      }
+      if (latestReset.undoneAt) {
+        return res.status(409).json({ error: "Queue reset already undone" });
+      }
+      if (getQueueResetUndoDeadline(latestReset).getTime() <= Date.now()) {
+        return res.status(409).json({ error: `Queue reset can only be undone within ${QUEUE_RESET_UNDO_MINUTES} minutes` });
+      }
+      
+      // Restoring would duplicate ticket numbers once the new day's numbering has started
+      const today = await storage.getClinicToday(req.session.clinicId);
+      const newPatients = await storage.getPatientsByDate(today, req.session.clinicId);
+      if (newPatients.length > 0) {
+        return res.status(409).json({ error: "New patients have registered since the reset - it can no longer be undone" });
+      }
+      
+      const restoredCount = await storage.undoQueueReset(latestReset.id, req.session.clinicId);
+      if (restoredCount === undefined) {
+        return res.status(409).json({ error: "Queue reset already undone" });
+      }
+      await recordAudit(req, {
+        action: "queue.reset_undo",
+        targetType: "queue",
+        targetId: latestReset.id,
+        after: { restoredCount }
+      });
+      console.log(`↩️ Queue reset undone: ${restoredCount} patient(s) restored`);
+      
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'queue:updated', { reason: "reset-undone", resetId: latestReset.id });
+      }
+      
+      res.json({ success: true, restoredCount });
+    } catch (error) {
+      console.error("Error undoing queue reset:", error);
+      res.status(500).json({ error: "Failed to undo queue reset" });
+    }
+  });
+
   // User management routes
   
   // Get all users - Admin only
   app.get("/api/users", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -625,7 +1024,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/users", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -634,24 +1033,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied - only admin can add users" });
       }
       
-      const { username, password, role } = req.body;
+      const { username, password, role, clinicId, clinicName } = req.body;
       
       if (!username || !password) {
         return res.status(400).json({ error: "Username and password required" });
       }
       
+      const staffRole = normalizeRole(role || 'clinic_manager');
+      if (!staffRole) {
+        return res.status(400).json({ error: "Invalid role" });
+      }
+      
       // Check if username already exists
       const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(400).json({ error: "Username already exists" });
       }
       
+      // Staff join an existing clinic; a new manager (or admin) without one starts a new clinic
+      let clinic = clinicId ? await storage.getClinic(clinicId) : undefined;
+      if (clinicId && !clinic) {
+        return res.status(400).json({ error: "Clinic not found" });
+      }
+      if (!clinic && staffRole !== 'clinic_manager' && staffRole !== 'admin') {
+        return res.status(400).json({ error: "clinicId is required for clinic staff" });
+      }
+      if (!clinic) {
+        clinic = await storage.createClinic(clinicName || username);
+      }
+      
       const user = await storage.createUser({
         username,
         password,
-        role: role || 'user'
+        role: staffRole,
+        clinicId: clinic.id
       });
       
+      // Recorded in the clinic the account belongs to
+      await recordAudit(req, { action: "user.create", targetType: "user", targetId: user.id, after: sanitizeUser(user), clinicId: clinic.id });
+      
       // Remove sensitive data from response
       const sanitizedUser = sanitizeUser(user);
       res.json(sanitizedUser);
@@ -665,7 +1085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users/:id", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -695,7 +1115,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/users/:id", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -717,10 +1137,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No valid fields to update" });
       }
       
+      const before = await storage.getUser(id);
       const user = await storage.updateUser(id, validatedUpdates);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
+      await recordAudit(req, {
+        action: "user.update",
+        targetType: "user",
+        targetId: id,
+        before: before && Object.fromEntries(Object.keys(validatedUpdates).map(key => [key, (before as Record<string, unknown>)[key]])),
+        after: validatedUpdates
+      });
       
       res.json(user);
     } catch (error) {
@@ -749,7 +1177,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users/:id/display-config", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -765,12 +1193,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "User not found" });
       }
 
-      // Get all user-specific display configuration data using proper userId filtering
+      // Display configuration belongs to the user's clinic
       const [settings, themes, media, textGroups] = await Promise.all([
-        storage.getSettings(id),
-        storage.getThemes(id), 
-        storage.getMedia(id),
-        storage.getTextGroups(id)
+        storage.getSettings(req.session.clinicId),
+        storage.getThemes(req.session.clinicId), 
+        storage.getMedia(req.session.clinicId),
+        storage.getTextGroups(req.session.clinicId)
       ]);
 
       const displayConfig = {
@@ -800,414 +1228,1642 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all windows
-  app.get("/api/windows", async (req, res) => {
+  // Clinic staff routes - the clinic manager's own staff logins
+
+  // Validate room assignments against this clinic's windows
+  async function findUnknownWindowIds(clinicId: string, windowIds: string[]) {
+    const windows = await storage.getWindows(clinicId);
+    return windowIds.filter(id => !windows.some(w => w.id === id));
+  }
+
+  // Get staff of the current clinic
+  app.get("/api/staff", requirePermission("staff:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const windows = await storage.getWindows(req.session.userId);
-      res.json(windows);
+      const staff = await storage.getClinicStaff(req.session.clinicId);
+      res.json(staff.map(sanitizeUser));
     } catch (error) {
-      console.error("Error fetching windows:", error);
-      res.status(500).json({ error: "Failed to fetch windows" });
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ error: "Failed to fetch staff" });
     }
   });
 
-  // Create new window
-  app.post("/api/windows", async (req, res) => {
+  // Add staff login to the current clinic
+  app.post("/api/staff", requirePermission("staff:manage"), async (req, res) => {
     try {
-      const { name } = req.body;
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
       
-      if (!name || !name.trim()) {
-        return res.status(400).json({ error: "Window name is required" });
+      const validationResult = createStaffSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
       }
       
-      // Get user ID from session
-      const userId = req.session.userId;
-      if (!userId) {
-        return res.status(401).json({ error: "Unauthorized" });
+      const { username, password, role, assignedWindowIds } = validationResult.data;
+      
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ error: "Username already exists" });
       }
       
-      const window = await storage.createWindow({ name, userId });
-      res.status(201).json(window);
+      const unknownWindowIds = await findUnknownWindowIds(req.session.clinicId, assignedWindowIds);
+      if (unknownWindowIds.length > 0) {
+        return res.status(400).json({ error: "Invalid data", details: [`Unknown room: ${unknownWindowIds.join(", ")}`] });
+      }
+      
+      const user = await storage.createUser({
+        username,
+        password,
+        role,
+        clinicId: req.session.clinicId,
+        assignedWindowIds
+      });
+      
+      console.log(`👤 Staff added: ${user.username} (${user.role})`);
+      await recordAudit(req, { action: "user.create", targetType: "user", targetId: user.id, after: sanitizeUser(user) });
+      res.json(sanitizeUser(user));
     } catch (error) {
-      console.error("Error creating window:", error);
-      res.status(500).json({ error: "Failed to create window" });
+      console.error("Error creating staff:", error);
+      res.status(500).json({ error: "Failed to create staff" });
     }
   });
 
-  // Update window
-  app.put("/api/windows/:id", async (req, res) => {
+  // Change role, rooms, password or active flag of a staff login
+  app.patch("/api/staff/:id", requirePermission("staff:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const { name } = req.body;
       
-      if (!name || !name.trim()) {
-        return res.status(400).json({ error: "Window name is required" });
+      const validationResult = updateStaffSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
       }
       
-      const window = await storage.updateWindow(id, name, req.session.userId);
-      if (!window) {
-        return res.status(404).json({ error: "Window not found" });
+      const updates = validationResult.data;
+      
+      // TENANT SECURITY: only staff of this clinic, and never a system admin
+      const staffMember = await storage.getUser(id);
+      if (!staffMember || staffMember.clinicId !== req.session.clinicId || !isClinicStaffRole(normalizeRole(staffMember.role))) {
+        return res.status(404).json({ error: "Staff member not found" });
       }
       
-      res.json(window);
+      // Managers cannot lock themselves out
+      if (id === req.session.userId && ((updates.role && updates.role !== normalizeRole(staffMember.role)) || updates.isActive === false)) {
+        return res.status(400).json({ error: "You cannot change your own role or deactivate yourself" });
+      }
+      
+      if (updates.assignedWindowIds) {
+        const unknownWindowIds = await findUnknownWindowIds(req.session.clinicId, updates.assignedWindowIds);
+        if (unknownWindowIds.length > 0) {
+          return res.status(400).json({ error: "Invalid data", details: [`Unknown room: ${unknownWindowIds.join(", ")}`] });
+        }
+      }
+      
+      const user = await storage.updateUser(id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      await recordAudit(req, {
+        action: "user.update",
+        targetType: "user",
+        targetId: id,
+        before: sanitizeUser(staffMember),
+        // Password hashes are never stored, only that it changed
+        after: { ...sanitizeUser(user), passwordChanged: Boolean(updates.password) }
+      });
+      
+      res.json(sanitizeUser(user));
     } catch (error) {
-      console.error("Error updating window:", error);
-      res.status(500).json({ error: "Failed to update window" });
+      console.error("Error updating staff:", error);
+      res.status(500).json({ error: "Failed to update staff" });
     }
   });
 
-  // Delete window
-  app.delete("/api/windows/:id", async (req, res) => {
+  // Get all windows
+  app.get("/api/windows", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const { id } = req.params;
-      
-      const success = await storage.deleteWindow(id, req.session.userId);
-      if (!success) {
-        return res.status(400).json({ error: "Cannot delete window - window not found or currently occupied" });
-      }
-      
-      res.status(204).send();
+      const windows = await storage.getWindows(req.session.clinicId);
+      res.json(windows);
     } catch (error) {
-      console.error("Error deleting window:", error);
-      res.status(500).json({ error: "Failed to delete window" });
+      console.error("Error fetching windows:", error);
+      res.status(500).json({ error: "Failed to fetch windows" });
     }
   });
 
-  // Toggle window status
-  app.patch("/api/windows/:id/status", async (req, res) => {
+  // Create new window
+  app.post("/api/windows", requirePermission("settings:manage"), async (req, res) => {
     try {
-      // Check authentication
-      if (!req.session.userId) {
-        return res.status(401).json({ error: "Session inactive" });
+      const { name, type } = req.body;
+      
+      if (!name || !name.trim()) {
+        return res.status(400).json({ error: "Window name is required" });
       }
       
-      const { id } = req.params;
+      if (type !== undefined && !WINDOW_TYPES.includes(type)) {
+        return res.status(400).json({ error: `type must be one of: ${WINDOW_TYPES.join(", ")}` });
+      }
       
-      const window = await storage.toggleWindowStatus(id, req.session.userId);
-      if (!window) {
-        return res.status(404).json({ error: "Window not found" });
+      // Get user ID from session
+      const userId = req.session.clinicId;
+      if (!userId) {
+        return res.status(401).json({ error: "Unauthorized" });
       }
       
-      res.json(window);
+      const window = await storage.createWindow({ name, type, userId });
+      await recordAudit(req, { action: "window.create", targetType: "window", targetId: window.id, after: window });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, userId, 'windows:updated', { windowId: window.id, window });
+      }
+
+      res.status(201).json(window);
     } catch (error) {
-      console.error("Error toggling window status:", error);
-      res.status(500).json({ error: "Failed to toggle window status" });
+      console.error("Error creating window:", error);
+      res.status(500).json({ error: "Failed to create window" });
     }
   });
 
-  // Update window patient assignment
-  app.patch("/api/windows/:id/patient", async (req, res) => {
+  // Update window
+  app.put("/api/windows/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const { patientId } = req.body;
+      const { name } = req.body;
+      
+      if (!name || !name.trim()) {
+        return res.status(400).json({ error: "Window name is required" });
+      }
       
-      const window = await storage.updateWindowPatient(id, req.session.userId, patientId);
+      const before = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+      const window = await storage.updateWindow(id, name, req.session.clinicId);
       if (!window) {
         return res.status(404).json({ error: "Window not found" });
       }
+      await recordAudit(req, { action: "window.update", targetType: "window", targetId: id, before, after: window });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'windows:updated', { windowId: id, window });
+      }
       
       res.json(window);
     } catch (error) {
-      console.error("Error updating window patient:", error);
-      res.status(500).json({ error: "Failed to update window patient" });
+      console.error("Error updating window:", error);
+      res.status(500).json({ error: "Failed to update window" });
     }
   });
 
-  // Dashboard routes
-  
-  // Get dashboard statistics
-  app.get("/api/dashboard/stats", async (req, res) => {
+  // Delete window
+  app.delete("/api/windows/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const stats = await storage.getDashboardStats(req.session.userId);
-      res.json(stats);
+      const { id } = req.params;
+      
+      const before = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+      const success = await storage.deleteWindow(id, req.session.clinicId);
+      if (!success) {
+        return res.status(400).json({ error: "Cannot delete window - window not found or currently occupied" });
+      }
+      await recordAudit(req, { action: "window.delete", targetType: "window", targetId: id, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'windows:updated', { windowId: id, window: null });
+      }
+      
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching dashboard stats:", error);
-      res.status(500).json({ error: "Failed to fetch dashboard statistics" });
+      console.error("Error deleting window:", error);
+      res.status(500).json({ error: "Failed to delete window" });
     }
   });
 
-  // Get current call (currently called patient)
-  app.get("/api/dashboard/current-call", async (req, res) => {
+  // Toggle window status
+  app.patch("/api/windows/:id/status", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      // Force no cache for current call API to ensure real-time updates
-      res.set({
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache',
-        'Expires': '0',
-        'ETag': `"${Date.now()}"` // Unique ETag to prevent 304 responses
-      });
+      const { id } = req.params;
       
-      const currentCall = await storage.getCurrentCall(req.session.userId);
-      res.json(currentCall || null);
+      const before = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+      const window = await storage.toggleWindowStatus(id, req.session.clinicId);
+      if (!window) {
+        return res.status(404).json({ error: "Window not found" });
+      }
+      await recordAudit(req, { action: "window.status", targetType: "window", targetId: id, before, after: window });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'windows:updated', { windowId: id, window });
+      }
+      
+      res.json(window);
     } catch (error) {
-      console.error("Error fetching current call:", error);
-      res.status(500).json({ error: "Failed to fetch current call" });
+      console.error("Error toggling window status:", error);
+      res.status(500).json({ error: "Failed to toggle window status" });
     }
   });
 
-  // Get recent history (recently completed patients)
-  app.get("/api/dashboard/history", async (req, res) => {
+  // Update window patient assignment
+  app.patch("/api/windows/:id/patient", requirePermission("queue:call"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const limit = parseInt(req.query.limit as string) || 10;
-      const history = await storage.getRecentHistory(req.session.userId, limit);
-      res.json(history);
+      const { id } = req.params;
+      const { patientId } = req.body;
+      
+      if (!await canUseRoom(req, id)) {
+        return res.status(403).json({ error: "Access denied - room not assigned to you" });
+      }
+      
+      const before = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+      const window = await storage.updateWindowPatient(id, req.session.clinicId, patientId);
+      if (!window) {
+        return res.status(404).json({ error: "Window not found" });
+      }
+      await recordAudit(req, { action: "window.patient", targetType: "window", targetId: id, before, after: window });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'windows:updated', { windowId: id, window });
+      }
+      
+      res.json(window);
     } catch (error) {
-      console.error("Error fetching recent history:", error);
-      res.status(500).json({ error: "Failed to fetch recent history" });
+      console.error("Error updating window patient:", error);
+      res.status(500).json({ error: "Failed to update window patient" });
     }
   });
 
-  // Settings routes
-
-  // Get all settings
-  app.get("/api/settings", async (req, res) => {
+  // Update which services a window calls from (empty = all services)
+  app.put("/api/windows/:id/services", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const settings = await storage.getSettings(req.session.userId);
-      res.json(settings);
+      const { id } = req.params;
+      const { serviceIds } = req.body;
+      
+      if (!Array.isArray(serviceIds)) {
+        return res.status(400).json({ error: "serviceIds array is required" });
+      }
+      
+      // SECURITY: Only allow subscribing to this clinic's services
+      const services = await storage.getServices(req.session.clinicId);
+      const validIds = serviceIds.filter((serviceId: string) => services.some(s => s.id === serviceId));
+      
+      const before = (await storage.getWindows(req.session.clinicId)).find(w => w.id === id);
+      const window = await storage.updateWindowServices(id, validIds, req.session.clinicId);
+      if (!window) {
+        return res.status(404).json({ error: "Window not found" });
+      }
+      await recordAudit(req, { action: "window.services", targetType: "window", targetId: id, before, after: window });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'windows:updated', { windowId: id, window });
+      }
+      
+      res.json(window);
     } catch (error) {
-      console.error("Error fetching settings:", error);
-      res.status(500).json({ error: "Failed to fetch settings" });
+      console.error("Error updating window services:", error);
+      res.status(500).json({ error: "Failed to update window services" });
     }
   });
 
-  // Get settings by category
-  app.get("/api/settings/category/:category", async (req, res) => {
+  // Dispensary (pharmacy) queue routes
+
+  // Open dispensary tickets - preparing, ready and called
+  app.get("/api/dispensary/tickets", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const { category } = req.params;
-      const settings = await storage.getSettingsByCategory(category, req.session.userId);
-      res.json(settings);
+
+      const tickets = await storage.getDispensaryTickets(req.session.clinicId);
+      res.json(tickets);
     } catch (error) {
-      console.error("Error fetching settings by category:", error);
-      res.status(500).json({ error: "Failed to fetch settings by category" });
+      console.error("Error fetching dispensary tickets:", error);
+      res.status(500).json({ error: "Failed to fetch dispensary tickets" });
     }
   });
 
-  // Get specific setting
-  app.get("/api/settings/:key", async (req, res) => {
+  // Move a dispensary ticket: ready, called (to a counter), collected, cancelled
+  app.patch("/api/dispensary/tickets/:id/status", requirePermission("dispensary:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const { key } = req.params;
-      const setting = await storage.getSetting(key, req.session.userId);
-      if (!setting) {
-        return res.status(404).json({ error: "Setting not found" });
-      }
-      res.json(setting);
-    } catch (error) {
-      console.error("Error fetching setting:", error);
-      res.status(500).json({ error: "Failed to fetch setting" });
-    }
-  });
 
-  // Create or update setting
-  app.put("/api/settings/:key", async (req, res) => {
-    try {
-      const { key } = req.params;
-      const { value, category } = req.body;
+      const { id } = req.params;
+      const { status, counterId } = req.body;
 
-      if (!value || !category) {
-        return res.status(400).json({ error: "Value and category are required" });
+      if (!isDispensaryTicketStatus(status)) {
+        return res.status(400).json({ error: "Invalid data", details: [`status must be one of: ${DISPENSARY_TICKET_STATUSES.join(", ")}`] });
       }
 
-      // Check authentication
-      if (!req.session.userId) {
-        return res.status(401).json({ error: "Session inactive" });
+      if (status === "called" && counterId) {
+        const windows = await storage.getWindows(req.session.clinicId);
+        const counter = windows.find(w => w.id === counterId);
+        if (!counter || counter.type !== "dispensary") {
+          return res.status(404).json({ error: "Dispensary counter not found" });
+        }
+        if (!counter.isActive) {
+          return res.status(409).json({ error: "Dispensary counter is not active" });
+        }
       }
-      
-      // Try to update existing setting first
-      let setting = await storage.updateSetting(key, value, req.session.userId);
-      
-      // If setting doesn't exist, create new one
-      if (!setting) {
-        setting = await storage.setSetting(key, value, category, req.session.userId);
+
+      const before = (await storage.getDispensaryTickets(req.session.clinicId)).find(t => t.id === id);
+      const ticket = await storage.updateDispensaryTicketStatus(id, status, req.session.clinicId, counterId);
+      if (!ticket) {
+        return res.status(404).json({ error: "Dispensary ticket not found" });
+      }
+      await recordAudit(req, { action: "dispensary.status", targetType: "dispensary", targetId: id, before, after: ticket });
+
+      if (status === "called") {
+        void notifyDispensaryCalled(req.session.clinicId, ticket.patientId, ticket.counterId);
+        void pushDispensaryCall(req.session.clinicId, ticket.patientId, ticket.counterId);
+      } else if (status === "collected") {
+        void expirePatientPush(req.session.clinicId, ticket.patientId);
       }
 
-      // Notify all connected clients about settings update
       if (globalIo) {
-        globalIo.emit('settings:updated', { key, timestamp: Date.now() });
+        broadcastToClinic(globalIo, req.session.clinicId, 'dispensary:updated', { patientId: ticket.patientId, ticket });
+        if (status === "called") {
+          await broadcastDispensaryCall(globalIo, req.session.clinicId, ticket);
+        }
+        // Collecting completes the patient in the main queue
+        if (status === "collected") {
+          const patient = (await storage.getPatients(req.session.clinicId)).find(p => p.id === ticket.patientId);
+          if (patient) {
+            broadcastToClinic(globalIo, req.session.clinicId, 'patient:updated', { patient });
+          }
+        }
       }
 
-      res.json(setting);
+      res.json(ticket);
     } catch (error) {
-      console.error("Error updating setting:", error);
-      res.status(500).json({ error: "Failed to update setting" });
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ error: error.message, from: error.from, to: error.to });
+      }
+      console.error("Error updating dispensary ticket:", error);
+      res.status(500).json({ error: "Failed to update dispensary ticket" });
     }
   });
 
-  // Update multiple settings
-  app.put("/api/settings", async (req, res) => {
+  // Call the next ready prescription to a dispensary counter (priority, then oldest ready)
+  app.post("/api/dispensary/counters/:id/call-next", requirePermission("dispensary:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const { settings } = req.body;
 
-      if (!settings || !Array.isArray(settings)) {
-        return res.status(400).json({ error: "Settings array is required" });
+      const { id } = req.params;
+      const windows = await storage.getWindows(req.session.clinicId);
+      const counter = windows.find(w => w.id === id);
+      if (!counter || counter.type !== "dispensary") {
+        return res.status(404).json({ error: "Dispensary counter not found" });
       }
 
-      const updatedSettings = [];
-      for (const settingData of settings) {
-        const { key, value, category } = settingData;
-        if (!key || !value || !category) {
-          continue; // Skip invalid settings
-        }
+      if (!counter.isActive) {
+        return res.status(409).json({ error: "Dispensary counter is not active" });
+      }
 
-        // Try to update existing setting first
-        let setting = await storage.updateSetting(key, value, req.session.userId);
-        
-        // If setting doesn't exist, create new one
-        if (!setting) {
-          setting = await storage.setSetting(key, value, category, req.session.userId);
-        }
-        
-        updatedSettings.push(setting);
+      const ticket = await storage.callNextDispensaryTicket(id, req.session.clinicId);
+      if (!ticket) {
+        return res.status(404).json({ error: "No prescriptions ready" });
       }
+      await recordAudit(req, { action: "dispensary.call_next", targetType: "dispensary", targetId: ticket.id, after: ticket });
+      void notifyDispensaryCalled(req.session.clinicId, ticket.patientId, ticket.counterId);
+      void pushDispensaryCall(req.session.clinicId, ticket.patientId, ticket.counterId);
 
-      // Notify all connected clients about settings update
       if (globalIo) {
-        globalIo.emit('settings:updated', { 
-          keys: updatedSettings.map(s => s.key),
-          timestamp: Date.now() 
-        });
+        broadcastToClinic(globalIo, req.session.clinicId, 'dispensary:updated', { patientId: ticket.patientId, ticket });
+        await broadcastDispensaryCall(globalIo, req.session.clinicId, ticket);
       }
 
-      res.json(updatedSettings);
+      res.json(ticket);
     } catch (error) {
-      console.error("Error updating multiple settings:", error);
-      res.status(500).json({ error: "Failed to update settings" });
+      console.error("Error calling next dispensary ticket:", error);
+      res.status(500).json({ error: "Failed to call next prescription" });
     }
   });
 
-  // Delete setting
-  app.delete("/api/settings/:key", async (req, res) => {
+  // Patient registry routes - profiles keyed by IC number or MRN, linked to queue entries
+
+  // Autocomplete lookup (?q= part of an IC, MRN, name or phone)
+  app.get("/api/patient-profiles", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const { key } = req.params;
-      const deleted = await storage.deleteSetting(key, req.session.userId);
-      
-      if (!deleted) {
-        return res.status(404).json({ error: "Setting not found" });
+
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (query.length < 2) {
+        return res.json([]);
       }
-      
-      res.json({ success: true });
+
+      const profiles = await storage.searchPatientProfiles(query, req.session.clinicId);
+      res.json(profiles);
     } catch (error) {
-      console.error("Error deleting setting:", error);
-      res.status(500).json({ error: "Failed to delete setting" });
+      console.error("Error searching patient profiles:", error);
+      res.status(500).json({ error: "Failed to search patient profiles" });
     }
   });
 
-  // Media management routes
-  
-  // Get all media files
-  app.get("/api/media", async (req, res) => {
+  // Profile with its past visits (rooms and requeue reasons from the journey events)
+  app.get("/api/patient-profiles/:id", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const media = await storage.getActiveMedia(req.session.userId);
-      res.json(media);
+
+      const profile = await storage.getPatientProfile(req.params.id, req.session.clinicId);
+      if (!profile) {
+        return res.status(404).json({ error: "Patient profile not found" });
+      }
+
+      const patients = await storage.getProfileVisits(profile.id, req.session.clinicId);
+      const events = await storage.getProfileVisitEvents(profile.id, req.session.clinicId);
+      const detail: PatientProfileDetail = { profile, visits: buildProfileVisits(patients, groupJourneys(events)) };
+      res.json(detail);
     } catch (error) {
-      console.error("Error fetching media:", error);
-      res.status(500).json({ error: "Failed to fetch media" });
+      console.error("Error fetching patient profile:", error);
+      res.status(500).json({ error: "Failed to fetch patient profile" });
     }
   });
 
-  // Get media by ID
-  app.get("/api/media/:id", async (req, res) => {
+  app.post("/api/patient-profiles", requirePermission("patients:register"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const { id } = req.params;
-      const media = await storage.getMediaById(id, req.session.userId);
-      
-      if (!media) {
-        return res.status(404).json({ error: "Media not found" });
+
+      const validationResult = patientProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
       }
-      
-      res.json(media);
+
+      const conflict = await storage.findPatientProfileConflict(validationResult.data, req.session.clinicId);
+      if (conflict) {
+        return res.status(409).json({ error: "A profile with this IC number or MRN already exists", profileId: conflict.id });
+      }
+
+      const profile = await storage.createPatientProfile({ ...validationResult.data, userId: req.session.clinicId });
+      await recordAudit(req, { action: "patient_profile.create", targetType: "patient_profile", targetId: profile.id, after: profile });
+
+      res.status(201).json(profile);
     } catch (error) {
-      console.error("Error fetching media:", error);
-      res.status(500).json({ error: "Failed to fetch media" });
+      console.error("Error creating patient profile:", error);
+      res.status(500).json({ error: "Failed to create patient profile" });
     }
   });
 
-  // Save uploaded media metadata (after direct upload to object storage)
-  app.post("/api/media/save-uploaded", requireAuth, async (req, res) => {
+  app.patch("/api/patient-profiles/:id", requirePermission("patients:register"), async (req, res) => {
     try {
-      const { uploadURL, filename, name, mimeType, size } = req.body;
-      
-      if (!uploadURL || !filename) {
-        return res.status(400).json({ error: "Upload URL and filename are required" });
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
       }
 
-      // Normalize the upload URL to object path
-      const objectStorageService = new ObjectStorageService();
-      const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+      const validationResult = updatePatientProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
 
-      // Set ACL policy for public access (TV display images)
-      await objectStorageService.trySetObjectEntityAclPolicy(uploadURL, {
-        owner: req.session.userId as string,
-        visibility: "public",
+      const { id } = req.params;
+      const before = await storage.getPatientProfile(id, req.session.clinicId);
+      if (!before) {
+        return res.status(404).json({ error: "Patient profile not found" });
+      }
+
+      const updates = validationResult.data;
+      const icNumber = updates.icNumber !== undefined ? updates.icNumber : before.icNumber;
+      const mrn = updates.mrn !== undefined ? updates.mrn : before.mrn;
+      if (!icNumber && !mrn) {
+        return res.status(400).json({ error: "Invalid data", details: ["IC number or MRN is required"] });
+      }
+
+      const conflict = await storage.findPatientProfileConflict({ icNumber: updates.icNumber, mrn: updates.mrn }, req.session.clinicId, id);
+      if (conflict) {
+        return res.status(409).json({ error: "A profile with this IC number or MRN already exists", profileId: conflict.id });
+      }
+
+      const profile = await storage.updatePatientProfile(id, updates, req.session.clinicId);
+      await recordAudit(req, { action: "patient_profile.update", targetType: "patient_profile", targetId: id, before, after: profile });
+
+      res.json(profile);
+    } catch (error) {
+      console.error("Error updating patient profile:", error);
+      res.status(500).json({ error: "Failed to update patient profile" });
+    }
+  });
+
+  // Link a queue entry (e.g. a kiosk ticket) to a profile, or unlink it with profileId null
+  app.patch("/api/patients/:id/profile", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const { profileId } = req.body;
+      if (profileId !== null && typeof profileId !== "string") {
+        return res.status(400).json({ error: "Invalid data", details: ["profileId must be a string or null"] });
+      }
+
+      if (profileId && !(await storage.getPatientProfile(profileId, req.session.clinicId))) {
+        return res.status(404).json({ error: "Patient profile not found" });
+      }
+
+      const patient = await storage.linkPatientProfile(req.params.id, profileId, req.session.clinicId);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      await recordAudit(req, { action: "patient.profile", targetType: "patient", targetId: patient.id, after: { profileId } });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'patient:updated', { patient });
+      }
+
+      res.json(patient);
+    } catch (error) {
+      console.error("Error linking patient profile:", error);
+      res.status(500).json({ error: "Failed to link patient profile" });
+    }
+  });
+
+  // Appointment routes - phone bookings, checked in to the walk-in queue on arrival
+
+  // Bookings for one clinic day (?date=YYYY-MM-DD, default today)
+  app.get("/api/appointments", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const date = typeof req.query.date === "string" ? req.query.date : await storage.getClinicToday(req.session.clinicId);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "Invalid data", details: ["date must be YYYY-MM-DD"] });
+      }
+
+      const appointments = await storage.getAppointments(date, req.session.clinicId);
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ error: "Failed to fetch appointments" });
+    }
+  });
+
+  // Book an appointment
+  app.post("/api/appointments", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = appointmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { serviceId, ...booking } = validationResult.data;
+      if (serviceId) {
+        const service = await storage.getService(serviceId, req.session.clinicId);
+        if (!service || !service.isActive) {
+          return res.status(400).json({ error: "Service not found or inactive" });
+        }
+      }
+
+      const appointment = await storage.createAppointment({
+        ...booking,
+        serviceId: serviceId || null,
+        userId: req.session.clinicId
+      });
+      console.log(`📅 Appointment booked: ${appointment.date} ${appointment.slotTime} (${appointment.id})`);
+      await recordAudit(req, { action: "appointment.create", targetType: "appointment", targetId: appointment.id, after: appointment });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'appointments:updated', { appointment });
+      }
+
+      res.status(201).json(appointment);
+    } catch (error) {
+      console.error("Error creating appointment:", error);
+      res.status(500).json({ error: "Failed to create appointment" });
+    }
+  });
+
+  // Edit a booking (date, slot, contact details) - only while it is still booked
+  app.patch("/api/appointments/:id", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = updateAppointmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { id } = req.params;
+      const before = await storage.getAppointment(id, req.session.clinicId);
+      if (!before) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (before.status !== "booked") {
+        return res.status(409).json({ error: `Cannot edit a ${before.status} appointment` });
+      }
+
+      const { serviceId } = validationResult.data;
+      if (serviceId) {
+        const service = await storage.getService(serviceId, req.session.clinicId);
+        if (!service || !service.isActive) {
+          return res.status(400).json({ error: "Service not found or inactive" });
+        }
+      }
+
+      const appointment = await storage.updateAppointment(id, validationResult.data, req.session.clinicId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      await recordAudit(req, { action: "appointment.update", targetType: "appointment", targetId: id, before, after: appointment });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'appointments:updated', { appointment });
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      console.error("Error updating appointment:", error);
+      res.status(500).json({ error: "Failed to update appointment" });
+    }
+  });
+
+  // Mark no-show, cancel, or put a no-show back to booked (check-in has its own route)
+  app.patch("/api/appointments/:id/status", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const { id } = req.params;
+      const { status } = req.body;
+
+      if (!isAppointmentStatus(status) || status === "checked-in") {
+        return res.status(400).json({ error: "Invalid data", details: ["status must be one of: booked, no-show, cancelled"] });
+      }
+
+      const before = await storage.getAppointment(id, req.session.clinicId);
+      const appointment = await storage.updateAppointmentStatus(id, status, req.session.clinicId);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      await recordAudit(req, { action: "appointment.status", targetType: "appointment", targetId: id, before, after: appointment });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'appointments:updated', { appointment });
+      }
+
+      res.json(appointment);
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ error: error.message, from: error.from, to: error.to });
+      }
+      console.error("Error updating appointment status:", error);
+      res.status(500).json({ error: "Failed to update appointment" });
+    }
+  });
+
+  // Patient arrived - queue them, ahead of walk-ins when they are within the priority window of their slot
+  app.post("/api/appointments/:id/check-in", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const { id } = req.params;
+      const appointment = await storage.getAppointment(id, req.session.clinicId);
+      const clinic = await storage.getClinic(req.session.clinicId);
+      if (!appointment || !clinic) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      if (appointment.date !== getClinicDate(clinic)) {
+        return res.status(409).json({ error: "Appointment is not for today" });
+      }
+
+      let service;
+      if (appointment.serviceId) {
+        service = await storage.getService(appointment.serviceId, clinic.id);
+        if (!service || !service.isActive) {
+          return res.status(400).json({ error: "Service not found or inactive" });
+        }
+      }
+
+      const isPriority = isWithinAppointmentPriorityWindow(appointment, clinic, await getAppointmentPriorityMinutes(clinic.id));
+      const patientData = newPatientSchema.parse({
+        name: appointment.patientName,
+        phone: appointment.phone && PHONE_PATTERN.test(appointment.phone) ? appointment.phone : null, // Bookings take any text
+        isPriority,
+        priorityReason: isPriority ? APPOINTMENT_PRIORITY_REASON : null,
+        serviceId: service?.id || null,
+        ticketPrefix: service?.prefix || null,
+        userId: clinic.id
+      });
+
+      const result = await storage.checkInAppointment(id, patientData, clinic.id, req.session.userId);
+      if (!result) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      console.log(`📅 Appointment checked in: ${formatTicketNumber(result.patient.ticketPrefix, result.patient.number)}${isPriority ? " (priority)" : ""}`);
+      await recordAudit(req, { action: "appointment.check_in", targetType: "appointment", targetId: id, before: appointment, after: result.appointment });
+      await recordAudit(req, { action: "patient.create", targetType: "patient", targetId: result.patient.id, after: { ...result.patient, source: "appointment" } });
+      void notifyQueueAdvanced(clinic.id);
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, clinic.id, 'appointments:updated', { appointment: result.appointment });
+        broadcastToClinic(globalIo, clinic.id, 'patient:created', { patient: result.patient, source: 'appointment' });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(409).json({ error: error.message, from: error.from, to: error.to });
+      }
+      console.error("Error checking in appointment:", error);
+      res.status(500).json({ error: "Failed to check in appointment" });
+    }
+  });
+
+  // Turn notification settings - templates and provider choice live in settings (category 'notifications')
+  app.get("/api/notifications/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const response: NotificationSettingsResponse = {
+        ...(await getNotificationSettings(req.session.clinicId)),
+        configuredProviders: getConfiguredProviders()
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching notification settings:", error);
+      res.status(500).json({ error: "Failed to fetch notification settings" });
+    }
+  });
+
+  app.put("/api/notifications/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = notificationSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const clinicId = req.session.clinicId;
+      const before = await getNotificationSettings(clinicId);
+      const { enabled, provider, positionsAhead, templates } = validationResult.data;
+      const values: [string, string][] = [
+        [NOTIFICATION_SETTING_KEYS.enabled, String(enabled)],
+        [NOTIFICATION_SETTING_KEYS.provider, provider],
+        [NOTIFICATION_SETTING_KEYS.positionsAhead, String(positionsAhead)],
+        [NOTIFICATION_SETTING_KEYS.nearTemplate, templates.near],
+        [NOTIFICATION_SETTING_KEYS.calledTemplate, templates.called],
+      ];
+      const saved: Setting[] = [];
+      for (const [key, value] of values) {
+        // Update existing setting first, create it on first save
+        saved.push(await storage.updateSetting(key, value, clinicId) || await storage.setSetting(key, value, "notifications", clinicId));
+      }
+
+      const after = await getNotificationSettings(clinicId);
+      await recordAudit(req, { action: "settings.notifications", targetType: "settings", targetId: "notifications", before, after });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, clinicId, 'settings:updated', { settings: saved, deleted: [] });
+      }
+
+      const response: NotificationSettingsResponse = { ...after, configuredProviders: getConfiguredProviders() };
+      res.json(response);
+    } catch (error) {
+      console.error("Error updating notification settings:", error);
+      res.status(500).json({ error: "Failed to update notification settings" });
+    }
+  });
+
+  // Delivery log - latest messages with their provider status
+  app.get("/api/notifications", requirePermission("patients:register"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const notifications = await storage.getNotifications(req.session.clinicId, 100);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // Twilio StatusCallback - public, authenticated by the request signature
+  app.post(TWILIO_STATUS_CALLBACK_PATH, async (req, res) => {
+    try {
+      if (!verifyTwilioSignature(req.get("X-Twilio-Signature"), req.body)) {
+        return res.status(403).json({ error: "Invalid signature" });
+      }
+
+      await recordTwilioStatus(req.body);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error recording Twilio status:", error);
+      res.status(500).json({ error: "Failed to record status" });
+    }
+  });
+
+  // WhatsApp Cloud API webhook subscription handshake
+  app.get(WHATSAPP_WEBHOOK_PATH, (req, res) => {
+    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+    if (verifyToken && req.query["hub.mode"] === "subscribe" && req.query["hub.verify_token"] === verifyToken) {
+      return res.type("text/plain").send(String(req.query["hub.challenge"] || ""));
+    }
+    res.status(403).json({ error: "Invalid verify token" });
+  });
+
+  // WhatsApp message status updates - public, authenticated by the app secret signature
+  app.post(WHATSAPP_WEBHOOK_PATH, async (req, res) => {
+    try {
+      if (!verifyWhatsAppSignature(req.get("X-Hub-Signature-256"), req.rawBody)) {
+        return res.status(403).json({ error: "Invalid signature" });
+      }
+
+      await recordWhatsAppStatuses(req.body);
+      res.status(200).end();
+    } catch (error) {
+      console.error("Error recording WhatsApp status:", error);
+      res.status(500).json({ error: "Failed to record status" });
+    }
+  });
+
+  // Service routes
+  
+  // Get all services
+  app.get("/api/services", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const services = await storage.getServices(req.session.clinicId);
+      res.json(services);
+    } catch (error) {
+      console.error("Error fetching services:", error);
+      res.status(500).json({ error: "Failed to fetch services" });
+    }
+  });
+
+  // Create new service
+  app.post("/api/services", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = insertServiceSchema.safeParse({ ...req.body, userId: req.session.clinicId });
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const existing = await storage.getServices(req.session.clinicId);
+      if (existing.some(s => s.prefix === validationResult.data.prefix)) {
+        return res.status(409).json({ error: `Prefix ${validationResult.data.prefix} is already used by another service` });
+      }
+      
+      const service = await storage.createService(validationResult.data);
+      await recordAudit(req, { action: "service.create", targetType: "service", targetId: service.id, after: service });
+      res.status(201).json(service);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: `Prefix ${req.body.prefix} is already used by another service` });
+      }
+      console.error("Error creating service:", error);
+      res.status(500).json({ error: "Failed to create service" });
+    }
+  });
+
+  // Update service
+  app.put("/api/services/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { id } = req.params;
+      const updateServiceSchema = insertServiceSchema.omit({ userId: true }).partial().extend({
+        isActive: z.boolean().optional(),
+      });
+      const validationResult = updateServiceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const updates = validationResult.data;
+      if (updates.prefix) {
+        const existing = await storage.getServices(req.session.clinicId);
+        if (existing.some(s => s.prefix === updates.prefix && s.id !== id)) {
+          return res.status(409).json({ error: `Prefix ${updates.prefix} is already used by another service` });
+        }
+      }
+      
+      const before = await storage.getService(id, req.session.clinicId);
+      const service = await storage.updateService(id, updates, req.session.clinicId);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      await recordAudit(req, { action: "service.update", targetType: "service", targetId: id, before, after: service });
+      
+      res.json(service);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: `Prefix ${req.body.prefix} is already used by another service` });
+      }
+      console.error("Error updating service:", error);
+      res.status(500).json({ error: "Failed to update service" });
+    }
+  });
+
+  // Delete service
+  app.delete("/api/services/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const before = await storage.getService(req.params.id, req.session.clinicId);
+      const success = await storage.deleteService(req.params.id, req.session.clinicId);
+      if (!success) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      await recordAudit(req, { action: "service.delete", targetType: "service", targetId: req.params.id, before });
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting service:", error);
+      res.status(500).json({ error: "Failed to delete service" });
+    }
+  });
+
+  // Clinic schedule - timezone, daily rollover time and opening hours
+  app.get("/api/clinic/schedule", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const clinic = await storage.getClinic(req.session.clinicId);
+      if (!clinic) {
+        return res.status(404).json({ error: "Clinic not found" });
+      }
+      
+      res.json(toClinicSchedule(clinic));
+    } catch (error) {
+      console.error("Error fetching clinic schedule:", error);
+      res.status(500).json({ error: "Failed to fetch clinic schedule" });
+    }
+  });
+
+  app.patch("/api/clinic/schedule", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = updateClinicScheduleSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const before = await storage.getClinic(req.session.clinicId);
+      const clinic = await storage.updateClinicSchedule(req.session.clinicId, validationResult.data);
+      if (!before || !clinic) {
+        return res.status(404).json({ error: "Clinic not found" });
+      }
+      await recordAudit(req, {
+        action: "clinic.schedule",
+        targetType: "clinic",
+        targetId: clinic.id,
+        before: { timezone: before.timezone, dayRolloverTime: before.dayRolloverTime, openingHours: before.openingHours },
+        after: { timezone: clinic.timezone, dayRolloverTime: clinic.dayRolloverTime, openingHours: clinic.openingHours }
+      });
+      
+      // Kiosks pick up opening-hour changes, staff screens a new "today"
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'clinic:updated', { clinic });
+      }
+      
+      res.json(toClinicSchedule(clinic));
+    } catch (error) {
+      console.error("Error updating clinic schedule:", error);
+      res.status(500).json({ error: "Failed to update clinic schedule" });
+    }
+  });
+
+  // Audit log - filter via ?from&to (YYYY-MM-DD), targetType, q; paged with limit/offset
+  app.get("/api/audit-log", requirePermission("audit:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = auditLogQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { entries, total } = await storage.getAuditLog(validationResult.data, req.session.clinicId);
+      const page: AuditLogPage = {
+        entries,
+        total,
+        retentionDays: await getAuditRetentionDays(req.session.clinicId)
+      };
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Report routes - date range via ?from=YYYY-MM-DD&to=YYYY-MM-DD
+
+  // Wait time and dispensary turnaround summary
+  app.get("/api/reports/wait-times", requirePermission("reports:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = reportRangeSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { from, to } = validationResult.data;
+      const patients = await storage.getPatientsInRange(from, to, req.session.clinicId);
+      const events = await storage.getPatientEventsInRange(from, to, req.session.clinicId);
+      res.json(buildWaitTimeReport(patients, groupJourneys(events)));
+    } catch (error) {
+      console.error("Error building wait time report:", error);
+      res.status(500).json({ error: "Failed to build wait time report" });
+    }
+  });
+
+  // Average consult time per room
+  app.get("/api/reports/rooms", requirePermission("reports:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = reportRangeSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { from, to } = validationResult.data;
+      const patients = await storage.getPatientsInRange(from, to, req.session.clinicId);
+      const events = await storage.getPatientEventsInRange(from, to, req.session.clinicId);
+      res.json(buildRoomReport(patients, groupJourneys(events)));
+    } catch (error) {
+      console.error("Error building room report:", error);
+      res.status(500).json({ error: "Failed to build room report" });
+    }
+  });
+
+  // Patients per hour (day-of-week x hour heatmap)
+  app.get("/api/reports/hourly", requirePermission("reports:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = reportRangeSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { from, to } = validationResult.data;
+      const patients = await storage.getPatientsInRange(from, to, req.session.clinicId);
+      const clinic = await storage.getClinic(req.session.clinicId);
+      res.json(buildHourlyReport(patients, clinic?.timezone || DEFAULT_CLINIC_TIMEZONE));
+    } catch (error) {
+      console.error("Error building hourly report:", error);
+      res.status(500).json({ error: "Failed to build hourly report" });
+    }
+  });
+
+  // Requeue reasons breakdown
+  app.get("/api/reports/requeue-reasons", requirePermission("reports:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = reportRangeSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { from, to } = validationResult.data;
+      const patients = await storage.getPatientsInRange(from, to, req.session.clinicId);
+      const events = await storage.getPatientEventsInRange(from, to, req.session.clinicId);
+      res.json(buildRequeueReasonReport(patients, groupJourneys(events)));
+    } catch (error) {
+      console.error("Error building requeue reasons report:", error);
+      res.status(500).json({ error: "Failed to build requeue reasons report" });
+    }
+  });
+
+  // Export patient log for a date range as CSV, XLSX or PDF (?from&to&format)
+  app.get("/api/exports/patients", requirePermission("reports:view"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const validationResult = reportRangeSchema.safeParse(req.query);
+      const formatResult = exportFormatSchema.safeParse(req.query.format || 'csv');
+      if (!validationResult.success || !formatResult.success) {
+        const issues = [
+          ...(validationResult.success ? [] : validationResult.error.issues),
+          ...(formatResult.success ? [] : formatResult.error.issues)
+        ];
+        return res.status(400).json({
+          error: "Invalid data",
+          details: issues.map(issue => issue.message)
+        });
+      }
+      
+      const { from, to } = validationResult.data;
+      const format = formatResult.data;
+      const patients = await storage.getPatientsInRange(from, to, req.session.clinicId);
+      const events = await storage.getPatientEventsInRange(from, to, req.session.clinicId);
+      const clinic = await storage.getClinic(req.session.clinicId);
+      const rows = buildPatientExportRows(patients, events, clinic?.timezone || DEFAULT_CLINIC_TIMEZONE);
+      
+      const title = `${clinic?.name || 'Clinic'} - Patient Log ${from === to ? from : `${from} to ${to}`}`;
+      const filename = `patients-${from}${from === to ? '' : `-to-${to}`}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      
+      if (format === 'xlsx') {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.send(await toXlsx(rows, title));
+      } else if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.send(await toPdf(rows, title));
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.send(toCsv(rows));
+      }
+    } catch (error) {
+      console.error("Error exporting patients:", error);
+      res.status(500).json({ error: "Failed to export patients" });
+    }
+  });
+
+  // Dashboard routes
+  
+  // Get dashboard statistics
+  app.get("/api/dashboard/stats", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const stats = await storage.getDashboardStats(req.session.clinicId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching dashboard stats:", error);
+      res.status(500).json({ error: "Failed to fetch dashboard statistics" });
+    }
+  });
+
+  // Get current call (currently called patient)
+  app.get("/api/dashboard/current-call", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      // Force no cache for current call API to ensure real-time updates
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0',
+        'ETag': `"${Date.now()}"` // Unique ETag to prevent 304 responses
+      });
+      
+      const currentCall = await storage.getCurrentCall(req.session.clinicId);
+      res.json(currentCall || null);
+    } catch (error) {
+      console.error("Error fetching current call:", error);
+      res.status(500).json({ error: "Failed to fetch current call" });
+    }
+  });
+
+  // Get recent history (recently completed patients)
+  app.get("/api/dashboard/history", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const limit = parseInt(req.query.limit as string) || 10;
+      const history = await storage.getRecentHistory(req.session.clinicId, limit);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching recent history:", error);
+      res.status(500).json({ error: "Failed to fetch recent history" });
+    }
+  });
+
+  // Settings routes
+
+  // Get all settings
+  app.get("/api/settings", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const settings = await storage.getSettings(req.session.clinicId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ error: "Failed to fetch settings" });
+    }
+  });
+
+  // Get settings by category
+  app.get("/api/settings/category/:category", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { category } = req.params;
+      const settings = await storage.getSettingsByCategory(category, req.session.clinicId);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching settings by category:", error);
+      res.status(500).json({ error: "Failed to fetch settings by category" });
+    }
+  });
+
+  // Get specific setting
+  app.get("/api/settings/:key", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { key } = req.params;
+      const setting = await storage.getSetting(key, req.session.clinicId);
+      if (!setting) {
+        return res.status(404).json({ error: "Setting not found" });
+      }
+      res.json(setting);
+    } catch (error) {
+      console.error("Error fetching setting:", error);
+      res.status(500).json({ error: "Failed to fetch setting" });
+    }
+  });
+
+  // Create or update setting
+  app.put("/api/settings/:key", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { key } = req.params;
+      const { value, category } = req.body;
+
+      if (!value || !category) {
+        return res.status(400).json({ error: "Value and category are required" });
+      }
+
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const before = await storage.getSetting(key, req.session.clinicId);
+      
+      // Try to update existing setting first
+      let setting = await storage.updateSetting(key, value, req.session.clinicId);
+      
+      // If setting doesn't exist, create new one
+      if (!setting) {
+        setting = await storage.setSetting(key, value, category, req.session.clinicId);
+      }
+      await recordAudit(req, { action: "settings.update", targetType: "settings", targetId: key, before, after: setting });
+
+      // Notify this clinic's clients and TV displays about settings update
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'settings:updated', { settings: [setting], deleted: [] });
+      }
+
+      res.json(setting);
+    } catch (error) {
+      console.error("Error updating setting:", error);
+      res.status(500).json({ error: "Failed to update setting" });
+    }
+  });
+
+  // Update multiple settings
+  app.put("/api/settings", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { settings } = req.body;
+
+      if (!settings || !Array.isArray(settings)) {
+        return res.status(400).json({ error: "Settings array is required" });
+      }
+
+      const updatedSettings = [];
+      const previousSettings = [];
+      for (const settingData of settings) {
+        const { key, value, category } = settingData;
+        if (!key || !value || !category) {
+          continue; // Skip invalid settings
+        }
+
+        const previous = await storage.getSetting(key, req.session.clinicId);
+        if (previous) {
+          previousSettings.push(previous);
+        }
+        
+        // Try to update existing setting first
+        let setting = await storage.updateSetting(key, value, req.session.clinicId);
+        
+        // If setting doesn't exist, create new one
+        if (!setting) {
+          setting = await storage.setSetting(key, value, category, req.session.clinicId);
+        }
+        
+        updatedSettings.push(setting);
+      }
+      await recordAudit(req, { action: "settings.update_many", targetType: "settings", before: previousSettings, after: updatedSettings });
+
+      // Notify this clinic's clients and TV displays about settings update
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'settings:updated', { settings: updatedSettings, deleted: [] });
+      }
+
+      res.json(updatedSettings);
+    } catch (error) {
+      console.error("Error updating multiple settings:", error);
+      res.status(500).json({ error: "Failed to update settings" });
+    }
+  });
+
+  // TV layout and the clinic's saved layout presets - validated here, TVs read them from their settings
+  app.put("/api/tv-layout", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = tvLayoutSettingsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const clinicId = req.session.clinicId;
+      const { layout, presets } = validationResult.data;
+      const values: [string, string][] = [[TV_LAYOUT_SETTING_KEY, JSON.stringify(layout)]];
+      if (presets) {
+        values.push([TV_LAYOUT_PRESETS_SETTING_KEY, JSON.stringify(presets)]);
+      }
+
+      const before: Setting[] = [];
+      const saved: Setting[] = [];
+      for (const [key, value] of values) {
+        const previous = await storage.getSetting(key, clinicId);
+        if (previous) before.push(previous);
+        // Update existing setting first, create it on first save
+        saved.push(await storage.updateSetting(key, value, clinicId) || await storage.setSetting(key, value, "display", clinicId));
+      }
+      await recordAudit(req, { action: "settings.tv_layout", targetType: "settings", targetId: TV_LAYOUT_SETTING_KEY, before, after: saved });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, clinicId, 'settings:updated', { settings: saved, deleted: [] });
+      }
+
+      res.json(saved);
+    } catch (error) {
+      console.error("Error updating TV layout:", error);
+      res.status(500).json({ error: "Failed to update TV layout" });
+    }
+  });
+
+  // Delete setting
+  app.delete("/api/settings/:key", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { key } = req.params;
+      const before = await storage.getSetting(key, req.session.clinicId);
+      const deleted = await storage.deleteSetting(key, req.session.clinicId);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Setting not found" });
+      }
+      await recordAudit(req, { action: "settings.delete", targetType: "settings", targetId: key, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'settings:updated', { settings: [], deleted: before ? [before] : [] });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting setting:", error);
+      res.status(500).json({ error: "Failed to delete setting" });
+    }
+  });
+
+  // Media management routes
+  
+  // Get all media files
+  app.get("/api/media", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const media = await storage.getActiveMedia(req.session.clinicId);
+      res.json(media);
+    } catch (error) {
+      console.error("Error fetching media:", error);
+      res.status(500).json({ error: "Failed to fetch media" });
+    }
+  });
+
+  // Get media by ID
+  app.get("/api/media/:id", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const { id } = req.params;
+      const media = await storage.getMediaById(id, req.session.clinicId);
+      
+      if (!media) {
+        return res.status(404).json({ error: "Media not found" });
+      }
+      
+      res.json(media);
+    } catch (error) {
+      console.error("Error fetching media:", error);
+      res.status(500).json({ error: "Failed to fetch media" });
+    }
+  });
+
+  // Save uploaded media metadata (after direct upload to object storage)
+  app.post("/api/media/save-uploaded", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const { uploadURL, filename, name, mimeType, size } = req.body;
+      
+      if (!uploadURL || !filename) {
+        return res.status(400).json({ error: "Upload URL and filename are required" });
+      }
+
+      // Normalize the upload URL to object path
+      const objectStorageService = new ObjectStorageService();
+      const objectPath = objectStorageService.normalizeObjectEntityPath(uploadURL);
+
+      // Set ACL policy for public access (TV display images)
+      await objectStorageService.trySetObjectEntityAclPolicy(uploadURL, {
+        owner: req.session.clinicId as string,
+        visibility: "public",
       });
 
       // Save to database
@@ -1218,8 +2874,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: 'image',
         mimeType: mimeType || 'image/jpeg',
         size: size || 0,
-        userId: req.session.userId as string,
+        userId: req.session.clinicId as string,
       });
+      await recordAudit(req, { action: "media.upload", targetType: "media", targetId: media.id, after: media });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, media.userId, 'media:updated', { mediaId: media.id, media });
+      }
 
       res.status(201).json(media);
     } catch (error) {
@@ -1229,10 +2890,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new media (for now simulated upload)
-  app.post("/api/media", async (req, res) => {
+  app.post("/api/media", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication FIRST, before any processing
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -1255,8 +2916,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: type as 'image' | 'video',
         mimeType,
         size,
-        userId: req.session.userId,
+        userId: req.session.clinicId,
       });
+      await recordAudit(req, { action: "media.create", targetType: "media", targetId: media.id, after: media });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'media:updated', { mediaId: media.id, media });
+      }
 
       res.status(201).json(media);
     } catch (error) {
@@ -1266,10 +2932,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update media (rename)
-  app.patch("/api/media/:id", async (req, res) => {
+  app.patch("/api/media/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -1280,11 +2946,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Name is required" });
       }
 
-      const media = await storage.updateMedia(id, { name }, req.session.userId);
+      const before = await storage.getMediaById(id, req.session.clinicId);
+      const media = await storage.updateMedia(id, { name }, req.session.clinicId);
       
       if (!media) {
         return res.status(404).json({ error: "Media not found" });
       }
+      await recordAudit(req, { action: "media.update", targetType: "media", targetId: id, before, after: media });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'media:updated', { mediaId: id, media });
+      }
       
       res.json(media);
     } catch (error) {
@@ -1294,19 +2966,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete media
-  app.delete("/api/media/:id", async (req, res) => {
+  app.delete("/api/media/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const deleted = await storage.deleteMedia(id, req.session.userId);
+      const before = await storage.getMediaById(id, req.session.clinicId);
+      const deleted = await storage.deleteMedia(id, req.session.clinicId);
       
       if (!deleted) {
         return res.status(404).json({ error: "Media not found" });
       }
+      await recordAudit(req, { action: "media.delete", targetType: "media", targetId: id, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'media:updated', { mediaId: id, media: null });
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -1320,7 +2998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   
   // Add test media (for development/testing)
-  app.post("/api/media/test", async (req, res) => {
+  app.post("/api/media/test", requirePermission("settings:manage"), async (req, res) => {
     try {
       const testMedia = [
         {
@@ -1381,12 +3059,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/display", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       // Get current settings to determine media type
-      const settings = await storage.getSettings(req.session.userId);
+      const settings = await storage.getSettings(req.session.clinicId);
       const settingsObj = settings.reduce((acc: Record<string, string>, setting) => {
         acc[setting.key] = setting.value;
         return acc;
@@ -1411,7 +3089,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json(youtubeMedia);
       } else {
         // Otherwise return regular uploaded media
-        const activeMedia = await storage.getActiveMedia(req.session.userId);
+        const activeMedia = await storage.getActiveMedia(req.session.clinicId);
         res.json(activeMedia);
       }
     } catch (error) {
@@ -1421,10 +3099,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Save media items to display (mark as active)
-  app.post("/api/display", async (req, res) => {
+  app.post("/api/display", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
@@ -1435,21 +3113,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // First, deactivate all current media
-      const allMedia = await storage.getMedia(req.session.userId);
+      const allMedia = await storage.getMedia(req.session.clinicId);
       for (const media of allMedia) {
         if (media.isActive) {
-          await storage.updateMedia(media.id, { isActive: false }, req.session.userId);
+          await storage.updateMedia(media.id, { isActive: false }, req.session.clinicId);
         }
       }
 
       // Then activate the selected media
       const updatedMedia = [];
       for (const mediaId of mediaIds) {
-        const updated = await storage.updateMedia(mediaId, { isActive: true }, req.session.userId);
+        const updated = await storage.updateMedia(mediaId, { isActive: true }, req.session.clinicId);
         if (updated) {
           updatedMedia.push(updated);
         }
       }
+      await recordAudit(req, {
+        action: "media.display",
+        targetType: "media",
+        before: { activeMediaIds: allMedia.filter(m => m.isActive).map(m => m.id) },
+        after: { activeMediaIds: updatedMedia.map(m => m.id) }
+      });
 
       res.json({ 
         success: true, 
@@ -1470,11 +3154,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/text-groups", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const textGroups = await storage.getTextGroups(req.session.userId);
+      const textGroups = await storage.getTextGroups(req.session.clinicId);
       res.json(textGroups);
     } catch (error) {
       console.error("Error fetching text groups:", error);
@@ -1486,11 +3170,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/text-groups/active", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const activeTextGroups = await storage.getActiveTextGroups(req.session.userId);
+      const activeTextGroups = await storage.getActiveTextGroups(req.session.clinicId);
       res.json(activeTextGroups);
     } catch (error) {
       console.error("Error fetching active text groups:", error);
@@ -1502,12 +3186,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/text-groups/name/:groupName", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { groupName } = req.params;
-      const textGroup = await storage.getTextGroupByName(groupName, req.session.userId);
+      const textGroup = await storage.getTextGroupByName(groupName, req.session.clinicId);
       
       if (!textGroup) {
         return res.status(404).json({ error: "Text group not found" });
@@ -1524,12 +3208,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/text-groups/:id", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const textGroup = await storage.getTextGroupById(id, req.session.userId);
+      const textGroup = await storage.getTextGroupById(id, req.session.clinicId);
       
       if (!textGroup) {
         return res.status(404).json({ error: "Text group not found" });
@@ -1543,15 +3227,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new text group
-  app.post("/api/text-groups", async (req, res) => {
+  app.post("/api/text-groups", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const textGroupData = insertTextGroupSchema.parse({ ...req.body, userId: req.session.userId });
+      const textGroupData = insertTextGroupSchema.parse({ ...req.body, userId: req.session.clinicId });
       const textGroup = await storage.createTextGroup(textGroupData);
+      await recordAudit(req, { action: "text_group.create", targetType: "text_group", targetId: textGroup.id, after: textGroup });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'text-groups:updated', { textGroupId: textGroup.id, textGroup });
+      }
+
       res.status(201).json(textGroup);
     } catch (error) {
       console.error("Error creating text group:", error);
@@ -1560,24 +3250,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update text group
-  app.put("/api/text-groups/:id", async (req, res) => {
+  app.put("/api/text-groups/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
       const updates = req.body;
       
-      const textGroup = await storage.updateTextGroup(id, updates, req.session.userId);
+      const before = await storage.getTextGroupById(id, req.session.clinicId);
+      const textGroup = await storage.updateTextGroup(id, updates, req.session.clinicId);
       if (!textGroup) {
         return res.status(404).json({ error: "Text group not found" });
       }
+      await recordAudit(req, { action: "text_group.update", targetType: "text_group", targetId: id, before, after: textGroup });
       
-      // Notify all connected clients about text group update
+      // Notify this clinic's clients and TV displays about text group update
       if (globalIo) {
-        globalIo.emit('text-groups:updated', { id, timestamp: Date.now() });
+        broadcastToClinic(globalIo, req.session.clinicId, 'text-groups:updated', { textGroupId: id, textGroup });
       }
       
       res.json(textGroup);
@@ -1588,23 +3280,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle text group status
-  app.patch("/api/text-groups/:id/status", async (req, res) => {
+  app.patch("/api/text-groups/:id/status", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
       
-      const textGroup = await storage.toggleTextGroupStatus(id, req.session.userId);
+      const textGroup = await storage.toggleTextGroupStatus(id, req.session.clinicId);
       if (!textGroup) {
         return res.status(404).json({ error: "Text group not found" });
       }
+      await recordAudit(req, {
+        action: "text_group.status",
+        targetType: "text_group",
+        targetId: id,
+        before: { isActive: !textGroup.isActive },
+        after: { isActive: textGroup.isActive }
+      });
       
-      // Notify all connected clients about text group status change
+      // Notify this clinic's clients and TV displays about text group status change
       if (globalIo) {
-        globalIo.emit('text-groups:updated', { id, timestamp: Date.now() });
+        broadcastToClinic(globalIo, req.session.clinicId, 'text-groups:updated', { textGroupId: id, textGroup });
       }
       
       res.json(textGroup);
@@ -1615,19 +3314,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete text group
-  app.delete("/api/text-groups/:id", async (req, res) => {
+  app.delete("/api/text-groups/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const deleted = await storage.deleteTextGroup(id, req.session.userId);
+      const before = await storage.getTextGroupById(id, req.session.clinicId);
+      const deleted = await storage.deleteTextGroup(id, req.session.clinicId);
       
       if (!deleted) {
         return res.status(404).json({ error: "Text group not found" });
       }
+      await recordAudit(req, { action: "text_group.delete", targetType: "text_group", targetId: id, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'text-groups:updated', { textGroupId: id, textGroup: null });
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -1642,11 +3347,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/themes", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const themes = await storage.getThemes(req.session.userId);
+      const themes = await storage.getThemes(req.session.clinicId);
       res.json(themes);
     } catch (error) {
       console.error("Error fetching themes:", error);
@@ -1658,11 +3363,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/themes/active", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const activeTheme = await storage.getActiveTheme(req.session.userId);
+      const activeTheme = await storage.getActiveTheme(req.session.clinicId);
       
       if (!activeTheme) {
         return res.status(404).json({ error: "No active theme found" });
@@ -1679,12 +3384,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/themes/:id", async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
       const { id } = req.params;
-      const theme = await storage.getThemeById(id, req.session.userId);
+      const theme = await storage.getThemeById(id, req.session.clinicId);
       
       if (!theme) {
         return res.status(404).json({ error: "Theme not found" });
@@ -1698,15 +3403,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new theme
-  app.post("/api/themes", async (req, res) => {
+  app.post("/api/themes", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const themeData = insertThemeSchema.parse({ ...req.body, userId: req.session.userId });
+      const themeData = insertThemeSchema.parse({ ...req.body, userId: req.session.clinicId });
       const theme = await storage.createTheme(themeData);
+      await recordAudit(req, { action: "theme.create", targetType: "theme", targetId: theme.id, after: theme });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'themes:updated', { themeId: theme.id, theme });
+      }
+
       res.status(201).json(theme);
     } catch (error) {
       console.error("Error creating theme:", error);
@@ -1715,7 +3426,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update theme
-  app.patch("/api/themes/:id", async (req, res) => {
+  app.patch("/api/themes/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -1724,19 +3435,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updates = updateThemeSchema.parse(req.body);
       
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const theme = await storage.updateTheme(id, updates, req.session.userId);
+      const before = await storage.getThemeById(id, req.session.clinicId);
+      const theme = await storage.updateTheme(id, updates, req.session.clinicId);
       
       if (!theme) {
         return res.status(404).json({ error: "Theme not found" });
       }
+      await recordAudit(req, { action: "theme.update", targetType: "theme", targetId: id, before, after: theme });
       
-      // Notify all connected clients about theme update
+      // Notify this clinic's clients and TV displays about theme update
       if (globalIo) {
-        globalIo.emit('themes:updated', { id, timestamp: Date.now() });
+        broadcastToClinic(globalIo, req.session.clinicId, 'themes:updated', { themeId: id, theme });
       }
       
       res.json(theme);
@@ -1747,23 +3460,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Set active theme
-  app.patch("/api/themes/:id/activate", async (req, res) => {
+  app.patch("/api/themes/:id/activate", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const theme = await storage.setActiveTheme(id, req.session.userId);
+      const previousTheme = await storage.getActiveTheme(req.session.clinicId);
+      const theme = await storage.setActiveTheme(id, req.session.clinicId);
       
       if (!theme) {
         return res.status(404).json({ error: "Theme not found" });
       }
+      await recordAudit(req, {
+        action: "theme.activate",
+        targetType: "theme",
+        targetId: id,
+        before: previousTheme ? { activeThemeId: previousTheme.id, name: previousTheme.name } : null,
+        after: { activeThemeId: theme.id, name: theme.name }
+      });
       
-      // Notify all connected clients about active theme change
+      // Notify this clinic's clients and TV displays about active theme change
       if (globalIo) {
-        globalIo.emit('themes:updated', { id, activated: true, timestamp: Date.now() });
+        broadcastToClinic(globalIo, req.session.clinicId, 'themes:updated', { themeId: id, theme });
       }
       
       res.json(theme);
@@ -1774,19 +3495,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete theme
-  app.delete("/api/themes/:id", async (req, res) => {
+  app.delete("/api/themes/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
       
-      const deleted = await storage.deleteTheme(id, req.session.userId);
+      const before = await storage.getThemeById(id, req.session.clinicId);
+      const deleted = await storage.deleteTheme(id, req.session.clinicId);
       
       if (!deleted) {
         return res.status(404).json({ error: "Theme not found or cannot delete active theme" });
       }
+      await recordAudit(req, { action: "theme.delete", targetType: "theme", targetId: id, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'themes:updated', { themeId: id, theme: null });
+      }
       
       res.json({ success: true });
     } catch (error) {
@@ -1911,140 +3638,477 @@ export async function registerRoutes(app: Express): Promise<Server> {
         params.q = `${city},${country}`;
       }
 
-      // Note: OpenWeatherMap requires API key for most endpoints
-      // Using a free alternative: Open-Meteo API (no key required)
-      if (latitude && longitude) {
-        const lat = parseFloat(latitude as string);
-        const lon = parseFloat(longitude as string);
-        
-        const openMeteoUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m&timezone=auto`;
-        const response = await fetch(openMeteoUrl);
-        
-        if (!response.ok) {
-          throw new Error(`Weather API error: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        
-        // Map Open-Meteo weather codes to descriptions
-        const getWeatherDescription = (code: number) => {
-          const weatherCodes: Record<number, { description: string; icon: string }> = {
-            0: { description: 'Clear sky', icon: '☀️' },
-            1: { description: 'Mainly clear', icon: '🌤️' },
-            2: { description: 'Partly cloudy', icon: '⛅' },
-            3: { description: 'Overcast', icon: '☁️' },
-            45: { description: 'Foggy', icon: '🌫️' },
-            48: { description: 'Depositing rime fog', icon: '🌫️' },
-            51: { description: 'Light drizzle', icon: '🌦️' },
-            53: { description: 'Moderate drizzle', icon: '🌦️' },
-            55: { description: 'Dense drizzle', icon: '🌧️' },
-            61: { description: 'Slight rain', icon: '🌦️' },
-            63: { description: 'Moderate rain', icon: '🌧️' },
-            65: { description: 'Heavy rain', icon: '🌧️' },
-            80: { description: 'Slight rain showers', icon: '🌦️' },
-            81: { description: 'Moderate rain showers', icon: '🌧️' },
-            82: { description: 'Violent rain showers', icon: '⛈️' },
-            95: { description: 'Thunderstorm', icon: '⛈️' },
-            96: { description: 'Thunderstorm with hail', icon: '⛈️' },
-            99: { description: 'Thunderstorm with heavy hail', icon: '⛈️' }
-          };
-          return weatherCodes[code] || { description: 'Unknown', icon: '🌤️' };
-        };
+      // Note: OpenWeatherMap requires API key for most endpoints
+      // Using a free alternative: Open-Meteo API (no key required)
+      if (latitude && longitude) {
+        const lat = parseFloat(latitude as string);
+        const lon = parseFloat(longitude as string);
+        
+        const openMeteoUrl = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m&timezone=auto`;
+        const response = await fetch(openMeteoUrl);
+        
+        if (!response.ok) {
+          throw new Error(`Weather API error: ${response.status}`);
+        }
+        
+        const data = await response.json();
+        
+        // Map Open-Meteo weather codes to descriptions
+        const getWeatherDescription = (code: number) => {
+          const weatherCodes: Record<number, { description: string; icon: string }> = {
+            0: { description: 'Clear sky', icon: '☀️' },
+            1: { description: 'Mainly clear', icon: '🌤️' },
+            2: { description: 'Partly cloudy', icon: '⛅' },
+            3: { description: 'Overcast', icon: '☁️' },
+            45: { description: 'Foggy', icon: '🌫️' },
+            48: { description: 'Depositing rime fog', icon: '🌫️' },
+            51: { description: 'Light drizzle', icon: '🌦️' },
+            53: { description: 'Moderate drizzle', icon: '🌦️' },
+            55: { description: 'Dense drizzle', icon: '🌧️' },
+            61: { description: 'Slight rain', icon: '🌦️' },
+            63: { description: 'Moderate rain', icon: '🌧️' },
+            65: { description: 'Heavy rain', icon: '🌧️' },
+            80: { description: 'Slight rain showers', icon: '🌦️' },
+            81: { description: 'Moderate rain showers', icon: '🌧️' },
+            82: { description: 'Violent rain showers', icon: '⛈️' },
+            95: { description: 'Thunderstorm', icon: '⛈️' },
+            96: { description: 'Thunderstorm with hail', icon: '⛈️' },
+            99: { description: 'Thunderstorm with heavy hail', icon: '⛈️' }
+          };
+          return weatherCodes[code] || { description: 'Unknown', icon: '🌤️' };
+        };
+
+        const current = data.current;
+        const weather = getWeatherDescription(current.weather_code);
+        
+        res.json({
+          location: {
+            city: city || 'Unknown',
+            country: country || 'Unknown'
+          },
+          current: {
+            temperature: Math.round(current.temperature_2m),
+            humidity: current.relative_humidity_2m,
+            windSpeed: current.wind_speed_10m,
+            description: weather.description,
+            icon: weather.icon
+          },
+          units: {
+            temperature: '°C',
+            windSpeed: 'km/h',
+            humidity: '%'
+          }
+        });
+        
+      } else {
+        // Fallback: Return default weather for KL if no coordinates
+        res.json({
+          location: {
+            city: city || 'Kuala Lumpur',
+            country: country || 'Malaysia'
+          },
+          current: {
+            temperature: 30,
+            humidity: 75,
+            windSpeed: 10,
+            description: 'Partly cloudy',
+            icon: '⛅'
+          },
+          units: {
+            temperature: '°C',
+            windSpeed: 'km/h',
+            humidity: '%'
+          }
+        });
+      }
+
+    } catch (error) {
+      console.error("Error fetching weather:", error);
+      res.status(500).json({ error: "Failed to fetch weather data" });
+    }
+  });
+
+  // Admin endpoint to get TV token for current user
+  // Kept for older clients - returns the first active display token; POST issues one when there is none
+  app.get("/api/users/me/tv-token", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const displayTokens = await storage.getDisplayTokens(req.session.clinicId);
+      const displayToken = displayTokens.find(t => !t.revokedAt);
+      if (!displayToken) {
+        return res.status(404).json({ error: "No active TV link - create one first" });
+      }
+      
+      res.json({
+        tvToken: displayToken.token,
+        tvUrl: `/tv?token=${displayToken.token}`,
+        message: "TV Token for your clinic display"
+      });
+    } catch (error) {
+      console.error("Error fetching TV token:", error);
+      res.status(500).json({ error: "Failed to get TV token" });
+    }
+  });
+
+  app.post("/api/users/me/tv-token", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+      
+      const displayTokens = await storage.getDisplayTokens(req.session.clinicId);
+      let displayToken = displayTokens.find(t => !t.revokedAt);
+      if (!displayToken) {
+        displayToken = await storage.createDisplayToken("Main TV", req.session.clinicId);
+        await recordAudit(req, { action: "display_token.create", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label } });
+      }
+      
+      res.json({
+        tvToken: displayToken.token,
+        tvUrl: `/tv?token=${displayToken.token}`,
+        message: "TV Token for your clinic display"
+      });
+    } catch (error) {
+      console.error("Error generating TV token:", error);
+      res.status(500).json({ error: "Failed to generate TV token" });
+    }
+  });
+
+  // Get all display tokens for current user (one per physical TV)
+  app.get("/api/users/me/display-tokens", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const displayTokens = await storage.getDisplayTokens(req.session.clinicId);
+      res.json(displayTokens);
+    } catch (error) {
+      console.error("Error fetching display tokens:", error);
+      res.status(500).json({ error: "Failed to get display tokens" });
+    }
+  });
+
+  // Issue a new display token
+  app.post("/api/users/me/display-tokens", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = insertDisplayTokenSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const displayToken = await storage.createDisplayToken(validationResult.data.label, req.session.clinicId);
+      await recordAudit(req, { action: "display_token.create", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label } });
+      console.log(`📺 Display token issued: ${displayToken.label} (${displayToken.id})`);
+      res.status(201).json(displayToken);
+    } catch (error) {
+      console.error("Error creating display token:", error);
+      res.status(500).json({ error: "Failed to create display token" });
+    }
+  });
+
+  // Rename a display token
+  app.patch("/api/users/me/display-tokens/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = insertDisplayTokenSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const displayToken = await storage.renameDisplayToken(req.params.id, validationResult.data.label, req.session.clinicId);
+      if (!displayToken) {
+        return res.status(404).json({ error: "Display token not found" });
+      }
+      await recordAudit(req, { action: "display_token.rename", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label } });
+
+      res.json(displayToken);
+    } catch (error) {
+      console.error("Error renaming display token:", error);
+      res.status(500).json({ error: "Failed to rename display token" });
+    }
+  });
+
+  // Rotate a display token - the old TV URL stops working immediately
+  app.post("/api/users/me/display-tokens/:id/rotate", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const displayToken = await storage.rotateDisplayToken(req.params.id, req.session.clinicId);
+      if (!displayToken) {
+        return res.status(404).json({ error: "Display token not found or revoked" });
+      }
+      await recordAudit(req, { action: "display_token.rotate", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label } });
+
+      // Drop TVs still connected with the old token
+      globalIo?.in(`display:${displayToken.id}`).disconnectSockets(true);
+
+      console.log(`📺🔄 Display token rotated: ${displayToken.label} (${displayToken.id})`);
+      res.json(displayToken);
+    } catch (error) {
+      console.error("Error rotating display token:", error);
+      res.status(500).json({ error: "Failed to rotate display token" });
+    }
+  });
+
+  // Revoke a display token (kept for history, never resolves again)
+  app.delete("/api/users/me/display-tokens/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const displayToken = await storage.revokeDisplayToken(req.params.id, req.session.clinicId);
+      if (!displayToken) {
+        return res.status(404).json({ error: "Display token not found" });
+      }
+      await recordAudit(req, { action: "display_token.revoke", targetType: "display_token", targetId: displayToken.id, before: { label: displayToken.label } });
+
+      globalIo?.in(`display:${displayToken.id}`).disconnectSockets(true);
+
+      console.log(`📺❌ Display token revoked: ${displayToken.label} (${displayToken.id})`);
+      res.json(displayToken);
+    } catch (error) {
+      console.error("Error revoking display token:", error);
+      res.status(500).json({ error: "Failed to revoke display token" });
+    }
+  });
+
+  // Assign a display profile to a display token (null = every room in the clinic)
+  app.patch("/api/users/me/display-tokens/:id/profile", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = z.object({ profileId: z.string().nullable() }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { profileId } = validationResult.data;
+      const profile = profileId ? await storage.getDisplayProfile(profileId, req.session.clinicId) : undefined;
+      if (profileId && !profile) {
+        return res.status(404).json({ error: "Display profile not found" });
+      }
+
+      const displayToken = await storage.setDisplayTokenProfile(req.params.id, profileId, req.session.clinicId);
+      if (!displayToken) {
+        return res.status(404).json({ error: "Display token not found" });
+      }
+      await recordAudit(req, { action: "display_token.assign_profile", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label, profileId, profileName: profile?.name || null } });
+
+      // The TV re-sends tv:connect and joins the rooms of its new profile
+      globalIo?.to(`display:${displayToken.id}`).emit("tv:profile-assigned", { profileId });
+
+      res.json(displayToken);
+    } catch (error) {
+      console.error("Error assigning display profile:", error);
+      res.status(500).json({ error: "Failed to assign display profile" });
+    }
+  });
+
+  // Let a display token issue kiosk tickets - off by default, TV links are shown on public screens
+  app.patch("/api/users/me/display-tokens/:id/kiosk", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = z.object({ canIssueTickets: z.boolean() }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const { canIssueTickets } = validationResult.data;
+      const displayToken = await storage.setDisplayTokenKiosk(req.params.id, canIssueTickets, req.session.clinicId);
+      if (!displayToken) {
+        return res.status(404).json({ error: "Display token not found" });
+      }
+      await recordAudit(req, { action: "display_token.kiosk", targetType: "display_token", targetId: displayToken.id, after: { label: displayToken.label, canIssueTickets } });
+
+      res.json(displayToken);
+    } catch (error) {
+      console.error("Error changing kiosk access:", error);
+      res.status(500).json({ error: "Failed to change kiosk access" });
+    }
+  });
+
+  // Display profiles - named room groups with their own layout and media playlist
+
+  app.get("/api/display-profiles", async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const profiles = await storage.getDisplayProfiles(req.session.clinicId);
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching display profiles:", error);
+      res.status(500).json({ error: "Failed to get display profiles" });
+    }
+  });
+
+  app.post("/api/display-profiles", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = displayProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const unknownItem = await findUnknownProfileItem(req.session.clinicId, validationResult.data);
+      if (unknownItem) {
+        return res.status(400).json({ error: "Invalid data", details: [unknownItem] });
+      }
+
+      const profile = await storage.createDisplayProfile(validationResult.data, req.session.clinicId);
+      await recordAudit(req, { action: "display_profile.create", targetType: "display_profile", targetId: profile.id, after: profile });
+      console.log(`📺 Display profile created: ${profile.name} (${profile.id})`);
 
-        const current = data.current;
-        const weather = getWeatherDescription(current.weather_code);
-        
-        res.json({
-          location: {
-            city: city || 'Unknown',
-            country: country || 'Unknown'
-          },
-          current: {
-            temperature: Math.round(current.temperature_2m),
-            humidity: current.relative_humidity_2m,
-            windSpeed: current.wind_speed_10m,
-            description: weather.description,
-            icon: weather.icon
-          },
-          units: {
-            temperature: '°C',
-            windSpeed: 'km/h',
-            humidity: '%'
-          }
-        });
-        
-      } else {
-        // Fallback: Return default weather for KL if no coordinates
-        res.json({
-          location: {
-            city: city || 'Kuala Lumpur',
-            country: country || 'Malaysia'
-          },
-          current: {
-            temperature: 30,
-            humidity: 75,
-            windSpeed: 10,
-            description: 'Partly cloudy',
-            icon: '⛅'
-          },
-          units: {
-            temperature: '°C',
-            windSpeed: 'km/h',
-            humidity: '%'
-          }
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'display-profiles:updated', { profileId: profile.id, profile });
+      }
+
+      res.status(201).json(profile);
+    } catch (error) {
+      console.error("Error creating display profile:", error);
+      res.status(500).json({ error: "Failed to create display profile" });
+    }
+  });
+
+  app.patch("/api/display-profiles/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      // Check authentication
+      if (!req.session.clinicId) {
+        return res.status(401).json({ error: "Session inactive" });
+      }
+
+      const validationResult = updateDisplayProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid data", 
+          details: validationResult.error.issues.map(issue => issue.message)
         });
       }
 
+      const unknownItem = await findUnknownProfileItem(req.session.clinicId, validationResult.data);
+      if (unknownItem) {
+        return res.status(400).json({ error: "Invalid data", details: [unknownItem] });
+      }
+
+      const before = await storage.getDisplayProfile(req.params.id, req.session.clinicId);
+      const profile = await storage.updateDisplayProfile(req.params.id, validationResult.data, req.session.clinicId);
+      if (!profile) {
+        return res.status(404).json({ error: "Display profile not found" });
+      }
+      await recordAudit(req, { action: "display_profile.update", targetType: "display_profile", targetId: profile.id, before, after: profile });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'display-profiles:updated', { profileId: profile.id, profile });
+      }
+
+      res.json(profile);
     } catch (error) {
-      console.error("Error fetching weather:", error);
-      res.status(500).json({ error: "Failed to fetch weather data" });
+      console.error("Error updating display profile:", error);
+      res.status(500).json({ error: "Failed to update display profile" });
     }
   });
 
-  // Admin endpoint to get TV token for current user
-  app.get("/api/users/me/tv-token", async (req, res) => {
+  // TVs showing a deleted profile fall back to every room
+  app.delete("/api/display-profiles/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       // Check authentication
-      if (!req.session.userId) {
+      if (!req.session.clinicId) {
         return res.status(401).json({ error: "Session inactive" });
       }
-      
-      const tvToken = storage.generateTvToken(req.session.userId);
-      
-      res.json({
-        tvToken: tvToken,
-        tvUrl: `/tv?token=${tvToken}`,
-        message: "TV Token for your clinic display"
-      });
+
+      const { id } = req.params;
+      const before = await storage.getDisplayProfile(id, req.session.clinicId);
+      const deleted = await storage.deleteDisplayProfile(id, req.session.clinicId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Display profile not found" });
+      }
+      await recordAudit(req, { action: "display_profile.delete", targetType: "display_profile", targetId: id, before });
+
+      if (globalIo) {
+        broadcastToClinic(globalIo, req.session.clinicId, 'display-profiles:updated', { profileId: id, profile: null });
+      }
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error generating TV token:", error);
-      res.status(500).json({ error: "Failed to generate TV token" });
+      console.error("Error deleting display profile:", error);
+      res.status(500).json({ error: "Failed to delete display profile" });
     }
   });
 
   // ===== TV DISPLAY TOKEN ROUTES =====
   // These routes serve authenticated TV displays using clinic tokens
   
-  // TV Token resolution endpoint - resolve token to userId
+  // TV Token resolution endpoint - resolve token to clinic
   app.get("/api/tv/:token", async (req, res) => {
     try {
       const { token } = req.params;
       
-      const user = await storage.getUserByTvToken(token);
-      if (!user) {
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved) {
         return res.status(404).json({ error: "Invalid TV token or clinic not found" });
       }
       
-      if (!user.isActive) {
+      const { clinic, profile } = resolved;
+      if (!clinic.isActive) {
         return res.status(403).json({ error: "Clinic account not active" });
       }
       
-      // Return basic clinic info for TV display
+      // Return basic clinic info for TV display, with the display profile it shows (null = every room)
       res.json({
-        clinicId: user.id,
-        clinicName: user.username,
-        isActive: user.isActive,
-        token: token
+        clinicId: clinic.id,
+        clinicName: clinic.name,
+        isActive: clinic.isActive,
+        token: token,
+        profile: profile ? { id: profile.id, name: profile.name, layout: profile.layout } : null
       });
     } catch (error) {
       console.error("Error resolving TV token:", error);
@@ -2057,13 +4121,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { token } = req.params;
       
-      const user = await storage.getUserByTvToken(token);
-      if (!user || !user.isActive) {
+      const clinic = await storage.getClinicByTvToken(token);
+      if (!clinic || !clinic.isActive) {
         return res.status(404).json({ error: "Invalid TV token" });
       }
       
-      const settings = await storage.getSettings(user.id);
-      res.json(settings);
+      const settings = await storage.getSettings(clinic.id);
+      res.json(settings.filter(isDisplaySetting));
     } catch (error) {
       console.error("Error fetching TV settings:", error);
       res.status(500).json({ error: "Failed to get TV settings" });
@@ -2075,12 +4139,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { token } = req.params;
       
-      const user = await storage.getUserByTvToken(token);
-      if (!user || !user.isActive) {
+      const clinic = await storage.getClinicByTvToken(token);
+      if (!clinic || !clinic.isActive) {
         return res.status(404).json({ error: "Invalid TV token" });
       }
       
-      const activeTheme = await storage.getActiveTheme(user.id);
+      const activeTheme = await storage.getActiveTheme(clinic.id);
       res.json(activeTheme);
     } catch (error) {
       console.error("Error fetching TV active theme:", error);
@@ -2093,12 +4157,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { token } = req.params;
       
-      const user = await storage.getUserByTvToken(token);
-      if (!user || !user.isActive) {
+      const clinic = await storage.getClinicByTvToken(token);
+      if (!clinic || !clinic.isActive) {
         return res.status(404).json({ error: "Invalid TV token" });
       }
       
-      const activeTextGroups = await storage.getActiveTextGroups(user.id);
+      const activeTextGroups = await storage.getActiveTextGroups(clinic.id);
       res.json(activeTextGroups);
     } catch (error) {
       console.error("Error fetching TV active text groups:", error);
@@ -2106,17 +4170,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // TV Active Media endpoint
+  // TV current call - limited to the rooms of the token's display profile
+  app.get("/api/tv/:token/current-call", async (req, res) => {
+    try {
+      const { token } = req.params;
+      
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive) {
+        return res.status(404).json({ error: "Invalid TV token" });
+      }
+      
+      res.set({ 'Cache-Control': 'no-cache, no-store, must-revalidate' });
+      const currentCall = await storage.getCurrentCall(resolved.clinic.id, resolved.profile?.windowIds);
+      res.json(currentCall ? toTvPatient(currentCall) : null);
+    } catch (error) {
+      console.error("Error fetching TV current call:", error);
+      res.status(500).json({ error: "Failed to fetch current call" });
+    }
+  });
+  
+  // TV call history - limited to the rooms of the token's display profile
+  app.get("/api/tv/:token/history", async (req, res) => {
+    try {
+      const { token } = req.params;
+      
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive) {
+        return res.status(404).json({ error: "Invalid TV token" });
+      }
+      
+      // Public endpoint - a screen never shows more than a short list, so cap what a token can pull
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 20);
+      const history = await storage.getRecentHistory(resolved.clinic.id, limit, resolved.profile?.windowIds);
+      res.json(history.map(toTvPatient));
+    } catch (error) {
+      console.error("Error fetching TV history:", error);
+      res.status(500).json({ error: "Failed to fetch recent history" });
+    }
+  });
+  
+  // TV Active Media endpoint - the display profile's playlist when it has one
   app.get("/api/tv/:token/media/active", async (req, res) => {
     try {
       const { token } = req.params;
       
-      const user = await storage.getUserByTvToken(token);
-      if (!user || !user.isActive) {
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive) {
         return res.status(404).json({ error: "Invalid TV token" });
       }
       
-      const activeMedia = await storage.getActiveMedia(user.id);
+      const { clinic, profile } = resolved;
+      if (profile && profile.mediaIds.length > 0) {
+        const media = await storage.getMedia(clinic.id);
+        const playlist = profile.mediaIds
+          .map(mediaId => media.find(m => m.id === mediaId))
+          .filter((m): m is NonNullable<typeof m> => !!m);
+        return res.json(playlist);
+      }
+      
+      const activeMedia = await storage.getActiveMedia(clinic.id);
       res.json(activeMedia);
     } catch (error) {
       console.error("Error fetching TV active media:", error);
@@ -2124,6 +4236,294 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Kiosk endpoints - public, bound to a display token with kiosk access switched on (no staff login)
+
+  // Kiosk info - clinic name and services a walk-in patient can pick
+  app.get("/api/kiosk/:token", async (req, res) => {
+    try {
+      const { token } = req.params;
+      
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive || !resolved.displayToken.canIssueTickets) {
+        return res.status(404).json({ error: "Invalid kiosk token" });
+      }
+      const { clinic } = resolved;
+      
+      const services = await storage.getServices(clinic.id);
+      res.json({
+        clinicName: clinic.name,
+        isOpen: isClinicOpen(clinic),
+        services: services
+          .filter(service => service.isActive)
+          .map(service => ({ id: service.id, name: service.name, prefix: service.prefix })),
+        priorityReasons: KIOSK_PRIORITY_REASONS
+      });
+    } catch (error) {
+      console.error("Error resolving kiosk token:", error);
+      res.status(500).json({ error: "Failed to resolve kiosk token" });
+    }
+  });
+
+  // Pharmacy TV panel - ready and called prescriptions by ticket number only (no names)
+  app.get("/api/dispensary-display/:token", async (req, res) => {
+    try {
+      const { token } = req.params;
+
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive) {
+        return res.status(404).json({ error: "Invalid TV token" });
+      }
+
+      const { clinic, profile } = resolved;
+      const tickets = await storage.getDispensaryTickets(clinic.id);
+      const windows = await storage.getWindows(clinic.id);
+
+      res.json({
+        clinicName: clinic.name,
+        ready: tickets
+          .filter(ticket => ticket.status === "ready")
+          .sort((a, b) => new Date(a.readyAt || a.queuedAt).getTime() - new Date(b.readyAt || b.queuedAt).getTime())
+          .map(ticket => ({ ticket: formatTicketNumber(ticket.ticketPrefix, ticket.number) })),
+        called: tickets
+          .filter(ticket => ticket.status === "called")
+          .filter(ticket => !profile || (!!ticket.counterId && profile.windowIds.includes(ticket.counterId))) // Profile counters only
+          .sort((a, b) => new Date(b.calledAt || 0).getTime() - new Date(a.calledAt || 0).getTime())
+          .map(ticket => ({
+            ticket: formatTicketNumber(ticket.ticketPrefix, ticket.number),
+            counterName: windows.find(w => w.id === ticket.counterId)?.name || null,
+            calledAt: ticket.calledAt
+          }))
+      });
+    } catch (error) {
+      console.error("Error fetching dispensary display:", error);
+      res.status(500).json({ error: "Failed to fetch dispensary display" });
+    }
+  });
+
+  // Kiosk take-a-number - creates a number-only patient and returns the ticket
+  app.post("/api/kiosk/:token/tickets", async (req, res) => {
+    try {
+      const { token } = req.params;
+      
+      const resolved = await storage.resolveDisplayToken(token);
+      if (!resolved || !resolved.clinic.isActive || !resolved.displayToken.canIssueTickets) {
+        return res.status(404).json({ error: "Invalid kiosk token" });
+      }
+      const { clinic, displayToken } = resolved;
+
+      // Both limits are counted, so one busy kiosk cannot use up another's allowance
+      const [withinTokenLimit, withinIpLimit] = await Promise.all([
+        allowKioskTicketForToken(displayToken.id),
+        allowKioskTicketForIp(req.ip || "unknown"),
+      ]);
+      if (!withinTokenLimit || !withinIpLimit) {
+        console.warn(`⚠️ Kiosk ticket rate limit hit: ${displayToken.label} (${clinic.name}) from ${req.ip}`);
+        return res.status(429).json({ error: "Too many tickets - please wait a moment or ask at the counter" });
+      }
+      
+      // Walk-ins only during opening hours - staff can still register at the counter
+      if (!isClinicOpen(clinic)) {
+        return res.status(403).json({ error: "Clinic is closed" });
+      }
+      
+      const validationResult = kioskTicketSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+      
+      const { serviceId, priorityReason } = validationResult.data;
+      
+      let service;
+      if (serviceId) {
+        service = await storage.getService(serviceId, clinic.id);
+        if (!service || !service.isActive) {
+          return res.status(400).json({ error: "Service not found or inactive" });
+        }
+      }
+      
+      // Priority is only requested here - staff confirm it at the counter (PATCH /api/patients/:id/priority)
+      const patientData = newPatientSchema.parse({
+        name: null,
+        isPriority: false,
+        priorityReason: priorityReason || null,
+        serviceId: service?.id || null,
+        ticketPrefix: service?.prefix || null,
+        userId: clinic.id
+      });
+      
+      const patient = await storage.createPatient(patientData);
+      console.log(`🎫 Kiosk ticket issued: ${formatTicketNumber(patient.ticketPrefix, patient.number)} (${clinic.name})`);
+      await recordAudit(req, { action: "patient.create", targetType: "patient", targetId: patient.id, after: { ...patient, source: "kiosk" }, clinicId: clinic.id });
+
+      // Let staff screens pick up the walk-in immediately
+      if (globalIo) {
+        broadcastToClinic(globalIo, clinic.id, 'patient:created', { patient, source: 'kiosk' });
+      }
+      
+      // Ticket only - never return the full patient row on a public endpoint
+      res.status(201).json({
+        ticket: formatTicketNumber(patient.ticketPrefix, patient.number),
+        number: patient.number,
+        ticketPrefix: patient.ticketPrefix,
+        serviceName: service?.name || null,
+        isPriority: patient.isPriority,
+        priorityRequested: Boolean(patient.priorityReason),
+        statusCode: patient.statusCode,
+        registeredAt: patient.registeredAt,
+        clinicName: clinic.name
+      });
+    } catch (error) {
+      console.error("Error issuing kiosk ticket:", error);
+      res.status(500).json({ error: "Failed to issue ticket" });
+    }
+  });
+
+  // Public queue status for a patient's ticket - reached by the random code on the ticket QR
+  // Never returns names: only ticket numbers, counts and room names
+  app.get("/api/status/:code", async (req, res) => {
+    try {
+      const { code } = req.params;
+      
+      const patient = await storage.getPatientByStatusCode(code);
+      if (!patient) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      
+      const [clinic, patients, windows] = await Promise.all([
+        storage.getClinic(patient.userId),
+        storage.getPatients(patient.userId),
+        storage.getWindows(patient.userId)
+      ]);
+      if (!clinic || !clinic.isActive) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      
+      const service = patient.serviceId ? await storage.getService(patient.serviceId, patient.userId) : undefined;
+      
+      // Same service line as this patient (or the shared line when no service)
+      const sameLine = patients.filter(p => (p.serviceId || null) === (patient.serviceId || null));
+      
+      // Waiting patients that call-next would pick before this one
+      const isWaiting = (p: typeof patient) =>
+        !p.readyForDispensary && (p.status === 'waiting' || (p.status === 'requeue' && !p.requeueReason));
+      const callsBefore = (p: typeof patient) =>
+        Number(p.isPriority) - Number(patient.isPriority) ||
+        Number(p.status === 'requeue') - Number(patient.status === 'requeue') ||
+        new Date(patient.registeredAt).getTime() - new Date(p.registeredAt).getTime();
+      const peopleAhead = patient.status === 'waiting' || patient.status === 'requeue'
+        ? sameLine.filter(p => p.id !== patient.id && isWaiting(p) && callsBefore(p) > 0).length
+        : 0;
+      
+      // Most recent call on this line
+      const lastCalled = sameLine
+        .filter(p => p.calledAt && (p.status === 'called' || p.status === 'in-progress' || p.status === 'completed'))
+        .sort((a, b) => new Date(b.calledAt!).getTime() - new Date(a.calledAt!).getTime())[0];
+      
+      // ETA from recent registered -> called durations on this line
+      const recentWaits = sameLine
+        .filter(p => p.calledAt)
+        .sort((a, b) => new Date(b.calledAt!).getTime() - new Date(a.calledAt!).getTime())
+        .slice(0, 10)
+        .map(p => new Date(p.calledAt!).getTime() - new Date(p.registeredAt).getTime());
+      
+      let estimatedWaitMinutes: number | null = null;
+      if ((patient.status === 'waiting' || patient.status === 'requeue') && recentWaits.length > 0) {
+        const averageWaitMs = recentWaits.reduce((sum, ms) => sum + ms, 0) / recentWaits.length;
+        const waitedMs = Date.now() - new Date(patient.registeredAt).getTime();
+        estimatedWaitMinutes = Math.max(Math.round((averageWaitMs - waitedMs) / 60000), peopleAhead > 0 ? 1 : 0);
+      }
+      
+      const roomName = (windowId: string | null) => windows.find(w => w.id === windowId)?.name || null;
+      
+      res.json({
+        clinicName: clinic.name,
+        ticket: formatTicketNumber(patient.ticketPrefix, patient.number),
+        serviceName: service?.name || null,
+        status: patient.status,
+        room: patient.status === 'called' || patient.status === 'in-progress' ? roomName(patient.windowId) : null,
+        peopleAhead,
+        estimatedWaitMinutes,
+        currentCall: lastCalled ? {
+          ticket: formatTicketNumber(lastCalled.ticketPrefix, lastCalled.number),
+          room: roomName(lastCalled.windowId)
+        } : null,
+        registeredAt: patient.registeredAt
+      });
+    } catch (error) {
+      console.error("Error fetching queue status:", error);
+      res.status(500).json({ error: "Failed to get queue status" });
+    }
+  });
+
+  // VAPID public key for PushManager.subscribe on the status page
+  app.get("/api/push/public-key", async (req, res) => {
+    try {
+      const { publicKey } = await getVapidKeys();
+      res.json({ publicKey });
+    } catch (error) {
+      console.error("Error loading VAPID keys:", error);
+      res.status(500).json({ error: "Push notifications unavailable" });
+    }
+  });
+
+  // Subscribe this browser to "it's your turn" pushes for the ticket
+  app.post("/api/status/:code/push", async (req, res) => {
+    try {
+      const { code } = req.params;
+
+      const validationResult = pushSubscriptionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          error: "Invalid data",
+          details: validationResult.error.issues.map(issue => issue.message)
+        });
+      }
+
+      const patient = await storage.getPatientByStatusCode(code);
+      if (!patient) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+      if (patient.status === "completed") {
+        return res.status(409).json({ error: "Visit already completed" });
+      }
+
+      const { endpoint, keys } = validationResult.data;
+      await storage.savePushSubscription({
+        patientId: patient.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userId: patient.userId
+      });
+
+      res.status(201).json({ success: true });
+    } catch (error) {
+      console.error("Error saving push subscription:", error);
+      res.status(500).json({ error: "Failed to subscribe" });
+    }
+  });
+
+  app.delete("/api/status/:code/push", async (req, res) => {
+    try {
+      const { code } = req.params;
+      const endpoint = typeof req.body?.endpoint === "string" ? req.body.endpoint : "";
+
+      const patient = await storage.getPatientByStatusCode(code);
+      if (!patient) {
+        return res.status(404).json({ error: "Ticket not found" });
+      }
+
+      await storage.deletePushSubscription(endpoint, patient.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing push subscription:", error);
+      res.status(500).json({ error: "Failed to unsubscribe" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
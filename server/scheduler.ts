@@ -0,0 +1,47 @@
+import type { Server } from "socket.io";
+import { storage } from "./storage";
+import { broadcastToClinic } from "./websocket";
+import { getClinicDate, getClinicDayBounds } from "@shared/clinic-time";
+
+// How often clinics are checked for a passed rollover time
+const ROLLOVER_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Roll one clinic into its current day: archive leftovers and free their rooms.
+// rolloverQueue claims the day as it archives, so this is a no-op if another instance (or an earlier tick) already did it.
+async function rolloverClinic(io: Server, clinicId: string, clinicDate: string, dayStart: Date) {
+  const archivedCount = await storage.rolloverQueue(clinicId, clinicDate, dayStart);
+  if (archivedCount === undefined) return;
+
+  await storage.deleteInactivePushSubscriptions(clinicId);
+  console.log(`🌅 Daily rollover to ${clinicDate}: ${archivedCount} leftover patient(s) archived (clinic ${clinicId})`);
+
+  broadcastToClinic(io, clinicId, 'queue:updated', { reason: "rollover", clinicDate });
+}
+
+async function checkRollovers(io: Server) {
+  const clinics = await storage.getClinics();
+  const now = new Date();
+
+  for (const clinic of clinics) {
+    if (!clinic.isActive) continue;
+
+    const clinicDate = getClinicDate(clinic, now);
+    if (clinic.lastRolloverDate === clinicDate) continue;
+
+    try {
+      await rolloverClinic(io, clinic.id, clinicDate, getClinicDayBounds(clinic, clinicDate).start);
+    } catch (error) {
+      console.error(`❌ Daily rollover failed for clinic ${clinic.id}:`, error);
+    }
+  }
+}
+
+// Daily queue rollover at each clinic's local rollover time (also catches up after a restart)
+export function startDailyRollover(io: Server) {
+  const tick = () => {
+    checkRollovers(io).catch(error => console.error("❌ Daily rollover check failed:", error));
+  };
+
+  tick();
+  return setInterval(tick, ROLLOVER_CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,23 @@
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+
+// One session store and parser for Express and socket.io (see setupWebSocket). Sessions live in
+// Postgres, so any instance behind the load balancer can serve any request or socket.
+const PgSession = connectPgSimple(session);
+
+export const sessionMiddleware = session({
+  store: new PgSession({
+    conString: process.env.DATABASE_URL,
+    tableName: 'user_sessions',
+    createTableIfMissing: true,
+  }),
+  secret: process.env.SESSION_SECRET || 'clinic-management-secret-key-change-in-production',
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: false, // Set to false to work with both HTTP and HTTPS
+    httpOnly: true,
+    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+    sameSite: 'lax', // CSRF protection
+  },
+});
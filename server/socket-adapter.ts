@@ -0,0 +1,21 @@
+import pg from "pg";
+import type { Server } from "socket.io";
+import { createAdapter } from "@socket.io/postgres-adapter";
+
+// Socket.IO across instances without Redis: room broadcasts, disconnectSockets() and
+// serverSideEmit() are passed to the other instances through Postgres LISTEN/NOTIFY.
+// Uses plain pg rather than the neon driver in db.ts - LISTEN needs a long-lived connection.
+export function attachPostgresAdapter(io: Server) {
+  const pool = new pg.Pool({
+    connectionString: process.env.DATABASE_URL,
+    max: 2, // One LISTEN client plus NOTIFY / attachment queries
+  });
+  pool.on("error", (error) => {
+    console.error("❌ Socket.IO adapter connection error:", error);
+  });
+
+  io.adapter(createAdapter(pool, {
+    errorHandler: (error) => console.error("❌ Socket.IO Postgres adapter error:", error),
+  }));
+  console.log("🐘 Socket.IO Postgres adapter attached");
+}
@@ -1,10 +1,12 @@
-import { type User, type InsertUser, type Patient, type InsertPatient, type Setting, type InsertSetting, type Media, type InsertMedia, type TextGroup, type InsertTextGroup, type Theme, type InsertTheme, type QrSession, type InsertQrSession, users, settings, themes, textGroups, qrSessions } from "@shared/schema";
+import { type Clinic, type User, type InsertUser, type Patient, type InsertPatient, type NewPatient, type Setting, type InsertSetting, type Media, type InsertMedia, type TextGroup, type InsertTextGroup, type Theme, type InsertTheme, type QrSession, type InsertQrSession, type DisplayToken, type DisplayProfile, type DisplayProfileRequest, type UpdateDisplayProfileRequest, type Service, type InsertService, type PatientEvent, type InsertPatientEvent, type DispensaryTicket, type QueueReset, type Appointment, type InsertAppointment, type UpdateAppointmentRequest, type PatientProfile, type InsertPatientProfile, type UpdatePatientProfileRequest, type Notification, type InsertNotification, type NotificationStatus, type PushSubscription, type InsertPushSubscription, type AuditEntry, type InsertAuditEntry, type AuditLogQuery, type WindowType, clinics, users, settings, themes, textGroups, qrSessions, DEFAULT_ANNOUNCEMENT_TEMPLATES, normalizeIcNumber } from "@shared/schema";
 import * as schema from "@shared/schema";
+import { assertTransition, assertDispensaryTransition, assertAppointmentTransition, canTransition } from "@shared/patient-state";
+import { DEFAULT_CLINIC_SCHEDULE, getClinicDate, getClinicDayBounds, type ClinicSchedule } from "@shared/clinic-time";
 import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, or, sql, type SQL, isNull, inArray, notInArray, ne, asc, desc, ilike, like, gte, lte, lt } from "drizzle-orm";
 import * as bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
-import { createHash } from "crypto";
+import { createHash, randomBytes } from "crypto";
 
 interface Window {
   id: string;
@@ -13,30 +15,63 @@ interface Window {
   currentPatientId?: string;
   currentPatientName?: string;
   currentPatientNumber?: number;
+  serviceIds?: string[];
+  type?: string; // 'room' or 'dispensary'
   userId: string;
 }
 
 interface InsertWindow {
   name: string;
+  type?: WindowType;
   userId: string;
 }
 
-// TV Token utility - generates deterministic token from userId
-function generateTvToken(userId: string): string {
+// A TV link with the clinic it belongs to and the display profile it is assigned (null = whole clinic)
+export interface ResolvedDisplayToken {
+  clinic: Clinic;
+  displayToken: DisplayToken;
+  profile: DisplayProfile | null;
+}
+
+// Dispensary tickets still in the pharmacy queue
+const OPEN_DISPENSARY_STATUSES = ['preparing', 'ready', 'called'];
+
+// TV Token utility - random secret per display, stored in display_tokens
+function generateTvToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// Public status link code printed on patient tickets - unguessable, not derived from the queue number
+function generateStatusCode(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+// Legacy deterministic token (pre display_tokens) - only used to migrate existing TV links
+const LEGACY_DISPLAY_TOKENS_CONFIG_KEY = "legacyDisplayTokensMigratedAt"; // deployment_config flag - set once migrated
+
+function legacyTvToken(userId: string): string {
   const hash = createHash('sha256')
     .update(`tv-token-${userId}-clinic-display`)
     .digest('hex');
-  return hash.substring(0, 32); // First 32 chars for security
+  return hash.substring(0, 32);
 }
 
-// Token resolution - extract userId from token
-function resolveUserIdFromToken(token: string, allUsers: User[]): string | undefined {
-  for (const user of allUsers) {
-    if (generateTvToken(user.id) === token) {
-      return user.id;
-    }
-  }
-  return undefined;
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// TVs poll several endpoints every few seconds - only record lastSeenAt once a minute
+const DISPLAY_TOKEN_SEEN_INTERVAL_MS = 60 * 1000;
+
+// "Today" follows the clinic's timezone and rollover time, never the server's UTC date
+async function getClinicSchedule(clinicId: string): Promise<ClinicSchedule> {
+  const result = await db.select().from(clinics).where(eq(clinics.id, clinicId)).limit(1);
+  return result[0] || DEFAULT_CLINIC_SCHEDULE;
+}
+
+// Bounds of one clinic day (today by default) or of an inclusive range of clinic days
+async function getDayBounds(clinicId: string, from?: string, to?: string): Promise<{ start: Date; end: Date }> {
+  const schedule = await getClinicSchedule(clinicId);
+  const day = from || getClinicDate(schedule);
+  return getClinicDayBounds(schedule, day, to || day);
 }
 
 // modify the interface with any CRUD methods
@@ -53,20 +88,53 @@ export interface IStorage {
   toggleUserStatus(userId: string): Promise<User | undefined>;
   // Authentication methods
   authenticateUser(username: string, password: string): Promise<User | null>;
+  // Clinic (tenant) methods - the clinic id is the userId passed to every tenant-scoped method below
+  getClinic(id: string): Promise<Clinic | undefined>;
+  createClinic(name: string, id?: string): Promise<Clinic>;
+  getClinicStaff(clinicId: string): Promise<User[]>;
+  getClinics(): Promise<Clinic[]>;
+  updateClinicSchedule(id: string, updates: Partial<Pick<Clinic, "timezone" | "dayRolloverTime" | "openingHours">>): Promise<Clinic | undefined>;
+  getClinicToday(clinicId: string): Promise<string>; // Current clinic day (YYYY-MM-DD) in the clinic's timezone
   // TV Token methods
-  getUserByTvToken(token: string): Promise<User | undefined>;
-  generateTvToken(userId: string): string;
+  getClinicByTvToken(token: string): Promise<Clinic | undefined>;
+  resolveDisplayToken(token: string): Promise<ResolvedDisplayToken | undefined>;
+  getDisplayTokens(userId: string): Promise<DisplayToken[]>;
+  createDisplayToken(label: string, userId: string): Promise<DisplayToken>;
+  renameDisplayToken(id: string, label: string, userId: string): Promise<DisplayToken | undefined>;
+  rotateDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined>;
+  revokeDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined>;
+  setDisplayTokenProfile(id: string, profileId: string | null, userId: string): Promise<DisplayToken | undefined>;
+  setDisplayTokenKiosk(id: string, canIssueTickets: boolean, userId: string): Promise<DisplayToken | undefined>;
+
+  // Display profile methods
+  getDisplayProfiles(userId: string): Promise<DisplayProfile[]>;
+  getDisplayProfile(id: string, userId: string): Promise<DisplayProfile | undefined>;
+  createDisplayProfile(profile: DisplayProfileRequest, userId: string): Promise<DisplayProfile>;
+  updateDisplayProfile(id: string, updates: UpdateDisplayProfileRequest, userId: string): Promise<DisplayProfile | undefined>;
+  deleteDisplayProfile(id: string, userId: string): Promise<boolean>; // Tokens showing it fall back to the whole clinic
   
   // Patient methods
-  createPatient(patient: InsertPatient): Promise<Patient>;
+  createPatient(patient: NewPatient, actorUserId?: string): Promise<Patient>; // Allocates the next number of the patient's service
   getPatients(userId: string): Promise<Patient[]>;
   getPatientsByDate(date: string, userId: string): Promise<Patient[]>;
-  getNextPatientNumber(userId: string): Promise<number>;
-  updatePatientStatus(patientId: string, status: string, userId: string, windowId?: string | null, requeueReason?: string): Promise<Patient | undefined>;
+  getPatientsInRange(from: string, to: string, userId: string): Promise<Patient[]>; // Reports/exports - includes archived (reset) patients
+  getPatientByStatusCode(statusCode: string): Promise<Patient | undefined>; // Public status link - code is the only credential
+  getNextPatientNumber(userId: string, serviceId?: string | null): Promise<number>;
+  updatePatientStatus(patientId: string, status: string, userId: string, windowId?: string | null, requeueReason?: string, actorUserId?: string): Promise<Patient | undefined>; // Throws InvalidTransitionError for illegal moves
+  callNextPatient(windowId: string, userId: string, actorUserId?: string): Promise<Patient | undefined>; // Atomically pick and call the next eligible patient
+  clearRequeueReason(patientId: string, userId: string): Promise<Patient | undefined>; // Requeue reason resolved - patient eligible for call-next again
   togglePatientPriority(patientId: string, userId: string): Promise<Patient | undefined>;
+  // Journey events, oldest first - selected by the same patient filter as the matching patient query,
+  // never by an id list (a long report range would exceed the bind parameter limit)
+  getCurrentPatientEvents(userId: string): Promise<PatientEvent[]>; // Patients of getPatients
+  getPatientEventsInRange(from: string, to: string, userId: string): Promise<PatientEvent[]>; // Patients of getPatientsInRange
+  getProfileVisitEvents(profileId: string, userId: string): Promise<PatientEvent[]>; // Patients of getProfileVisits
   deletePatient(patientId: string, userId: string): Promise<boolean>;
   archiveCompletedPatients(userId: string): Promise<number>; // Soft delete completed patients for queue reset
-  deleteAllTodayPatients(userId: string): Promise<number>; // Delete ALL today's patients for complete queue reset
+  resetQueue(userId: string, actorUserId?: string): Promise<QueueReset>; // Archive ALL today's patients and clear rooms - numbering restarts at 1
+  getLatestQueueReset(userId: string): Promise<QueueReset | undefined>;
+  undoQueueReset(resetId: string, userId: string): Promise<number | undefined>; // Restore the archived patients and room assignments; undefined if missing or already undone
+  rolloverQueue(userId: string, clinicDate: string, dayStart: Date): Promise<number | undefined>; // Claim the clinic day, archive patients left over from earlier days and clear rooms; undefined if the day was already rolled over
   
   // Window methods
   getWindows(userId: string): Promise<Window[]>;
@@ -75,6 +143,64 @@ export interface IStorage {
   deleteWindow(windowId: string, userId: string): Promise<boolean>;
   toggleWindowStatus(windowId: string, userId: string): Promise<Window | undefined>;
   updateWindowPatient(windowId: string, userId: string, patientId?: string): Promise<Window | undefined>;
+  updateWindowServices(windowId: string, serviceIds: string[], userId: string): Promise<Window | undefined>;
+
+  // Dispensary queue methods - tickets are opened by updatePatientStatus(..., 'dispensary')
+  getDispensaryTickets(userId: string): Promise<DispensaryTicket[]>; // Open tickets (preparing/ready/called) of live patients
+  updateDispensaryTicketStatus(ticketId: string, status: string, userId: string, counterId?: string): Promise<DispensaryTicket | undefined>; // Throws InvalidTransitionError; 'collected' completes the patient
+  callNextDispensaryTicket(counterId: string, userId: string): Promise<DispensaryTicket | undefined>; // Priority first, then oldest ready
+
+  // Patient registry methods - visits are patients rows linked by profileId
+  searchPatientProfiles(query: string, userId: string, limit?: number): Promise<PatientProfile[]>; // IC, MRN, name or phone
+  getPatientProfile(id: string, userId: string): Promise<PatientProfile | undefined>;
+  findPatientProfileConflict(identifiers: { icNumber?: string | null; mrn?: string | null }, userId: string, excludeId?: string): Promise<PatientProfile | undefined>; // Another profile with the same IC or MRN
+  createPatientProfile(profile: InsertPatientProfile): Promise<PatientProfile>;
+  updatePatientProfile(id: string, updates: UpdatePatientProfileRequest, userId: string): Promise<PatientProfile | undefined>;
+  getProfileVisits(profileId: string, userId: string): Promise<Patient[]>; // Includes archived visits, newest first
+  linkPatientProfile(patientId: string, profileId: string | null, userId: string): Promise<Patient | undefined>;
+
+  // Appointment methods - phone bookings per clinic day
+  getAppointments(date: string, userId: string): Promise<Appointment[]>; // By slot time
+  getAppointment(id: string, userId: string): Promise<Appointment | undefined>;
+  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
+  updateAppointment(id: string, updates: UpdateAppointmentRequest, userId: string): Promise<Appointment | undefined>;
+  updateAppointmentStatus(id: string, status: string, userId: string): Promise<Appointment | undefined>; // Throws InvalidTransitionError; use checkInAppointment for check-in
+  checkInAppointment(id: string, patient: NewPatient, userId: string, actorUserId?: string): Promise<{ appointment: Appointment; patient: Patient } | undefined>; // Creates the queue entry; throws InvalidTransitionError
+
+  // Turn notification methods - SMS/WhatsApp delivery log
+  getNotifications(userId: string, limit?: number): Promise<Notification[]>; // Newest first
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  claimNotification(notification: InsertNotification): Promise<Notification | undefined>; // Inserts a once-per-patient ("near") message unless one exists - undefined means do not send
+  updateNotification(id: string, updates: Partial<Pick<Notification, 'status' | 'providerMessageId' | 'error'>>): Promise<Notification | undefined>;
+  updateNotificationDelivery(provider: string, providerMessageId: string, status: NotificationStatus, error?: string | null): Promise<Notification | undefined>; // Provider callbacks - no clinic in scope
+
+  // Web Push methods - status page subscriptions, dropped once the visit is over
+  getPushSubscriptions(patientId: string, userId: string): Promise<PushSubscription[]>;
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>; // Upsert by endpoint
+  markPushSubscriptionUsed(id: string): Promise<void>;
+  deletePushSubscription(endpoint: string, patientId: string): Promise<boolean>;
+  deletePatientPushSubscriptions(patientId: string, userId: string): Promise<number>;
+  deleteInactivePushSubscriptions(userId: string): Promise<number>; // Completed, archived or deleted patients
+
+  // Deployment-wide config (no clinic) - e.g. generated VAPID keys
+  getDeploymentConfig(key: string): Promise<string | undefined>;
+  claimDeploymentConfig(key: string, value: string): Promise<string>; // Stores value unless the key exists; returns whichever is stored
+
+  // Public rate limits - one fixed window per key, shared by every instance
+  countRateLimitHit(key: string, windowMs: number): Promise<number>; // Counts a hit; returns the hits in the key's current window
+  deleteExpiredRateLimits(keyPrefix: string, windowMs: number): Promise<number>;
+
+  // Audit log methods - append-only; purgeAuditLog is the retention job
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getAuditLog(query: AuditLogQuery, userId: string): Promise<{ entries: AuditEntry[]; total: number }>; // Newest first
+  purgeAuditLog(olderThan: Date, userId: string): Promise<number>;
+  
+  // Service methods
+  getServices(userId: string): Promise<Service[]>;
+  getService(id: string, userId: string): Promise<Service | undefined>;
+  createService(service: InsertService): Promise<Service>;
+  updateService(id: string, updates: Partial<Pick<Service, 'name' | 'prefix' | 'isActive'>>, userId: string): Promise<Service | undefined>;
+  deleteService(id: string, userId: string): Promise<boolean>;
   
   // Dashboard methods
   getDashboardStats(userId: string): Promise<{
@@ -84,8 +210,9 @@ export interface IStorage {
     activeWindows: number;
     totalWindows: number;
   }>;
-  getCurrentCall(userId: string): Promise<Patient | undefined>;
-  getRecentHistory(userId: string, limit?: number): Promise<Patient[]>;
+  // windowIds limits both to the rooms of a display profile
+  getCurrentCall(userId: string, windowIds?: string[]): Promise<Patient | undefined>;
+  getRecentHistory(userId: string, limit?: number, windowIds?: string[]): Promise<Patient[]>;
   
   // Settings methods
   getSettings(userId: string): Promise<Setting[]>;
@@ -139,6 +266,19 @@ export class MemStorage implements IStorage {
   private themes: Map<string, Theme>;
   private textGroups: Map<string, TextGroup>;
   private qrSessions: Map<string, QrSession>;
+  private displayTokens: Map<string, DisplayToken>;
+  private displayProfiles: Map<string, DisplayProfile>;
+  private services: Map<string, Service>;
+  private patientEvents: PatientEvent[];
+  private dispensaryTickets: Map<string, DispensaryTicket>;
+  private auditEntries: AuditEntry[];
+  private queueResets: QueueReset[];
+  private appointments: Map<string, Appointment>;
+  private patientProfiles: Map<string, PatientProfile>;
+  private notifications: Map<string, Notification>;
+  private pushSubscriptions: Map<string, PushSubscription>; // Keyed by endpoint
+  private deploymentConfig: Map<string, string>;
+  private rateLimits: Map<string, { startedAt: number; count: number }>;
   private systemUserId: string;
 
   constructor() {
@@ -149,6 +289,19 @@ export class MemStorage implements IStorage {
     this.themes = new Map();
     this.textGroups = new Map();
     this.qrSessions = new Map();
+    this.displayTokens = new Map();
+    this.displayProfiles = new Map();
+    this.services = new Map();
+    this.patientEvents = [];
+    this.dispensaryTickets = new Map();
+    this.auditEntries = [];
+    this.queueResets = [];
+    this.appointments = new Map();
+    this.patientProfiles = new Map();
+    this.notifications = new Map();
+    this.pushSubscriptions = new Map();
+    this.deploymentConfig = new Map();
+    this.rateLimits = new Map();
     
     // Use a default system user ID for settings that need user association
     this.systemUserId = "system";
@@ -172,7 +325,13 @@ export class MemStorage implements IStorage {
       { key: "enableSound", value: "true", category: "sound" },
       { key: "volume", value: "70", category: "sound" },
       { key: "soundMode", value: "preset", category: "sound" },
-      { key: "presetKey", value: "airport_call", category: "sound" }
+      { key: "presetKey", value: "airport_call", category: "sound" },
+      { key: "enableAnnouncement", value: "false", category: "sound" },
+      { key: "announcementLanguage", value: "ms-MY", category: "sound" },
+      { key: "announcementTemplate", value: DEFAULT_ANNOUNCEMENT_TEMPLATES["ms-MY"], category: "sound" },
+      { key: "announcementRepeat", value: "1", category: "sound" },
+      { key: "speechRate", value: "0.9", category: "sound" },
+      { key: "speechPitch", value: "1", category: "sound" }
     ];
 
     for (const setting of defaultSettings) {
@@ -256,8 +415,10 @@ export class MemStorage implements IStorage {
     const userToInsert = {
       username: insertUser.username,
       password: hashedPassword, // Store hashed password
-      role: insertUser.role || "user",
+      role: insertUser.role || "clinic_manager",
       isActive: true,
+      clinicId: insertUser.clinicId,
+      assignedWindowIds: insertUser.assignedWindowIds || [],
     };
     
     const result = await db.insert(users).values(userToInsert).returning();
@@ -337,25 +498,189 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // Clinic methods - clinics live in the database like users
+  async getClinic(id: string): Promise<Clinic | undefined> {
+    const result = await db.select().from(clinics).where(eq(clinics.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createClinic(name: string, id?: string): Promise<Clinic> {
+    const result = await db.insert(clinics).values({ id, name }).returning();
+    // New clinics start with one random TV link
+    await this.createDisplayToken("TV Display", result[0].id);
+    return result[0];
+  }
+
+  async getClinicStaff(clinicId: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.clinicId, clinicId)).orderBy(asc(users.username));
+  }
+
+  async getClinics(): Promise<Clinic[]> {
+    return await db.select().from(clinics).orderBy(asc(clinics.name));
+  }
+
+  async updateClinicSchedule(id: string, updates: Partial<Pick<Clinic, "timezone" | "dayRolloverTime" | "openingHours">>): Promise<Clinic | undefined> {
+    const result = await db.update(clinics).set(updates).where(eq(clinics.id, id)).returning();
+    return result[0];
+  }
+
+  async getClinicToday(clinicId: string): Promise<string> {
+    return getClinicDate(await getClinicSchedule(clinicId));
+  }
+
   // TV Token methods - for unauthenticated TV displays
-  generateTvToken(userId: string): string {
-    return generateTvToken(userId);
+  async getClinicByTvToken(token: string): Promise<Clinic | undefined> {
+    const resolved = await this.resolveDisplayToken(token);
+    return resolved?.clinic;
+  }
+
+  async resolveDisplayToken(token: string): Promise<ResolvedDisplayToken | undefined> {
+    const displayToken = Array.from(this.displayTokens.values())
+      .find(t => t.token === token && !t.revokedAt);
+    if (!displayToken) return undefined;
+
+    const clinic = await this.getClinic(displayToken.userId);
+    if (!clinic) return undefined;
+
+    const now = new Date();
+    if (!displayToken.lastSeenAt || now.getTime() - displayToken.lastSeenAt.getTime() > DISPLAY_TOKEN_SEEN_INTERVAL_MS) {
+      displayToken.lastSeenAt = now;
+    }
+    // A token pointing at a missing profile is refused rather than widened to every room
+    const profile = displayToken.profileId ? await this.getDisplayProfile(displayToken.profileId, clinic.id) : null;
+    if (profile === undefined) return undefined;
+    return { clinic, displayToken, profile };
+  }
+
+  async getDisplayTokens(userId: string): Promise<DisplayToken[]> {
+    return Array.from(this.displayTokens.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createDisplayToken(label: string, userId: string): Promise<DisplayToken> {
+    const displayToken: DisplayToken = {
+      id: randomUUID(),
+      token: generateTvToken(),
+      label,
+      createdAt: new Date(),
+      lastSeenAt: null,
+      revokedAt: null,
+      profileId: null,
+      canIssueTickets: false,
+      userId,
+    };
+    this.displayTokens.set(displayToken.id, displayToken);
+    return displayToken;
+  }
+
+  async renameDisplayToken(id: string, label: string, userId: string): Promise<DisplayToken | undefined> {
+    const displayToken = this.displayTokens.get(id);
+    if (!displayToken || displayToken.userId !== userId) return undefined;
+
+    const updated = { ...displayToken, label };
+    this.displayTokens.set(id, updated);
+    return updated;
+  }
+
+  async rotateDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined> {
+    const displayToken = this.displayTokens.get(id);
+    if (!displayToken || displayToken.userId !== userId || displayToken.revokedAt) return undefined;
+
+    const updated = { ...displayToken, token: generateTvToken(), lastSeenAt: null };
+    this.displayTokens.set(id, updated);
+    return updated;
+  }
+
+  async revokeDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined> {
+    const displayToken = this.displayTokens.get(id);
+    if (!displayToken || displayToken.userId !== userId) return undefined;
+
+    const updated = { ...displayToken, revokedAt: displayToken.revokedAt || new Date() };
+    this.displayTokens.set(id, updated);
+    return updated;
+  }
+
+  async setDisplayTokenProfile(id: string, profileId: string | null, userId: string): Promise<DisplayToken | undefined> {
+    const displayToken = this.displayTokens.get(id);
+    if (!displayToken || displayToken.userId !== userId) return undefined;
+
+    const updated = { ...displayToken, profileId };
+    this.displayTokens.set(id, updated);
+    return updated;
+  }
+
+  async setDisplayTokenKiosk(id: string, canIssueTickets: boolean, userId: string): Promise<DisplayToken | undefined> {
+    const displayToken = this.displayTokens.get(id);
+    if (!displayToken || displayToken.userId !== userId) return undefined;
+
+    const updated = { ...displayToken, canIssueTickets };
+    this.displayTokens.set(id, updated);
+    return updated;
+  }
+
+  // Display profile methods
+  async getDisplayProfiles(userId: string): Promise<DisplayProfile[]> {
+    return Array.from(this.displayProfiles.values())
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDisplayProfile(id: string, userId: string): Promise<DisplayProfile | undefined> {
+    const profile = this.displayProfiles.get(id);
+    return profile && profile.userId === userId ? profile : undefined;
   }
 
-  async getUserByTvToken(token: string): Promise<User | undefined> {
-    // Get all users from database and check token match
-    const allUsers = await this.getUsers();
-    const userId = resolveUserIdFromToken(token, allUsers);
-    return userId ? this.getUser(userId) : undefined;
+  async createDisplayProfile(profile: DisplayProfileRequest, userId: string): Promise<DisplayProfile> {
+    const displayProfile: DisplayProfile = {
+      id: randomUUID(),
+      name: profile.name,
+      windowIds: profile.windowIds,
+      layout: profile.layout ?? null,
+      mediaIds: profile.mediaIds,
+      createdAt: new Date(),
+      userId,
+    };
+    this.displayProfiles.set(displayProfile.id, displayProfile);
+    return displayProfile;
+  }
+
+  async updateDisplayProfile(id: string, updates: UpdateDisplayProfileRequest, userId: string): Promise<DisplayProfile | undefined> {
+    const profile = await this.getDisplayProfile(id, userId);
+    if (!profile) return undefined;
+
+    const updated: DisplayProfile = {
+      ...profile,
+      name: updates.name ?? profile.name,
+      windowIds: updates.windowIds ?? profile.windowIds,
+      layout: updates.layout !== undefined ? updates.layout : profile.layout,
+      mediaIds: updates.mediaIds ?? profile.mediaIds,
+    };
+    this.displayProfiles.set(id, updated);
+    return updated;
   }
 
-  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
+  async deleteDisplayProfile(id: string, userId: string): Promise<boolean> {
+    const profile = await this.getDisplayProfile(id, userId);
+    if (!profile) return false;
+
+    this.displayProfiles.delete(id);
+    this.displayTokens.forEach((displayToken, tokenId) => {
+      if (displayToken.profileId === id) {
+        this.displayTokens.set(tokenId, { ...displayToken, profileId: null });
+      }
+    });
+    return true;
+  }
+
+  async createPatient(insertPatient: NewPatient, actorUserId?: string): Promise<Patient> {
     const id = randomUUID();
     const now = new Date();
     const patient: Patient = {
       id,
       name: insertPatient.name || null,
-      number: insertPatient.number,
+      phone: insertPatient.phone || null,
+      number: await this.getNextPatientNumber(insertPatient.userId, insertPatient.serviceId),
       status: "waiting",
       isPriority: insertPatient.isPriority || false,
       priorityReason: insertPatient.priorityReason || null,
@@ -366,14 +691,18 @@ export class MemStorage implements IStorage {
       calledAt: null,
       completedAt: null,
       requeueReason: null,
-      trackingHistory: [{
-        timestamp: now.toISOString(),
-        action: 'registered'
-      }],
+      trackingHistory: [], // Legacy - journey now lives in patient_events
       archivedAt: null,
+      queueResetId: null,
+      serviceId: insertPatient.serviceId || null,
+      ticketPrefix: insertPatient.ticketPrefix || null,
+      statusCode: generateStatusCode(),
+      appointmentId: null,
+      profileId: insertPatient.profileId || null,
       userId: insertPatient.userId
     };
     this.patients.set(id, patient);
+    this.recordPatientEvent(patient, { eventType: 'registered', actorUserId: actorUserId || null });
     return patient;
   }
 
@@ -383,9 +712,7 @@ export class MemStorage implements IStorage {
   }
 
   async getPatientsByDate(date: string, userId: string): Promise<Patient[]> {
-    const targetDate = new Date(date);
-    const startOfDay = new Date(targetDate.setHours(0, 0, 0, 0));
-    const endOfDay = new Date(targetDate.setHours(23, 59, 59, 999));
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId, date);
     
     return Array.from(this.patients.values()).filter(
       (patient) => 
@@ -396,107 +723,114 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getNextPatientNumber(userId: string): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const todayPatients = await this.getPatientsByDate(today, userId);
-    return todayPatients.length + 1;
+  async getPatientsInRange(from: string, to: string, userId: string): Promise<Patient[]> {
+    const { start, end } = await getDayBounds(userId, from, to);
+
+    return Array.from(this.patients.values()).filter(
+      (patient) =>
+        patient.userId === userId &&
+        patient.registeredAt >= start &&
+        patient.registeredAt <= end
+    );
+  }
+
+  async getPatientByStatusCode(statusCode: string): Promise<Patient | undefined> {
+    return Array.from(this.patients.values()).find(p => p.statusCode === statusCode && !p.archivedAt);
+  }
+
+  async getNextPatientNumber(userId: string, serviceId?: string | null): Promise<number> {
+    const todayPatients = await this.getPatientsByDate(await this.getClinicToday(userId), userId);
+    // Each service keeps its own daily sequence
+    return todayPatients.filter(p => (p.serviceId || null) === (serviceId || null)).length + 1;
   }
 
-  async updatePatientStatus(patientId: string, status: string, userId: string, windowId?: string | null, requeueReason?: string): Promise<Patient | undefined> {
+  async updatePatientStatus(patientId: string, status: string, userId: string, windowId?: string | null, requeueReason?: string, actorUserId?: string): Promise<Patient | undefined> {
     const patient = this.patients.get(patientId);
     if (!patient || patient.userId !== userId) return undefined;
 
-    const now = new Date();
+    // Reject illegal moves (e.g. completed -> called, or a recall from another room) before touching anything
+    assertTransition(patient, status, windowId);
+    this.moveRoomPointers(patientId, status, userId, windowId);
 
-    // Get existing tracking history as JSON array
-    let trackingHistory: any[] = [];
-    try {
-      trackingHistory = Array.isArray(patient.trackingHistory) ? patient.trackingHistory : [];
-    } catch (e) {
-      trackingHistory = [];
-    }
+    const now = new Date();
+    
+    // Journey event for this status change (appended to patient_events)
+    const event: Omit<InsertPatientEvent, 'patientId' | 'userId'> = { eventType: status, actorUserId: actorUserId || null };
     
-    // Add new journey event based on status change
     if (status === "called" && windowId) {
       const window = this.windows.get(windowId);
       // SECURITY: Ensure window belongs to same user to prevent cross-tenant access
       if (window && window.userId === userId) {
-        trackingHistory.push({
-          timestamp: now.toISOString(),
-          action: 'called',
-          roomName: window.name
-        });
+        event.windowId = window.id;
+        event.roomName = window.name;
         patient.calledAt = now;
         patient.readyForDispensary = false; // Clear flag when patient is called
       } else if (windowId) {
         // Invalid window assignment - reject the operation
         return undefined;
       }
-    } else if (status === "in-progress") {
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'in-progress'
-      });
     } else if (status === "completed") {
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'completed'
-      });
-      
       // Keep windowId unchanged - patient stays visible on TV
       const updatedPatient = {
         ...patient,
         status: "completed",
-        completedAt: now,
-        trackingHistory: trackingHistory
+        completedAt: now
         // windowId remains unchanged
       };
       
       this.patients.set(patientId, updatedPatient);
+      this.cancelOpenDispensaryTickets(patientId); // Visit over - leave the pharmacy queue
+      this.recordPatientEvent(updatedPatient, event);
       return updatedPatient;
     } else if (status === "requeue") {
-      // Get current room name for tracking
+      // Record the room the patient was requeued from
       const currentWindow = patient.windowId ? this.windows.get(patient.windowId) : null;
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'requeued',
-        requeueReason: requeueReason || 'No reason specified',
-        fromRoom: currentWindow?.name || 'Unknown'
-      });
+      event.eventType = 'requeued';
+      event.windowId = currentWindow?.id || null;
+      event.roomName = currentWindow?.name || null;
+      event.reason = requeueReason || 'No reason specified';
       
       // Keep windowId unchanged - patient stays visible on TV
       const updatedPatient = {
         ...patient,
         status: "requeue",
         requeueReason: requeueReason || null,
-        trackingHistory: trackingHistory
+        readyForDispensary: false // Back to the main queue
         // windowId remains unchanged
       };
       
       this.patients.set(patientId, updatedPatient);
+      this.cancelOpenDispensaryTickets(patientId);
+      this.recordPatientEvent(updatedPatient, event);
       return updatedPatient;
     } else if (status === "dispensary") {
-      // Special handling for dispensary - find DISPENSARY window
-      const dispensaryWindow = Array.from(this.windows.values()).find(
-        w => w.name === 'DISPENSARY' && w.userId === userId
-      );
-      
-      if (dispensaryWindow) {
-        trackingHistory.push({
-          timestamp: now.toISOString(),
-          action: 'dispensary',
-          roomName: 'DISPENSARY'
-        });
-      }
+      event.roomName = 'DISPENSARY';
       
       // For dispensary, keep status and window unchanged, just set readyForDispensary flag
       const updatedPatient = {
         ...patient,
-        readyForDispensary: true,
-        trackingHistory: trackingHistory
+        readyForDispensary: true
       };
       
       this.patients.set(patientId, updatedPatient);
+      this.recordPatientEvent(updatedPatient, event);
+
+      // Open a ticket in the pharmacy queue
+      const ticket: DispensaryTicket = {
+        id: randomUUID(),
+        patientId,
+        number: patient.number,
+        ticketPrefix: patient.ticketPrefix,
+        isPriority: patient.isPriority,
+        status: 'preparing',
+        counterId: null,
+        queuedAt: now,
+        readyAt: null,
+        calledAt: null,
+        collectedAt: null,
+        userId
+      };
+      this.dispensaryTickets.set(ticket.id, ticket);
       return updatedPatient;
     }
 
@@ -515,10 +849,110 @@ export class MemStorage implements IStorage {
       ...patient,
       status,
       windowId: windowId === null ? null : (windowId || patient.windowId),
-      lastWindowId: lastWindowId,
-      trackingHistory: trackingHistory
+      lastWindowId: lastWindowId
+    };
+
+    this.patients.set(patientId, updatedPatient);
+    this.recordPatientEvent(updatedPatient, event);
+    return updatedPatient;
+  }
+
+  // The called room points at the patient and every other room lets go; leaving the rooms frees them all
+  private moveRoomPointers(patientId: string, status: string, userId: string, windowId?: string | null) {
+    const calledWindowId = status === "called" ? windowId : null;
+    if (status === "called" && !calledWindowId) return;
+    if (status !== "called" && !["completed", "requeue", "dispensary"].includes(status)) return;
+
+    this.windows.forEach((window, id) => {
+      if (window.userId !== userId) return;
+      if (id === calledWindowId) {
+        this.windows.set(id, { ...window, currentPatientId: patientId });
+      } else if (window.currentPatientId === patientId) {
+        this.windows.set(id, { ...window, currentPatientId: undefined });
+      }
+    });
+  }
+
+  // Append-only journey log - no read-modify-write on the patient row
+  private recordPatientEvent(patient: Patient, event: Omit<InsertPatientEvent, 'patientId' | 'userId'>): PatientEvent {
+    const patientEvent: PatientEvent = {
+      id: randomUUID(),
+      patientId: patient.id,
+      eventType: event.eventType,
+      windowId: event.windowId || null,
+      roomName: event.roomName || null,
+      reason: event.reason || null,
+      actorUserId: event.actorUserId || null,
+      createdAt: new Date(),
+      userId: patient.userId
     };
+    this.patientEvents.push(patientEvent);
+    return patientEvent;
+  }
+
+  async getCurrentPatientEvents(userId: string): Promise<PatientEvent[]> {
+    return this.getEventsForPatients(await this.getPatients(userId), userId);
+  }
+
+  async getPatientEventsInRange(from: string, to: string, userId: string): Promise<PatientEvent[]> {
+    return this.getEventsForPatients(await this.getPatientsInRange(from, to, userId), userId);
+  }
+
+  async getProfileVisitEvents(profileId: string, userId: string): Promise<PatientEvent[]> {
+    return this.getEventsForPatients(await this.getProfileVisits(profileId, userId), userId);
+  }
+
+  private getEventsForPatients(patients: Patient[], userId: string): PatientEvent[] {
+    const ids = new Set(patients.map(patient => patient.id));
+    return this.patientEvents
+      .filter(event => event.userId === userId && ids.has(event.patientId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  private cancelOpenDispensaryTickets(patientId: string) {
+    this.dispensaryTickets.forEach((ticket, id) => {
+      if (ticket.patientId === patientId && OPEN_DISPENSARY_STATUSES.includes(ticket.status)) {
+        this.dispensaryTickets.set(id, { ...ticket, status: 'cancelled' });
+      }
+    });
+  }
 
+  async callNextPatient(windowId: string, userId: string, actorUserId?: string): Promise<Patient | undefined> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId || !window.isActive) return undefined;
+
+    const serviceIds = window.serviceIds || [];
+
+    // Priority first, then requeued patients whose reason has cleared, then FIFO by registration
+    const [nextPatient] = Array.from(this.patients.values())
+      .filter(p =>
+        p.userId === userId &&
+        !p.archivedAt &&
+        !p.readyForDispensary &&
+        (p.status === 'waiting' || (p.status === 'requeue' && !p.requeueReason)) &&
+        (serviceIds.length === 0 || !p.serviceId || serviceIds.includes(p.serviceId))
+      )
+      .sort((a, b) =>
+        Number(b.isPriority) - Number(a.isPriority) ||
+        Number(b.status === 'requeue') - Number(a.status === 'requeue') ||
+        a.registeredAt.getTime() - b.registeredAt.getTime()
+      );
+
+    if (!nextPatient) return undefined;
+
+    // Single-threaded map access - no other call can pick this patient in between
+    const calledPatient = await this.updatePatientStatus(nextPatient.id, 'called', userId, windowId, undefined, actorUserId);
+    if (calledPatient) {
+      await this.updateWindowPatient(windowId, userId, calledPatient.id);
+    }
+    return calledPatient;
+  }
+
+  async clearRequeueReason(patientId: string, userId: string): Promise<Patient | undefined> {
+    const patient = this.patients.get(patientId);
+    if (!patient || patient.userId !== userId || patient.status !== 'requeue') return undefined;
+
+    const updatedPatient = { ...patient, requeueReason: null };
     this.patients.set(patientId, updatedPatient);
     return updatedPatient;
   }
@@ -573,146 +1007,646 @@ export class MemStorage implements IStorage {
     return archivedCount;
   }
 
-  async deleteAllTodayPatients(userId: string): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const todayPatients = await this.getPatientsByDate(today, userId);
-    
-    let deletedCount = 0;
-    
+  async resetQueue(userId: string, actorUserId?: string): Promise<QueueReset> {
+    const todayPatients = await this.getPatientsByDate(await this.getClinicToday(userId), userId);
+    const now = new Date();
+
+    const reset: QueueReset = {
+      id: randomUUID(),
+      archivedCount: todayPatients.length,
+      windowAssignments: {},
+      actorUserId: actorUserId || null,
+      createdAt: now,
+      undoneAt: null,
+      userId
+    };
+
     for (const patient of todayPatients) {
-      const deleted = this.patients.delete(patient.id);
-      if (deleted) {
-        deletedCount++;
-        
-        // Remove patient from any windows
-        this.windows.forEach((window, windowId) => {
-          if (window.userId === userId && window.currentPatientId === patient.id) {
-            this.windows.set(windowId, { ...window, currentPatientId: undefined });
-          }
-        });
-      }
+      this.patients.set(patient.id, { ...patient, archivedAt: now, queueResetId: reset.id });
     }
-    
-    return deletedCount;
-  }
 
-  async getWindows(userId: string): Promise<Window[]> {
-    const windows = Array.from(this.windows.values()).filter(w => w.userId === userId);
-    
-    // Enrich with patient details if currentPatientId exists
-    return windows.map(w => {
-      if (w.currentPatientId) {
-        const patient = this.patients.get(w.currentPatientId);
-        if (patient) {
-          return {
-            ...w,
-            currentPatientName: patient.name || undefined,
-            currentPatientNumber: patient.number
-          };
-        }
+    // Clear all rooms, remembering who was in them for undo
+    this.windows.forEach((window, windowId) => {
+      if (window.userId === userId && window.currentPatientId) {
+        reset.windowAssignments[windowId] = window.currentPatientId;
+        this.windows.set(windowId, { ...window, currentPatientId: undefined });
       }
-      return w;
     });
+
+    this.queueResets.push(reset);
+    return reset;
   }
 
-  async createWindow(insertWindow: InsertWindow): Promise<Window> {
-    const id = randomUUID();
-    const window: Window = {
-      id,
-      name: insertWindow.name.trim(),
-      isActive: true,
-      userId: insertWindow.userId
-    };
-    
-    this.windows.set(id, window);
-    return window;
+  async getLatestQueueReset(userId: string): Promise<QueueReset | undefined> {
+    return this.queueResets
+      .filter(reset => reset.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
   }
 
-  async updateWindow(windowId: string, name: string, userId: string): Promise<Window | undefined> {
-    const window = this.windows.get(windowId);
-    if (!window || window.userId !== userId) return undefined;
+  async rolloverQueue(userId: string, clinicDate: string, dayStart: Date): Promise<number | undefined> {
+    // Clinics live in the database even here, so the once-per-day guard is shared with other instances
+    const claimed = await db.update(clinics)
+      .set({ lastRolloverDate: clinicDate })
+      .where(and(eq(clinics.id, userId), sql`${clinics.lastRolloverDate} IS DISTINCT FROM ${clinicDate}`))
+      .returning({ id: clinics.id });
+    if (claimed.length === 0) return undefined;
 
-    const updatedWindow = {
-      ...window,
-      name: name.trim()
-    };
+    const now = new Date();
+    const archivedIds = new Set<string>();
 
-    this.windows.set(windowId, updatedWindow);
-    return updatedWindow;
-  }
+    this.patients.forEach((patient, patientId) => {
+      if (patient.userId === userId && !patient.archivedAt && patient.registeredAt < dayStart) {
+        this.patients.set(patientId, { ...patient, archivedAt: now });
+        archivedIds.add(patientId);
+      }
+    });
 
-  async deleteWindow(windowId: string, userId: string): Promise<boolean> {
-    const window = this.windows.get(windowId);
-    if (!window || window.userId !== userId) return false;
+    // Free rooms still showing a leftover patient
+    this.windows.forEach((window, windowId) => {
+      if (window.userId === userId && window.currentPatientId && archivedIds.has(window.currentPatientId)) {
+        this.windows.set(windowId, { ...window, currentPatientId: undefined });
+      }
+    });
 
-    // Check if window has a current patient - prevent deletion if occupied
-    if (window.currentPatientId) {
-      return false;
-    }
+    return archivedIds.size;
+  }
 
-    // Clear any patients assigned to this window (only user's patients)
+  async undoQueueReset(resetId: string, userId: string): Promise<number | undefined> {
+    const reset = this.queueResets.find(r => r.id === resetId && r.userId === userId);
+    if (!reset || reset.undoneAt) return undefined;
+
+    let restoredCount = 0;
     this.patients.forEach((patient, patientId) => {
-      if (patient.userId === userId && patient.windowId === windowId) {
-        this.patients.set(patientId, { ...patient, windowId: null });
+      if (patient.userId === userId && patient.queueResetId === resetId) {
+        this.patients.set(patientId, { ...patient, archivedAt: null, queueResetId: null });
+        restoredCount++;
       }
     });
 
-    return this.windows.delete(windowId);
+    // Only put patients back into rooms nobody has been called to since
+    for (const [windowId, patientId] of Object.entries(reset.windowAssignments)) {
+      const window = this.windows.get(windowId);
+      if (window && window.userId === userId && !window.currentPatientId) {
+        this.windows.set(windowId, { ...window, currentPatientId: patientId });
+      }
+    }
+
+    reset.undoneAt = new Date();
+    return restoredCount;
   }
 
-  async toggleWindowStatus(windowId: string, userId: string): Promise<Window | undefined> {
-    const window = this.windows.get(windowId);
-    if (!window || window.userId !== userId) return undefined;
+  async getDispensaryTickets(userId: string): Promise<DispensaryTicket[]> {
+    return Array.from(this.dispensaryTickets.values())
+      .filter(ticket => {
+        const patient = this.patients.get(ticket.patientId);
+        return ticket.userId === userId &&
+          OPEN_DISPENSARY_STATUSES.includes(ticket.status) &&
+          !!patient && !patient.archivedAt;
+      })
+      .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+  }
 
-    const updatedWindow = {
-      ...window,
-      isActive: !window.isActive
-    };
+  async updateDispensaryTicketStatus(ticketId: string, status: string, userId: string, counterId?: string): Promise<DispensaryTicket | undefined> {
+    const ticket = this.dispensaryTickets.get(ticketId);
+    if (!ticket || ticket.userId !== userId) return undefined;
 
-    this.windows.set(windowId, updatedWindow);
-    return updatedWindow;
-  }
+    assertDispensaryTransition(ticket, status);
 
-  async updateWindowPatient(windowId: string, userId: string, patientId?: string): Promise<Window | undefined> {
-    const window = this.windows.get(windowId);
-    if (!window || window.userId !== userId) return undefined;
+    const now = new Date();
+    const updatedTicket: DispensaryTicket = { ...ticket, status };
+
+    if (status === 'ready') {
+      // First time ready keeps its place; a no-show sent back keeps its original readyAt too
+      updatedTicket.readyAt = ticket.readyAt || now;
+      updatedTicket.counterId = null;
+    } else if (status === 'called') {
+      const counter = this.windows.get(counterId || ticket.counterId || '');
+      if (!counter || counter.userId !== userId || counter.type !== 'dispensary') return undefined;
+      updatedTicket.counterId = counter.id;
+      updatedTicket.calledAt = now;
+    } else if (status === 'collected') {
+      updatedTicket.collectedAt = now;
+    }
 
-    // If assigning a patient, verify patient belongs to same user
-    if (patientId) {
-      const patient = this.patients.get(patientId);
-      if (!patient || patient.userId !== userId) return undefined;
+    this.dispensaryTickets.set(ticketId, updatedTicket);
+
+    // Prescription handed over - the patient's visit is done
+    if (status === 'collected') {
+      const patient = this.patients.get(ticket.patientId);
+      if (patient && canTransition(patient, 'completed')) {
+        await this.updatePatientStatus(patient.id, 'completed', userId);
+      }
     }
 
-    const updatedWindow = {
-      ...window,
-      currentPatientId: patientId
-    };
+    return updatedTicket;
+  }
 
-    this.windows.set(windowId, updatedWindow);
-    return updatedWindow;
+  async callNextDispensaryTicket(counterId: string, userId: string): Promise<DispensaryTicket | undefined> {
+    const counter = this.windows.get(counterId);
+    if (!counter || counter.userId !== userId || !counter.isActive || counter.type !== 'dispensary') return undefined;
+
+    const [nextTicket] = (await this.getDispensaryTickets(userId))
+      .filter(ticket => ticket.status === 'ready')
+      .sort((a, b) =>
+        Number(b.isPriority) - Number(a.isPriority) ||
+        (a.readyAt?.getTime() || 0) - (b.readyAt?.getTime() || 0)
+      );
+
+    if (!nextTicket) return undefined;
+    return this.updateDispensaryTicketStatus(nextTicket.id, 'called', userId, counterId);
   }
 
-  async getDashboardStats(userId: string): Promise<{
-    totalWaiting: number;
-    totalCalled: number;
-    totalCompleted: number;
-    activeWindows: number;
-    totalWindows: number;
-  }> {
-    const userPatients = Array.from(this.patients.values()).filter(p => p.userId === userId);
-    const userWindows = Array.from(this.windows.values()).filter(w => w.userId === userId);
-    
-    // Get today's start and end boundaries (local timezone)
-    const today = new Date();
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    const totalWaiting = userPatients.filter(p => p.status === 'waiting').length;
-    const totalCalled = userPatients.filter(p => p.status === 'called').length;
-    const totalCompleted = userPatients.filter(p => 
-      p.status === 'completed' && 
+  async searchPatientProfiles(query: string, userId: string, limit: number = 10): Promise<PatientProfile[]> {
+    const search = query.trim().toLowerCase();
+    const icSearch = normalizeIcNumber(search);
+    return Array.from(this.patientProfiles.values())
+      .filter(profile =>
+        profile.userId === userId &&
+        (!!icSearch && !!profile.icNumber?.includes(icSearch) ||
+          [profile.mrn, profile.name, profile.phone].some(value => value?.toLowerCase().includes(search)))
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+
+  async getPatientProfile(id: string, userId: string): Promise<PatientProfile | undefined> {
+    const profile = this.patientProfiles.get(id);
+    return profile && profile.userId === userId ? profile : undefined;
+  }
+
+  async findPatientProfileConflict(identifiers: { icNumber?: string | null; mrn?: string | null }, userId: string, excludeId?: string): Promise<PatientProfile | undefined> {
+    return Array.from(this.patientProfiles.values()).find(profile =>
+      profile.userId === userId &&
+      profile.id !== excludeId &&
+      ((!!identifiers.icNumber && profile.icNumber === identifiers.icNumber) ||
+        (!!identifiers.mrn && profile.mrn === identifiers.mrn))
+    );
+  }
+
+  async createPatientProfile(insertProfile: InsertPatientProfile): Promise<PatientProfile> {
+    const now = new Date();
+    const profile: PatientProfile = {
+      id: randomUUID(),
+      icNumber: insertProfile.icNumber ?? null,
+      mrn: insertProfile.mrn ?? null,
+      name: insertProfile.name,
+      phone: insertProfile.phone ?? null,
+      dateOfBirth: insertProfile.dateOfBirth ?? null,
+      notes: insertProfile.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+      userId: insertProfile.userId,
+    };
+    this.patientProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updatePatientProfile(id: string, updates: UpdatePatientProfileRequest, userId: string): Promise<PatientProfile | undefined> {
+    const profile = await this.getPatientProfile(id, userId);
+    if (!profile) return undefined;
+
+    const updated = { ...profile, ...updates, updatedAt: new Date() };
+    this.patientProfiles.set(id, updated);
+    return updated;
+  }
+
+  async getProfileVisits(profileId: string, userId: string): Promise<Patient[]> {
+    return Array.from(this.patients.values())
+      .filter(patient => patient.userId === userId && patient.profileId === profileId)
+      .sort((a, b) => b.registeredAt.getTime() - a.registeredAt.getTime());
+  }
+
+  async linkPatientProfile(patientId: string, profileId: string | null, userId: string): Promise<Patient | undefined> {
+    const patient = this.patients.get(patientId);
+    if (!patient || patient.userId !== userId) return undefined;
+
+    const updated = { ...patient, profileId };
+    this.patients.set(patientId, updated);
+    return updated;
+  }
+
+  async getAppointments(date: string, userId: string): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(appointment => appointment.userId === userId && appointment.date === date)
+      .sort((a, b) => a.slotTime.localeCompare(b.slotTime) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAppointment(id: string, userId: string): Promise<Appointment | undefined> {
+    const appointment = this.appointments.get(id);
+    return appointment && appointment.userId === userId ? appointment : undefined;
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const appointment: Appointment = {
+      id: randomUUID(),
+      date: insertAppointment.date,
+      slotTime: insertAppointment.slotTime,
+      patientName: insertAppointment.patientName,
+      phone: insertAppointment.phone ?? null,
+      serviceId: insertAppointment.serviceId ?? null,
+      notes: insertAppointment.notes ?? null,
+      status: "booked",
+      patientId: null,
+      checkedInAt: null,
+      createdAt: new Date(),
+      userId: insertAppointment.userId,
+    };
+    this.appointments.set(appointment.id, appointment);
+    return appointment;
+  }
+
+  async updateAppointment(id: string, updates: UpdateAppointmentRequest, userId: string): Promise<Appointment | undefined> {
+    const appointment = await this.getAppointment(id, userId);
+    if (!appointment) return undefined;
+
+    const updated = { ...appointment, ...updates };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async updateAppointmentStatus(id: string, status: string, userId: string): Promise<Appointment | undefined> {
+    const appointment = await this.getAppointment(id, userId);
+    if (!appointment) return undefined;
+
+    assertAppointmentTransition(appointment, status);
+
+    const updated = { ...appointment, status };
+    this.appointments.set(id, updated);
+    return updated;
+  }
+
+  async checkInAppointment(id: string, insertPatient: NewPatient, userId: string, actorUserId?: string): Promise<{ appointment: Appointment; patient: Patient } | undefined> {
+    const appointment = await this.getAppointment(id, userId);
+    if (!appointment) return undefined;
+
+    assertAppointmentTransition(appointment, "checked-in");
+
+    const patient = { ...(await this.createPatient(insertPatient, actorUserId)), appointmentId: appointment.id };
+    this.patients.set(patient.id, patient);
+
+    const updated = { ...appointment, status: "checked-in", patientId: patient.id, checkedInAt: new Date() };
+    this.appointments.set(id, updated);
+    return { appointment: updated, patient };
+  }
+
+  async getNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const now = new Date();
+    const notification: Notification = {
+      id: randomUUID(),
+      patientId: insertNotification.patientId,
+      kind: insertNotification.kind,
+      provider: insertNotification.provider,
+      recipient: insertNotification.recipient,
+      message: insertNotification.message,
+      status: insertNotification.status || "pending",
+      providerMessageId: insertNotification.providerMessageId ?? null,
+      error: insertNotification.error ?? null,
+      createdAt: now,
+      updatedAt: now,
+      userId: insertNotification.userId,
+    };
+    this.notifications.set(notification.id, notification);
+    return notification;
+  }
+
+  async claimNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    const exists = Array.from(this.notifications.values()).some(notification =>
+      notification.patientId === insertNotification.patientId && notification.kind === insertNotification.kind
+    );
+    if (exists) return undefined;
+    return this.createNotification(insertNotification);
+  }
+
+  async updateNotification(id: string, updates: Partial<Pick<Notification, 'status' | 'providerMessageId' | 'error'>>): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+
+    const updated = { ...notification, ...updates, updatedAt: new Date() };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async updateNotificationDelivery(provider: string, providerMessageId: string, status: NotificationStatus, error?: string | null): Promise<Notification | undefined> {
+    const notification = Array.from(this.notifications.values()).find(
+      n => n.provider === provider && n.providerMessageId === providerMessageId
+    );
+    if (!notification) return undefined;
+    return this.updateNotification(notification.id, { status, error: error ?? notification.error });
+  }
+
+  async getPushSubscriptions(patientId: string, userId: string): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(
+      subscription => subscription.userId === userId && subscription.patientId === patientId
+    );
+  }
+
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const subscription: PushSubscription = {
+      id: this.pushSubscriptions.get(insertSubscription.endpoint)?.id || randomUUID(),
+      patientId: insertSubscription.patientId,
+      endpoint: insertSubscription.endpoint,
+      p256dh: insertSubscription.p256dh,
+      auth: insertSubscription.auth,
+      createdAt: new Date(),
+      lastPushedAt: null,
+      userId: insertSubscription.userId,
+    };
+    this.pushSubscriptions.set(subscription.endpoint, subscription);
+    return subscription;
+  }
+
+  async markPushSubscriptionUsed(id: string): Promise<void> {
+    const subscription = Array.from(this.pushSubscriptions.values()).find(s => s.id === id);
+    if (subscription) {
+      this.pushSubscriptions.set(subscription.endpoint, { ...subscription, lastPushedAt: new Date() });
+    }
+  }
+
+  async deletePushSubscription(endpoint: string, patientId: string): Promise<boolean> {
+    const subscription = this.pushSubscriptions.get(endpoint);
+    if (!subscription || subscription.patientId !== patientId) return false;
+    return this.pushSubscriptions.delete(endpoint);
+  }
+
+  async deletePatientPushSubscriptions(patientId: string, userId: string): Promise<number> {
+    const subscriptions = await this.getPushSubscriptions(patientId, userId);
+    subscriptions.forEach(subscription => this.pushSubscriptions.delete(subscription.endpoint));
+    return subscriptions.length;
+  }
+
+  async deleteInactivePushSubscriptions(userId: string): Promise<number> {
+    let deleted = 0;
+    for (const subscription of Array.from(this.pushSubscriptions.values())) {
+      if (subscription.userId !== userId) continue;
+      const patient = this.patients.get(subscription.patientId);
+      if (!patient || patient.archivedAt || patient.status === 'completed') {
+        this.pushSubscriptions.delete(subscription.endpoint);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getDeploymentConfig(key: string): Promise<string | undefined> {
+    return this.deploymentConfig.get(key);
+  }
+
+  async claimDeploymentConfig(key: string, value: string): Promise<string> {
+    if (!this.deploymentConfig.has(key)) {
+      this.deploymentConfig.set(key, value);
+    }
+    return this.deploymentConfig.get(key)!;
+  }
+
+  async countRateLimitHit(key: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    const current = this.rateLimits.get(key);
+    if (!current || now - current.startedAt >= windowMs) {
+      this.rateLimits.set(key, { startedAt: now, count: 1 });
+      return 1;
+    }
+    current.count++;
+    return current.count;
+  }
+
+  async deleteExpiredRateLimits(keyPrefix: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    this.rateLimits.forEach((value, key) => {
+      if (key.startsWith(keyPrefix) && now - value.startedAt >= windowMs) {
+        this.rateLimits.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const auditEntry: AuditEntry = {
+      id: randomUUID(),
+      actorUserId: entry.actorUserId ?? null,
+      actorUsername: entry.actorUsername ?? null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+      createdAt: new Date(),
+      userId: entry.userId,
+    };
+    this.auditEntries.push(auditEntry);
+    return auditEntry;
+  }
+
+  async getAuditLog(query: AuditLogQuery, userId: string): Promise<{ entries: AuditEntry[]; total: number }> {
+    const schedule = await getClinicSchedule(userId);
+    const start = query.from ? getClinicDayBounds(schedule, query.from).start : undefined;
+    const end = query.to ? getClinicDayBounds(schedule, query.to).end : undefined;
+    const search = query.q?.toLowerCase();
+
+    const matches = this.auditEntries
+      .filter(entry =>
+        entry.userId === userId &&
+        (!start || entry.createdAt >= start) &&
+        (!end || entry.createdAt <= end) &&
+        (!query.targetType || entry.targetType === query.targetType) &&
+        (!search || [entry.actorUsername, entry.action, entry.targetId].some(value => value?.toLowerCase().includes(search)))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return { entries: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+  }
+
+  async purgeAuditLog(olderThan: Date, userId: string): Promise<number> {
+    const before = this.auditEntries.length;
+    this.auditEntries = this.auditEntries.filter(entry => entry.userId !== userId || entry.createdAt >= olderThan);
+    return before - this.auditEntries.length;
+  }
+
+  async getWindows(userId: string): Promise<Window[]> {
+    const windows = Array.from(this.windows.values()).filter(w => w.userId === userId);
+    
+    // Enrich with patient details if currentPatientId exists
+    return windows.map(w => {
+      if (w.currentPatientId) {
+        const patient = this.patients.get(w.currentPatientId);
+        if (patient) {
+          return {
+            ...w,
+            currentPatientName: patient.name || undefined,
+            currentPatientNumber: patient.number
+          };
+        }
+      }
+      return w;
+    });
+  }
+
+  async createWindow(insertWindow: InsertWindow): Promise<Window> {
+    const id = randomUUID();
+    const window: Window = {
+      id,
+      name: insertWindow.name.trim(),
+      isActive: true,
+      type: insertWindow.type || 'room',
+      userId: insertWindow.userId
+    };
+    
+    this.windows.set(id, window);
+    return window;
+  }
+
+  async updateWindow(windowId: string, name: string, userId: string): Promise<Window | undefined> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId) return undefined;
+
+    const updatedWindow = {
+      ...window,
+      name: name.trim()
+    };
+
+    this.windows.set(windowId, updatedWindow);
+    return updatedWindow;
+  }
+
+  async deleteWindow(windowId: string, userId: string): Promise<boolean> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId) return false;
+
+    // Check if window has a current patient - prevent deletion if occupied
+    if (window.currentPatientId) {
+      return false;
+    }
+
+    // Clear any patients assigned to this window (only user's patients)
+    this.patients.forEach((patient, patientId) => {
+      if (patient.userId === userId && patient.windowId === windowId) {
+        this.patients.set(patientId, { ...patient, windowId: null });
+      }
+    });
+
+    return this.windows.delete(windowId);
+  }
+
+  async toggleWindowStatus(windowId: string, userId: string): Promise<Window | undefined> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId) return undefined;
+
+    const updatedWindow = {
+      ...window,
+      isActive: !window.isActive
+    };
+
+    this.windows.set(windowId, updatedWindow);
+    return updatedWindow;
+  }
+
+  async updateWindowPatient(windowId: string, userId: string, patientId?: string): Promise<Window | undefined> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId) return undefined;
+
+    // If assigning a patient, verify patient belongs to same user
+    if (patientId) {
+      const patient = this.patients.get(patientId);
+      if (!patient || patient.userId !== userId) return undefined;
+    }
+
+    const updatedWindow = {
+      ...window,
+      currentPatientId: patientId
+    };
+
+    this.windows.set(windowId, updatedWindow);
+    return updatedWindow;
+  }
+
+  async updateWindowServices(windowId: string, serviceIds: string[], userId: string): Promise<Window | undefined> {
+    const window = this.windows.get(windowId);
+    if (!window || window.userId !== userId) return undefined;
+
+    const updatedWindow = {
+      ...window,
+      serviceIds
+    };
+
+    this.windows.set(windowId, updatedWindow);
+    return updatedWindow;
+  }
+
+  // Service methods
+  async getServices(userId: string): Promise<Service[]> {
+    return Array.from(this.services.values())
+      .filter(s => s.userId === userId)
+      .sort((a, b) => a.prefix.localeCompare(b.prefix));
+  }
+
+  async getService(id: string, userId: string): Promise<Service | undefined> {
+    const service = this.services.get(id);
+    return service && service.userId === userId ? service : undefined;
+  }
+
+  async createService(insertService: InsertService): Promise<Service> {
+    const service: Service = {
+      id: randomUUID(),
+      name: insertService.name,
+      prefix: insertService.prefix,
+      isActive: true,
+      createdAt: new Date(),
+      userId: insertService.userId
+    };
+    this.services.set(service.id, service);
+    return service;
+  }
+
+  async updateService(id: string, updates: Partial<Pick<Service, 'name' | 'prefix' | 'isActive'>>, userId: string): Promise<Service | undefined> {
+    const service = await this.getService(id, userId);
+    if (!service) return undefined;
+
+    const updatedService = { ...service, ...updates };
+    this.services.set(id, updatedService);
+    return updatedService;
+  }
+
+  async deleteService(id: string, userId: string): Promise<boolean> {
+    const service = await this.getService(id, userId);
+    if (!service) return false;
+
+    // Unsubscribe windows from the deleted service
+    this.windows.forEach((window, windowId) => {
+      if (window.userId === userId && window.serviceIds?.includes(id)) {
+        this.windows.set(windowId, { ...window, serviceIds: window.serviceIds.filter(s => s !== id) });
+      }
+    });
+
+    return this.services.delete(id);
+  }
+
+  async getDashboardStats(userId: string): Promise<{
+    totalWaiting: number;
+    totalCalled: number;
+    totalCompleted: number;
+    activeWindows: number;
+    totalWindows: number;
+  }> {
+    const userPatients = Array.from(this.patients.values()).filter(p => p.userId === userId && !p.archivedAt);
+    const userWindows = Array.from(this.windows.values()).filter(w => w.userId === userId);
+    
+    // Get today's start and end boundaries (clinic timezone)
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId);
+    
+    const totalWaiting = userPatients.filter(p => p.status === 'waiting').length;
+    const totalCalled = userPatients.filter(p => p.status === 'called').length;
+    const totalCompleted = userPatients.filter(p => 
+      p.status === 'completed' && 
       p.completedAt && 
       p.completedAt >= startOfDay && 
       p.completedAt <= endOfDay
@@ -729,14 +1663,15 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async getCurrentCall(userId: string): Promise<Patient | undefined> {
+  async getCurrentCall(userId: string, windowIds?: string[]): Promise<Patient | undefined> {
     // Get the most recent called patient to display on TV
     // INCLUDE: called, in-progress, completed, dispensary, requeue (all should remain visible with windowId until new call)
     // Only exclude if patient is WAITING (has not been called yet) or has no windowId
     const calledPatients = Array.from(this.patients.values())
-      .filter(p => p.userId === userId)
+      .filter(p => p.userId === userId && !p.archivedAt) // A queue reset clears the TV
       .filter(p => p.calledAt) // Only patients that have actually been called
       .filter(p => p.windowId) // Only patients currently assigned to a room (requeue/dispense keeps windowId)
+      .filter(p => !windowIds || windowIds.includes(p.windowId!)) // Display profile rooms only
       .sort((a, b) => {
         // Sort by most recent calledAt
         const timeA = a.calledAt?.getTime() || 0;
@@ -747,13 +1682,14 @@ export class MemStorage implements IStorage {
     return calledPatients[0];
   }
 
-  async getRecentHistory(userId: string, limit: number = 10): Promise<Patient[]> {
+  async getRecentHistory(userId: string, limit: number = 10, windowIds?: string[]): Promise<Patient[]> {
     // Get all patients that have been called - EXCLUDE requeued and dispensary patients
     // Requeued/dispensary patients should not appear on TV until called again
     return Array.from(this.patients.values())
-      .filter(p => p.userId === userId)
+      .filter(p => p.userId === userId && !p.archivedAt)
       .filter(p => p.status === 'called' || p.status === 'completed' || p.status === 'in-progress') // Exclude 'requeue' and 'dispensary'
       .filter(p => p.calledAt) // Only include patients that have actually been called
+      .filter(p => !windowIds || (!!p.windowId && windowIds.includes(p.windowId))) // Display profile rooms only
       .sort((a, b) => {
         const timeA = a.calledAt?.getTime() || 0;
         const timeB = b.calledAt?.getTime() || 0;
@@ -1146,13 +2082,20 @@ export class MemStorage implements IStorage {
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
   private systemUserId: string;
+  // Awaited before routes are registered so journeys never mix backfilled and live events mid-copy
+  readonly patientEventsBackfilled: Promise<void>;
 
   constructor() {
     this.systemUserId = "system";
     this.initializeDefaultSettings();
     this.initializeDefaultTheme();
     this.initializeDefaultTextGroups();
-    this.initializeDefaultWindows();
+    // Per-clinic defaults need the clinics backfilled first
+    this.initializeClinics().then(() => {
+      this.initializeDefaultWindows();
+      this.initializeLegacyDisplayTokens();
+    });
+    this.patientEventsBackfilled = this.initializePatientEvents();
   }
 
   private async initializeDefaultSettings() {
@@ -1167,7 +2110,13 @@ export class DatabaseStorage implements IStorage {
       { key: "enableSound", value: "true", category: "sound" },
       { key: "volume", value: "70", category: "sound" },
       { key: "soundMode", value: "preset", category: "sound" },
-      { key: "presetKey", value: "airport_call", category: "sound" }
+      { key: "presetKey", value: "airport_call", category: "sound" },
+      { key: "enableAnnouncement", value: "false", category: "sound" },
+      { key: "announcementLanguage", value: "ms-MY", category: "sound" },
+      { key: "announcementTemplate", value: DEFAULT_ANNOUNCEMENT_TEMPLATES["ms-MY"], category: "sound" },
+      { key: "announcementRepeat", value: "1", category: "sound" },
+      { key: "speechRate", value: "0.9", category: "sound" },
+      { key: "speechPitch", value: "1", category: "sound" }
     ];
 
     for (const setting of defaultSettings) {
@@ -1235,34 +2184,143 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  private async initializeClinics() {
+    // Every account used to be its own tenant. Give each account without a clinic a clinic
+    // with the same id, so the user_id already stored on its rows now names the clinic.
+    try {
+      await db.execute(sql`
+        INSERT INTO clinics (id, name)
+        SELECT u.id, u.username FROM users u
+        WHERE u.clinic_id IS NULL
+        ON CONFLICT (id) DO NOTHING
+      `);
+      await db.execute(sql`UPDATE users SET clinic_id = id WHERE clinic_id IS NULL`);
+      await db.execute(sql`UPDATE users SET role = 'clinic_manager' WHERE role = 'user'`);
+    } catch (error) {
+      console.error("❌ Failed to backfill clinics:", error);
+    }
+  }
+
   private async initializeDefaultWindows() {
-    // Get all users to ensure each has DISPENSARY room
-    const allUsers = await db.select().from(users);
+    // Get all clinics to ensure each has DISPENSARY room
+    const allClinics = await db.select().from(clinics);
     
-    for (const user of allUsers) {
-      // Check if DISPENSARY room exists for this user
+    for (const clinic of allClinics) {
+      // Check if DISPENSARY room exists for this clinic
       const existing = await db.select().from(schema.windows)
         .where(and(
           eq(schema.windows.name, "DISPENSARY"),
-          eq(schema.windows.userId, user.id)
+          eq(schema.windows.userId, clinic.id)
         ))
         .limit(1);
 
       if (existing.length === 0) {
-        // Create DISPENSARY room for this user
+        // Create DISPENSARY room for this clinic
         await db.insert(schema.windows).values({
           name: "DISPENSARY",
           isActive: true,
           isPermanent: true,
-          userId: user.id,
+          type: "dispensary",
+          userId: clinic.id,
         });
-      } else if (!existing[0].isPermanent) {
-        // Update existing DISPENSARY to be permanent
+      } else if (!existing[0].isPermanent || existing[0].type !== "dispensary") {
+        // Update existing DISPENSARY to be a permanent dispensary counter
         await db.update(schema.windows)
-          .set({ isPermanent: true })
+          .set({ isPermanent: true, type: "dispensary" })
           .where(eq(schema.windows.id, existing[0].id));
       }
     }
+
+    // Patients flagged for dispensary before the pharmacy queue existed get a ready ticket
+    try {
+      await db.execute(sql`
+        INSERT INTO dispensary_tickets (patient_id, number, ticket_prefix, is_priority, status, ready_at, user_id)
+        SELECT p.id, p.number, p.ticket_prefix, p.is_priority, 'ready', now(), p.user_id
+        FROM patients p
+        WHERE p.ready_for_dispensary = true
+          AND p.status <> 'completed'
+          AND p.archived_at IS NULL
+          AND NOT EXISTS (SELECT 1 FROM dispensary_tickets t WHERE t.patient_id = p.id)
+      `);
+    } catch (error) {
+      console.error("❌ Failed to backfill dispensary tickets:", error);
+    }
+  }
+
+  private async initializeLegacyDisplayTokens() {
+    // One-time migration: carry over the old deterministic TV link so already-installed TVs keep working.
+    // It becomes a normal display token that can be renamed, rotated or revoked. The legacy token is
+    // derived from the clinic id, so clinics created after the migration must never get one.
+    if (await this.getDeploymentConfig(LEGACY_DISPLAY_TOKENS_CONFIG_KEY)) return;
+
+    try {
+      const allClinics = await db.select().from(clinics);
+
+      for (const clinic of allClinics) {
+        const existing = await db.select().from(schema.displayTokens)
+          .where(eq(schema.displayTokens.userId, clinic.id))
+          .limit(1);
+
+        if (existing.length === 0) {
+          await db.insert(schema.displayTokens).values({
+            token: legacyTvToken(clinic.id),
+            label: "Existing TV link",
+            userId: clinic.id,
+          }).onConflictDoNothing(); // Another instance migrating at the same time
+        }
+      }
+
+      await this.claimDeploymentConfig(LEGACY_DISPLAY_TOKENS_CONFIG_KEY, new Date().toISOString());
+    } catch (error) {
+      console.error("❌ Failed to migrate legacy TV links:", error);
+    }
+  }
+
+  private async initializePatientEvents() {
+    // Backfill: copy the legacy tracking_history JSON into patient_events. tracking_history is no longer
+    // written, so each entry is matched to its own event (patient, type, time) - patients that picked up
+    // live events before the copy still get their history, and re-running on every start adds nothing.
+    try {
+      const result = await db.transaction(async (tx) => {
+        // Instances starting together must not both insert the same missing rows
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('patient-events-backfill'))`);
+        return tx.execute(sql`
+          INSERT INTO patient_events (patient_id, event_type, window_id, room_name, reason, created_at, user_id)
+          SELECT
+            p.id,
+            e->>'action',
+            w.id,
+            COALESCE(e->>'roomName', e->>'fromRoom'),
+            e->>'requeueReason',
+            COALESCE((e->>'timestamp')::timestamp, p.registered_at),
+            p.user_id
+          FROM patients p
+          CROSS JOIN LATERAL json_array_elements(COALESCE(p.tracking_history, '[]'::json)) e
+          -- History only kept room names: link a window only when the name is unambiguous (or is the
+          -- patient's own last room), so duplicate names add no extra rows. The name is kept either way.
+          LEFT JOIN LATERAL (
+            SELECT CASE
+              WHEN bool_or(cw.id = p.window_id) THEN p.window_id
+              WHEN COUNT(*) = 1 THEN MIN(cw.id)
+            END AS id
+            FROM windows cw
+            WHERE cw.user_id = p.user_id AND cw.name = COALESCE(e->>'roomName', e->>'fromRoom')
+          ) w ON true
+          WHERE e->>'action' IS NOT NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM patient_events pe
+              WHERE pe.patient_id = p.id
+                AND pe.event_type = e->>'action'
+                AND pe.created_at = COALESCE((e->>'timestamp')::timestamp, p.registered_at)
+            )
+        `);
+      });
+      if (result.rowCount) {
+        console.log(`📜 Backfilled ${result.rowCount} journey events from tracking_history`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to backfill patient events:", error);
+    }
   }
 
   // Settings methods
@@ -1338,8 +2396,10 @@ export class DatabaseStorage implements IStorage {
     const userToInsert = {
       username: insertUser.username,
       password: hashedPassword,
-      role: insertUser.role || "user",
+      role: insertUser.role || "clinic_manager",
       isActive: true,
+      clinicId: insertUser.clinicId,
+      assignedWindowIds: insertUser.assignedWindowIds || [],
     };
     
     const result = await db.insert(users).values(userToInsert).returning();
@@ -1394,16 +2454,201 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Clinic methods
+  async getClinic(id: string): Promise<Clinic | undefined> {
+    const result = await db.select().from(clinics).where(eq(clinics.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createClinic(name: string, id?: string): Promise<Clinic> {
+    const result = await db.insert(clinics).values({ id, name }).returning();
+    // New clinics start with one random TV link
+    await this.createDisplayToken("TV Display", result[0].id);
+    return result[0];
+  }
+
+  async getClinicStaff(clinicId: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.clinicId, clinicId)).orderBy(asc(users.username));
+  }
+
+  async getClinics(): Promise<Clinic[]> {
+    return await db.select().from(clinics).orderBy(asc(clinics.name));
+  }
+
+  async updateClinicSchedule(id: string, updates: Partial<Pick<Clinic, "timezone" | "dayRolloverTime" | "openingHours">>): Promise<Clinic | undefined> {
+    const result = await db.update(clinics).set(updates).where(eq(clinics.id, id)).returning();
+    return result[0];
+  }
+
+  async getClinicToday(clinicId: string): Promise<string> {
+    return getClinicDate(await getClinicSchedule(clinicId));
+  }
+
   // TV Token methods - use database query for efficiency
-  generateTvToken(userId: string): string {
-    return generateTvToken(userId);
+  async getClinicByTvToken(token: string): Promise<Clinic | undefined> {
+    const resolved = await this.resolveDisplayToken(token);
+    return resolved?.clinic;
+  }
+
+  async resolveDisplayToken(token: string): Promise<ResolvedDisplayToken | undefined> {
+    // Indexed lookup on the unique token column - revoked tokens never resolve
+    const [displayToken] = await db.select().from(schema.displayTokens)
+      .where(and(
+        eq(schema.displayTokens.token, token),
+        isNull(schema.displayTokens.revokedAt)
+      ))
+      .limit(1);
+    if (!displayToken) return undefined;
+
+    const clinic = await this.getClinic(displayToken.userId);
+    if (!clinic) return undefined;
+
+    const now = new Date();
+    if (!displayToken.lastSeenAt || now.getTime() - displayToken.lastSeenAt.getTime() > DISPLAY_TOKEN_SEEN_INTERVAL_MS) {
+      await db.update(schema.displayTokens)
+        .set({ lastSeenAt: now })
+        .where(eq(schema.displayTokens.id, displayToken.id));
+      displayToken.lastSeenAt = now;
+    }
+    // A token pointing at a missing profile is refused rather than widened to every room
+    const profile = displayToken.profileId ? await this.getDisplayProfile(displayToken.profileId, clinic.id) : null;
+    if (profile === undefined) return undefined;
+    return { clinic, displayToken, profile };
+  }
+
+  async getDisplayTokens(userId: string): Promise<DisplayToken[]> {
+    return await db.select().from(schema.displayTokens)
+      .where(eq(schema.displayTokens.userId, userId))
+      .orderBy(desc(schema.displayTokens.createdAt));
   }
 
-  async getUserByTvToken(token: string): Promise<User | undefined> {
-    // Get all users from database and check token match
-    const allUsers = await this.getUsers();
-    const userId = resolveUserIdFromToken(token, allUsers);
-    return userId ? this.getUser(userId) : undefined;
+  async createDisplayToken(label: string, userId: string): Promise<DisplayToken> {
+    const [displayToken] = await db.insert(schema.displayTokens)
+      .values({ token: generateTvToken(), label, userId })
+      .returning();
+    return displayToken;
+  }
+
+  async renameDisplayToken(id: string, label: string, userId: string): Promise<DisplayToken | undefined> {
+    const [displayToken] = await db.update(schema.displayTokens)
+      .set({ label })
+      .where(and(
+        eq(schema.displayTokens.id, id),
+        eq(schema.displayTokens.userId, userId)
+      ))
+      .returning();
+    return displayToken;
+  }
+
+  async rotateDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined> {
+    const [displayToken] = await db.update(schema.displayTokens)
+      .set({ token: generateTvToken(), lastSeenAt: null })
+      .where(and(
+        eq(schema.displayTokens.id, id),
+        eq(schema.displayTokens.userId, userId),
+        isNull(schema.displayTokens.revokedAt)
+      ))
+      .returning();
+    return displayToken;
+  }
+
+  async revokeDisplayToken(id: string, userId: string): Promise<DisplayToken | undefined> {
+    const [displayToken] = await db.update(schema.displayTokens)
+      .set({ revokedAt: sql`COALESCE(${schema.displayTokens.revokedAt}, now())` })
+      .where(and(
+        eq(schema.displayTokens.id, id),
+        eq(schema.displayTokens.userId, userId)
+      ))
+      .returning();
+    return displayToken;
+  }
+
+  async setDisplayTokenProfile(id: string, profileId: string | null, userId: string): Promise<DisplayToken | undefined> {
+    const [displayToken] = await db.update(schema.displayTokens)
+      .set({ profileId })
+      .where(and(
+        eq(schema.displayTokens.id, id),
+        eq(schema.displayTokens.userId, userId)
+      ))
+      .returning();
+    return displayToken;
+  }
+
+  async setDisplayTokenKiosk(id: string, canIssueTickets: boolean, userId: string): Promise<DisplayToken | undefined> {
+    const [displayToken] = await db.update(schema.displayTokens)
+      .set({ canIssueTickets })
+      .where(and(
+        eq(schema.displayTokens.id, id),
+        eq(schema.displayTokens.userId, userId)
+      ))
+      .returning();
+    return displayToken;
+  }
+
+  // Display profile methods
+  async getDisplayProfiles(userId: string): Promise<DisplayProfile[]> {
+    return await db.select().from(schema.displayProfiles)
+      .where(eq(schema.displayProfiles.userId, userId))
+      .orderBy(asc(schema.displayProfiles.name));
+  }
+
+  async getDisplayProfile(id: string, userId: string): Promise<DisplayProfile | undefined> {
+    const [profile] = await db.select().from(schema.displayProfiles)
+      .where(and(
+        eq(schema.displayProfiles.id, id),
+        eq(schema.displayProfiles.userId, userId)
+      ));
+    return profile;
+  }
+
+  async createDisplayProfile(profile: DisplayProfileRequest, userId: string): Promise<DisplayProfile> {
+    const [displayProfile] = await db.insert(schema.displayProfiles)
+      .values({
+        name: profile.name,
+        windowIds: profile.windowIds,
+        layout: profile.layout ?? null,
+        mediaIds: profile.mediaIds,
+        userId,
+      })
+      .returning();
+    return displayProfile;
+  }
+
+  async updateDisplayProfile(id: string, updates: UpdateDisplayProfileRequest, userId: string): Promise<DisplayProfile | undefined> {
+    const [displayProfile] = await db.update(schema.displayProfiles)
+      .set({
+        name: updates.name,
+        windowIds: updates.windowIds,
+        layout: updates.layout,
+        mediaIds: updates.mediaIds,
+      })
+      .where(and(
+        eq(schema.displayProfiles.id, id),
+        eq(schema.displayProfiles.userId, userId)
+      ))
+      .returning();
+    return displayProfile;
+  }
+
+  async deleteDisplayProfile(id: string, userId: string): Promise<boolean> {
+    // Same transaction, so no token is ever left pointing at the deleted profile
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(schema.displayProfiles)
+        .where(and(
+          eq(schema.displayProfiles.id, id),
+          eq(schema.displayProfiles.userId, userId)
+        ))
+        .returning({ id: schema.displayProfiles.id });
+      if (result.length === 0) return false;
+
+      await tx.update(schema.displayTokens)
+        .set({ profileId: null })
+        .where(and(
+          eq(schema.displayTokens.profileId, id),
+          eq(schema.displayTokens.userId, userId)
+        ));
+      return true;
+    });
   }
 
   // Window methods  
@@ -1416,6 +2661,8 @@ export class DatabaseStorage implements IStorage {
           name: schema.windows.name,
           isActive: schema.windows.isActive,
           currentPatientId: schema.windows.currentPatientId,
+          serviceIds: schema.windows.serviceIds,
+          type: schema.windows.type,
           userId: schema.windows.userId,
           patientName: schema.patients.name,
           patientNumber: schema.patients.number,
@@ -1431,6 +2678,8 @@ export class DatabaseStorage implements IStorage {
         currentPatientId: w.currentPatientId || undefined,
         currentPatientName: w.patientName || undefined,
         currentPatientNumber: w.patientNumber || undefined,
+        serviceIds: Array.isArray(w.serviceIds) ? w.serviceIds as string[] : [],
+        type: w.type,
         userId: w.userId
       }));
     } catch (error) {
@@ -1448,6 +2697,7 @@ export class DatabaseStorage implements IStorage {
       name: w.name,
       isActive: w.isActive,
       currentPatientId: w.currentPatientId || undefined,
+      type: w.type,
       userId: w.userId
     };
   }
@@ -1459,6 +2709,7 @@ export class DatabaseStorage implements IStorage {
       name: insertWindow.name,
       isActive: true,
       currentPatientId: null,
+      type: insertWindow.type || 'room',
       userId: insertWindow.userId
     };
     
@@ -1469,6 +2720,7 @@ export class DatabaseStorage implements IStorage {
       name: insertWindow.name,
       isActive: true,
       currentPatientId: undefined,
+      type: windowData.type,
       userId: insertWindow.userId
     };
   }
@@ -1486,6 +2738,7 @@ export class DatabaseStorage implements IStorage {
       name: w.name,
       isActive: w.isActive,
       currentPatientId: w.currentPatientId || undefined,
+      type: w.type,
       userId: w.userId
     };
   }
@@ -1517,6 +2770,7 @@ export class DatabaseStorage implements IStorage {
       name: w.name,
       isActive: w.isActive,
       currentPatientId: w.currentPatientId || undefined,
+      type: w.type,
       userId: w.userId
     };
   }
@@ -1544,10 +2798,72 @@ export class DatabaseStorage implements IStorage {
       name: w.name,
       isActive: w.isActive,
       currentPatientId: w.currentPatientId || undefined,
+      type: w.type,
+      userId: w.userId
+    };
+  }
+
+  async updateWindowServices(windowId: string, serviceIds: string[], userId: string): Promise<Window | undefined> {
+    const result = await db.update(schema.windows)
+      .set({ serviceIds: sql`${JSON.stringify(serviceIds)}::json` })
+      .where(and(eq(schema.windows.id, windowId), eq(schema.windows.userId, userId)))
+      .returning();
+    
+    if (result.length === 0) return undefined;
+    const w = result[0];
+    return {
+      id: w.id,
+      name: w.name,
+      isActive: w.isActive,
+      currentPatientId: w.currentPatientId || undefined,
+      serviceIds: Array.isArray(w.serviceIds) ? w.serviceIds as string[] : [],
+      type: w.type,
       userId: w.userId
     };
   }
 
+  // Service methods
+  async getServices(userId: string): Promise<Service[]> {
+    return await db.select().from(schema.services)
+      .where(eq(schema.services.userId, userId))
+      .orderBy(schema.services.prefix);
+  }
+
+  async getService(id: string, userId: string): Promise<Service | undefined> {
+    const [service] = await db.select().from(schema.services)
+      .where(and(eq(schema.services.id, id), eq(schema.services.userId, userId)));
+    return service;
+  }
+
+  async createService(insertService: InsertService): Promise<Service> {
+    const [service] = await db.insert(schema.services).values(insertService).returning();
+    return service;
+  }
+
+  async updateService(id: string, updates: Partial<Pick<Service, 'name' | 'prefix' | 'isActive'>>, userId: string): Promise<Service | undefined> {
+    const [service] = await db.update(schema.services)
+      .set(updates)
+      .where(and(eq(schema.services.id, id), eq(schema.services.userId, userId)))
+      .returning();
+    return service;
+  }
+
+  async deleteService(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(schema.services)
+      .where(and(eq(schema.services.id, id), eq(schema.services.userId, userId)))
+      .returning();
+    if (result.length === 0) return false;
+
+    // Unsubscribe windows from the deleted service
+    const windows = await this.getWindows(userId);
+    for (const window of windows) {
+      if (window.serviceIds?.includes(id)) {
+        await this.updateWindowServices(window.id, window.serviceIds.filter(s => s !== id), userId);
+      }
+    }
+    return true;
+  }
+
   // Patient methods (using memStorage for now due to type complexity)
   async getPatients(userId: string): Promise<Patient[]> {
     // Filter out archived patients (soft delete)
@@ -1565,11 +2881,32 @@ export class DatabaseStorage implements IStorage {
     return patient;
   }
 
+  async getPatientsInRange(from: string, to: string, userId: string): Promise<Patient[]> {
+    const { start, end } = await getDayBounds(userId, from, to);
+
+    // Archived patients are kept - a queue reset must not remove them from history
+    return await db.select().from(schema.patients)
+      .where(
+        and(
+          eq(schema.patients.userId, userId),
+          sql`${schema.patients.registeredAt} >= ${start.toISOString()}`,
+          sql`${schema.patients.registeredAt} <= ${end.toISOString()}`
+        )
+      )
+      .orderBy(asc(schema.patients.registeredAt));
+  }
+
+  async getPatientByStatusCode(statusCode: string): Promise<Patient | undefined> {
+    const [patient] = await db.select().from(schema.patients)
+      .where(and(
+        eq(schema.patients.statusCode, statusCode),
+        isNull(schema.patients.archivedAt)
+      ));
+    return patient;
+  }
+
   async getPatientsByDate(date: string, userId: string): Promise<Patient[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId, date);
     
     return await db.select().from(schema.patients)
       .where(
@@ -1582,18 +2919,28 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async getNextPatientNumber(userId: string): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+  async getNextPatientNumber(userId: string, serviceId?: string | null): Promise<number> {
+    return await this.allocatePatientNumber(db, userId, serviceId);
+  }
+
+  // Inside a transaction, first takes a transaction-scoped advisory lock on the clinic's sequence for
+  // this service, so desk, kiosk and appointment check-in registering at once get different numbers.
+  // The lock is held until the patient row is committed. Outside a transaction it is only a preview.
+  private async allocatePatientNumber(executor: typeof db | DbTransaction, userId: string, serviceId?: string | null): Promise<number> {
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId);
 
-    const result = await db.select({ maxNumber: sql`COALESCE(MAX(${schema.patients.number}), 0)` })
+    if (executor !== db) {
+      await executor.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`patient-number:${userId}:${serviceId || ''}`}))`);
+    }
+
+    // Each service keeps its own daily sequence (patients without a service share one)
+    const result = await executor.select({ maxNumber: sql`COALESCE(MAX(${schema.patients.number}), 0)` })
       .from(schema.patients)
       .where(
         and(
           eq(schema.patients.userId, userId),
+          serviceId ? eq(schema.patients.serviceId, serviceId) : isNull(schema.patients.serviceId),
+          isNull(schema.patients.archivedAt), // Numbering restarts after a queue reset
           sql`${schema.patients.registeredAt} >= ${startOfDay.toISOString()}`,
           sql`${schema.patients.registeredAt} <= ${endOfDay.toISOString()}`
         )
@@ -1602,18 +2949,19 @@ export class DatabaseStorage implements IStorage {
     return (result[0]?.maxNumber as number || 0) + 1;
   }
 
-  async createPatient(insertPatient: InsertPatient): Promise<Patient> {
-    const now = new Date();
-    const trackingHistory = [{
-      timestamp: now.toISOString(),
-      action: 'registered'
-    }];
-    const patientData = {
-      ...insertPatient,
-      trackingHistory: sql`${JSON.stringify(trackingHistory)}::json`
-    };
-    const [patient] = await db.insert(schema.patients).values(patientData).returning();
-    return patient;
+  async createPatient(insertPatient: NewPatient, actorUserId?: string): Promise<Patient> {
+    return await db.transaction(async (tx) => {
+      const [patient] = await tx.insert(schema.patients)
+        .values({
+          ...insertPatient,
+          number: await this.allocatePatientNumber(tx, insertPatient.userId, insertPatient.serviceId),
+          statusCode: generateStatusCode()
+        })
+        .returning();
+
+      await this.recordPatientEvent(patient, { eventType: 'registered', actorUserId: actorUserId || null }, tx);
+      return patient;
+    });
   }
 
   async updatePatient(id: string, updates: Partial<Patient>): Promise<Patient | undefined> {
@@ -1621,92 +2969,87 @@ export class DatabaseStorage implements IStorage {
     return undefined;
   }
 
-  async updatePatientStatus(id: string, status: string, userId: string, windowId?: string | null, requeueReason?: string): Promise<Patient | undefined> {
-    // Get current patient data first
-    const [currentPatient] = await db.select()
+  async updatePatientStatus(id: string, status: string, userId: string, windowId?: string | null, requeueReason?: string, actorUserId?: string): Promise<Patient | undefined> {
+    return await db.transaction((tx) => this.applyPatientStatus(tx, id, status, userId, windowId, requeueReason, actorUserId));
+  }
+
+  // Status change inside the caller's transaction - a collected prescription completes the patient with its ticket
+  private async applyPatientStatus(tx: DbTransaction, id: string, status: string, userId: string, windowId?: string | null, requeueReason?: string, actorUserId?: string): Promise<Patient | undefined> {
+    // Lock the patient row so the transition check and the write see the same state -
+    // two staff pressing different buttons on one patient queue up instead of both succeeding
+    const [currentPatient] = await tx.select()
       .from(schema.patients)
-      .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)));
+      .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)))
+      .for('update');
     
     if (!currentPatient) {
       return undefined;
     }
 
+    // Reject illegal moves (e.g. completed -> called, or a recall from another room) before touching anything
+    assertTransition(currentPatient, status, windowId);
+
+    // Room pointers move with the patient in this transaction: the called room shows them,
+    // any room still pointing at them lets go, and leaving the rooms frees them all
+    if ((status === "called" && windowId) || status === "completed" || status === "requeue" || status === "dispensary") {
+      const calledWindowId = status === "called" ? windowId : null;
+      await tx.update(schema.windows)
+        .set({ currentPatientId: null })
+        .where(and(
+          eq(schema.windows.userId, userId),
+          eq(schema.windows.currentPatientId, id),
+          calledWindowId ? ne(schema.windows.id, calledWindowId) : undefined
+        ));
+      if (calledWindowId) {
+        await tx.update(schema.windows)
+          .set({ currentPatientId: id })
+          .where(and(eq(schema.windows.id, calledWindowId), eq(schema.windows.userId, userId)));
+      }
+    }
+
     const now = new Date();
     
-    // Get existing tracking history as JSON array
-    let trackingHistory: any[] = [];
-    try {
-      trackingHistory = Array.isArray(currentPatient.trackingHistory) ? currentPatient.trackingHistory : [];
-    } catch (e) {
-      trackingHistory = [];
-    }
+    // Journey event for this status change (room name is snapshotted so renames don't rewrite history)
+    const event: Omit<InsertPatientEvent, 'patientId' | 'userId'> = {
+      eventType: status,
+      actorUserId: actorUserId || null
+    };
 
-    // Add new journey event based on status change
     if (status === "called" && windowId) {
-      const [window] = await db.select()
+      const [window] = await tx.select()
         .from(schema.windows)
         .where(and(eq(schema.windows.id, windowId), eq(schema.windows.userId, userId)));
-      
+    
       if (window) {
-        trackingHistory.push({
-          timestamp: now.toISOString(),
-          action: 'called',
-          roomName: window.name
-        });
+        event.windowId = window.id;
+        event.roomName = window.name;
       }
     } else if (status === "dispensary") {
-      // Special handling for dispensary - auto-find DISPENSARY window
-      const [dispensaryWindow] = await db.select()
-        .from(schema.windows)
-        .where(and(
-          eq(schema.windows.name, 'DISPENSARY'),
-          eq(schema.windows.userId, userId)
-        ));
-      
-      if (dispensaryWindow) {
-        trackingHistory.push({
-          timestamp: now.toISOString(),
-          action: 'dispensary',
-          roomName: 'DISPENSARY'
-        });
-      }
-    } else if (status === "in-progress") {
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'in-progress'
-      });
-    } else if (status === "completed") {
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'completed'
-      });
+      event.roomName = 'DISPENSARY';
     } else if (status === "requeue") {
       // Get current room name before clearing
       let fromRoom = 'Unknown';
       if (currentPatient.windowId) {
-        const [currentWindow] = await db.select()
+        const [currentWindow] = await tx.select()
           .from(schema.windows)
           .where(and(eq(schema.windows.id, currentPatient.windowId), eq(schema.windows.userId, userId)));
         fromRoom = currentWindow?.name || 'Unknown';
       }
-      
-      trackingHistory.push({
-        timestamp: now.toISOString(),
-        action: 'requeued',
-        requeueReason: requeueReason || 'No reason specified',
-        fromRoom: fromRoom
-      });
+    
+      event.eventType = 'requeued';
+      event.windowId = currentPatient.windowId;
+      event.roomName = fromRoom;
+      event.reason = requeueReason || 'No reason specified';
     }
     
     // Special handling for "dispensary" status - set readyForDispensary flag, keep status and window unchanged
     if (status === "dispensary") {
       const updateData: any = { 
         readyForDispensary: true, // Mark as ready for dispensary
-        // Status and windowId remain unchanged - patient stays visible on TV until dispensary calls them
-        trackingHistory: sql`${JSON.stringify(trackingHistory)}::json`
+        // Status and windowId remain unchanged - patient stays visible on TV until the prescription is collected
       };
 
-      const [updatedPatient] = await db.update(schema.patients)
+      const [updatedPatient] = await tx.update(schema.patients)
         .set(updateData)
         .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)))
         .returning();
@@ -1719,6 +3062,17 @@ export class DatabaseStorage implements IStorage {
         readyForDispensary: updatedPatient?.readyForDispensary
       });
 
+      if (updatedPatient) {
+        await this.recordPatientEvent(updatedPatient, event, tx);
+        // Open a ticket in the pharmacy queue
+        await tx.insert(schema.dispensaryTickets).values({
+          patientId: updatedPatient.id,
+          number: updatedPatient.number,
+          ticketPrefix: updatedPatient.ticketPrefix,
+          isPriority: updatedPatient.isPriority,
+          userId
+        });
+      }
       return updatedPatient;
     }
     
@@ -1729,15 +3083,15 @@ export class DatabaseStorage implements IStorage {
         currentWindowId: currentPatient.windowId,
         requeueReason: requeueReason
       });
-      
+    
       const updateData: any = { 
         status,
         // windowId remains unchanged - patient stays visible on TV
         requeueReason: requeueReason || null,
-        trackingHistory: sql`${JSON.stringify(trackingHistory)}::json`
+        readyForDispensary: false // Back to the main queue
       };
 
-      const [updatedPatient] = await db.update(schema.patients)
+      const [updatedPatient] = await tx.update(schema.patients)
         .set(updateData)
         .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)))
         .returning();
@@ -1750,6 +3104,16 @@ export class DatabaseStorage implements IStorage {
         requeueReason: updatedPatient?.requeueReason
       });
 
+      if (updatedPatient) {
+        await this.recordPatientEvent(updatedPatient, event, tx);
+        // Back to the main queue - drop any prescription still in the pharmacy queue
+        await tx.update(schema.dispensaryTickets)
+          .set({ status: 'cancelled' })
+          .where(and(
+            eq(schema.dispensaryTickets.patientId, updatedPatient.id),
+            inArray(schema.dispensaryTickets.status, OPEN_DISPENSARY_STATUSES)
+          ));
+      }
       return updatedPatient;
     }
     
@@ -1759,15 +3123,14 @@ export class DatabaseStorage implements IStorage {
         patientId: id,
         currentWindowId: currentPatient.windowId
       });
-      
+    
       const updateData: any = { 
         status,
         // windowId remains unchanged - patient stays visible on TV
-        completedAt: now,
-        trackingHistory: sql`${JSON.stringify(trackingHistory)}::json`
+        completedAt: now
       };
 
-      const [updatedPatient] = await db.update(schema.patients)
+      const [updatedPatient] = await tx.update(schema.patients)
         .set(updateData)
         .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)))
         .returning();
@@ -1779,6 +3142,16 @@ export class DatabaseStorage implements IStorage {
         windowId: updatedPatient?.windowId
       });
 
+      if (updatedPatient) {
+        await this.recordPatientEvent(updatedPatient, event, tx);
+        // Visit over - a prescription still open must leave the pharmacy queue and the dispensary TV
+        await tx.update(schema.dispensaryTickets)
+          .set({ status: 'cancelled' })
+          .where(and(
+            eq(schema.dispensaryTickets.patientId, updatedPatient.id),
+            inArray(schema.dispensaryTickets.status, OPEN_DISPENSARY_STATUSES)
+          ));
+      }
       return updatedPatient;
     }
     
@@ -1786,8 +3159,7 @@ export class DatabaseStorage implements IStorage {
     const updateData: any = { 
       status,
       windowId: windowId || null,
-      requeueReason: requeueReason || null,
-      trackingHistory: sql`${JSON.stringify(trackingHistory)}::json`
+      requeueReason: requeueReason || null
     };
 
     // CRITICAL: ALWAYS update calledAt when status is "called" (including recalls)
@@ -1799,7 +3171,7 @@ export class DatabaseStorage implements IStorage {
       console.log(`📞 CALLING PATIENT: ${id} - New calledAt: ${now.toISOString()}`);
     }
 
-    const [updatedPatient] = await db.update(schema.patients)
+    const [updatedPatient] = await tx.update(schema.patients)
       .set(updateData)
       .where(and(eq(schema.patients.id, id), eq(schema.patients.userId, userId)))
       .returning();
@@ -1812,6 +3184,582 @@ export class DatabaseStorage implements IStorage {
       windowId: updatedPatient?.windowId
     });
 
+    if (updatedPatient) await this.recordPatientEvent(updatedPatient, event, tx);
+    return updatedPatient;
+  }
+
+  // Append-only journey log - no read-modify-write on the patient row
+  // Pass the transaction when the status change itself runs in one, so the event commits with it
+  private async recordPatientEvent(patient: Patient, event: Omit<InsertPatientEvent, 'patientId' | 'userId'>, executor: typeof db | DbTransaction = db): Promise<PatientEvent> {
+    const [patientEvent] = await executor.insert(schema.patientEvents)
+      .values({ ...event, patientId: patient.id, userId: patient.userId })
+      .returning();
+    return patientEvent;
+  }
+
+  async getCurrentPatientEvents(userId: string): Promise<PatientEvent[]> {
+    return this.getEventsForPatients(userId, isNull(schema.patients.archivedAt));
+  }
+
+  async getPatientEventsInRange(from: string, to: string, userId: string): Promise<PatientEvent[]> {
+    const { start, end } = await getDayBounds(userId, from, to);
+    return this.getEventsForPatients(userId, and(
+      sql`${schema.patients.registeredAt} >= ${start.toISOString()}`,
+      sql`${schema.patients.registeredAt} <= ${end.toISOString()}`
+    )!);
+  }
+
+  async getProfileVisitEvents(profileId: string, userId: string): Promise<PatientEvent[]> {
+    return this.getEventsForPatients(userId, eq(schema.patients.profileId, profileId));
+  }
+
+  // Join on patients instead of passing ids, so the query size does not grow with the number of patients
+  private async getEventsForPatients(userId: string, patientFilter: SQL): Promise<PatientEvent[]> {
+    const rows = await db.select({ event: schema.patientEvents })
+      .from(schema.patientEvents)
+      .innerJoin(schema.patients, eq(schema.patientEvents.patientId, schema.patients.id))
+      .where(and(
+        eq(schema.patientEvents.userId, userId),
+        eq(schema.patients.userId, userId),
+        patientFilter
+      ))
+      .orderBy(asc(schema.patientEvents.createdAt));
+
+    return rows.map(row => row.event);
+  }
+
+  async callNextPatient(windowId: string, userId: string, actorUserId?: string): Promise<Patient | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the window row so repeated presses on the same room queue up behind each other
+      const [window] = await tx.select()
+        .from(schema.windows)
+        .where(and(eq(schema.windows.id, windowId), eq(schema.windows.userId, userId)))
+        .for('update');
+
+      if (!window || !window.isActive) return undefined;
+
+      const serviceIds = Array.isArray(window.serviceIds) ? window.serviceIds as string[] : [];
+
+      // Priority first, then requeued patients whose reason has cleared, then FIFO by registration.
+      // SKIP LOCKED lets two rooms pressing "next" together pick different patients instead of the same one.
+      const [nextPatient] = await tx.select()
+        .from(schema.patients)
+        .where(and(
+          eq(schema.patients.userId, userId),
+          isNull(schema.patients.archivedAt),
+          eq(schema.patients.readyForDispensary, false),
+          or(
+            eq(schema.patients.status, 'waiting'),
+            and(eq(schema.patients.status, 'requeue'), isNull(schema.patients.requeueReason))
+          ),
+          serviceIds.length > 0
+            ? or(isNull(schema.patients.serviceId), inArray(schema.patients.serviceId, serviceIds))
+            : undefined
+        ))
+        .orderBy(
+          desc(schema.patients.isPriority),
+          sql`CASE WHEN ${schema.patients.status} = 'requeue' THEN 0 ELSE 1 END`,
+          asc(schema.patients.registeredAt)
+        )
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      if (!nextPatient) return undefined;
+
+      const now = new Date();
+
+      const [calledPatient] = await tx.update(schema.patients)
+        .set({
+          status: 'called',
+          windowId: window.id,
+          calledAt: now,
+          readyForDispensary: false,
+          requeueReason: null
+        })
+        .where(eq(schema.patients.id, nextPatient.id))
+        .returning();
+
+      await tx.insert(schema.patientEvents).values({
+        patientId: calledPatient.id,
+        eventType: 'called',
+        windowId: window.id,
+        roomName: window.name,
+        actorUserId: actorUserId || null,
+        createdAt: now,
+        userId
+      });
+
+      await tx.update(schema.windows)
+        .set({ currentPatientId: calledPatient.id })
+        .where(eq(schema.windows.id, window.id));
+
+      console.log(`📞 CALL NEXT: ${window.name} -> #${calledPatient.number} (${calledPatient.id})`);
+
+      return calledPatient;
+    });
+  }
+
+  async getDispensaryTickets(userId: string): Promise<DispensaryTicket[]> {
+    // Join on live patients so deleted or reset (archived) patients drop out of the pharmacy queue
+    const rows = await db.select({ ticket: schema.dispensaryTickets })
+      .from(schema.dispensaryTickets)
+      .innerJoin(schema.patients, eq(schema.dispensaryTickets.patientId, schema.patients.id))
+      .where(and(
+        eq(schema.dispensaryTickets.userId, userId),
+        inArray(schema.dispensaryTickets.status, OPEN_DISPENSARY_STATUSES),
+        isNull(schema.patients.archivedAt)
+      ))
+      .orderBy(asc(schema.dispensaryTickets.queuedAt));
+
+    return rows.map(row => row.ticket);
+  }
+
+  async updateDispensaryTicketStatus(ticketId: string, status: string, userId: string, counterId?: string): Promise<DispensaryTicket | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the ticket so two counters (or a manual call racing call-next) cannot both call it
+      const [ticket] = await tx.select()
+        .from(schema.dispensaryTickets)
+        .where(and(eq(schema.dispensaryTickets.id, ticketId), eq(schema.dispensaryTickets.userId, userId)))
+        .for('update');
+
+      if (!ticket) return undefined;
+
+      assertDispensaryTransition(ticket, status);
+
+      const now = new Date();
+      const updateData: Partial<DispensaryTicket> = { status };
+
+      if (status === 'ready') {
+        // First time ready keeps its place; a no-show sent back keeps its original readyAt too
+        updateData.readyAt = ticket.readyAt || now;
+        updateData.counterId = null;
+      } else if (status === 'called') {
+        const [counter] = await tx.select()
+          .from(schema.windows)
+          .where(and(
+            eq(schema.windows.id, counterId || ticket.counterId || ''),
+            eq(schema.windows.userId, userId),
+            eq(schema.windows.type, 'dispensary')
+          ))
+          .for('update');
+        if (!counter) return undefined;
+        updateData.counterId = counter.id;
+        updateData.calledAt = now;
+      } else if (status === 'collected') {
+        updateData.collectedAt = now;
+      }
+
+      const [updatedTicket] = await tx.update(schema.dispensaryTickets)
+        .set(updateData)
+        .where(eq(schema.dispensaryTickets.id, ticketId))
+        .returning();
+
+      // Prescription handed over - the patient's visit is done, committed together with the ticket
+      if (status === 'collected') {
+        const [patient] = await tx.select()
+          .from(schema.patients)
+          .where(and(eq(schema.patients.id, ticket.patientId), eq(schema.patients.userId, userId)));
+        if (patient && canTransition(patient, 'completed')) {
+          await this.applyPatientStatus(tx, patient.id, 'completed', userId);
+        }
+      }
+
+      return updatedTicket;
+    });
+  }
+
+  async callNextDispensaryTicket(counterId: string, userId: string): Promise<DispensaryTicket | undefined> {
+    return await db.transaction(async (tx) => {
+      const [counter] = await tx.select()
+        .from(schema.windows)
+        .where(and(
+          eq(schema.windows.id, counterId),
+          eq(schema.windows.userId, userId),
+          eq(schema.windows.type, 'dispensary')
+        ))
+        .for('update');
+
+      if (!counter || !counter.isActive) return undefined;
+
+      // Priority first, then the prescription that has been ready longest.
+      // SKIP LOCKED lets counters pressing "next" together get different tickets.
+      const [nextTicket] = await tx.select({ ticket: schema.dispensaryTickets })
+        .from(schema.dispensaryTickets)
+        .innerJoin(schema.patients, eq(schema.dispensaryTickets.patientId, schema.patients.id))
+        .where(and(
+          eq(schema.dispensaryTickets.userId, userId),
+          eq(schema.dispensaryTickets.status, 'ready'),
+          isNull(schema.patients.archivedAt)
+        ))
+        .orderBy(desc(schema.dispensaryTickets.isPriority), asc(schema.dispensaryTickets.readyAt))
+        .limit(1)
+        .for('update', { of: schema.dispensaryTickets, skipLocked: true });
+
+      if (!nextTicket) return undefined;
+
+      const [calledTicket] = await tx.update(schema.dispensaryTickets)
+        .set({ status: 'called', counterId: counter.id, calledAt: new Date() })
+        .where(eq(schema.dispensaryTickets.id, nextTicket.ticket.id))
+        .returning();
+
+      console.log(`💊 CALL NEXT: ${counter.name} -> #${calledTicket.number} (${calledTicket.id})`);
+
+      return calledTicket;
+    });
+  }
+
+  async searchPatientProfiles(query: string, userId: string, limit: number = 10): Promise<PatientProfile[]> {
+    const search = `%${query.trim()}%`;
+    const icSearch = normalizeIcNumber(query.trim());
+    return await db.select().from(schema.patientProfiles)
+      .where(and(
+        eq(schema.patientProfiles.userId, userId),
+        or(
+          icSearch ? ilike(schema.patientProfiles.icNumber, `%${icSearch}%`) : undefined,
+          ilike(schema.patientProfiles.mrn, search),
+          ilike(schema.patientProfiles.name, search),
+          ilike(schema.patientProfiles.phone, search)
+        )
+      ))
+      .orderBy(asc(schema.patientProfiles.name))
+      .limit(limit);
+  }
+
+  async getPatientProfile(id: string, userId: string): Promise<PatientProfile | undefined> {
+    const [profile] = await db.select().from(schema.patientProfiles)
+      .where(and(eq(schema.patientProfiles.id, id), eq(schema.patientProfiles.userId, userId)));
+    return profile;
+  }
+
+  async findPatientProfileConflict(identifiers: { icNumber?: string | null; mrn?: string | null }, userId: string, excludeId?: string): Promise<PatientProfile | undefined> {
+    if (!identifiers.icNumber && !identifiers.mrn) return undefined;
+
+    const [profile] = await db.select().from(schema.patientProfiles)
+      .where(and(
+        eq(schema.patientProfiles.userId, userId),
+        excludeId ? sql`${schema.patientProfiles.id} <> ${excludeId}` : undefined,
+        or(
+          identifiers.icNumber ? eq(schema.patientProfiles.icNumber, identifiers.icNumber) : undefined,
+          identifiers.mrn ? eq(schema.patientProfiles.mrn, identifiers.mrn) : undefined
+        )
+      ))
+      .limit(1);
+    return profile;
+  }
+
+  async createPatientProfile(insertProfile: InsertPatientProfile): Promise<PatientProfile> {
+    const [profile] = await db.insert(schema.patientProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updatePatientProfile(id: string, updates: UpdatePatientProfileRequest, userId: string): Promise<PatientProfile | undefined> {
+    const [profile] = await db.update(schema.patientProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(schema.patientProfiles.id, id), eq(schema.patientProfiles.userId, userId)))
+      .returning();
+    return profile;
+  }
+
+  async getProfileVisits(profileId: string, userId: string): Promise<Patient[]> {
+    // Archived visits included - history outlives queue resets
+    return await db.select().from(schema.patients)
+      .where(and(
+        eq(schema.patients.userId, userId),
+        eq(schema.patients.profileId, profileId)
+      ))
+      .orderBy(desc(schema.patients.registeredAt));
+  }
+
+  async linkPatientProfile(patientId: string, profileId: string | null, userId: string): Promise<Patient | undefined> {
+    const [patient] = await db.update(schema.patients)
+      .set({ profileId })
+      .where(and(eq(schema.patients.id, patientId), eq(schema.patients.userId, userId)))
+      .returning();
+    return patient;
+  }
+
+  async getAppointments(date: string, userId: string): Promise<Appointment[]> {
+    return await db.select().from(schema.appointments)
+      .where(and(
+        eq(schema.appointments.userId, userId),
+        eq(schema.appointments.date, date)
+      ))
+      .orderBy(asc(schema.appointments.slotTime), asc(schema.appointments.createdAt));
+  }
+
+  async getAppointment(id: string, userId: string): Promise<Appointment | undefined> {
+    const [appointment] = await db.select().from(schema.appointments)
+      .where(and(eq(schema.appointments.id, id), eq(schema.appointments.userId, userId)));
+    return appointment;
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const [appointment] = await db.insert(schema.appointments).values(insertAppointment).returning();
+    return appointment;
+  }
+
+  async updateAppointment(id: string, updates: UpdateAppointmentRequest, userId: string): Promise<Appointment | undefined> {
+    const [appointment] = await db.update(schema.appointments)
+      .set(updates)
+      .where(and(eq(schema.appointments.id, id), eq(schema.appointments.userId, userId)))
+      .returning();
+    return appointment;
+  }
+
+  async updateAppointmentStatus(id: string, status: string, userId: string): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [appointment] = await tx.select().from(schema.appointments)
+        .where(and(eq(schema.appointments.id, id), eq(schema.appointments.userId, userId)))
+        .for('update');
+      if (!appointment) return undefined;
+
+      assertAppointmentTransition(appointment, status);
+
+      const [updated] = await tx.update(schema.appointments)
+        .set({ status })
+        .where(eq(schema.appointments.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async checkInAppointment(id: string, insertPatient: NewPatient, userId: string, actorUserId?: string): Promise<{ appointment: Appointment; patient: Patient } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the booking so a double-tapped check-in cannot queue the patient twice
+      const [appointment] = await tx.select().from(schema.appointments)
+        .where(and(eq(schema.appointments.id, id), eq(schema.appointments.userId, userId)))
+        .for('update');
+      if (!appointment) return undefined;
+
+      assertAppointmentTransition(appointment, "checked-in");
+
+      const [patient] = await tx.insert(schema.patients)
+        .values({
+          ...insertPatient,
+          number: await this.allocatePatientNumber(tx, userId, insertPatient.serviceId),
+          appointmentId: appointment.id,
+          statusCode: generateStatusCode()
+        })
+        .returning();
+
+      await tx.insert(schema.patientEvents).values({
+        patientId: patient.id,
+        eventType: 'registered',
+        actorUserId: actorUserId || null,
+        userId: patient.userId
+      });
+
+      const [updated] = await tx.update(schema.appointments)
+        .set({ status: "checked-in", patientId: patient.id, checkedInAt: new Date() })
+        .where(eq(schema.appointments.id, id))
+        .returning();
+
+      return { appointment: updated, patient };
+    });
+  }
+
+  async getNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await db.select().from(schema.notifications)
+      .where(eq(schema.notifications.userId, userId))
+      .orderBy(desc(schema.notifications.createdAt))
+      .limit(limit);
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(schema.notifications).values(insertNotification).returning();
+    return notification;
+  }
+
+  async claimNotification(insertNotification: InsertNotification): Promise<Notification | undefined> {
+    // notifications_patient_id_kind_idx decides the winner - a losing insert returns no row
+    const [notification] = await db.insert(schema.notifications)
+      .values(insertNotification)
+      .onConflictDoNothing()
+      .returning();
+    return notification;
+  }
+
+  async updateNotification(id: string, updates: Partial<Pick<Notification, 'status' | 'providerMessageId' | 'error'>>): Promise<Notification | undefined> {
+    const [notification] = await db.update(schema.notifications)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(schema.notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async updateNotificationDelivery(provider: string, providerMessageId: string, status: NotificationStatus, error?: string | null): Promise<Notification | undefined> {
+    const [notification] = await db.update(schema.notifications)
+      .set({ status, ...(error !== undefined && { error }), updatedAt: new Date() })
+      .where(and(
+        eq(schema.notifications.provider, provider),
+        eq(schema.notifications.providerMessageId, providerMessageId)
+      ))
+      .returning();
+    return notification;
+  }
+
+  async getPushSubscriptions(patientId: string, userId: string): Promise<PushSubscription[]> {
+    return await db.select().from(schema.pushSubscriptions)
+      .where(and(
+        eq(schema.pushSubscriptions.userId, userId),
+        eq(schema.pushSubscriptions.patientId, patientId)
+      ));
+  }
+
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const [subscription] = await db.insert(schema.pushSubscriptions)
+      .values(insertSubscription)
+      .onConflictDoUpdate({
+        target: schema.pushSubscriptions.endpoint,
+        set: {
+          patientId: insertSubscription.patientId,
+          p256dh: insertSubscription.p256dh,
+          auth: insertSubscription.auth,
+          userId: insertSubscription.userId,
+          createdAt: new Date(),
+          lastPushedAt: null,
+        },
+      })
+      .returning();
+    return subscription;
+  }
+
+  async markPushSubscriptionUsed(id: string): Promise<void> {
+    await db.update(schema.pushSubscriptions)
+      .set({ lastPushedAt: new Date() })
+      .where(eq(schema.pushSubscriptions.id, id));
+  }
+
+  async deletePushSubscription(endpoint: string, patientId: string): Promise<boolean> {
+    const result = await db.delete(schema.pushSubscriptions)
+      .where(and(
+        eq(schema.pushSubscriptions.endpoint, endpoint),
+        eq(schema.pushSubscriptions.patientId, patientId)
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deletePatientPushSubscriptions(patientId: string, userId: string): Promise<number> {
+    const result = await db.delete(schema.pushSubscriptions)
+      .where(and(
+        eq(schema.pushSubscriptions.userId, userId),
+        eq(schema.pushSubscriptions.patientId, patientId)
+      ));
+    return result.rowCount || 0;
+  }
+
+  async deleteInactivePushSubscriptions(userId: string): Promise<number> {
+    const livePatients = db.select({ id: schema.patients.id }).from(schema.patients)
+      .where(and(
+        eq(schema.patients.userId, userId),
+        isNull(schema.patients.archivedAt),
+        ne(schema.patients.status, 'completed')
+      ));
+    const result = await db.delete(schema.pushSubscriptions)
+      .where(and(
+        eq(schema.pushSubscriptions.userId, userId),
+        notInArray(schema.pushSubscriptions.patientId, livePatients)
+      ));
+    return result.rowCount || 0;
+  }
+
+  async getDeploymentConfig(key: string): Promise<string | undefined> {
+    const [config] = await db.select().from(schema.deploymentConfig).where(eq(schema.deploymentConfig.key, key));
+    return config?.value;
+  }
+
+  async claimDeploymentConfig(key: string, value: string): Promise<string> {
+    // First instance to start wins - others read back its value
+    await db.insert(schema.deploymentConfig).values({ key, value }).onConflictDoNothing();
+    return (await this.getDeploymentConfig(key))!;
+  }
+
+  async countRateLimitHit(key: string, windowMs: number): Promise<number> {
+    // One statement per hit, so concurrent requests on any instance count against the same row.
+    // SET sees the old row: an expired window restarts at 1, a live one counts up.
+    const expired = sql`${schema.rateLimits.windowStartedAt} <= now() - make_interval(secs => ${windowMs / 1000})`;
+    const [row] = await db.insert(schema.rateLimits)
+      .values({ key })
+      .onConflictDoUpdate({
+        target: schema.rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${expired} THEN 1 ELSE ${schema.rateLimits.count} + 1 END`,
+          windowStartedAt: sql`CASE WHEN ${expired} THEN now() ELSE ${schema.rateLimits.windowStartedAt} END`,
+        },
+      })
+      .returning({ count: schema.rateLimits.count });
+    return row.count;
+  }
+
+  async deleteExpiredRateLimits(keyPrefix: string, windowMs: number): Promise<number> {
+    const deleted = await db.delete(schema.rateLimits)
+      .where(and(
+        like(schema.rateLimits.key, `${keyPrefix}%`),
+        sql`${schema.rateLimits.windowStartedAt} <= now() - make_interval(secs => ${windowMs / 1000})`
+      ))
+      .returning({ key: schema.rateLimits.key });
+    return deleted.length;
+  }
+
+  async createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const [auditEntry] = await db.insert(schema.auditLog).values(entry).returning();
+    return auditEntry;
+  }
+
+  async getAuditLog(query: AuditLogQuery, userId: string): Promise<{ entries: AuditEntry[]; total: number }> {
+    const conditions = [eq(schema.auditLog.userId, userId)];
+    const schedule = await getClinicSchedule(userId);
+    if (query.from) {
+      conditions.push(gte(schema.auditLog.createdAt, getClinicDayBounds(schedule, query.from).start));
+    }
+    if (query.to) {
+      conditions.push(lte(schema.auditLog.createdAt, getClinicDayBounds(schedule, query.to).end));
+    }
+    if (query.targetType) {
+      conditions.push(eq(schema.auditLog.targetType, query.targetType));
+    }
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      conditions.push(or(
+        ilike(schema.auditLog.actorUsername, pattern),
+        ilike(schema.auditLog.action, pattern),
+        ilike(schema.auditLog.targetId, pattern)
+      )!);
+    }
+
+    const where = and(...conditions);
+    const [entries, [{ total }]] = await Promise.all([
+      db.select().from(schema.auditLog)
+        .where(where)
+        .orderBy(desc(schema.auditLog.createdAt))
+        .limit(query.limit)
+        .offset(query.offset),
+      db.select({ total: sql<number>`count(*)::int` }).from(schema.auditLog).where(where)
+    ]);
+
+    return { entries, total };
+  }
+
+  async purgeAuditLog(olderThan: Date, userId: string): Promise<number> {
+    const deleted = await db.delete(schema.auditLog)
+      .where(and(
+        eq(schema.auditLog.userId, userId),
+        lt(schema.auditLog.createdAt, olderThan)
+      ))
+      .returning({ id: schema.auditLog.id });
+    return deleted.length;
+  }
+
+  async clearRequeueReason(patientId: string, userId: string): Promise<Patient | undefined> {
+    const [updatedPatient] = await db.update(schema.patients)
+      .set({ requeueReason: null })
+      .where(and(
+        eq(schema.patients.id, patientId),
+        eq(schema.patients.userId, userId),
+        eq(schema.patients.status, 'requeue')
+      ))
+      .returning();
+
     return updatedPatient;
   }
 
@@ -1853,24 +3801,124 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount || 0;
   }
 
-  async deleteAllTodayPatients(userId: string): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+  async resetQueue(userId: string, actorUserId?: string): Promise<QueueReset> {
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId);
 
-    // Delete all today's patients (hard delete)
-    const result = await db.delete(schema.patients)
-      .where(
-        and(
-          eq(schema.patients.userId, userId),
-          sql`${schema.patients.registeredAt} >= ${startOfDay.toISOString()}`,
-          sql`${schema.patients.registeredAt} <= ${endOfDay.toISOString()}`
+    return await db.transaction(async (tx) => {
+      const resetId = randomUUID();
+      const now = new Date();
+
+      // Archive (not delete) today's patients so the reset can be undone and reports keep them
+      const archived = await tx.update(schema.patients)
+        .set({ archivedAt: now, queueResetId: resetId })
+        .where(
+          and(
+            eq(schema.patients.userId, userId),
+            isNull(schema.patients.archivedAt),
+            sql`${schema.patients.registeredAt} >= ${startOfDay.toISOString()}`,
+            sql`${schema.patients.registeredAt} <= ${endOfDay.toISOString()}`
+          )
         )
-      );
-    
-    return result.rowCount || 0;
+        .returning({ id: schema.patients.id });
+
+      // Clear all rooms, remembering who was in them for undo
+      const occupiedWindows = await tx.select({ id: schema.windows.id, currentPatientId: schema.windows.currentPatientId })
+        .from(schema.windows)
+        .where(and(eq(schema.windows.userId, userId), sql`${schema.windows.currentPatientId} IS NOT NULL`))
+        .for('update');
+      const windowAssignments: Record<string, string> = {};
+      for (const window of occupiedWindows) {
+        windowAssignments[window.id] = window.currentPatientId!;
+      }
+      await tx.update(schema.windows)
+        .set({ currentPatientId: null })
+        .where(eq(schema.windows.userId, userId));
+
+      const [reset] = await tx.insert(schema.queueResets).values({
+        id: resetId,
+        archivedCount: archived.length,
+        windowAssignments,
+        actorUserId: actorUserId || null,
+        createdAt: now,
+        userId
+      }).returning();
+      return reset;
+    });
+  }
+
+  async getLatestQueueReset(userId: string): Promise<QueueReset | undefined> {
+    const [reset] = await db.select().from(schema.queueResets)
+      .where(eq(schema.queueResets.userId, userId))
+      .orderBy(desc(schema.queueResets.createdAt))
+      .limit(1);
+    return reset;
+  }
+
+  async rolloverQueue(userId: string, clinicDate: string, dayStart: Date): Promise<number | undefined> {
+    return await db.transaction(async (tx) => {
+      // Claim the clinic day with the archive - a second instance waits on the clinic row and then finds
+      // the day taken, and a failed archive rolls the claim back so the next tick retries it
+      const claimed = await tx.update(clinics)
+        .set({ lastRolloverDate: clinicDate })
+        .where(and(eq(clinics.id, userId), sql`${clinics.lastRolloverDate} IS DISTINCT FROM ${clinicDate}`))
+        .returning({ id: clinics.id });
+      if (claimed.length === 0) return undefined;
+
+      // Leftovers from earlier clinic days (never called, or still open) - kept for reports
+      const archived = await tx.update(schema.patients)
+        .set({ archivedAt: new Date() })
+        .where(
+          and(
+            eq(schema.patients.userId, userId),
+            isNull(schema.patients.archivedAt),
+            sql`${schema.patients.registeredAt} < ${dayStart.toISOString()}`
+          )
+        )
+        .returning({ id: schema.patients.id });
+
+      // Free rooms still showing a leftover patient
+      if (archived.length > 0) {
+        await tx.update(schema.windows)
+          .set({ currentPatientId: null })
+          .where(and(
+            eq(schema.windows.userId, userId),
+            inArray(schema.windows.currentPatientId, archived.map(p => p.id))
+          ));
+      }
+
+      return archived.length;
+    });
+  }
+
+  async undoQueueReset(resetId: string, userId: string): Promise<number | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the reset row so a double-clicked undo restores only once
+      const [reset] = await tx.select().from(schema.queueResets)
+        .where(and(eq(schema.queueResets.id, resetId), eq(schema.queueResets.userId, userId)))
+        .for('update');
+      if (!reset || reset.undoneAt) return undefined;
+
+      const restored = await tx.update(schema.patients)
+        .set({ archivedAt: null, queueResetId: null })
+        .where(and(eq(schema.patients.userId, userId), eq(schema.patients.queueResetId, resetId)))
+        .returning({ id: schema.patients.id });
+
+      // Only put patients back into rooms nobody has been called to since
+      for (const [windowId, patientId] of Object.entries(reset.windowAssignments)) {
+        await tx.update(schema.windows)
+          .set({ currentPatientId: patientId })
+          .where(and(
+            eq(schema.windows.id, windowId),
+            eq(schema.windows.userId, userId),
+            isNull(schema.windows.currentPatientId)
+          ));
+      }
+
+      await tx.update(schema.queueResets)
+        .set({ undoneAt: new Date() })
+        .where(eq(schema.queueResets.id, resetId));
+      return restored.length;
+    });
   }
 
   // Media methods
@@ -1978,16 +4026,13 @@ export class DatabaseStorage implements IStorage {
     activeWindows: number;
     totalWindows: number;
   }> {
-    const today = new Date().toISOString().split('T')[0];
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId);
 
     const patients = await db.select().from(schema.patients)
       .where(
         and(
           eq(schema.patients.userId, userId),
+          isNull(schema.patients.archivedAt),
           sql`${schema.patients.registeredAt} >= ${startOfDay.toISOString()}`,
           sql`${schema.patients.registeredAt} <= ${endOfDay.toISOString()}`
         )
@@ -2004,14 +4049,16 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getCurrentCall(userId: string): Promise<Patient | undefined> {
+  async getCurrentCall(userId: string, windowIds?: string[]): Promise<Patient | undefined> {
     // Get the most recent called patient to display on TV
     // INCLUDE: called, in-progress, completed, dispensary, requeue (all should remain visible with windowId until new call)
     // Only exclude if patient is WAITING (has not been called yet)
+    if (windowIds && windowIds.length === 0) return undefined;
     const [result] = await db
       .select({
         id: schema.patients.id,
         name: schema.patients.name,
+        phone: schema.patients.phone,
         number: schema.patients.number,
         status: schema.patients.status,
         isPriority: schema.patients.isPriority,
@@ -2025,6 +4072,12 @@ export class DatabaseStorage implements IStorage {
         requeueReason: schema.patients.requeueReason,
         trackingHistory: schema.patients.trackingHistory,
         archivedAt: schema.patients.archivedAt,
+        queueResetId: schema.patients.queueResetId,
+        serviceId: schema.patients.serviceId,
+        ticketPrefix: schema.patients.ticketPrefix,
+        statusCode: schema.patients.statusCode,
+        appointmentId: schema.patients.appointmentId,
+        profileId: schema.patients.profileId,
         userId: schema.patients.userId,
         // Get room name - use current window if available, otherwise last window
         room: sql<string>`COALESCE(${schema.windows.name}, lw.name)`,
@@ -2034,8 +4087,10 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(sql`${schema.windows} lw`, eq(schema.patients.lastWindowId, sql`lw.id`))
       .where(and(
         eq(schema.patients.userId, userId),
+        isNull(schema.patients.archivedAt), // A queue reset clears the TV
         sql`${schema.patients.calledAt} IS NOT NULL`, // Only patients that have been called
-        sql`${schema.patients.windowId} IS NOT NULL` // Only patients currently assigned to a room (requeue/dispense keeps windowId)
+        sql`${schema.patients.windowId} IS NOT NULL`, // Only patients currently assigned to a room (requeue/dispense keeps windowId)
+        windowIds ? inArray(schema.patients.windowId, windowIds) : undefined // Display profile rooms only
       ))
       .orderBy(sql`${schema.patients.calledAt} DESC`) // Most recent call first
       .limit(1);
@@ -2051,21 +4106,19 @@ export class DatabaseStorage implements IStorage {
     return finalResult;
   }
 
-  async getRecentHistory(userId: string, limit: number = 10): Promise<Patient[]> {
-    const today = new Date().toISOString().split('T')[0];
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+  async getRecentHistory(userId: string, limit: number = 10, windowIds?: string[]): Promise<Patient[]> {
+    if (windowIds && windowIds.length === 0) return [];
+    const { start: startOfDay, end: endOfDay } = await getDayBounds(userId);
 
     // Get current call
-    const currentCall = await this.getCurrentCall(userId);
+    const currentCall = await this.getCurrentCall(userId, windowIds);
 
     // Get all patients that have been called today with their tracking history
     // EXCLUDE patients with status 'dispensary' or 'requeue' - they should not appear on TV until manually called again
     const patients = await db.select({
       id: schema.patients.id,
       name: schema.patients.name,
+      phone: schema.patients.phone,
       number: schema.patients.number,
       status: schema.patients.status,
       isPriority: schema.patients.isPriority,
@@ -2079,16 +4132,24 @@ export class DatabaseStorage implements IStorage {
       requeueReason: schema.patients.requeueReason,
       trackingHistory: schema.patients.trackingHistory,
       archivedAt: schema.patients.archivedAt,
+      queueResetId: schema.patients.queueResetId,
+      serviceId: schema.patients.serviceId,
+      ticketPrefix: schema.patients.ticketPrefix,
+      statusCode: schema.patients.statusCode,
+      appointmentId: schema.patients.appointmentId,
+      profileId: schema.patients.profileId,
       userId: schema.patients.userId,
     }).from(schema.patients)
       .where(
         and(
           eq(schema.patients.userId, userId),
+          isNull(schema.patients.archivedAt),
           sql`${schema.patients.calledAt} IS NOT NULL`,
           sql`${schema.patients.calledAt} >= ${startOfDay.toISOString()}`,
           sql`${schema.patients.calledAt} <= ${endOfDay.toISOString()}`,
           sql`${schema.patients.status} != 'dispensary'`, // Exclude dispensary patients from TV display
-          sql`${schema.patients.status} != 'requeue'` // Exclude requeued patients from TV display - they go back to waiting
+          sql`${schema.patients.status} != 'requeue'`, // Exclude requeued patients from TV display - they go back to waiting
+          windowIds ? inArray(schema.patients.windowId, windowIds) : undefined // Display profile rooms only
         )
       );
 
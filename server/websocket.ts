@@ -1,57 +1,53 @@
 import { Server, Socket } from "socket.io";
-import session from "express-session";
-import connectPgSimple from "connect-pg-simple";
+import type { Request } from "express";
 import { storage } from "./storage";
+import { sessionMiddleware } from "./session";
+import { getEventCursor, getMissedEvents, nextEventSeq, parseEventCursor, recordEvent } from "./event-replay";
+import { STAFF_ONLY_CLINIC_EVENTS, toDisplayPatient, isDisplaySetting, type ClinicEventName, type ClinicEvents } from "@shared/realtime";
+import type { Patient } from "@shared/schema";
+
+// serverSideEmit channel for clinic events - see broadcastToClinic
+const CLINIC_EVENT_CHANNEL = "clinic:event";
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  clinicId?: string; // Staff share their clinic's room
   clinicRoom?: string;
+  tvClinicId?: string; // Set for token-based TV displays (read-only, no session)
+  tvRoom?: string;
+  statusRoom?: string; // Set for public queue status pages (patient phones)
 }
 
 /**
  * Setup WebSocket server with multi-tenant isolation
- * Each clinic gets isolated rooms based on userId to prevent cross-tenant communication
+ * Each clinic gets isolated rooms based on clinicId to prevent cross-tenant communication
  */
 export function setupWebSocket(io: Server) {
-  // Middleware to authenticate WebSocket connections using session
+  // Same session middleware as Express - runs on the handshake (and upgrade) request
+  io.engine.use(sessionMiddleware);
+
+  // Authenticate WebSocket connections using the session
   io.use((socket: AuthenticatedSocket, next) => {
-    const req = socket.request as any;
-    
-    // Parse session from socket request
-    const PgSession = connectPgSimple(session);
-    const sessionStore = new PgSession({
-      conString: process.env.DATABASE_URL,
-      tableName: 'user_sessions',
-      createTableIfMissing: true,
-    });
+    const req = socket.request as Request;
     
-    // Get session ID from cookie
-    const sessionParser = session({
-      store: sessionStore,
-      secret: process.env.SESSION_SECRET || 'clinic-management-secret-key-change-in-production',
-      resave: false,
-      saveUninitialized: false,
-      cookie: {
-        secure: process.env.NODE_ENV === 'production',
-        httpOnly: true,
-        maxAge: 24 * 60 * 60 * 1000,
-      },
-    });
-    
-    sessionParser(req, {} as any, () => {
-      if (req.session && req.session.userId) {
-        // Authenticated connection - assign userId and clinic room
-        socket.userId = req.session.userId;
-        socket.clinicRoom = `clinic:${req.session.userId}`;
-        console.log(`✅ WebSocket authenticated: User ${socket.userId} -> Room ${socket.clinicRoom}`);
-        next();
-      } else {
-        // Unauthenticated connection - could be TV display
-        // For now, we'll allow but without joining clinic rooms
-        console.log(`⚠️ WebSocket unauthenticated connection: ${socket.id}`);
-        next();
-      }
-    });
+    if (req.session && req.session.userId) {
+      // Authenticated connection - assign userId and clinic room
+      // (sessions from before clinics existed have no clinicId; their userId is the clinic id)
+      socket.userId = req.session.userId;
+      socket.clinicId = req.session.clinicId || req.session.userId;
+      socket.clinicRoom = `clinic:${socket.clinicId}`;
+      console.log(`✅ WebSocket authenticated: User ${socket.userId} -> Room ${socket.clinicRoom}`);
+    } else {
+      // Unauthenticated connection - could be TV display
+      // For now, we'll allow but without joining clinic rooms
+      console.log(`⚠️ WebSocket unauthenticated connection: ${socket.id}`);
+    }
+    next();
+  });
+
+  // Clinic events broadcast by another instance - delivered here to this instance's sockets
+  io.on(CLINIC_EVENT_CHANNEL, (clinicId: string, event: ClinicEventName, data: ClinicEvents[ClinicEventName]) => {
+    deliverClinicEvent(io, clinicId, event, data);
   });
 
   io.on("connection", (socket: AuthenticatedSocket) => {
@@ -64,76 +60,97 @@ export function setupWebSocket(io: Server) {
       
       // Emit welcome message to confirm room join
       socket.emit("clinic:joined", {
-        clinicId: socket.userId,
         room: socket.clinicRoom,
-        message: "Connected to clinic real-time updates"
+        message: "Connected to clinic real-time updates",
+        ...getEventCursor(socket.clinicId!)
       });
+      replayMissedEvents(socket, socket.clinicId!, "staff");
     }
 
-    // Handle real-time patient call events
-    socket.on("patient:call", (data) => {
-      if (!socket.userId || !socket.clinicRoom) {
-        socket.emit("error", { message: "Authentication required for patient calls" });
-        return;
-      }
-      
-      console.log(`📞 Patient call from clinic ${socket.userId}:`, data);
-      
-      // Broadcast to all clients in the same clinic room
-      io.to(socket.clinicRoom).emit("patient:called", {
-        ...data,
-        timestamp: new Date(),
-        clinicId: socket.userId
-      });
-    });
+    // No client-originated patient/queue events: every real-time update is broadcast by the
+    // REST route that persisted it (see broadcastToClinic and shared/realtime.ts)
 
-    // Handle patient status updates (completed, etc.)
-    socket.on("patient:update", (data) => {
-      if (!socket.userId || !socket.clinicRoom) {
-        socket.emit("error", { message: "Authentication required for patient updates" });
+    // Handle TV display connections (unauthenticated but token-based)
+    // TVs join a separate read-only room: they receive clinic broadcasts but never get socket.userId
+    socket.on("tv:connect", async (data) => {
+      const { token } = data || {};
+      
+      if (!token) {
+        socket.emit("tv:rejected", { message: "TV token required" });
         return;
       }
       
-      console.log(`📋 Patient update from clinic ${socket.userId}:`, data);
-      
-      // Broadcast to all clients in the same clinic room
-      io.to(socket.clinicRoom).emit("patient:updated", {
-        ...data,
-        timestamp: new Date(),
-        clinicId: socket.userId
-      });
-    });
+      try {
+        const resolved = await storage.resolveDisplayToken(token);
+        const clinic = resolved?.clinic;
+        if (!resolved || !clinic || !clinic.isActive) {
+          console.log(`📺❌ TV display rejected - invalid token (${socket.id})`);
+          socket.emit("tv:rejected", { message: "Invalid TV token" });
+          socket.disconnect(true);
+          return;
+        }
 
-    // Handle queue updates
-    socket.on("queue:update", (data) => {
-      if (!socket.userId || !socket.clinicRoom) {
-        socket.emit("error", { message: "Authentication required for queue updates" });
-        return;
+        // TVs re-send tv:connect when their display profile changes - drop the rooms of the previous one
+        const isReconnect = !!socket.tvRoom;
+        leaveDisplayRooms(socket);
+
+        socket.tvClinicId = clinic.id;
+        socket.tvRoom = `clinic:${clinic.id}:tv`;
+        socket.join(socket.tvRoom);
+        // Per-token room so rotating or revoking a token can drop this TV immediately
+        socket.join(`display:${resolved.displayToken.id}`);
+        // Calls reach a TV through its room group: every room, or only the rooms of its display profile
+        const profile = resolved.profile;
+        socket.join(profile
+          ? profile.windowIds.map(windowId => `${socket.tvRoom}:window:${windowId}`)
+          : `${socket.tvRoom}:all`);
+        console.log(`📺 TV display ${socket.id} joined room: ${socket.tvRoom}${profile ? ` (profile ${profile.name})` : ''}`);
+        
+        socket.emit("tv:connected", { 
+          room: socket.tvRoom,
+          message: "TV display connected",
+          profileId: profile?.id || null,
+          ...getEventCursor(clinic.id)
+        });
+        if (!isReconnect) {
+          replayMissedEvents(socket, clinic.id, "tv");
+        }
+      } catch (error) {
+        console.error("Error validating TV token:", error);
+        socket.emit("error", { message: "Failed to validate TV token" });
       }
-      
-      console.log(`🎯 Queue update from clinic ${socket.userId}:`, data);
-      
-      // Broadcast to all clients in the same clinic room
-      io.to(socket.clinicRoom).emit("queue:updated", {
-        ...data,
-        timestamp: new Date(),
-        clinicId: socket.userId
-      });
     });
 
-    // Handle TV display connections (unauthenticated but token-based)
-    socket.on("tv:connect", (data) => {
-      const { token } = data;
+    // Handle public queue status pages (patient phones, reached by ticket status code)
+    // They join a clinic-wide status room that only receives payload-free refresh signals
+    socket.on("status:subscribe", async (data) => {
+      const { code } = data || {};
       
-      if (!token) {
-        socket.emit("error", { message: "TV token required" });
+      if (!code) {
+        socket.emit("status:rejected", { message: "Status code required" });
         return;
       }
       
-      // TODO: Validate TV token and join appropriate clinic room
-      // This will be implemented when TV token validation is needed
-      console.log(`📺 TV display connection attempt with token: ${token}`);
-      socket.emit("tv:connected", { message: "TV display connected" });
+      try {
+        const patient = await storage.getPatientByStatusCode(code);
+        if (!patient) {
+          socket.emit("status:rejected", { message: "Ticket not found" });
+          return;
+        }
+
+        if (socket.statusRoom && socket.statusRoom !== `clinic:${patient.userId}:status`) {
+          socket.leave(socket.statusRoom);
+        }
+
+        socket.statusRoom = `clinic:${patient.userId}:status`;
+        socket.join(socket.statusRoom);
+        console.log(`📱 Status page ${socket.id} subscribed to ${socket.statusRoom}`);
+        
+        socket.emit("status:subscribed", { message: "Live queue status connected" });
+      } catch (error) {
+        console.error("Error validating status code:", error);
+        socket.emit("error", { message: "Failed to validate status code" });
+      }
     });
 
     // Handle QR authentication flow (server-authoritative)
@@ -190,6 +207,9 @@ export function setupWebSocket(io: Server) {
       if (socket.clinicRoom) {
         console.log(`🏥❌ User ${socket.userId} left clinic room: ${socket.clinicRoom}`);
       }
+      if (socket.tvRoom) {
+        console.log(`📺❌ TV display left room: ${socket.tvRoom}`);
+      }
     });
 
     // Handle errors
@@ -201,14 +221,101 @@ export function setupWebSocket(io: Server) {
   console.log("🌐 WebSocket server initialized with multi-tenant room isolation");
 }
 
-// Helper function to broadcast to specific clinic
-export function broadcastToClinic(io: Server, userId: string, event: string, data: any) {
-  const clinicRoom = `clinic:${userId}`;
-  console.log(`📡 Broadcasting to clinic ${userId} (room: ${clinicRoom}):`, event);
-  
-  io.to(clinicRoom).emit(event, {
-    ...data,
-    timestamp: new Date(),
-    clinicId: userId
+// Broadcast a persisted change to a clinic's staff sessions and token-based TVs
+export function broadcastToClinic<E extends ClinicEventName>(io: Server, clinicId: string, event: E, data: ClinicEvents[E]) {
+  console.log(`📡 Broadcasting to clinic ${clinicId}:`, event);
+  deliverClinicEvent(io, clinicId, event, data);
+  io.serverSideEmit(CLINIC_EVENT_CHANNEL, clinicId, event, data);
+}
+
+// Every instance numbers and records the clinic events it delivers to its own sockets, so replay
+// after a reconnect stays consistent (a socket landing on another instance gets a resync instead)
+function deliverClinicEvent<E extends ClinicEventName>(io: Server, clinicId: string, event: E, data: ClinicEvents[E]) {
+  const clinicRoom = `clinic:${clinicId}`;
+  const envelope = { timestamp: new Date().toISOString(), ...nextEventSeq(clinicId) };
+  const payload = { ...data, ...envelope };
+  const displayData = STAFF_ONLY_CLINIC_EVENTS.includes(event) ? null : toDisplayPayload(event, data);
+  const displayPayload = displayData ? { ...displayData, ...envelope } : null;
+  const displayRooms = displayPayload ? getDisplayRooms(clinicId, event, data) : [];
+  recordEvent(clinicId, { seq: envelope.seq, event, payload, displayPayload, displayRooms, recordedAt: Date.now() });
+
+  io.local.to(clinicRoom).emit(event, payload);
+  if (displayPayload) {
+    io.local.to(displayRooms).emit(event, displayPayload);
+  }
+
+  // Public status pages only get a refresh signal - they refetch their own ticket status
+  io.local.to(`${clinicRoom}:status`).emit("status:refresh", { timestamp: new Date() });
+}
+
+// Reconnecting clients send their last seen event in the handshake auth. Runs right after the
+// socket joins its room, before any newer broadcast can reach it, so events arrive in order.
+function replayMissedEvents(socket: Socket, clinicId: string, audience: "staff" | "tv") {
+  const cursor = parseEventCursor(socket.handshake.auth?.cursor);
+  if (!cursor) return;
+
+  const missed = getMissedEvents(clinicId, cursor);
+  if (!missed) {
+    console.log(`⏪❌ Replay gap too large for ${socket.id} (seq ${cursor.seq}) - requesting resync`);
+    socket.emit("events:resync", getEventCursor(clinicId));
+    return;
+  }
+
+  let count = 0;
+  for (const entry of missed) {
+    const payload = audience === "tv" ? entry.displayPayload : entry.payload;
+    if (!payload) continue;
+    if (audience === "tv" && !entry.displayRooms.some(room => socket.rooms.has(room))) continue;
+    socket.emit(entry.event, payload);
+    count++;
+  }
+  if (count > 0) {
+    console.log(`⏪ Replayed ${count} event(s) to ${socket.id} from seq ${cursor.seq}`);
+  }
+  socket.emit("events:replayed", { ...getEventCursor(clinicId), count });
+}
+
+// TV rooms an event goes to. Calls and room changes only reach the TVs showing that room (and TVs
+// without a display profile); everything else - settings, themes, queue resets - reaches every TV.
+function getDisplayRooms<E extends ClinicEventName>(clinicId: string, event: E, data: ClinicEvents[E]): string[] {
+  const tvRoom = `clinic:${clinicId}:tv`;
+  let windowIds: (string | null | undefined)[];
+  if (event === "patient:called") {
+    const { patient, window } = data as ClinicEvents["patient:called"];
+    // A pharmacy call belongs to its counter only, not the consultation room the patient came from
+    windowIds = window?.type === "dispensary" ? [window.id] : [window?.id, patient.windowId, patient.lastWindowId];
+  } else if (event === "patient:created" || event === "patient:updated") {
+    const { patient } = data as ClinicEvents["patient:updated"];
+    windowIds = [patient.windowId, patient.lastWindowId];
+  } else if (event === "windows:updated") {
+    windowIds = [(data as ClinicEvents["windows:updated"]).windowId];
+  } else if (event === "dispensary:updated" && (data as ClinicEvents["dispensary:updated"]).ticket?.counterId) {
+    windowIds = [(data as ClinicEvents["dispensary:updated"]).ticket!.counterId];
+  } else {
+    return [tvRoom];
+  }
+
+  const rooms = [`${tvRoom}:all`];
+  windowIds.forEach(windowId => {
+    if (windowId && !rooms.includes(`${tvRoom}:window:${windowId}`)) rooms.push(`${tvRoom}:window:${windowId}`);
   });
-}
\ No newline at end of file
+  return rooms;
+}
+
+function leaveDisplayRooms(socket: AuthenticatedSocket) {
+  Array.from(socket.rooms)
+    .filter(room => room.startsWith("display:") || (socket.tvRoom && room.startsWith(socket.tvRoom)))
+    .forEach(room => socket.leave(room));
+}
+
+// What a TV may see of an event - null when nothing in it is for displays
+function toDisplayPayload<E extends ClinicEventName>(event: E, data: ClinicEvents[E]): ClinicEvents[E] | null {
+  if (event === "settings:updated") {
+    const { settings, deleted } = data as ClinicEvents["settings:updated"];
+    const shown = { settings: settings.filter(isDisplaySetting), deleted: deleted.filter(isDisplaySetting) };
+    return shown.settings.length > 0 || shown.deleted.length > 0 ? shown as ClinicEvents[E] : null;
+  }
+  return "patient" in data && data.patient
+    ? { ...data, patient: toDisplayPatient(data.patient as Patient) }
+    : data;
+}
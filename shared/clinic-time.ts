@@ -0,0 +1,127 @@
+// Clinic-local time - shared by storage, the rollover scheduler, the kiosk and the settings UI.
+//
+// A clinic's "day" starts at its rollover time (default midnight) in its own timezone, so a
+// 24-hour clinic can roll over at e.g. 03:00. Daily numbering, "today" lists and report date
+// ranges all use these day bounds instead of the server's UTC date.
+
+export const DEFAULT_CLINIC_TIMEZONE = "Asia/Kuala_Lumpur";
+export const DEFAULT_DAY_ROLLOVER_TIME = "00:00";
+
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/; // HH:mm
+export const CLOSING_TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/; // HH:mm, or 24:00 for end of day
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+export interface DayHours {
+  open: string; // HH:mm
+  close: string; // HH:mm or 24:00, after open
+}
+
+// Indexed by weekday (0 = Sunday); null means closed that day
+export type OpeningHours = (DayHours | null)[];
+
+export interface ClinicSchedule {
+  timezone: string;
+  dayRolloverTime: string;
+  openingHours?: OpeningHours | null; // null = open around the clock
+}
+
+export const DEFAULT_CLINIC_SCHEDULE: ClinicSchedule = {
+  timezone: DEFAULT_CLINIC_TIMEZONE,
+  dayRolloverTime: DEFAULT_DAY_ROLLOVER_TIME,
+  openingHours: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Wall-clock parts of an instant in the given timezone (weekday 0 = Sunday)
+export function getZonedParts(timeZone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday")),
+  };
+}
+
+function getTimeZoneOffsetMs(timeZone: string, at: Date): number {
+  const p = getZonedParts(timeZone, at);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// YYYY-MM-DD shifted by whole days
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return formatDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+// UTC instant of a wall-clock date and time in the given timezone
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + toMinutes(time) * 60 * 1000;
+  let instant = wallClock - getTimeZoneOffsetMs(timeZone, new Date(wallClock));
+  // Second pass settles DST changes between the first guess and the result
+  instant = wallClock - getTimeZoneOffsetMs(timeZone, new Date(instant));
+  return new Date(instant);
+}
+
+// The clinic day (YYYY-MM-DD) an instant belongs to - before the rollover time it is still yesterday
+export function getClinicDate(schedule: ClinicSchedule, at: Date = new Date()): string {
+  const p = getZonedParts(schedule.timezone, at);
+  const date = formatDate(p.year, p.month, p.day);
+  return p.hour * 60 + p.minute < toMinutes(schedule.dayRolloverTime) ? addDays(date, -1) : date;
+}
+
+// First and last instant of a clinic day, or of an inclusive from..to range of clinic days
+export function getClinicDayBounds(schedule: ClinicSchedule, from: string, to: string = from): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(from, schedule.dayRolloverTime, schedule.timezone),
+    end: new Date(zonedTimeToUtc(addDays(to, 1), schedule.dayRolloverTime, schedule.timezone).getTime() - 1),
+  };
+}
+
+export function isClinicOpen(schedule: ClinicSchedule, at: Date = new Date()): boolean {
+  if (!schedule.openingHours) return true;
+
+  const p = getZonedParts(schedule.timezone, at);
+  const hours = schedule.openingHours[p.weekday];
+  if (!hours) return false;
+
+  const minutes = p.hour * 60 + p.minute;
+  return minutes >= toMinutes(hours.open) && minutes < toMinutes(hours.close);
+}
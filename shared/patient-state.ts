@@ -0,0 +1,141 @@
+// Patient queue state machine - shared by both storage implementations, the API and the queue UI.
+//
+// The stored `status` column plus the `readyForDispensary` flag together give the patient's state:
+// a patient sent to dispensary keeps their status/window (so they stay on the TV) until the
+// dispensary calls them, but for transition purposes they are in the 'dispensary' state.
+
+export const PATIENT_STATUSES = ["waiting", "called", "in-progress", "completed", "requeue"] as const;
+export type PatientStatus = typeof PATIENT_STATUSES[number];
+
+export type PatientState = PatientStatus | "dispensary";
+
+// Targets accepted by PATCH /api/patients/:id/status
+export const PATIENT_TRANSITIONS = ["called", "in-progress", "completed", "requeue", "dispensary"] as const;
+export type PatientTransition = typeof PATIENT_TRANSITIONS[number];
+
+// Allowed moves out of each state. 'called' from a called patient is a recall (Call Again).
+const ALLOWED_TRANSITIONS: Record<PatientState, readonly PatientTransition[]> = {
+  "waiting": ["called"],
+  "called": ["called", "in-progress", "completed", "requeue", "dispensary"],
+  "in-progress": ["called", "completed", "requeue", "dispensary"],
+  "requeue": ["called"],
+  "dispensary": ["completed", "requeue"], // completed when the prescription is collected
+  "completed": [],
+};
+
+interface PatientStateFields {
+  status: string;
+  readyForDispensary?: boolean | null;
+  windowId?: string | null;
+}
+
+export function isPatientTransition(value: unknown): value is PatientTransition {
+  return typeof value === "string" && (PATIENT_TRANSITIONS as readonly string[]).includes(value);
+}
+
+export function getPatientState(patient: PatientStateFields): PatientState {
+  // Older rows may carry a literal 'dispensary' status
+  if ((patient.readyForDispensary && patient.status !== "completed") || patient.status === "dispensary") {
+    return "dispensary";
+  }
+  return (PATIENT_STATUSES as readonly string[]).includes(patient.status)
+    ? patient.status as PatientStatus
+    : "waiting";
+}
+
+export function getAllowedTransitions(patient: PatientStateFields): PatientTransition[] {
+  return [...ALLOWED_TRANSITIONS[getPatientState(patient)]];
+}
+
+export function canTransition(patient: PatientStateFields, to: string): to is PatientTransition {
+  return isPatientTransition(to) && ALLOWED_TRANSITIONS[getPatientState(patient)].includes(to);
+}
+
+export class InvalidTransitionError extends Error {
+  readonly from: string;
+  readonly to: string;
+
+  constructor(from: string, to: string, subject: string = "patient") {
+    super(`Cannot move ${subject} from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+    this.from = from;
+    this.to = to;
+    Object.setPrototypeOf(this, InvalidTransitionError.prototype);
+  }
+}
+
+// A recall may not move the patient - another room calling them would take a patient that room is serving
+export class RoomConflictError extends InvalidTransitionError {
+  constructor(from: string) {
+    super(from, "called");
+    this.message = "Patient has already been called to another room";
+    this.name = "RoomConflictError";
+    Object.setPrototypeOf(this, RoomConflictError.prototype);
+  }
+}
+
+// Throws InvalidTransitionError for illegal moves; storage calls this before writing.
+// Pass the requested room for 'called' so a recall is only accepted in the patient's own room.
+export function assertTransition(patient: PatientStateFields, to: string, windowId?: string | null): asserts to is PatientTransition {
+  if (!canTransition(patient, to)) {
+    throw new InvalidTransitionError(getPatientState(patient), to);
+  }
+  const state = getPatientState(patient);
+  if (to === "called" && (state === "called" || state === "in-progress") && windowId && patient.windowId && windowId !== patient.windowId) {
+    throw new RoomConflictError(state);
+  }
+}
+
+// Dispensary ticket state machine (pharmacy queue, see dispensary_tickets).
+// Tickets start 'preparing' when the doctor sends the patient to dispensary.
+export const DISPENSARY_TICKET_STATUSES = ["preparing", "ready", "called", "collected", "cancelled"] as const;
+export type DispensaryTicketStatus = typeof DISPENSARY_TICKET_STATUSES[number];
+
+// 'called' from called is a recall; 'ready' from called puts a no-show back in the ready list
+const ALLOWED_DISPENSARY_TRANSITIONS: Record<DispensaryTicketStatus, readonly DispensaryTicketStatus[]> = {
+  "preparing": ["ready", "cancelled"],
+  "ready": ["called", "cancelled"],
+  "called": ["called", "ready", "collected", "cancelled"],
+  "collected": [],
+  "cancelled": [],
+};
+
+export function isDispensaryTicketStatus(value: unknown): value is DispensaryTicketStatus {
+  return typeof value === "string" && (DISPENSARY_TICKET_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedDispensaryTransitions(ticket: { status: string }): DispensaryTicketStatus[] {
+  return isDispensaryTicketStatus(ticket.status) ? [...ALLOWED_DISPENSARY_TRANSITIONS[ticket.status]] : [];
+}
+
+export function assertDispensaryTransition(ticket: { status: string }, to: string): asserts to is DispensaryTicketStatus {
+  if (!getAllowedDispensaryTransitions(ticket).some(status => status === to)) {
+    throw new InvalidTransitionError(ticket.status, to, "dispensary ticket");
+  }
+}
+
+// Appointment state machine (phone bookings, see appointments).
+// Check-in turns the booking into a patients row; a no-show who turns up late can still check in.
+export const APPOINTMENT_STATUSES = ["booked", "checked-in", "no-show", "cancelled"] as const;
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+const ALLOWED_APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  "booked": ["checked-in", "no-show", "cancelled"],
+  "no-show": ["booked", "checked-in"], // 'booked' undoes a mistaken no-show
+  "checked-in": [],
+  "cancelled": [],
+};
+
+export function isAppointmentStatus(value: unknown): value is AppointmentStatus {
+  return typeof value === "string" && (APPOINTMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedAppointmentTransitions(appointment: { status: string }): AppointmentStatus[] {
+  return isAppointmentStatus(appointment.status) ? [...ALLOWED_APPOINTMENT_TRANSITIONS[appointment.status]] : [];
+}
+
+export function assertAppointmentTransition(appointment: { status: string }, to: string): asserts to is AppointmentStatus {
+  if (!getAllowedAppointmentTransitions(appointment).some(status => status === to)) {
+    throw new InvalidTransitionError(appointment.status, to, "appointment");
+  }
+}
@@ -0,0 +1,101 @@
+import type { Appointment, Clinic, DisplayProfile, DispensaryTicket, Media, Patient, Setting, TextGroup, Theme } from "./schema";
+
+// Real-time events over socket.io. Only the server emits them - from the REST mutation that
+// persisted the change, via broadcastToClinic - and each payload carries the saved entity.
+// Clients never send these events; the server ignores anything they try to relay.
+
+export type PatientSource = "desk" | "kiosk" | "appointment";
+
+// Rooms and dispensary counters as the windows API returns them (storage joins in the current patient)
+export interface ClinicWindow {
+  id: string;
+  name: string;
+  isActive: boolean;
+  currentPatientId?: string;
+  currentPatientName?: string;
+  currentPatientNumber?: number;
+  serviceIds?: string[];
+  type?: string;
+  userId: string;
+}
+
+export interface ClinicEvents {
+  "patient:created": { patient: Patient; source: PatientSource };
+  "patient:called": { patient: Patient; window: ClinicWindow | null }; // Room or dispensary counter it was called to
+  "patient:updated": { patient: Patient };
+  "patient:deleted": { patientId: string };
+  "queue:updated": { reason: "reset" | "reset-undone" | "rollover"; resetId?: string; clinicDate?: string }; // Many patients changed at once - refetch
+  "dispensary:updated": { patientId: string; ticket: DispensaryTicket | null }; // null = patient no longer has an open ticket
+  "appointments:updated": { appointment: Appointment };
+  "windows:updated": { windowId: string; window: ClinicWindow | null }; // null = deleted
+  "clinic:updated": { clinic: Clinic }; // Name, timezone, opening hours
+  "settings:updated": { settings: Setting[]; deleted: Setting[] }; // Saved rows and the rows removed
+  "themes:updated": { themeId: string; theme: Theme | null }; // null = deleted; activation also deactivates the others
+  "text-groups:updated": { textGroupId: string; textGroup: TextGroup | null }; // null = deleted
+  "media:updated": { mediaId: string; media: Media | null }; // null = deleted
+  "display-profiles:updated": { profileId: string; profile: DisplayProfile | null }; // null = deleted; TVs re-send tv:connect
+}
+
+export type ClinicEventName = keyof ClinicEvents;
+
+// Added by broadcastToClinic to every payload
+export interface ClinicEventEnvelope {
+  clinicId: string;
+  timestamp: string; // ISO - serialised by socket.io
+  seq: number; // Per clinic, increases by one with every event
+  epoch: string; // Per server instance, new on restart - sequence numbers restart with it
+}
+
+// Last event a client has seen. Sent in the socket.io handshake (auth) on reconnect, so the server
+// can replay what was missed right after re-joining the clinic room - or answer with events:resync.
+export interface EventCursor {
+  clinicId: string;
+  seq: number;
+  epoch: string;
+}
+
+// events:replayed - missed events were re-sent (count may be 0); cursor is the newest seq
+export type EventsReplayed = EventCursor & { count: number };
+// events:resync - gap too large or server restarted; refetch everything and continue from cursor
+export type EventsResync = EventCursor;
+
+export type ClinicEventPayload<E extends ClinicEventName> = ClinicEvents[E] & ClinicEventEnvelope;
+
+export const CLINIC_EVENT_NAMES: ClinicEventName[] = [
+  "patient:created",
+  "patient:called",
+  "patient:updated",
+  "patient:deleted",
+  "queue:updated",
+  "dispensary:updated",
+  "appointments:updated",
+  "windows:updated",
+  "clinic:updated",
+  "settings:updated",
+  "themes:updated",
+  "text-groups:updated",
+  "media:updated",
+  "display-profiles:updated",
+];
+
+// Booking details stay on staff screens - TV displays never receive these
+export const STAFF_ONLY_CLINIC_EVENTS: ClinicEventName[] = ["appointments:updated"];
+
+// Setting categories a TV reads - the rest (notification templates and provider) stay on staff screens
+export const DISPLAY_SETTING_CATEGORIES = ["display", "sound", "audio"];
+
+export function isDisplaySetting(setting: Pick<Setting, "category">): boolean {
+  return DISPLAY_SETTING_CATEGORIES.includes(setting.category);
+}
+
+// TV displays sit in public areas - they get patients without contact details or status links
+const DISPLAY_HIDDEN_PATIENT_FIELDS = ["phone", "statusCode", "profileId", "appointmentId"] as const;
+
+// isAppointment keeps the booking badge without exposing which booking it was
+export type DisplayPatient = Omit<Patient, typeof DISPLAY_HIDDEN_PATIENT_FIELDS[number]> & { isAppointment: boolean };
+
+export function toDisplayPatient(patient: Patient): DisplayPatient {
+  const display: Partial<Patient> = { ...patient };
+  DISPLAY_HIDDEN_PATIENT_FIELDS.forEach(field => delete display[field]);
+  return { ...display, isAppointment: !!patient.appointmentId } as DisplayPatient;
+}
@@ -0,0 +1,64 @@
+// Staff roles - shared by the API route guards and the UI (navigation, action buttons).
+//
+// 'admin' is the system administrator (manages every account). Everyone else belongs to one
+// clinic: the manager runs settings, reports and staff; the other roles each own one step of
+// the patient flow.
+
+export const STAFF_ROLES = ["admin", "clinic_manager", "receptionist", "doctor", "pharmacist"] as const;
+export type StaffRole = typeof STAFF_ROLES[number];
+
+// Roles a clinic manager can give to their own staff
+export const CLINIC_STAFF_ROLES = ["clinic_manager", "receptionist", "doctor", "pharmacist"] as const;
+export type ClinicStaffRole = typeof CLINIC_STAFF_ROLES[number];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  "admin": "System Admin",
+  "clinic_manager": "Clinic Manager",
+  "receptionist": "Receptionist",
+  "doctor": "Doctor",
+  "pharmacist": "Pharmacist",
+};
+
+export const PERMISSIONS = [
+  "patients:register", // Register, edit priority, remove patients
+  "queue:call", // Call, complete, requeue and send to dispensary
+  "dispensary:manage", // Pharmacy queue
+  "settings:manage", // Rooms, services, display, media, themes, display tokens, queue reset
+  "reports:view", // Reports and exports
+  "staff:manage", // Clinic staff accounts
+  "audit:view", // Audit log and its retention setting
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  "admin": PERMISSIONS,
+  "clinic_manager": PERMISSIONS,
+  "receptionist": ["patients:register"],
+  "doctor": ["queue:call"], // Only in assigned rooms, see isRoomRestricted
+  "pharmacist": ["dispensary:manage"],
+};
+
+// Accounts created before staff roles have role 'user' - they own their clinic
+export function normalizeRole(role: string | null | undefined): StaffRole | undefined {
+  if (role === "user") return "clinic_manager";
+  return (STAFF_ROLES as readonly string[]).includes(role ?? "") ? role as StaffRole : undefined;
+}
+
+export function getRoleLabel(role: string | null | undefined): string {
+  const staffRole = normalizeRole(role);
+  return staffRole ? STAFF_ROLE_LABELS[staffRole] : role || "Unknown";
+}
+
+export function isClinicStaffRole(value: unknown): value is ClinicStaffRole {
+  return typeof value === "string" && (CLINIC_STAFF_ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const staffRole = normalizeRole(role);
+  return !!staffRole && ROLE_PERMISSIONS[staffRole].includes(permission);
+}
+
+// Doctors call and complete patients only in the rooms assigned to them
+export function isRoomRestricted(role: string | null | undefined): boolean {
+  return normalizeRole(role) === "doctor";
+}
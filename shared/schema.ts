@@ -1,15 +1,34 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, json, index, uniqueIndex, bigserial, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CLINIC_STAFF_ROLES } from "./roles";
+import { tvLayoutPresetSchema } from "./tv-layout";
+import { DEFAULT_CLINIC_TIMEZONE, DEFAULT_DAY_ROLLOVER_TIME, TIME_OF_DAY_PATTERN, CLOSING_TIME_PATTERN, isValidTimeZone, toMinutes, type OpeningHours } from "./clinic-time";
 
-// Users table
+// Clinics table - the tenant. Staff logins belong to one clinic and share its queue.
+// Tenant-scoped tables below keep their user_id column, which holds the clinic id
+// (clinics migrated from single-login accounts reuse the account id, so old rows stay valid).
+export const clinics = pgTable("clinics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  timezone: text("timezone").notNull().default(DEFAULT_CLINIC_TIMEZONE), // IANA zone - "today" and daily numbering follow it
+  dayRolloverTime: text("day_rollover_time").notNull().default(DEFAULT_DAY_ROLLOVER_TIME), // HH:mm local - new clinic day starts, leftovers are archived
+  openingHours: json("opening_hours").$type<OpeningHours | null>(), // Per weekday (0 = Sunday); null = open around the clock
+  lastRolloverDate: text("last_rollover_date"), // Clinic day (YYYY-MM-DD) the scheduler last rolled over into
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Users table - staff logins
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("user"), // 'admin' or 'user'
+  role: text("role").notNull().default("clinic_manager"), // See STAFF_ROLES in shared/roles.ts; legacy 'user' = clinic_manager
   isActive: boolean("is_active").notNull().default(true),
+  clinicId: varchar("clinic_id"), // Backfilled on startup for accounts created before clinics
+  assignedWindowIds: json("assigned_window_ids").$type<string[]>().notNull().default(sql`'[]'::json`), // Doctor rooms
 });
 
 // User sessions table (legacy - preserved to avoid data loss)
@@ -31,13 +50,56 @@ export const qrSessions = pgTable("qr_sessions", {
   metadata: json("metadata").default(sql`'{}'::json`),
 });
 
+// TV display tokens table - one revocable token per physical display
+export const displayTokens = pgTable("display_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: text("token").notNull().unique(), // Random secret used in /tv?token=... URLs
+  label: text("label").notNull().default("TV Display"), // e.g. 'Lobby TV', 'Pharmacy TV'
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  lastSeenAt: timestamp("last_seen_at"), // Last time a TV used this token
+  revokedAt: timestamp("revoked_at"), // Revoked tokens are kept for history but never resolve
+  profileId: varchar("profile_id"), // Display profile it shows; null = every room in the clinic
+  canIssueTickets: boolean("can_issue_tickets").notNull().default(false), // Also works as a self-service kiosk link
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+});
+
+// Display profiles - named room groups (e.g. 'Ground floor', 'Pharmacy') with their own layout and playlist
+export const displayProfiles = pgTable("display_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  windowIds: json("window_ids").$type<string[]>().notNull().default(sql`'[]'::json`), // Rooms and dispensary counters whose calls it shows
+  layout: json("layout").$type<DisplayProfileLayout | null>(), // null = clinic display settings
+  mediaIds: json("media_ids").$type<string[]>().notNull().default(sql`'[]'::json`), // Playlist in order; empty = the clinic's active media
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("display_profiles_user_id_idx").on(table.userId),
+]);
+
+// Services table - separate queue lines (registration, consult, lab, pharmacy) with their own ticket prefix
+export const services = pgTable("services", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // e.g. 'Doctor Consultation'
+  prefix: text("prefix").notNull(), // Ticket letter prefix, e.g. 'A' -> A001
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // Account isolation - unique prefix per user
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  uniqueIndex("services_user_id_prefix_idx").on(table.userId, table.prefix),
+]);
+
 // Windows/Rooms table
 export const windows = pgTable("windows", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   isActive: boolean("is_active").notNull().default(true),
   isPermanent: boolean("is_permanent").notNull().default(false), // Cannot be deleted
+  type: text("type").notNull().default("room"), // 'room' (consultation) or 'dispensary' (pharmacy counter)
   currentPatientId: varchar("current_patient_id"),
+  serviceIds: json("service_ids").default(sql`'[]'::json`), // Services this room calls from - empty means all services
   // Account isolation
   userId: varchar("user_id").notNull(),
 });
@@ -46,6 +108,7 @@ export const windows = pgTable("windows", {
 export const patients = pgTable("patients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name"), // Can be null for number-only patients
+  phone: text("phone"), // Optional - turn notifications (SMS/WhatsApp) go here
   number: integer("number").notNull(),
   status: text("status").notNull().default("waiting"), // 'waiting', 'called', 'in-progress', 'completed', 'requeue', 'dispensary'
   isPriority: boolean("is_priority").notNull().default(false), // Priority patient flag
@@ -57,12 +120,184 @@ export const patients = pgTable("patients", {
   calledAt: timestamp("called_at"),
   completedAt: timestamp("completed_at"),
   requeueReason: text("requeue_reason"), // Reason for requeue: NEBULISER, AMBIL UBATAN, MENUNGGU KEPUTUSAN UJIAN, MGTT
-  trackingHistory: json("tracking_history").default(sql`'[]'::json`), // JSON array of journey events: {timestamp, action, roomName?, requeueReason?}
+  trackingHistory: json("tracking_history").default(sql`'[]'::json`), // Legacy journey JSON - superseded by patient_events, kept for old rows
   archivedAt: timestamp("archived_at"), // Soft delete timestamp for queue reset (24-hour clinics)
+  queueResetId: varchar("queue_reset_id"), // Reset that archived this patient - cleared again on undo
+  serviceId: varchar("service_id"), // Null for clinics that don't use services
+  ticketPrefix: text("ticket_prefix"), // Service prefix at registration time, e.g. 'A' -> A023
+  statusCode: varchar("status_code").unique(), // Random code for the public queue status link on the ticket
+  appointmentId: varchar("appointment_id"), // Set when the patient checked in from a booking
+  profileId: varchar("profile_id"), // Registry entry (IC/MRN) this visit belongs to, if identified
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+});
+
+// Patient registry - one row per known person, so visits (patients rows) can be linked over time.
+// Identified by Malaysian IC and/or the clinic's own MRN, each unique within the clinic.
+export const patientProfiles = pgTable("patient_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  icNumber: text("ic_number"), // 12 digits, no dashes
+  mrn: text("mrn"), // Clinic medical record number
+  name: text("name").notNull(), // Full name - queue entries show at most 25 characters
+  phone: text("phone"),
+  dateOfBirth: text("date_of_birth"), // YYYY-MM-DD
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  uniqueIndex("patient_profiles_user_id_ic_number_idx").on(table.userId, table.icNumber),
+  uniqueIndex("patient_profiles_user_id_mrn_idx").on(table.userId, table.mrn),
+]);
+
+// Patient journey events - append-only, one row per status change
+export const patientEvents = pgTable("patient_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull(),
+  eventType: text("event_type").notNull(), // 'registered', 'called', 'in-progress', 'completed', 'requeued', 'dispensary'
+  windowId: varchar("window_id"), // Room involved, if any
+  roomName: text("room_name"), // Room name at the time of the event (rooms can be renamed or deleted)
+  reason: text("reason"), // Requeue reason
+  actorUserId: varchar("actor_user_id"), // Staff member who triggered it; null for kiosk/system
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("patient_events_patient_id_idx").on(table.patientId),
+]);
+
+// Dispensary queue - one ticket per prescription, separate from the consultation queue
+export const dispensaryTickets = pgTable("dispensary_tickets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull(),
+  number: integer("number").notNull(), // Patient's ticket number, shown on the pharmacy TV
+  ticketPrefix: text("ticket_prefix"),
+  isPriority: boolean("is_priority").notNull().default(false),
+  status: text("status").notNull().default("preparing"), // 'preparing', 'ready', 'called', 'collected', 'cancelled'
+  counterId: varchar("counter_id"), // Dispensary counter (window with type 'dispensary') that called it
+  queuedAt: timestamp("queued_at").notNull().default(sql`now()`),
+  readyAt: timestamp("ready_at"),
+  calledAt: timestamp("called_at"),
+  collectedAt: timestamp("collected_at"),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("dispensary_tickets_patient_id_idx").on(table.patientId),
+]);
+
+// Appointments - phone bookings for a clinic day; check-in turns one into a patients row
+export const appointments = pgTable("appointments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: text("date").notNull(), // Clinic day, YYYY-MM-DD
+  slotTime: text("slot_time").notNull(), // HH:mm clinic-local
+  patientName: text("patient_name").notNull(),
+  phone: text("phone"),
+  serviceId: varchar("service_id"), // Service queue the patient joins on check-in
+  notes: text("notes"),
+  status: text("status").notNull().default("booked"), // See APPOINTMENT_STATUSES in shared/patient-state.ts
+  patientId: varchar("patient_id"), // Queue entry created on check-in
+  checkedInAt: timestamp("checked_in_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("appointments_user_id_date_idx").on(table.userId, table.date),
+]);
+
+// Turn notifications - one row per SMS/WhatsApp message; provider callbacks update the status
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull(),
+  kind: text("kind").notNull(), // See NOTIFICATION_KINDS
+  provider: text("provider").notNull(), // See NOTIFICATION_PROVIDERS
+  recipient: text("recipient").notNull(), // E.164 phone number
+  message: text("message").notNull(),
+  status: text("status").notNull().default("pending"), // See NOTIFICATION_STATUSES
+  providerMessageId: text("provider_message_id"), // Twilio SID / WhatsApp message id - matches delivery callbacks
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("notifications_user_id_created_at_idx").on(table.userId, table.createdAt),
+  index("notifications_provider_message_id_idx").on(table.providerMessageId),
+  // "near" goes out once per patient - the insert is the claim, so two queue moves cannot both send it.
+  // "called" is left out because every recall messages the patient again.
+  uniqueIndex("notifications_patient_id_kind_idx").on(table.patientId, table.kind).where(sql`${table.kind} = 'near'`),
+]);
+
+// Browser push subscriptions from the public queue status page - one per browser, tied to a ticket
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull(),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL - a browser re-subscribing moves to its new ticket
+  p256dh: text("p256dh").notNull(), // Browser public key (base64url)
+  auth: text("auth").notNull(), // Browser auth secret (base64url)
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  lastPushedAt: timestamp("last_pushed_at"),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("push_subscriptions_patient_id_idx").on(table.patientId),
+]);
+
+// Deployment-wide values that belong to no clinic, e.g. the generated Web Push VAPID key pair
+export const deploymentConfig = pgTable("deployment_config", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Fixed-window counters for the public rate limits, shared by every instance (see server/rate-limit.ts)
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(), // Limiter name and caller, e.g. 'kiosk-ip:203.0.113.7'
+  windowStartedAt: timestamp("window_started_at").notNull().default(sql`now()`),
+  count: integer("count").notNull().default(1),
+});
+
+const bytea = customType<{ data: Buffer }>({ dataType: () => "bytea" });
+
+// Socket.IO Postgres adapter - broadcasts too large for a NOTIFY payload (8000 bytes) are passed
+// between instances through this table (see server/socket-adapter.ts). Columns are fixed by the adapter.
+export const socketIoAttachments = pgTable("socket_io_attachments", {
+  id: bigserial("id", { mode: "number" }).unique(),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  payload: bytea("payload"),
+});
+
+// Queue resets - the day's patients are archived (not deleted) so a reset can be undone
+export const queueResets = pgTable("queue_resets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  archivedCount: integer("archived_count").notNull(),
+  windowAssignments: json("window_assignments").$type<Record<string, string>>().notNull().default(sql`'{}'::json`), // windowId -> patientId before the reset
+  actorUserId: varchar("actor_user_id"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  undoneAt: timestamp("undone_at"),
   // Account isolation
   userId: varchar("user_id").notNull(),
 });
 
+// Audit log - append-only record of staff actions (only the retention purge deletes rows)
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorUserId: varchar("actor_user_id"), // Null for public actions (kiosk tickets)
+  actorUsername: text("actor_username"), // Snapshot - survives renames
+  action: text("action").notNull(), // e.g. 'patient.status', 'queue.reset', 'settings.update'
+  targetType: text("target_type").notNull(), // See AUDIT_TARGET_TYPES
+  targetId: varchar("target_id"),
+  before: json("before"), // Snapshot before the change (passwords stripped)
+  after: json("after"), // Snapshot after the change
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  // Account isolation
+  userId: varchar("user_id").notNull(),
+}, (table) => [
+  index("audit_log_user_id_created_at_idx").on(table.userId, table.createdAt),
+]);
+
 // Settings table
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -141,28 +376,41 @@ export const themes = pgTable("themes", {
 });
 
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  assignedWindowIds: z.array(z.string()).optional(),
+}).pick({
   username: true,
   password: true,
   role: true,
+  clinicId: true,
+  assignedWindowIds: true,
 });
 
 export const insertWindowSchema = createInsertSchema(windows).pick({
   name: true,
+  type: true,
   userId: true,
 });
 
+// Loose check - local ('012-345 6789') or international ('+60123456789') numbers
+export const PHONE_PATTERN = /^\+?\d[\d\s-]{6,18}$/;
+
 export const insertPatientSchema = createInsertSchema(patients).pick({
   name: true,
+  phone: true,
   number: true,
   isPriority: true,
   priorityReason: true,
+  serviceId: true,
+  ticketPrefix: true,
+  profileId: true,
   userId: true,
 }).extend({
   name: z.string().nullable().refine(
     (val) => !val || val.length <= 25,
     { message: "Nama pesakit tidak boleh melebihi 25 karakter" }
-  )
+  ),
+  phone: z.string().trim().regex(PHONE_PATTERN, "Nombor telefon tidak sah").nullable().optional(),
 });
 
 export const insertSettingSchema = createInsertSchema(settings).pick({
@@ -221,6 +469,55 @@ export const insertQrSessionSchema = createInsertSchema(qrSessions).omit({
   createdAt: true,
 });
 
+export const insertServiceSchema = createInsertSchema(services).pick({
+  name: true,
+  prefix: true,
+  userId: true,
+}).extend({
+  name: z.string().trim().min(1, "Service name is required").max(50),
+  prefix: z.string().trim().toUpperCase().regex(/^[A-Z]{1,3}$/, "Prefix must be 1-3 letters"),
+});
+
+export const insertDisplayTokenSchema = createInsertSchema(displayTokens).pick({
+  label: true,
+}).extend({
+  label: z.string().trim().min(1, "Label is required").max(50, "Label cannot exceed 50 characters"),
+});
+
+// Widgets a display profile can switch off or on; unset ones follow the clinic's display settings
+export const displayProfileLayoutSchema = z.object({
+  showPrayerTimes: z.boolean().optional(),
+  showWeather: z.boolean().optional(),
+  // Copy of a built-in or saved layout preset, so later edits to the clinic's presets leave these TVs alone.
+  // Unset = the clinic's saved layout.
+  screen: tvLayoutPresetSchema.optional(),
+});
+export type DisplayProfileLayout = z.infer<typeof displayProfileLayoutSchema>;
+
+// POST /api/display-profiles, PATCH /api/display-profiles/:id
+export const displayProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name cannot exceed 50 characters"),
+  windowIds: z.array(z.string()).min(1, "Select at least one room or counter"),
+  layout: displayProfileLayoutSchema.nullable().optional(),
+  mediaIds: z.array(z.string()).default([]),
+});
+export const updateDisplayProfileSchema = displayProfileSchema.partial();
+export type DisplayProfileRequest = z.infer<typeof displayProfileSchema>;
+export type UpdateDisplayProfileRequest = z.infer<typeof updateDisplayProfileSchema>;
+
+// Priority reasons a walk-in patient can pick at the self-service kiosk
+export const KIOSK_PRIORITY_REASONS = ["ELDERLY", "PREGNANT", "DISABLED"] as const;
+
+// Kiosk ticket request - everything else (number, prefix, clinic) is decided server-side.
+// A priority reason is only a request: the ticket joins the normal queue until staff confirm it.
+export const kioskTicketSchema = z.object({
+  serviceId: z.string().optional(),
+  priorityReason: z.enum(KIOSK_PRIORITY_REASONS).optional(),
+});
+
+
+export const WINDOW_TYPES = ["room", "dispensary"] as const;
+export type WindowType = typeof WINDOW_TYPES[number];
 
 // Sound mode enum for type safety - only preset mode supported
 export const SoundMode = z.enum(["preset"]);
@@ -245,12 +542,30 @@ export const PresetSoundKey = z.enum([
 ]);
 export type PresetSoundKeyType = z.infer<typeof PresetSoundKey>;
 
-// Audio settings schema - simplified preset-only system
+// Spoken announcement languages (BCP-47 tags understood by speechSynthesis)
+export const AnnouncementLanguage = z.enum(["ms-MY", "en-US", "zh-CN", "ta-IN"]);
+export type AnnouncementLanguageType = z.infer<typeof AnnouncementLanguage>;
+
+// Default announcement template per language - {number}, {name} and {room} are replaced at call time
+export const DEFAULT_ANNOUNCEMENT_TEMPLATES: Record<AnnouncementLanguageType, string> = {
+  "ms-MY": "Nombor {number}, {name}, sila ke {room}",
+  "en-US": "Number {number}, {name}, please proceed to {room}",
+  "zh-CN": "{number}号, {name}, 请到 {room}",
+  "ta-IN": "எண் {number}, {name}, {room} க்கு வரவும்",
+};
+
+// Audio settings schema - preset chime followed by optional spoken announcement
 export const AudioSettingsSchema = z.object({
   enableSound: z.boolean().default(true),
   volume: z.number().min(0).max(100).default(70),
   soundMode: SoundMode.default("preset"),
   presetKey: PresetSoundKey.default("airport_call"),
+  enableAnnouncement: z.boolean().default(false),
+  announcementLanguage: AnnouncementLanguage.default("ms-MY"),
+  announcementTemplate: z.string().max(200).default(DEFAULT_ANNOUNCEMENT_TEMPLATES["ms-MY"]),
+  announcementRepeat: z.number().int().min(1).max(3).default(1),
+  speechRate: z.number().min(0.5).max(2).default(0.9),
+  speechPitch: z.number().min(0).max(2).default(1),
 });
 
 export type AudioSettings = z.infer<typeof AudioSettingsSchema>;
@@ -259,13 +574,21 @@ export type AudioSettings = z.infer<typeof AudioSettingsSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertWindow = z.infer<typeof insertWindowSchema>;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
+// Queue numbers are allocated by storage when the patient is inserted - callers never pick them
+export const newPatientSchema = insertPatientSchema.omit({ number: true });
+export type NewPatient = z.infer<typeof newPatientSchema>;
 export type InsertSetting = z.infer<typeof insertSettingSchema>;
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
 export type InsertTextGroup = z.infer<typeof insertTextGroupSchema>;
 export type InsertTheme = z.infer<typeof insertThemeSchema>;
 export type InsertQrSession = z.infer<typeof insertQrSessionSchema>;
+export type InsertDisplayToken = z.infer<typeof insertDisplayTokenSchema>;
+export type InsertService = z.infer<typeof insertServiceSchema>;
+export type InsertPatientEvent = typeof patientEvents.$inferInsert;
+export type KioskTicketRequest = z.infer<typeof kioskTicketSchema>;
 
 // Select types
+export type Clinic = typeof clinics.$inferSelect;
 export type User = typeof users.$inferSelect;
 export type Window = typeof windows.$inferSelect;
 export type Patient = typeof patients.$inferSelect;
@@ -274,3 +597,265 @@ export type Media = typeof media.$inferSelect;
 export type TextGroup = typeof textGroups.$inferSelect;
 export type Theme = typeof themes.$inferSelect;
 export type QrSession = typeof qrSessions.$inferSelect;
+export type DisplayToken = typeof displayTokens.$inferSelect;
+export type DisplayProfile = typeof displayProfiles.$inferSelect;
+export type InsertDisplayProfile = typeof displayProfiles.$inferInsert;
+export type Service = typeof services.$inferSelect;
+export type PatientEvent = typeof patientEvents.$inferSelect;
+export type DispensaryTicket = typeof dispensaryTickets.$inferSelect;
+export type QueueReset = typeof queueResets.$inferSelect;
+export type Appointment = typeof appointments.$inferSelect;
+export type PatientProfile = typeof patientProfiles.$inferSelect;
+export type InsertPatientProfile = typeof patientProfiles.$inferInsert;
+export type InsertAppointment = typeof appointments.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = typeof pushSubscriptions.$inferInsert;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = typeof auditLog.$inferInsert;
+
+// Clinic staff accounts (managed by the clinic manager)
+export const createStaffSchema = z.object({
+  username: z.string().trim().min(1, "Username required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  role: z.enum(CLINIC_STAFF_ROLES),
+  assignedWindowIds: z.array(z.string()).default([]),
+});
+
+export const updateStaffSchema = z.object({
+  role: z.enum(CLINIC_STAFF_ROLES).optional(),
+  assignedWindowIds: z.array(z.string()).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+});
+export type CreateStaffRequest = z.infer<typeof createStaffSchema>;
+export type UpdateStaffRequest = z.infer<typeof updateStaffSchema>;
+
+// Report date range (inclusive, YYYY-MM-DD) - capped at one year per request
+export const reportRangeSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to must be YYYY-MM-DD"),
+}).refine((range) => range.from <= range.to, {
+  message: "from must be on or before to",
+}).refine((range) => new Date(range.to).getTime() - new Date(range.from).getTime() <= 366 * 24 * 60 * 60 * 1000, {
+  message: "Date range cannot exceed one year",
+});
+export type ReportRange = z.infer<typeof reportRangeSchema>;
+
+export const exportFormatSchema = z.enum(["csv", "xlsx", "pdf"]);
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+// Clinic timezone, day rollover and opening hours (PATCH /api/clinic/schedule)
+const dayHoursSchema = z.object({
+  open: z.string().regex(TIME_OF_DAY_PATTERN, "Opening time must be HH:mm"),
+  close: z.string().regex(CLOSING_TIME_PATTERN, "Closing time must be HH:mm"),
+}).refine(hours => toMinutes(hours.close) > toMinutes(hours.open), {
+  message: "Closing time must be after opening time",
+});
+
+export const updateClinicScheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  dayRolloverTime: z.string().regex(TIME_OF_DAY_PATTERN, "Rollover time must be HH:mm").optional(),
+  openingHours: z.array(dayHoursSchema.nullable()).length(7, "Opening hours need one entry per weekday").nullable().optional(),
+});
+export type UpdateClinicScheduleRequest = z.infer<typeof updateClinicScheduleSchema>;
+
+export interface ClinicScheduleResponse {
+  timezone: string;
+  dayRolloverTime: string;
+  openingHours: OpeningHours | null;
+  today: string; // Current clinic day, YYYY-MM-DD
+  isOpen: boolean;
+}
+
+// Appointment bookings (POST /api/appointments, PATCH /api/appointments/:id)
+export const appointmentSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  slotTime: z.string().regex(TIME_OF_DAY_PATTERN, "Slot time must be HH:mm"),
+  patientName: z.string().trim().min(1, "Patient name is required").max(25, "Patient name cannot exceed 25 characters"),
+  phone: z.string().trim().max(20, "Phone number cannot exceed 20 characters").nullable().optional(),
+  serviceId: z.string().nullable().optional(),
+  notes: z.string().trim().max(200, "Notes cannot exceed 200 characters").nullable().optional(),
+});
+export const updateAppointmentSchema = appointmentSchema.partial();
+export type AppointmentRequest = z.infer<typeof appointmentSchema>;
+export type UpdateAppointmentRequest = z.infer<typeof updateAppointmentSchema>;
+
+// Setting key (category 'appointments') - patients checking in within this many minutes of
+// their slot are queued as priority ahead of walk-ins; 0 queues every booking as a walk-in
+export const APPOINTMENT_PRIORITY_SETTING_KEY = "appointmentPriorityMinutes";
+export const DEFAULT_APPOINTMENT_PRIORITY_MINUTES = 15;
+export const APPOINTMENT_PRIORITY_REASON = "APPOINTMENT";
+
+// Patient registry (POST /api/patient-profiles, PATCH /api/patient-profiles/:id)
+// IC numbers are stored as 12 digits - '900101-14-5678' and '900101145678' are the same person
+export const IC_NUMBER_PATTERN = /^\d{12}$/;
+
+export function normalizeIcNumber(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+// 900101145678 -> 900101-14-5678
+export function formatIcNumber(icNumber: string): string {
+  return IC_NUMBER_PATTERN.test(icNumber) ? `${icNumber.slice(0, 6)}-${icNumber.slice(6, 8)}-${icNumber.slice(8)}` : icNumber;
+}
+
+const profileFieldsSchema = z.object({
+  icNumber: z.string().transform(normalizeIcNumber).pipe(z.string().regex(IC_NUMBER_PATTERN, "IC number must be 12 digits")).nullable().optional(),
+  mrn: z.string().trim().toUpperCase().min(1, "MRN cannot be empty").max(30, "MRN cannot exceed 30 characters").nullable().optional(),
+  name: z.string().trim().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+  phone: z.string().trim().max(20, "Phone number cannot exceed 20 characters").nullable().optional(),
+  dateOfBirth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth must be YYYY-MM-DD").nullable().optional(),
+  notes: z.string().trim().max(500, "Notes cannot exceed 500 characters").nullable().optional(),
+});
+
+export const patientProfileSchema = profileFieldsSchema.refine(profile => !!profile.icNumber || !!profile.mrn, {
+  message: "IC number or MRN is required",
+});
+export const updatePatientProfileSchema = profileFieldsSchema.partial();
+export type PatientProfileRequest = z.infer<typeof patientProfileSchema>;
+export type UpdatePatientProfileRequest = z.infer<typeof updatePatientProfileSchema>;
+
+// One past visit on GET /api/patient-profiles/:id
+export interface PatientProfileVisit {
+  patientId: string;
+  ticket: string;
+  status: string;
+  serviceId: string | null;
+  registeredAt: Date;
+  completedAt: Date | null;
+  rooms: string[]; // In the order they were called to
+  requeueReasons: string[];
+}
+
+export interface PatientProfileDetail {
+  profile: PatientProfile;
+  visits: PatientProfileVisit[]; // Newest first
+}
+
+// Turn notifications (SMS/WhatsApp)
+export const NOTIFICATION_PROVIDERS = ["console", "twilio", "whatsapp"] as const;
+export type NotificationProviderName = typeof NOTIFICATION_PROVIDERS[number];
+export const NOTIFICATION_KINDS = ["near", "called"] as const; // "you are 3 away" / "please go to Bilik 2 now"
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+export const NOTIFICATION_STATUSES = ["pending", "sent", "delivered", "failed"] as const;
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+// Setting keys (category 'notifications'). Provider credentials stay in the server environment.
+export const NOTIFICATION_SETTING_KEYS = {
+  enabled: "notificationsEnabled",
+  provider: "notificationProvider",
+  positionsAhead: "notificationPositionsAhead",
+  nearTemplate: "notificationNearTemplate",
+  calledTemplate: "notificationCalledTemplate",
+} as const;
+export const DEFAULT_NOTIFICATION_POSITIONS_AHEAD = 3;
+
+// {ticket}, {name}, {ahead} (calls left before theirs), {room} and {clinic} are replaced at send time
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationKind, string> = {
+  near: "{clinic}: Nombor {ticket}, giliran anda {ahead} lagi. Sila kembali ke ruang menunggu.",
+  called: "{clinic}: Nombor {ticket}, sila ke {room} sekarang.",
+};
+
+export interface NotificationSettings {
+  enabled: boolean;
+  provider: NotificationProviderName;
+  positionsAhead: number;
+  templates: Record<NotificationKind, string>;
+}
+
+export const notificationSettingsSchema = z.object({
+  enabled: z.boolean(),
+  provider: z.enum(NOTIFICATION_PROVIDERS),
+  positionsAhead: z.number().int().min(1, "Positions ahead must be at least 1").max(20, "Positions ahead cannot exceed 20"),
+  templates: z.object({
+    near: z.string().trim().min(1, "Near template is required").max(320, "Templates cannot exceed 320 characters"),
+    called: z.string().trim().min(1, "Called template is required").max(320, "Templates cannot exceed 320 characters"),
+  }),
+});
+
+// GET /api/notifications/settings - which providers have credentials on this server
+export interface NotificationSettingsResponse extends NotificationSettings {
+  configuredProviders: NotificationProviderName[];
+}
+
+// Web Push subscription from the status page (POST /api/status/:code/push) - PushSubscription.toJSON() shape
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url("Invalid push endpoint").startsWith("https://", "Push endpoint must use https").max(1000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+});
+export type PushSubscriptionRequest = z.infer<typeof pushSubscriptionSchema>;
+
+// A queue reset can be undone for this long, as long as no new patient has registered since
+export const QUEUE_RESET_UNDO_MINUTES = 30;
+
+export function getQueueResetUndoDeadline(reset: Pick<QueueReset, "createdAt">): Date {
+  return new Date(new Date(reset.createdAt).getTime() + QUEUE_RESET_UNDO_MINUTES * 60 * 1000);
+}
+
+// GET /api/patients/reset-queue/latest
+export interface QueueResetStatus extends QueueReset {
+  undoDeadline: Date;
+  canUndo: boolean;
+}
+
+// Audit log
+export const AUDIT_TARGET_TYPES = ["clinic", "patient", "patient_profile", "appointment", "queue", "window", "dispensary", "service", "settings", "theme", "media", "text_group", "display_token", "display_profile", "user"] as const;
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+// Setting key (category 'audit') - entries older than this many days are purged
+export const AUDIT_RETENTION_SETTING_KEY = "auditRetentionDays";
+export const DEFAULT_AUDIT_RETENTION_DAYS = 365;
+
+export const auditLogQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from must be YYYY-MM-DD").optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to must be YYYY-MM-DD").optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  q: z.string().trim().max(100).optional(), // Matches actor, action or target id
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  total: number;
+  retentionDays: number;
+}
+
+// Report payloads (/api/reports/*) - durations in minutes, rounded to 1 decimal
+export interface WaitTimeReport {
+  totalPatients: number;
+  calledPatients: number;
+  completedPatients: number;
+  averageWaitMinutes: number | null;
+  p90WaitMinutes: number | null;
+  averageDispensaryTurnaroundMinutes: number | null;
+  dispensaryPatients: number;
+}
+
+export interface RoomReportRow {
+  roomName: string;
+  consultations: number;
+  averageConsultMinutes: number | null;
+}
+
+export interface HourlyReport {
+  // counts[dayOfWeek][hour], dayOfWeek 0 = Sunday
+  counts: number[][];
+  byHour: { hour: number; patients: number }[];
+}
+
+export interface RequeueReasonRow {
+  reason: string;
+  count: number;
+}
+
+// Ticket number shown to patients: prefix + zero-padded daily number (A001, B014, or 023 without a service)
+export function formatTicketNumber(prefix: string | null | undefined, number: number): string {
+  return `${prefix || ''}${number.toString().padStart(3, '0')}`;
+}
@@ -0,0 +1,186 @@
+import { z } from "zod";
+
+// TV screen layout - a grid of widget slots, stored as JSON in the clinic's 'tvLayout' setting
+// (category 'display'). Every TV of the clinic re-renders when it changes (settings:updated).
+
+// 'info' shows prayer times or weather, whichever is switched on in the display settings
+export const TV_WIDGET_TYPES = ["media", "header", "current-call", "history", "clock", "info", "marquee"] as const;
+export type TvWidgetType = typeof TV_WIDGET_TYPES[number];
+
+export const TV_WIDGET_LABELS: Record<TvWidgetType, string> = {
+  media: "Media slideshow",
+  header: "Logo & clinic name",
+  "current-call": "Current call",
+  history: "Call history",
+  clock: "Date & time",
+  info: "Prayer times / weather",
+  marquee: "Scrolling text",
+};
+
+export const TV_LAYOUT_ORIENTATIONS = ["landscape", "portrait"] as const;
+export type TvLayoutOrientation = typeof TV_LAYOUT_ORIENTATIONS[number];
+
+// Stage size the layout is drawn on - scaled to fit the actual screen
+export const TV_STAGE_SIZES: Record<TvLayoutOrientation, { width: number; height: number }> = {
+  landscape: { width: 1920, height: 1080 },
+  portrait: { width: 1080, height: 1920 },
+};
+
+export const TV_LAYOUT_SETTING_KEY = "tvLayout";
+export const TV_LAYOUT_PRESETS_SETTING_KEY = "tvLayoutPresets"; // Presets saved by the clinic
+export const TV_LAYOUT_GRID_SIZE = 12; // Maximum rows and columns
+export const MAX_SAVED_TV_LAYOUT_PRESETS = 10;
+
+const tvWidgetOptionsSchema = z.object({
+  historyCount: z.number().int().min(1).max(10).optional(), // history - rows shown
+  mediaFit: z.enum(["cover", "contain"]).optional(), // media - crop or letterbox
+}).strict();
+export type TvWidgetOptions = z.infer<typeof tvWidgetOptionsSchema>;
+
+// row/column are 1-based grid lines, like CSS grid
+const tvWidgetSlotSchema = z.object({
+  id: z.string().min(1).max(40),
+  widget: z.enum(TV_WIDGET_TYPES),
+  row: z.number().int().min(1),
+  column: z.number().int().min(1),
+  rowSpan: z.number().int().min(1),
+  columnSpan: z.number().int().min(1),
+  options: tvWidgetOptionsSchema.optional(),
+});
+export type TvWidgetSlot = z.infer<typeof tvWidgetSlotSchema>;
+
+export const tvLayoutSchema = z.object({
+  orientation: z.enum(TV_LAYOUT_ORIENTATIONS),
+  columns: z.number().int().min(1).max(TV_LAYOUT_GRID_SIZE),
+  rows: z.number().int().min(1).max(TV_LAYOUT_GRID_SIZE),
+  slots: z.array(tvWidgetSlotSchema).min(1, "Add at least one widget").max(TV_LAYOUT_GRID_SIZE * TV_LAYOUT_GRID_SIZE),
+}).superRefine((layout, ctx) => {
+  const problem = findTvLayoutProblem(layout);
+  if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+});
+export type TvLayout = z.infer<typeof tvLayoutSchema>;
+
+export const tvLayoutPresetSchema = z.object({
+  name: z.string().trim().min(1, "Preset name is required").max(40, "Preset name cannot exceed 40 characters"),
+  layout: tvLayoutSchema,
+});
+export type TvLayoutPreset = z.infer<typeof tvLayoutPresetSchema>;
+
+// PUT /api/tv-layout
+export const tvLayoutSettingsSchema = z.object({
+  layout: tvLayoutSchema,
+  presets: z.array(tvLayoutPresetSchema).max(MAX_SAVED_TV_LAYOUT_PRESETS, `At most ${MAX_SAVED_TV_LAYOUT_PRESETS} saved presets`).optional(),
+});
+export type TvLayoutSettings = z.infer<typeof tvLayoutSettingsSchema>;
+
+// Slots must stay inside the grid and may not overlap; each widget appears at most once
+export function findTvLayoutProblem(layout: Pick<TvLayout, "columns" | "rows" | "slots">): string | null {
+  const taken = new Set<string>();
+  const widgets = new Set<TvWidgetType>();
+  for (const slot of layout.slots) {
+    if (slot.column + slot.columnSpan - 1 > layout.columns || slot.row + slot.rowSpan - 1 > layout.rows) {
+      return `${TV_WIDGET_LABELS[slot.widget]} does not fit in the grid`;
+    }
+    if (widgets.has(slot.widget)) {
+      return `${TV_WIDGET_LABELS[slot.widget]} is placed twice`;
+    }
+    widgets.add(slot.widget);
+    for (let row = slot.row; row < slot.row + slot.rowSpan; row++) {
+      for (let column = slot.column; column < slot.column + slot.columnSpan; column++) {
+        const cell = `${row}:${column}`;
+        if (taken.has(cell)) return `${TV_WIDGET_LABELS[slot.widget]} overlaps another widget`;
+        taken.add(cell);
+      }
+    }
+  }
+  return null;
+}
+
+function slot(widget: TvWidgetType, row: number, column: number, rowSpan: number, columnSpan: number, options?: TvWidgetOptions): TvWidgetSlot {
+  return { id: widget, widget, row, column, rowSpan, columnSpan, ...(options ? { options } : {}) };
+}
+
+// The arrangement TVs always had: 16:9 media top left, calls down the right, date and prayer times / weather below the media
+export const DEFAULT_TV_LAYOUT: TvLayout = {
+  orientation: "landscape",
+  columns: 12,
+  rows: 12,
+  slots: [
+    slot("media", 1, 1, 8, 8),
+    slot("header", 1, 9, 3, 4),
+    slot("current-call", 4, 9, 3, 4),
+    slot("history", 7, 9, 6, 4, { historyCount: 3 }),
+    slot("clock", 9, 1, 2, 8),
+    slot("info", 11, 1, 2, 8),
+  ],
+};
+
+export const BUILT_IN_TV_LAYOUT_PRESETS: TvLayoutPreset[] = [
+  { name: "Classic", layout: DEFAULT_TV_LAYOUT },
+  {
+    name: "Portrait TV",
+    layout: {
+      orientation: "portrait",
+      columns: 6,
+      rows: 12,
+      slots: [
+        slot("header", 1, 1, 1, 6),
+        slot("current-call", 2, 1, 3, 6),
+        slot("media", 5, 1, 4, 6),
+        slot("history", 9, 1, 2, 6, { historyCount: 3 }),
+        slot("clock", 11, 1, 1, 6),
+        slot("info", 12, 1, 1, 6),
+      ],
+    },
+  },
+  {
+    name: "Split screen",
+    layout: {
+      orientation: "landscape",
+      columns: 12,
+      rows: 12,
+      slots: [
+        slot("media", 1, 1, 11, 6, { mediaFit: "contain" }),
+        slot("header", 1, 7, 2, 6),
+        slot("current-call", 3, 7, 4, 6),
+        slot("history", 7, 7, 5, 6, { historyCount: 4 }),
+        slot("marquee", 12, 1, 1, 12),
+      ],
+    },
+  },
+  {
+    name: "Call only",
+    layout: {
+      orientation: "landscape",
+      columns: 12,
+      rows: 12,
+      slots: [
+        slot("header", 1, 1, 2, 12),
+        slot("current-call", 3, 1, 6, 12),
+        slot("history", 9, 1, 3, 12, { historyCount: 3 }),
+        slot("clock", 12, 1, 1, 12),
+      ],
+    },
+  },
+];
+
+// Stored setting value -> layout; missing or invalid values fall back to the classic arrangement
+export function parseTvLayout(value: string | null | undefined): TvLayout {
+  if (!value) return DEFAULT_TV_LAYOUT;
+  try {
+    const result = tvLayoutSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : DEFAULT_TV_LAYOUT;
+  } catch {
+    return DEFAULT_TV_LAYOUT;
+  }
+}
+
+export function parseTvLayoutPresets(value: string | null | undefined): TvLayoutPreset[] {
+  if (!value) return [];
+  try {
+    const result = z.array(tvLayoutPresetSchema).safeParse(JSON.parse(value));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}